@@ -0,0 +1,323 @@
+-- ============================================
+-- MesseMemo Credit Reservations Migration
+-- Version: 003
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Ersetzt das Muster "use_ai_credit + manuelles add_ai_credits" durch
+-- Reservierungen: reserve → commit (Erfolg) bzw. release (Fehler).
+-- Jede Reservierung ist an einen Idempotency-Key gebunden, damit ein
+-- Client-Retry nach Timeout nicht doppelt abgerechnet wird.
+-- Alle RPCs nehmen User- bzw. Reservierungs-IDs entgegen und sind daher
+-- nur für die Edge Functions (Service Role) ausführbar.
+-- ============================================
+
+-- ============================================
+-- 1. Tabelle credit_reservations
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.credit_reservations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+    -- Welche Edge Function hat reserviert (z.B. 'process-card')
+    function_name TEXT NOT NULL,
+
+    -- Vom Client gesendeter Idempotency-Key Header
+    idempotency_key TEXT NOT NULL,
+
+    -- Reservierte Credits (0 bei Premium-Usern)
+    amount INTEGER NOT NULL DEFAULT 1,
+
+    -- reserved → committed | released
+    status TEXT NOT NULL DEFAULT 'reserved'
+        CHECK (status IN ('reserved', 'committed', 'released')),
+
+    -- Original-Antwort für Replays mit demselben Key
+    response_status INTEGER,
+    response_body JSONB,
+
+    -- Nicht committete Reservierungen verfallen automatisch
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    UNIQUE (user_id, function_name, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS credit_reservations_open_idx
+    ON public.credit_reservations (expires_at)
+    WHERE status = 'reserved';
+
+DROP TRIGGER IF EXISTS credit_reservations_updated_at ON public.credit_reservations;
+CREATE TRIGGER credit_reservations_updated_at
+    BEFORE UPDATE ON public.credit_reservations
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Nur Edge Functions (Service Role) greifen zu, keine Policies für User
+ALTER TABLE public.credit_reservations ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.credit_reservations IS
+'Credit-Reservierungen der Edge Functions inkl. Idempotency-Key und gespeicherter Antwort.';
+
+-- ============================================
+-- 2. RPC: Abgelaufene Reservierungen freigeben
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.release_expired_credit_reservations(
+    p_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_released INTEGER := 0;
+    v_row RECORD;
+BEGIN
+    FOR v_row IN
+        SELECT r.id, r.user_id, r.amount
+        FROM credit_reservations r
+        WHERE r.status = 'reserved'
+          AND r.expires_at < NOW()
+          AND (p_user_id IS NULL OR r.user_id = p_user_id)
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        UPDATE credit_reservations r
+        SET status = 'released'
+        WHERE r.id = v_row.id;
+
+        IF v_row.amount > 0 THEN
+            UPDATE profiles p
+            SET ai_credits_balance = p.ai_credits_balance + v_row.amount,
+                updated_at = NOW()
+            WHERE p.id = v_row.user_id;
+        END IF;
+
+        v_released := v_released + 1;
+    END LOOP;
+
+    RETURN v_released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_expired_credit_reservations FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.release_expired_credit_reservations IS
+'Gibt nie committete, abgelaufene Reservierungen frei und erstattet die Credits.';
+
+-- ============================================
+-- 3. RPC: Credit reservieren
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.reserve_ai_credit(
+    p_user_id UUID,
+    p_function_name TEXT,
+    p_idempotency_key TEXT,
+    p_ttl_seconds INTEGER DEFAULT 120
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    reservation_id UUID,
+    credits_remaining INTEGER,
+    error_message TEXT,
+    replayed BOOLEAN,
+    response_status INTEGER,
+    response_body JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_current_credits INTEGER;
+    v_is_premium BOOLEAN;
+    v_existing_id UUID;
+    v_existing_status TEXT;
+    v_existing_response_status INTEGER;
+    v_existing_response_body JSONB;
+    v_amount INTEGER;
+    v_reservation_id UUID;
+BEGIN
+    -- Verwaiste Reservierungen dieses Users zuerst freigeben
+    PERFORM release_expired_credit_reservations(p_user_id);
+
+    -- Existiert bereits eine Reservierung mit diesem Key?
+    SELECT r.id, r.status, r.response_status, r.response_body
+    INTO v_existing_id, v_existing_status, v_existing_response_status, v_existing_response_body
+    FROM credit_reservations r
+    WHERE r.user_id = p_user_id
+      AND r.function_name = p_function_name
+      AND r.idempotency_key = p_idempotency_key
+    FOR UPDATE;
+
+    IF FOUND THEN
+        -- Bereits erfolgreich → Original-Antwort zurückgeben, nichts abbuchen
+        IF v_existing_status = 'committed' THEN
+            RETURN QUERY SELECT TRUE, v_existing_id, NULL::INTEGER, NULL::TEXT,
+                TRUE, v_existing_response_status, v_existing_response_body;
+            RETURN;
+        END IF;
+
+        -- Läuft noch (paralleler Retry)
+        IF v_existing_status = 'reserved' THEN
+            RETURN QUERY SELECT FALSE, v_existing_id, NULL::INTEGER,
+                'Anfrage wird bereits verarbeitet'::TEXT, FALSE, NULL::INTEGER, NULL::JSONB;
+            RETURN;
+        END IF;
+
+        -- 'released' → neuer Versuch mit demselben Key ist erlaubt
+    END IF;
+
+    SELECT p.ai_credits_balance, p.is_premium
+    INTO v_current_credits, v_is_premium
+    FROM profiles p
+    WHERE p.id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, 0, 'User nicht gefunden'::TEXT,
+            FALSE, NULL::INTEGER, NULL::JSONB;
+        RETURN;
+    END IF;
+
+    IF v_is_premium THEN
+        v_amount := 0;
+    ELSE
+        IF v_current_credits < 1 THEN
+            RETURN QUERY SELECT FALSE, NULL::UUID, 0, 'Kein Guthaben mehr'::TEXT,
+                FALSE, NULL::INTEGER, NULL::JSONB;
+            RETURN;
+        END IF;
+
+        v_amount := 1;
+
+        UPDATE profiles p
+        SET ai_credits_balance = p.ai_credits_balance - v_amount,
+            updated_at = NOW()
+        WHERE p.id = p_user_id;
+    END IF;
+
+    IF v_existing_id IS NOT NULL THEN
+        UPDATE credit_reservations r
+        SET status = 'reserved',
+            amount = v_amount,
+            response_status = NULL,
+            response_body = NULL,
+            expires_at = NOW() + make_interval(secs => p_ttl_seconds)
+        WHERE r.id = v_existing_id;
+        v_reservation_id := v_existing_id;
+    ELSE
+        INSERT INTO credit_reservations (user_id, function_name, idempotency_key, amount, expires_at)
+        VALUES (p_user_id, p_function_name, p_idempotency_key, v_amount,
+                NOW() + make_interval(secs => p_ttl_seconds))
+        RETURNING id INTO v_reservation_id;
+    END IF;
+
+    RETURN QUERY SELECT TRUE, v_reservation_id,
+        CASE WHEN v_is_premium THEN -1 ELSE v_current_credits - v_amount END, -- -1 = unbegrenzt
+        NULL::TEXT, FALSE, NULL::INTEGER, NULL::JSONB;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_ai_credit FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.reserve_ai_credit IS
+'Reserviert 1 KI-Credit für einen Idempotency-Key. Bei bereits committetem Key wird die gespeicherte Antwort zurückgegeben.';
+
+-- ============================================
+-- 4. RPC: Reservierung committen
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.commit_ai_credit(
+    p_reservation_id UUID,
+    p_response_status INTEGER,
+    p_response_body JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE credit_reservations r
+    SET status = 'committed',
+        response_status = p_response_status,
+        response_body = p_response_body
+    WHERE r.id = p_reservation_id
+      AND r.status = 'reserved';
+
+    RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.commit_ai_credit FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.commit_ai_credit IS
+'Markiert eine Reservierung als verbraucht und speichert die Antwort für Replays.';
+
+-- ============================================
+-- 5. RPC: Reservierung freigeben (Refund)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.release_ai_credit(p_reservation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_amount INTEGER;
+BEGIN
+    -- Nur offene Reservierungen → kein doppelter Refund möglich
+    UPDATE credit_reservations r
+    SET status = 'released'
+    WHERE r.id = p_reservation_id
+      AND r.status = 'reserved'
+    RETURNING r.user_id, r.amount INTO v_user_id, v_amount;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF v_amount > 0 THEN
+        UPDATE profiles p
+        SET ai_credits_balance = p.ai_credits_balance + v_amount,
+            updated_at = NOW()
+        WHERE p.id = v_user_id;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_ai_credit FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.release_ai_credit IS
+'Gibt eine offene Reservierung frei und erstattet den Credit.';
+
+-- ============================================
+-- 6. Automatische Freigabe (pg_cron, optional)
+-- ============================================
+-- Reservierungen werden zusätzlich bei jedem reserve_ai_credit des Users
+-- freigegeben. pg_cron räumt auch bei Usern auf, die nicht wiederkommen.
+-- Voraussetzung: Extension pg_cron ist im Dashboard aktiviert.
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'release-expired-credit-reservations',
+            '*/5 * * * *',
+            'SELECT public.release_expired_credit_reservations()'
+        );
+    END IF;
+END;
+$$;
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
@@ -0,0 +1,72 @@
+-- ============================================
+-- MesseMemo User Settings Migration
+-- Version: 004
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Pro User eine Zeile mit Standardwerten für generate-email
+-- (Sprache, Tonalität, Anrede, Länge) und den Signatur-Feldern.
+-- Fehlt die Zeile, gelten die Spalten-Defaults.
+-- Der Name in der Signatur kommt aus profiles.display_name.
+-- ============================================
+
+-- ============================================
+-- 1. Tabelle user_settings
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.user_settings (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+    -- E-Mail-Defaults (im Request überschreibbar)
+    email_language TEXT NOT NULL DEFAULT 'de'
+        CHECK (email_language ~ '^[a-z]{2}$'),
+    email_tone TEXT NOT NULL DEFAULT 'formal'
+        CHECK (email_tone IN ('formal', 'casual')),
+    email_address_form TEXT NOT NULL DEFAULT 'sie'
+        CHECK (email_address_form IN ('sie', 'du')),
+    email_length TEXT NOT NULL DEFAULT 'medium'
+        CHECK (email_length IN ('short', 'medium', 'long')),
+
+    -- Signatur (unter dem Namen aus profiles.display_name)
+    signature_title TEXT DEFAULT '',
+    signature_company TEXT DEFAULT '',
+    signature_phone TEXT DEFAULT '',
+    signature_email TEXT DEFAULT '',
+    signature_website TEXT DEFAULT '',
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+DROP TRIGGER IF EXISTS user_settings_updated_at ON public.user_settings;
+CREATE TRIGGER user_settings_updated_at
+    BEFORE UPDATE ON public.user_settings
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+COMMENT ON TABLE public.user_settings IS
+'Persönliche Einstellungen: Defaults für generierte E-Mails und Signatur.';
+
+-- ============================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+-- User kann nur eigene Einstellungen sehen
+DROP POLICY IF EXISTS "Users can view own settings" ON public.user_settings;
+CREATE POLICY "Users can view own settings"
+    ON public.user_settings FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- User kann eigene Einstellungen anlegen
+DROP POLICY IF EXISTS "Users can create own settings" ON public.user_settings;
+CREATE POLICY "Users can create own settings"
+    ON public.user_settings FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+-- User kann eigene Einstellungen ändern
+DROP POLICY IF EXISTS "Users can update own settings" ON public.user_settings;
+CREATE POLICY "Users can update own settings"
+    ON public.user_settings FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,77 @@
+-- ============================================
+-- MesseMemo Email Templates Migration
+-- Version: 005
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Freigegebene E-Mail-Vorlagen pro User (z.B. je Produktlinie).
+-- Platzhalter wie {{name}}, {{company}} oder {{transcript_summary}}
+-- werden von generate-email gefüllt (siehe _shared/templates.ts).
+-- Verwaltung über die Edge Function email-templates.
+-- ============================================
+
+-- ============================================
+-- 1. Tabelle email_templates
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.email_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+    -- Anzeigename, z.B. "Produktlinie A – Erstkontakt"
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+
+    -- Optionale Zuordnung zu einer Produktlinie
+    product_line TEXT DEFAULT '',
+
+    -- Sprache der Vorlage (ISO 639-1), NULL = User-Default
+    language TEXT CHECK (language IS NULL OR language ~ '^[a-z]{2}$'),
+
+    -- Vorlagen-Texte mit {{platzhaltern}}
+    subject_template TEXT NOT NULL CHECK (char_length(subject_template) <= 200),
+    body_template TEXT NOT NULL CHECK (char_length(body_template) <= 5000),
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS email_templates_user_id_idx ON public.email_templates(user_id);
+
+DROP TRIGGER IF EXISTS email_templates_updated_at ON public.email_templates;
+CREATE TRIGGER email_templates_updated_at
+    BEFORE UPDATE ON public.email_templates
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+COMMENT ON TABLE public.email_templates IS
+'E-Mail-Vorlagen mit {{platzhaltern}}, je User. Genutzt von generate-email (template_id).';
+
+-- ============================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+-- User kann nur eigene Vorlagen sehen
+DROP POLICY IF EXISTS "Users can view own templates" ON public.email_templates;
+CREATE POLICY "Users can view own templates"
+    ON public.email_templates FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- User kann nur eigene Vorlagen erstellen
+DROP POLICY IF EXISTS "Users can create own templates" ON public.email_templates;
+CREATE POLICY "Users can create own templates"
+    ON public.email_templates FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+-- User kann nur eigene Vorlagen aktualisieren
+DROP POLICY IF EXISTS "Users can update own templates" ON public.email_templates;
+CREATE POLICY "Users can update own templates"
+    ON public.email_templates FOR UPDATE
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- User kann nur eigene Vorlagen löschen
+DROP POLICY IF EXISTS "Users can delete own templates" ON public.email_templates;
+CREATE POLICY "Users can delete own templates"
+    ON public.email_templates FOR DELETE
+    USING (auth.uid() = user_id);
@@ -0,0 +1,212 @@
+-- ============================================
+-- MesseMemo Leads Sync Migration
+-- Version: 006
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Bringt public.leads in Einklang mit dem SwiftData-Modell `Lead`
+-- und bereitet den Delta-Sync (Edge Function sync-leads) vor:
+--   - note_text → notes (wie Lead.notes)
+--   - original_image_filename (wie Lead.originalImageFilename)
+--   - deleted_at als Tombstone statt hartem Löschen
+--   - sync_xid + sync_seq als Cursor (Commit-Reihenfolge, unabhängig von
+--     Geräteuhren), gelesen über sync_pull_leads
+--   - updated_at kommt vom Gerät (Last-Writer-Wins), nur ohne expliziten
+--     Wert setzt der Trigger die Serverzeit
+-- ============================================
+
+-- ============================================
+-- 1. Spalten angleichen
+-- ============================================
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'leads' AND column_name = 'note_text'
+    ) THEN
+        ALTER TABLE public.leads RENAME COLUMN note_text TO notes;
+    END IF;
+END $$;
+
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS notes TEXT DEFAULT '';
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS original_image_filename TEXT;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- ============================================
+-- 2. Änderungsnummer für den Sync-Cursor
+-- ============================================
+-- sync_seq allein reicht nicht: die Nummer wird beim Schreiben vergeben,
+-- sichtbar wird die Zeile erst beim Commit. Eine Transaktion mit kleinerer
+-- Nummer kann nach einer mit größerer committen – ein Cursor über sync_seq
+-- wäre dann schon daran vorbei. Deshalb zählt zuerst die Transaktions-ID
+-- (sync_xid), und sync_pull_leads liefert nur Zeilen von Transaktionen, die
+-- älter sind als jede noch laufende (pg_snapshot_xmin). Spätere Änderungen
+-- bekommen immer eine größere sync_xid und landen hinter dem Cursor.
+
+CREATE SEQUENCE IF NOT EXISTS public.leads_sync_seq;
+
+ALTER TABLE public.leads
+    ADD COLUMN IF NOT EXISTS sync_seq BIGINT NOT NULL DEFAULT nextval('public.leads_sync_seq');
+
+ALTER TABLE public.leads
+    ADD COLUMN IF NOT EXISTS sync_xid XID8 NOT NULL DEFAULT pg_current_xact_id();
+
+DROP INDEX IF EXISTS public.leads_user_sync_seq_idx;
+CREATE INDEX IF NOT EXISTS leads_user_sync_idx ON public.leads(user_id, sync_xid, sync_seq);
+
+-- ============================================
+-- 3. Trigger: sync_xid, sync_seq & updated_at
+-- ============================================
+-- Ersetzt leads_updated_at aus supabase_schema.sql.
+
+CREATE OR REPLACE FUNCTION public.handle_leads_sync()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.sync_xid = pg_current_xact_id();
+    NEW.sync_seq = nextval('public.leads_sync_seq');
+
+    -- Ohne neuen updated_at (z.B. Dashboard-Edit) gilt die Serverzeit
+    IF TG_OP = 'UPDATE' AND NEW.updated_at IS NOT DISTINCT FROM OLD.updated_at THEN
+        NEW.updated_at = timezone('utc'::text, now());
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS leads_updated_at ON public.leads;
+DROP TRIGGER IF EXISTS leads_sync ON public.leads;
+CREATE TRIGGER leads_sync
+    BEFORE INSERT OR UPDATE ON public.leads
+    FOR EACH ROW EXECUTE FUNCTION public.handle_leads_sync();
+
+-- ============================================
+-- 4. RPC: Batch-Upsert mit Last-Writer-Wins
+-- ============================================
+-- Pro Lead ein Ergebnis:
+--   applied       → Version des Geräts übernommen (neu oder neuer)
+--   unchanged     → gleicher updated_at wie auf dem Server
+--   conflict      → Server-Version ist neuer, Gerät muss sie übernehmen
+--   forbidden     → ID gehört einem anderen User
+--
+-- Felder, die das Gerät nicht mitschickt, bleiben unverändert; nur ein
+-- explizites null leert ein Feld.
+
+CREATE OR REPLACE FUNCTION public.sync_upsert_leads(
+    p_user_id UUID,
+    p_leads JSONB
+)
+RETURNS TABLE (
+    lead_id UUID,
+    status TEXT,
+    server_updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_item JSONB;
+    v_id UUID;
+    v_updated_at TIMESTAMP WITH TIME ZONE;
+    v_existing_user UUID;
+    v_existing_updated TIMESTAMP WITH TIME ZONE;
+BEGIN
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_leads)
+    LOOP
+        v_id := (v_item->>'id')::UUID;
+        v_updated_at := (v_item->>'updated_at')::TIMESTAMP WITH TIME ZONE;
+
+        SELECT l.user_id, l.updated_at
+        INTO v_existing_user, v_existing_updated
+        FROM leads l
+        WHERE l.id = v_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            INSERT INTO leads (
+                id, user_id, name, company, email, phone, notes, transcript,
+                generated_email, original_image_filename, audio_url, audio_duration_seconds,
+                created_at, updated_at, deleted_at
+            )
+            VALUES (
+                v_id,
+                p_user_id,
+                COALESCE(v_item->>'name', ''),
+                COALESCE(v_item->>'company', ''),
+                COALESCE(v_item->>'email', ''),
+                COALESCE(v_item->>'phone', ''),
+                COALESCE(v_item->>'notes', ''),
+                v_item->>'transcript',
+                v_item->>'generated_email',
+                v_item->>'original_image_filename',
+                v_item->>'audio_url',
+                (v_item->>'audio_duration_seconds')::INTEGER,
+                COALESCE((v_item->>'created_at')::TIMESTAMP WITH TIME ZONE, v_updated_at),
+                v_updated_at,
+                (v_item->>'deleted_at')::TIMESTAMP WITH TIME ZONE
+            );
+            RETURN QUERY SELECT v_id, 'applied'::TEXT, v_updated_at;
+
+        ELSIF v_existing_user <> p_user_id THEN
+            RETURN QUERY SELECT v_id, 'forbidden'::TEXT, NULL::TIMESTAMP WITH TIME ZONE;
+
+        ELSIF v_updated_at > v_existing_updated THEN
+            UPDATE leads l
+            SET name = CASE WHEN v_item ? 'name' THEN COALESCE(v_item->>'name', '') ELSE l.name END,
+                company = CASE WHEN v_item ? 'company' THEN COALESCE(v_item->>'company', '') ELSE l.company END,
+                email = CASE WHEN v_item ? 'email' THEN COALESCE(v_item->>'email', '') ELSE l.email END,
+                phone = CASE WHEN v_item ? 'phone' THEN COALESCE(v_item->>'phone', '') ELSE l.phone END,
+                notes = CASE WHEN v_item ? 'notes' THEN COALESCE(v_item->>'notes', '') ELSE l.notes END,
+                transcript = CASE WHEN v_item ? 'transcript' THEN v_item->>'transcript' ELSE l.transcript END,
+                generated_email = CASE WHEN v_item ? 'generated_email' THEN v_item->>'generated_email' ELSE l.generated_email END,
+                original_image_filename = CASE WHEN v_item ? 'original_image_filename' THEN v_item->>'original_image_filename' ELSE l.original_image_filename END,
+                audio_url = CASE WHEN v_item ? 'audio_url' THEN v_item->>'audio_url' ELSE l.audio_url END,
+                audio_duration_seconds = CASE WHEN v_item ? 'audio_duration_seconds' THEN (v_item->>'audio_duration_seconds')::INTEGER ELSE l.audio_duration_seconds END,
+                updated_at = v_updated_at,
+                deleted_at = CASE WHEN v_item ? 'deleted_at' THEN (v_item->>'deleted_at')::TIMESTAMP WITH TIME ZONE ELSE l.deleted_at END
+            WHERE l.id = v_id;
+            RETURN QUERY SELECT v_id, 'applied'::TEXT, v_updated_at;
+
+        ELSIF v_updated_at = v_existing_updated THEN
+            RETURN QUERY SELECT v_id, 'unchanged'::TEXT, v_existing_updated;
+
+        ELSE
+            RETURN QUERY SELECT v_id, 'conflict'::TEXT, v_existing_updated;
+        END IF;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_upsert_leads FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.sync_upsert_leads IS
+'Batch-Upsert von Leads mit Last-Writer-Wins auf updated_at. Wird von der Edge Function sync-leads aufgerufen.';
+
+-- ============================================
+-- 5. RPC: Änderungen seit Cursor
+-- ============================================
+-- Läuft mit den Rechten des Aufrufers (RLS wie beim direkten SELECT).
+-- Zeilen noch laufender oder jüngerer Transaktionen kommen erst beim
+-- nächsten Abruf – eine lange Transaktion hält den Sync so lange auf.
+
+CREATE OR REPLACE FUNCTION public.sync_pull_leads(
+    p_after_xid TEXT,
+    p_after_seq BIGINT,
+    p_limit INTEGER
+)
+RETURNS SETOF public.leads
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT l.*
+    FROM public.leads l
+    WHERE (l.sync_xid, l.sync_seq) > (p_after_xid::XID8, p_after_seq)
+      AND l.sync_xid < pg_snapshot_xmin(pg_current_snapshot())
+    ORDER BY l.sync_xid, l.sync_seq
+    LIMIT p_limit;
+$$;
+
+COMMENT ON FUNCTION public.sync_pull_leads IS
+'Leads nach dem Cursor (sync_xid, sync_seq), nur aus abgeschlossenen Transaktionen. Wird von der Edge Function sync-leads aufgerufen.';
@@ -0,0 +1,135 @@
+-- ============================================
+-- MesseMemo Lead Merges Migration
+-- Version: 007
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Zusammenführen von Dubletten (Edge Function merge-leads).
+-- Der primäre Lead bekommt die zusammengeführten Werte, der sekundäre
+-- wird per Tombstone (deleted_at) gelöscht, damit sync-leads die Löschung
+-- an alle Geräte verteilt. Jeder Merge wird in lead_merges protokolliert.
+-- ============================================
+
+-- ============================================
+-- 1. Tabelle lead_merges (Audit)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.lead_merges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+    primary_lead_id UUID NOT NULL,
+    secondary_lead_id UUID NOT NULL,
+
+    -- Beide Leads vor dem Merge (vollständige Zeilen)
+    primary_before JSONB NOT NULL,
+    secondary_before JSONB NOT NULL,
+
+    -- Übernommene Werte und Herkunft je Feld ('primary' | 'secondary' | 'combined')
+    merged_values JSONB NOT NULL,
+    field_sources JSONB NOT NULL,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS lead_merges_user_id_idx ON public.lead_merges(user_id, created_at DESC);
+
+ALTER TABLE public.lead_merges ENABLE ROW LEVEL SECURITY;
+
+-- User kann eigene Merges einsehen, geschrieben wird nur per RPC
+DROP POLICY IF EXISTS "Users can view own lead merges" ON public.lead_merges;
+CREATE POLICY "Users can view own lead merges"
+    ON public.lead_merges FOR SELECT
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.lead_merges IS
+'Audit-Log zusammengeführter Leads inkl. Zustand vor dem Merge.';
+
+-- ============================================
+-- 2. RPC: Merge atomar anwenden
+-- ============================================
+-- Die Werte berechnet die Edge Function. Die RPC sperrt beide Leads und
+-- bricht mit 'stale' ab, wenn sich einer seit dem Lesen geändert hat.
+
+CREATE OR REPLACE FUNCTION public.apply_lead_merge(
+    p_user_id UUID,
+    p_primary_id UUID,
+    p_secondary_id UUID,
+    p_primary_updated_at TIMESTAMP WITH TIME ZONE,
+    p_secondary_updated_at TIMESTAMP WITH TIME ZONE,
+    p_merged JSONB,
+    p_field_sources JSONB
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    merge_id UUID,
+    error_code TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_primary leads%ROWTYPE;
+    v_secondary leads%ROWTYPE;
+    v_merge_id UUID;
+    v_now TIMESTAMP WITH TIME ZONE := timezone('utc'::text, now());
+BEGIN
+    SELECT * INTO v_primary FROM leads l
+    WHERE l.id = p_primary_id AND l.user_id = p_user_id AND l.deleted_at IS NULL
+    FOR UPDATE;
+
+    SELECT * INTO v_secondary FROM leads l
+    WHERE l.id = p_secondary_id AND l.user_id = p_user_id AND l.deleted_at IS NULL
+    FOR UPDATE;
+
+    IF v_primary.id IS NULL OR v_secondary.id IS NULL THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, 'not_found'::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_primary.updated_at <> p_primary_updated_at
+       OR v_secondary.updated_at <> p_secondary_updated_at THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, 'stale'::TEXT;
+        RETURN;
+    END IF;
+
+    UPDATE leads l
+    SET name = COALESCE(p_merged->>'name', l.name),
+        company = COALESCE(p_merged->>'company', l.company),
+        email = COALESCE(p_merged->>'email', l.email),
+        phone = COALESCE(p_merged->>'phone', l.phone),
+        notes = COALESCE(p_merged->>'notes', l.notes),
+        transcript = p_merged->>'transcript',
+        generated_email = p_merged->>'generated_email',
+        original_image_filename = p_merged->>'original_image_filename',
+        audio_url = p_merged->>'audio_url',
+        audio_duration_seconds = (p_merged->>'audio_duration_seconds')::INTEGER,
+        created_at = LEAST(l.created_at, v_secondary.created_at),
+        updated_at = v_now
+    WHERE l.id = p_primary_id;
+
+    -- Tombstone statt DELETE, damit sync-leads die Löschung verteilt
+    UPDATE leads l
+    SET deleted_at = v_now,
+        updated_at = v_now
+    WHERE l.id = p_secondary_id;
+
+    INSERT INTO lead_merges (
+        user_id, primary_lead_id, secondary_lead_id,
+        primary_before, secondary_before, merged_values, field_sources
+    )
+    VALUES (
+        p_user_id, p_primary_id, p_secondary_id,
+        to_jsonb(v_primary), to_jsonb(v_secondary), p_merged, p_field_sources
+    )
+    RETURNING id INTO v_merge_id;
+
+    RETURN QUERY SELECT TRUE, v_merge_id, NULL::TEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_lead_merge FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.apply_lead_merge IS
+'Führt zwei Leads zusammen (Werte aus merge-leads), löscht den sekundären per Tombstone und schreibt lead_merges.';
@@ -0,0 +1,593 @@
+-- ============================================
+-- MesseMemo Credit Ledger Migration
+-- Version: 008
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Jede Änderung an profiles.ai_credits_balance wird in credit_transactions
+-- protokolliert (append-only): Startguthaben, Käufe, Abbuchungen,
+-- Erstattungen. profiles.ai_credits_balance bleibt der gecachte Stand,
+-- die Summe des Ledgers ist die Referenz.
+--
+-- Alle Credit-RPCs aus 002 und 003 werden hier mit Ledger-Eintrag neu
+-- angelegt. Bestehende Guthaben bekommen einen Eröffnungseintrag.
+-- ============================================
+
+-- ============================================
+-- 1. Tabelle credit_transactions
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.credit_transactions (
+    -- Fortlaufend → stabile Sortierung und Cursor für die Historie
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+    -- Positiv = Gutschrift, negativ = Abbuchung
+    amount INTEGER NOT NULL CHECK (amount <> 0),
+    -- Gecachter Stand direkt nach der Buchung
+    balance_after INTEGER NOT NULL,
+
+    reason TEXT NOT NULL CHECK (reason IN (
+        'opening_balance',    -- Stand bei Einführung des Ledgers
+        'signup_bonus',       -- Startguthaben neuer User
+        'purchase',           -- In-App Purchase
+        'usage',              -- KI-Request (Reservierung oder use_ai_credit)
+        'refund',             -- Reservierung freigegeben (Fehler, Fallback)
+        'expired_refund',     -- Reservierung nie committet, automatisch erstattet
+        'adjustment'          -- Manuelle Korrektur (Support)
+    )),
+
+    -- Auslöser, z.B. 'process-card' oder 'ios-app'
+    function_name TEXT,
+    -- Idempotency-Key des Requests
+    request_id TEXT,
+    reservation_id UUID REFERENCES public.credit_reservations(id) ON DELETE SET NULL,
+    -- Transaktions-ID des Kaufs (App Store)
+    purchase_reference TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS credit_transactions_user_idx
+    ON public.credit_transactions (user_id, id DESC);
+
+-- Ein Kauf darf nur einmal gutgeschrieben werden
+CREATE UNIQUE INDEX IF NOT EXISTS credit_transactions_purchase_idx
+    ON public.credit_transactions (purchase_reference)
+    WHERE purchase_reference IS NOT NULL AND reason = 'purchase';
+
+COMMENT ON TABLE public.credit_transactions IS
+'Append-only Ledger aller Credit-Buchungen. Summe je User = erwarteter ai_credits_balance.';
+
+-- Append-only: Buchungen werden nie geändert, Korrekturen sind neue Einträge.
+-- Gelöscht wird nur per Cascade mit dem Profil.
+CREATE OR REPLACE FUNCTION public.prevent_credit_transaction_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'credit_transactions ist append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS credit_transactions_append_only ON public.credit_transactions;
+CREATE TRIGGER credit_transactions_append_only
+    BEFORE UPDATE ON public.credit_transactions
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_credit_transaction_update();
+
+-- ============================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.credit_transactions ENABLE ROW LEVEL SECURITY;
+
+-- User sieht eigene Buchungen, geschrieben wird nur per RPC
+DROP POLICY IF EXISTS "Users can view own credit transactions" ON public.credit_transactions;
+CREATE POLICY "Users can view own credit transactions"
+    ON public.credit_transactions FOR SELECT
+    USING (auth.uid() = user_id);
+
+-- ============================================
+-- 3. Buchung schreiben (intern)
+-- ============================================
+-- Wird nach dem UPDATE auf profiles aufgerufen und übernimmt den neuen
+-- Stand als balance_after.
+
+CREATE OR REPLACE FUNCTION public.record_credit_transaction(
+    p_user_id UUID,
+    p_amount INTEGER,
+    p_reason TEXT,
+    p_function_name TEXT DEFAULT NULL,
+    p_request_id TEXT DEFAULT NULL,
+    p_reservation_id UUID DEFAULT NULL,
+    p_purchase_reference TEXT DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_balance INTEGER;
+    v_id BIGINT;
+BEGIN
+    SELECT p.ai_credits_balance INTO v_balance
+    FROM profiles p
+    WHERE p.id = p_user_id;
+
+    INSERT INTO credit_transactions (
+        user_id, amount, balance_after, reason, function_name,
+        request_id, reservation_id, purchase_reference, metadata
+    )
+    VALUES (
+        p_user_id, p_amount, COALESCE(v_balance, 0), p_reason, p_function_name,
+        p_request_id, p_reservation_id, p_purchase_reference, COALESCE(p_metadata, '{}'::jsonb)
+    )
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_credit_transaction FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.record_credit_transaction IS
+'Schreibt eine Buchung in credit_transactions. Nur für die Credit-RPCs.';
+
+-- ============================================
+-- 4. Startguthaben neuer User
+-- ============================================
+-- handle_new_user legt das Profil mit 20 Credits an, der Trigger bucht sie.
+
+CREATE OR REPLACE FUNCTION public.handle_profile_signup_bonus()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.ai_credits_balance <> 0 THEN
+        PERFORM record_credit_transaction(NEW.id, NEW.ai_credits_balance, 'signup_bonus');
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_signup_bonus ON public.profiles;
+CREATE TRIGGER profiles_signup_bonus
+    AFTER INSERT ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.handle_profile_signup_bonus();
+
+-- ============================================
+-- 5. RPC: use_ai_credit / add_ai_credits (aus 002)
+-- ============================================
+-- Neue optionale Parameter für den Ledger. Alte Signaturen entfernen,
+-- damit Aufrufe mit (user_id) bzw. (user_id, amount) eindeutig bleiben.
+
+DROP FUNCTION IF EXISTS public.use_ai_credit(UUID);
+
+CREATE OR REPLACE FUNCTION public.use_ai_credit(
+    user_id UUID,
+    p_function_name TEXT DEFAULT NULL,
+    p_request_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    credits_remaining INTEGER,
+    error_message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_current_credits INTEGER;
+    v_is_premium BOOLEAN;
+BEGIN
+    SELECT p.ai_credits_balance, p.is_premium
+    INTO v_current_credits, v_is_premium
+    FROM profiles p
+    WHERE p.id = use_ai_credit.user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, 0, 'User nicht gefunden'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Premium User haben unbegrenzte Credits (keine Buchung)
+    IF v_is_premium THEN
+        RETURN QUERY SELECT TRUE, -1, NULL::TEXT; -- -1 = unbegrenzt
+        RETURN;
+    END IF;
+
+    IF v_current_credits < 1 THEN
+        RETURN QUERY SELECT FALSE, 0, 'Kein Guthaben mehr'::TEXT;
+        RETURN;
+    END IF;
+
+    UPDATE profiles p
+    SET ai_credits_balance = p.ai_credits_balance - 1,
+        updated_at = NOW()
+    WHERE p.id = use_ai_credit.user_id;
+
+    PERFORM record_credit_transaction(use_ai_credit.user_id, -1, 'usage', p_function_name, p_request_id);
+
+    RETURN QUERY SELECT TRUE, v_current_credits - 1, NULL::TEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.use_ai_credit FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.use_ai_credit IS
+'Zieht 1 KI-Credit vom User ab und bucht ihn im Ledger. Gibt Erfolg, verbleibende Credits und ggf. Fehlermeldung zurück.';
+
+DROP FUNCTION IF EXISTS public.add_ai_credits(UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.add_ai_credits(
+    user_id UUID,
+    amount INTEGER,
+    p_reason TEXT DEFAULT 'purchase',
+    p_purchase_reference TEXT DEFAULT NULL,
+    p_function_name TEXT DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    credits_after INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF add_ai_credits.amount = 0 THEN
+        RETURN QUERY SELECT FALSE, 0;
+        RETURN;
+    END IF;
+
+    -- Derselbe Kauf wird nicht doppelt gutgeschrieben
+    IF p_purchase_reference IS NOT NULL AND EXISTS (
+        SELECT 1 FROM credit_transactions t
+        WHERE t.purchase_reference = p_purchase_reference AND t.reason = 'purchase'
+    ) THEN
+        RETURN QUERY
+        SELECT FALSE, p.ai_credits_balance
+        FROM profiles p
+        WHERE p.id = add_ai_credits.user_id;
+        RETURN;
+    END IF;
+
+    UPDATE profiles p
+    SET ai_credits_balance = p.ai_credits_balance + add_ai_credits.amount,
+        updated_at = NOW()
+    WHERE p.id = add_ai_credits.user_id;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, 0;
+        RETURN;
+    END IF;
+
+    PERFORM record_credit_transaction(
+        add_ai_credits.user_id, add_ai_credits.amount, p_reason, p_function_name,
+        NULL, NULL, p_purchase_reference, p_metadata
+    );
+
+    RETURN QUERY
+    SELECT TRUE, p.ai_credits_balance
+    FROM profiles p
+    WHERE p.id = add_ai_credits.user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_ai_credits FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.add_ai_credits IS
+'Fügt KI-Credits hinzu (Kauf, Korrektur) und bucht sie im Ledger. Doppelte purchase_reference wird ignoriert.';
+
+-- ============================================
+-- 6. RPC: Reservierungen (aus 003)
+-- ============================================
+-- Abbuchung beim Reservieren, Erstattung beim Freigeben.
+-- commit_ai_credit ändert kein Guthaben und bleibt unverändert.
+
+CREATE OR REPLACE FUNCTION public.release_expired_credit_reservations(
+    p_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_released INTEGER := 0;
+    v_row RECORD;
+BEGIN
+    FOR v_row IN
+        SELECT r.id, r.user_id, r.amount, r.function_name, r.idempotency_key
+        FROM credit_reservations r
+        WHERE r.status = 'reserved'
+          AND r.expires_at < NOW()
+          AND (p_user_id IS NULL OR r.user_id = p_user_id)
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        UPDATE credit_reservations r
+        SET status = 'released'
+        WHERE r.id = v_row.id;
+
+        IF v_row.amount > 0 THEN
+            UPDATE profiles p
+            SET ai_credits_balance = p.ai_credits_balance + v_row.amount,
+                updated_at = NOW()
+            WHERE p.id = v_row.user_id;
+
+            PERFORM record_credit_transaction(
+                v_row.user_id, v_row.amount, 'expired_refund',
+                v_row.function_name, v_row.idempotency_key, v_row.id
+            );
+        END IF;
+
+        v_released := v_released + 1;
+    END LOOP;
+
+    RETURN v_released;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reserve_ai_credit(
+    p_user_id UUID,
+    p_function_name TEXT,
+    p_idempotency_key TEXT,
+    p_ttl_seconds INTEGER DEFAULT 120
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    reservation_id UUID,
+    credits_remaining INTEGER,
+    error_message TEXT,
+    replayed BOOLEAN,
+    response_status INTEGER,
+    response_body JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_current_credits INTEGER;
+    v_is_premium BOOLEAN;
+    v_existing_id UUID;
+    v_existing_status TEXT;
+    v_existing_response_status INTEGER;
+    v_existing_response_body JSONB;
+    v_amount INTEGER;
+    v_reservation_id UUID;
+BEGIN
+    -- Verwaiste Reservierungen dieses Users zuerst freigeben
+    PERFORM release_expired_credit_reservations(p_user_id);
+
+    -- Existiert bereits eine Reservierung mit diesem Key?
+    SELECT r.id, r.status, r.response_status, r.response_body
+    INTO v_existing_id, v_existing_status, v_existing_response_status, v_existing_response_body
+    FROM credit_reservations r
+    WHERE r.user_id = p_user_id
+      AND r.function_name = p_function_name
+      AND r.idempotency_key = p_idempotency_key
+    FOR UPDATE;
+
+    IF FOUND THEN
+        -- Bereits erfolgreich → Original-Antwort zurückgeben, nichts abbuchen
+        IF v_existing_status = 'committed' THEN
+            RETURN QUERY SELECT TRUE, v_existing_id, NULL::INTEGER, NULL::TEXT,
+                TRUE, v_existing_response_status, v_existing_response_body;
+            RETURN;
+        END IF;
+
+        -- Läuft noch (paralleler Retry)
+        IF v_existing_status = 'reserved' THEN
+            RETURN QUERY SELECT FALSE, v_existing_id, NULL::INTEGER,
+                'Anfrage wird bereits verarbeitet'::TEXT, FALSE, NULL::INTEGER, NULL::JSONB;
+            RETURN;
+        END IF;
+
+        -- 'released' → neuer Versuch mit demselben Key ist erlaubt
+    END IF;
+
+    SELECT p.ai_credits_balance, p.is_premium
+    INTO v_current_credits, v_is_premium
+    FROM profiles p
+    WHERE p.id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, 0, 'User nicht gefunden'::TEXT,
+            FALSE, NULL::INTEGER, NULL::JSONB;
+        RETURN;
+    END IF;
+
+    IF v_is_premium THEN
+        v_amount := 0;
+    ELSE
+        IF v_current_credits < 1 THEN
+            RETURN QUERY SELECT FALSE, NULL::UUID, 0, 'Kein Guthaben mehr'::TEXT,
+                FALSE, NULL::INTEGER, NULL::JSONB;
+            RETURN;
+        END IF;
+
+        v_amount := 1;
+
+        UPDATE profiles p
+        SET ai_credits_balance = p.ai_credits_balance - v_amount,
+            updated_at = NOW()
+        WHERE p.id = p_user_id;
+    END IF;
+
+    IF v_existing_id IS NOT NULL THEN
+        UPDATE credit_reservations r
+        SET status = 'reserved',
+            amount = v_amount,
+            response_status = NULL,
+            response_body = NULL,
+            expires_at = NOW() + make_interval(secs => p_ttl_seconds)
+        WHERE r.id = v_existing_id;
+        v_reservation_id := v_existing_id;
+    ELSE
+        INSERT INTO credit_reservations (user_id, function_name, idempotency_key, amount, expires_at)
+        VALUES (p_user_id, p_function_name, p_idempotency_key, v_amount,
+                NOW() + make_interval(secs => p_ttl_seconds))
+        RETURNING id INTO v_reservation_id;
+    END IF;
+
+    IF v_amount > 0 THEN
+        PERFORM record_credit_transaction(
+            p_user_id, -v_amount, 'usage', p_function_name, p_idempotency_key, v_reservation_id
+        );
+    END IF;
+
+    RETURN QUERY SELECT TRUE, v_reservation_id,
+        CASE WHEN v_is_premium THEN -1 ELSE v_current_credits - v_amount END, -- -1 = unbegrenzt
+        NULL::TEXT, FALSE, NULL::INTEGER, NULL::JSONB;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_ai_credit(p_reservation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_amount INTEGER;
+    v_function_name TEXT;
+    v_idempotency_key TEXT;
+BEGIN
+    -- Nur offene Reservierungen → kein doppelter Refund möglich
+    UPDATE credit_reservations r
+    SET status = 'released'
+    WHERE r.id = p_reservation_id
+      AND r.status = 'reserved'
+    RETURNING r.user_id, r.amount, r.function_name, r.idempotency_key
+    INTO v_user_id, v_amount, v_function_name, v_idempotency_key;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF v_amount > 0 THEN
+        UPDATE profiles p
+        SET ai_credits_balance = p.ai_credits_balance + v_amount,
+            updated_at = NOW()
+        WHERE p.id = v_user_id;
+
+        PERFORM record_credit_transaction(
+            v_user_id, v_amount, 'refund', v_function_name, v_idempotency_key, p_reservation_id
+        );
+    END IF;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- ============================================
+-- 7. Abgleich Ledger ↔ gecachter Stand
+-- ============================================
+-- Liefert je User den gecachten Stand, die Ledger-Summe und die Differenz.
+-- Standardmäßig nur Abweichungen; ohne p_user_id für alle User.
+
+CREATE OR REPLACE FUNCTION public.reconcile_credit_balances(
+    p_user_id UUID DEFAULT NULL,
+    p_only_mismatches BOOLEAN DEFAULT TRUE
+)
+RETURNS TABLE (
+    user_id UUID,
+    cached_balance INTEGER,
+    ledger_balance INTEGER,
+    difference INTEGER,
+    last_transaction_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        p.id,
+        p.ai_credits_balance,
+        COALESCE(t.total, 0)::INTEGER,
+        (p.ai_credits_balance - COALESCE(t.total, 0))::INTEGER,
+        t.last_at
+    FROM profiles p
+    LEFT JOIN (
+        SELECT ct.user_id, SUM(ct.amount) AS total, MAX(ct.created_at) AS last_at
+        FROM credit_transactions ct
+        WHERE p_user_id IS NULL OR ct.user_id = p_user_id
+        GROUP BY ct.user_id
+    ) t ON t.user_id = p.id
+    WHERE (p_user_id IS NULL OR p.id = p_user_id)
+      AND (NOT p_only_mismatches OR p.ai_credits_balance <> COALESCE(t.total, 0))
+    ORDER BY p.id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reconcile_credit_balances FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.reconcile_credit_balances IS
+'Vergleicht profiles.ai_credits_balance mit der Summe aus credit_transactions. Nur Service Role.';
+
+-- ============================================
+-- 8. Eröffnungsbuchung für bestehende Guthaben
+-- ============================================
+-- Danach stimmt die Ledger-Summe mit dem gecachten Stand überein. Offene
+-- Reservierungen sind bereits abgezogen; ihr Refund wird später gebucht.
+
+INSERT INTO public.credit_transactions (user_id, amount, balance_after, reason, metadata)
+SELECT p.id, p.ai_credits_balance, p.ai_credits_balance, 'opening_balance',
+       jsonb_build_object('migration', '008')
+FROM public.profiles p
+WHERE p.ai_credits_balance <> 0
+  AND NOT EXISTS (
+      SELECT 1 FROM public.credit_transactions t WHERE t.user_id = p.id
+  );
+
+-- ============================================
+-- 9. Täglicher Abgleich (pg_cron, optional)
+-- ============================================
+-- Abweichungen landen im Postgres-Log (Dashboard → Logs).
+
+CREATE OR REPLACE FUNCTION public.log_credit_mismatches()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_row RECORD;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_row IN SELECT * FROM reconcile_credit_balances()
+    LOOP
+        RAISE WARNING 'Credit-Abweichung: user % cached % ledger % (Differenz %)',
+            v_row.user_id, v_row.cached_balance, v_row.ledger_balance, v_row.difference;
+        v_count := v_count + 1;
+    END LOOP;
+    RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.log_credit_mismatches FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'log-credit-mismatches',
+            '0 3 * * *',
+            'SELECT public.log_credit_mismatches()'
+        );
+    END IF;
+END;
+$$;
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
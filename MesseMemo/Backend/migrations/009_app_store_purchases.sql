@@ -0,0 +1,423 @@
+-- ============================================
+-- MesseMemo App Store Purchases Migration
+-- Version: 009
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Serverseitig verifizierte Käufe (Edge Function verify-purchase):
+--   - app_store_transactions: jede verifizierte Transaktion genau einmal
+--   - app_store_notifications: bereits verarbeitete Server Notifications (Replay-Schutz)
+--   - profiles.premium_expires_at: Ablauf des App-Store-Abos
+--   - Premium, Credits und Abo-Ablauf sind für Clients nicht mehr änderbar
+--
+-- Credit-Pakete werden über add_ai_credits im Ledger gebucht (Grund 'purchase',
+-- Referenz = transactionId). Erstattungen ziehen die Credits wieder ab
+-- (Grund 'purchase_refund') bzw. entziehen Premium.
+-- ============================================
+
+-- ============================================
+-- 1. Profile: Abo-Ablauf
+-- ============================================
+
+-- NULL = Premium nicht über den App Store (z.B. manuell vergeben)
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS premium_expires_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.profiles.premium_expires_at IS
+'Ablauf des App-Store-Abos. Nur gesetzt, wenn Premium aus einem verifizierten Kauf stammt.';
+
+-- ============================================
+-- 2. Tabelle app_store_transactions
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.app_store_transactions (
+    -- transactionId von Apple – ein Kauf wird nur einmal verbucht
+    transaction_id TEXT PRIMARY KEY,
+    original_transaction_id TEXT NOT NULL,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+    product_id TEXT NOT NULL,
+    product_kind TEXT NOT NULL CHECK (product_kind IN ('credits', 'premium')),
+    credits INTEGER NOT NULL DEFAULT 0,
+
+    environment TEXT NOT NULL,
+    purchase_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    expires_date TIMESTAMP WITH TIME ZONE,
+
+    -- active → refunded | expired
+    status TEXT NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'refunded', 'expired')),
+    revocation_date TIMESTAMP WITH TIME ZONE,
+    revocation_reason INTEGER,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS app_store_transactions_original_idx
+    ON public.app_store_transactions (original_transaction_id);
+CREATE INDEX IF NOT EXISTS app_store_transactions_user_idx
+    ON public.app_store_transactions (user_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS app_store_transactions_updated_at ON public.app_store_transactions;
+CREATE TRIGGER app_store_transactions_updated_at
+    BEFORE UPDATE ON public.app_store_transactions
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.app_store_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own app store transactions" ON public.app_store_transactions;
+CREATE POLICY "Users can view own app store transactions"
+    ON public.app_store_transactions FOR SELECT
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.app_store_transactions IS
+'Verifizierte StoreKit-2-Transaktionen. Geschrieben nur von verify-purchase (Service Role).';
+
+-- ============================================
+-- 3. Tabelle app_store_notifications (Replay-Schutz)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.app_store_notifications (
+    notification_uuid TEXT PRIMARY KEY,
+    notification_type TEXT NOT NULL,
+    subtype TEXT,
+    transaction_id TEXT,
+    signed_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Nur Service Role, keine Policies für User
+ALTER TABLE public.app_store_notifications ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.app_store_notifications IS
+'Verarbeitete App Store Server Notifications V2 (notificationUUID), damit Wiederholungen nichts doppelt buchen.';
+
+-- ============================================
+-- 4. Ledger: Grund für Kauf-Erstattungen
+-- ============================================
+
+ALTER TABLE public.credit_transactions DROP CONSTRAINT IF EXISTS credit_transactions_reason_check;
+ALTER TABLE public.credit_transactions ADD CONSTRAINT credit_transactions_reason_check
+    CHECK (reason IN (
+        'opening_balance', 'signup_bonus', 'purchase', 'purchase_refund',
+        'usage', 'refund', 'expired_refund', 'adjustment'
+    ));
+
+-- ============================================
+-- 5. Premium-Status aus den Abos ableiten
+-- ============================================
+-- Premium, solange ein nicht erstattetes Abo nicht abgelaufen ist.
+-- Manuell vergebenes Premium (premium_expires_at IS NULL, keine Abos) bleibt.
+
+CREATE OR REPLACE FUNCTION public.refresh_premium_status(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_expires TIMESTAMP WITH TIME ZONE;
+    v_has_subscription BOOLEAN;
+BEGIN
+    SELECT MAX(t.expires_date) FILTER (WHERE t.status = 'active'),
+           COUNT(*) > 0
+    INTO v_expires, v_has_subscription
+    FROM app_store_transactions t
+    WHERE t.user_id = p_user_id
+      AND t.product_kind = 'premium';
+
+    IF NOT v_has_subscription THEN
+        RETURN (SELECT p.is_premium FROM profiles p WHERE p.id = p_user_id);
+    END IF;
+
+    UPDATE profiles p
+    SET is_premium = COALESCE(v_expires > NOW(), FALSE),
+        premium_expires_at = COALESCE(v_expires, p.premium_expires_at, NOW()),
+        updated_at = NOW()
+    WHERE p.id = p_user_id;
+
+    RETURN COALESCE(v_expires > NOW(), FALSE);
+END;
+$$;
+
+-- ============================================
+-- 6. RPC: Verifizierte Transaktion verbuchen
+-- ============================================
+-- status:
+--   granted    → Credits gutgeschrieben bzw. Abo gespeichert
+--   duplicate  → transactionId schon verbucht (Replay)
+--   forbidden  → transactionId gehört einem anderen User
+--   revoked    → Transaktion ist bereits erstattet (nichts gutgeschrieben)
+
+CREATE OR REPLACE FUNCTION public.apply_app_store_transaction(
+    p_user_id UUID,
+    p_transaction_id TEXT,
+    p_original_transaction_id TEXT,
+    p_product_id TEXT,
+    p_product_kind TEXT,
+    p_credits INTEGER,
+    p_environment TEXT,
+    p_purchase_date TIMESTAMP WITH TIME ZONE,
+    p_expires_date TIMESTAMP WITH TIME ZONE,
+    p_revocation_date TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_function_name TEXT DEFAULT 'verify-purchase'
+)
+RETURNS TABLE (
+    status TEXT,
+    credits_remaining INTEGER,
+    is_premium BOOLEAN,
+    premium_expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_existing_user UUID;
+    v_status TEXT := 'granted';
+BEGIN
+    SELECT t.user_id INTO v_existing_user
+    FROM app_store_transactions t
+    WHERE t.transaction_id = p_transaction_id
+    FOR UPDATE;
+
+    IF FOUND THEN
+        v_status := CASE WHEN v_existing_user = p_user_id THEN 'duplicate' ELSE 'forbidden' END;
+    ELSE
+        INSERT INTO app_store_transactions (
+            transaction_id, original_transaction_id, user_id, product_id, product_kind,
+            credits, environment, purchase_date, expires_date, status, revocation_date
+        )
+        VALUES (
+            p_transaction_id, p_original_transaction_id, p_user_id, p_product_id, p_product_kind,
+            CASE WHEN p_product_kind = 'credits' THEN p_credits ELSE 0 END,
+            p_environment, p_purchase_date, p_expires_date,
+            CASE WHEN p_revocation_date IS NULL THEN 'active' ELSE 'refunded' END,
+            p_revocation_date
+        );
+
+        IF p_revocation_date IS NOT NULL THEN
+            v_status := 'revoked';
+        ELSIF p_product_kind = 'credits' THEN
+            PERFORM add_ai_credits(
+                p_user_id, p_credits, 'purchase', p_transaction_id, p_function_name,
+                jsonb_build_object('product_id', p_product_id, 'environment', p_environment)
+            );
+        END IF;
+
+        IF p_product_kind = 'premium' THEN
+            PERFORM refresh_premium_status(p_user_id);
+        END IF;
+    END IF;
+
+    RETURN QUERY
+    SELECT v_status,
+           CASE WHEN p.is_premium THEN -1 ELSE p.ai_credits_balance END, -- -1 = unbegrenzt
+           p.is_premium,
+           p.premium_expires_at
+    FROM profiles p
+    WHERE p.id = p_user_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.apply_app_store_transaction IS
+'Verbucht eine verifizierte App-Store-Transaktion genau einmal: Credits gutschreiben oder Premium-Abo speichern.';
+
+-- ============================================
+-- 7. RPC: Erstattung / Widerruf
+-- ============================================
+-- Credits werden wieder abgezogen, höchstens bis 0 – bereits verbrauchte
+-- Credits lassen sich nicht zurückholen (steht in metadata).
+
+CREATE OR REPLACE FUNCTION public.revoke_app_store_transaction(
+    p_transaction_id TEXT,
+    p_revocation_date TIMESTAMP WITH TIME ZONE,
+    p_revocation_reason INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+    status TEXT,
+    user_id UUID,
+    credits_deducted INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_tx app_store_transactions%ROWTYPE;
+    v_balance INTEGER;
+    v_deduct INTEGER := 0;
+BEGIN
+    SELECT * INTO v_tx
+    FROM app_store_transactions t
+    WHERE t.transaction_id = p_transaction_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT 'not_found'::TEXT, NULL::UUID, 0;
+        RETURN;
+    END IF;
+
+    IF v_tx.status = 'refunded' THEN
+        RETURN QUERY SELECT 'duplicate'::TEXT, v_tx.user_id, 0;
+        RETURN;
+    END IF;
+
+    UPDATE app_store_transactions t
+    SET status = 'refunded',
+        revocation_date = p_revocation_date,
+        revocation_reason = p_revocation_reason
+    WHERE t.transaction_id = p_transaction_id;
+
+    IF v_tx.product_kind = 'credits' AND v_tx.credits > 0 THEN
+        SELECT p.ai_credits_balance INTO v_balance
+        FROM profiles p
+        WHERE p.id = v_tx.user_id
+        FOR UPDATE;
+
+        v_deduct := LEAST(v_tx.credits, GREATEST(COALESCE(v_balance, 0), 0));
+
+        IF v_deduct > 0 THEN
+            PERFORM add_ai_credits(
+                v_tx.user_id, -v_deduct, 'purchase_refund', NULL, 'verify-purchase',
+                jsonb_build_object(
+                    'transaction_id', p_transaction_id,
+                    'purchased', v_tx.credits,
+                    'already_used', v_tx.credits - v_deduct
+                )
+            );
+        END IF;
+    ELSIF v_tx.product_kind = 'premium' THEN
+        PERFORM refresh_premium_status(v_tx.user_id);
+    END IF;
+
+    RETURN QUERY SELECT 'revoked'::TEXT, v_tx.user_id, v_deduct;
+END;
+$$;
+
+COMMENT ON FUNCTION public.revoke_app_store_transaction IS
+'Erstattung/Widerruf einer App-Store-Transaktion: Credits abziehen (max. bis 0) bzw. Premium neu berechnen.';
+
+-- ============================================
+-- 8. RPC: Abo abgelaufen
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.expire_app_store_subscription(
+    p_original_transaction_id TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+BEGIN
+    UPDATE app_store_transactions t
+    SET status = 'expired'
+    WHERE t.original_transaction_id = p_original_transaction_id
+      AND t.status = 'active'
+      AND t.product_kind = 'premium'
+    RETURNING t.user_id INTO v_user_id;
+
+    IF v_user_id IS NULL THEN
+        SELECT t.user_id INTO v_user_id
+        FROM app_store_transactions t
+        WHERE t.original_transaction_id = p_original_transaction_id
+        LIMIT 1;
+    END IF;
+
+    IF v_user_id IS NOT NULL THEN
+        PERFORM refresh_premium_status(v_user_id);
+    END IF;
+
+    RETURN v_user_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.expire_app_store_subscription IS
+'Markiert alle aktiven Perioden eines Abos als abgelaufen und entzieht Premium.';
+
+-- ============================================
+-- 9. Abgelaufene Abos ohne Notification (pg_cron, optional)
+-- ============================================
+-- Falls eine EXPIRED-Notification verloren geht, endet Premium trotzdem.
+
+CREATE OR REPLACE FUNCTION public.expire_lapsed_premium()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_user_id IN
+        SELECT p.id FROM profiles p
+        WHERE p.is_premium
+          AND p.premium_expires_at IS NOT NULL
+          AND p.premium_expires_at < NOW()
+    LOOP
+        PERFORM refresh_premium_status(v_user_id);
+        v_count := v_count + 1;
+    END LOOP;
+    RETURN v_count;
+END;
+$$;
+
+-- Credits gibt es nur noch über verifizierte Käufe, nicht mehr direkt vom Client
+REVOKE EXECUTE ON FUNCTION public.add_ai_credits FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_premium_status FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_app_store_transaction FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.revoke_app_store_transaction FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_app_store_subscription FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_lapsed_premium FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'expire-lapsed-premium',
+            '*/15 * * * *',
+            'SELECT public.expire_lapsed_premium()'
+        );
+    END IF;
+END;
+$$;
+
+-- ============================================
+-- 10. Premium und Credits nicht per Client-Update
+-- ============================================
+-- Die Policy "Users can update own profile" erlaubt Updates der ganzen
+-- Zeile. Direkte API-Updates laufen als anon/authenticated – RPCs
+-- (SECURITY DEFINER) und die Service Role sind davon nicht betroffen.
+
+CREATE OR REPLACE FUNCTION public.handle_profile_entitlements()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') AND (
+        NEW.is_premium IS DISTINCT FROM OLD.is_premium
+        OR NEW.ai_credits_balance IS DISTINCT FROM OLD.ai_credits_balance
+        OR NEW.premium_expires_at IS DISTINCT FROM OLD.premium_expires_at
+    ) THEN
+        RAISE EXCEPTION 'is_premium, ai_credits_balance und premium_expires_at sind nur serverseitig änderbar'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_entitlements ON public.profiles;
+CREATE TRIGGER profiles_entitlements
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.handle_profile_entitlements();
+
+COMMENT ON FUNCTION public.handle_profile_entitlements IS
+'Verhindert, dass Clients Premium, Credits oder Abo-Ablauf am eigenen Profil setzen.';
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
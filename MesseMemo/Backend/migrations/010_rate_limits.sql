@@ -0,0 +1,233 @@
+-- ============================================
+-- MesseMemo Rate Limits Migration
+-- Version: 010
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Token Bucket pro User, pro IP und global, jeweils pro Edge Function.
+-- Ein Request kostet 1 Token (Batch: 1 pro Karte, max. die Bucket-Größe).
+-- Er geht nur durch, wenn ALLE Buckets genug Tokens haben – dann wird
+-- aus allen abgebucht, sonst aus keinem.
+--
+-- Limits stehen in rate_limit_policies und lassen sich ohne Deploy ändern.
+-- ============================================
+
+-- ============================================
+-- 1. Tabelle rate_limit_policies
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_policies (
+    -- free | premium (pro User), ip (pro IP-Adresse), global (alle User zusammen)
+    scope TEXT NOT NULL CHECK (scope IN ('free', 'premium', 'ip', 'global')),
+    -- '*' = gilt für alle Functions ohne eigenen Eintrag
+    function_name TEXT NOT NULL DEFAULT '*',
+
+    -- Maximale Tokens (Burst) und Nachfüllrate
+    capacity INTEGER NOT NULL CHECK (capacity > 0),
+    refill_per_minute NUMERIC NOT NULL CHECK (refill_per_minute > 0),
+
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    PRIMARY KEY (scope, function_name)
+);
+
+DROP TRIGGER IF EXISTS rate_limit_policies_updated_at ON public.rate_limit_policies;
+CREATE TRIGGER rate_limit_policies_updated_at
+    BEFORE UPDATE ON public.rate_limit_policies
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Nur Service Role, keine Policies für User
+ALTER TABLE public.rate_limit_policies ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.rate_limit_policies IS
+'Token-Bucket-Limits je Plan (free/premium), IP und global, optional pro Edge Function.';
+
+-- Premium: hoch, aber endlich
+INSERT INTO public.rate_limit_policies (scope, function_name, capacity, refill_per_minute) VALUES
+    ('free',    '*', 20,   10),
+    ('premium', '*', 120,  60),
+    ('ip',      '*', 60,   30),
+    ('global',  '*', 2000, 600)
+ON CONFLICT (scope, function_name) DO NOTHING;
+
+-- ============================================
+-- 2. Tabelle rate_limit_buckets
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+    -- z.B. 'user:<uuid>:process-card', 'ip:1.2.3.4:process-card', 'global:process-card'
+    bucket_key TEXT PRIMARY KEY,
+    tokens DOUBLE PRECISION NOT NULL,
+    refilled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX IF NOT EXISTS rate_limit_buckets_refilled_idx
+    ON public.rate_limit_buckets (refilled_at);
+
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.rate_limit_buckets IS
+'Aktueller Füllstand der Token Buckets. Volle Buckets werden per pg_cron entfernt.';
+
+-- ============================================
+-- 3. RPC: Token verbrauchen
+-- ============================================
+-- allowed = FALSE → limited_scope nennt den knappsten Bucket,
+-- retry_after_seconds die Wartezeit, bis alle wieder reichen.
+-- limits enthält pro Scope capacity, refill_per_minute und remaining.
+
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+    p_user_id UUID,
+    p_function_name TEXT,
+    p_ip TEXT DEFAULT NULL,
+    p_cost INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+    allowed BOOLEAN,
+    limited_scope TEXT,
+    retry_after_seconds INTEGER,
+    limits JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_now TIMESTAMP WITH TIME ZONE := clock_timestamp();
+    v_plan TEXT;
+    v_bucket RECORD;
+    v_tokens DOUBLE PRECISION;
+    v_cost INTEGER;
+    v_wait DOUBLE PRECISION;
+    v_allowed BOOLEAN := TRUE;
+    v_limited_scope TEXT;
+    v_retry_after DOUBLE PRECISION := 0;
+    v_keys TEXT[] := '{}';
+    v_levels DOUBLE PRECISION[] := '{}';
+    v_costs INTEGER[] := '{}';
+    v_limits JSONB := '{}'::jsonb;
+BEGIN
+    SELECT CASE WHEN p.is_premium THEN 'premium' ELSE 'free' END
+    INTO v_plan
+    FROM profiles p
+    WHERE p.id = p_user_id;
+
+    v_plan := COALESCE(v_plan, 'free');
+
+    -- Buckets dieses Requests mit der passenden Policy (Function vor '*'),
+    -- in fester Reihenfolge gesperrt, damit parallele Requests nicht verklemmen
+    FOR v_bucket IN
+        SELECT DISTINCT ON (s.bucket_key) s.scope, s.bucket_key, rp.capacity, rp.refill_per_minute
+        FROM (VALUES
+            (v_plan, 'user:' || p_user_id || ':' || p_function_name),
+            ('ip', 'ip:' || p_ip || ':' || p_function_name),
+            ('global', 'global:' || p_function_name)
+        ) AS s(scope, bucket_key)
+        JOIN rate_limit_policies rp
+          ON rp.scope = s.scope AND rp.function_name IN (p_function_name, '*')
+        WHERE s.bucket_key IS NOT NULL
+        ORDER BY s.bucket_key, (rp.function_name = '*')
+    LOOP
+        INSERT INTO rate_limit_buckets (bucket_key, tokens, refilled_at)
+        VALUES (v_bucket.bucket_key, v_bucket.capacity, v_now)
+        ON CONFLICT (bucket_key) DO NOTHING;
+
+        SELECT LEAST(
+            v_bucket.capacity,
+            b.tokens + EXTRACT(EPOCH FROM (v_now - b.refilled_at)) * v_bucket.refill_per_minute / 60.0
+        )
+        INTO v_tokens
+        FROM rate_limit_buckets b
+        WHERE b.bucket_key = v_bucket.bucket_key
+        FOR UPDATE;
+
+        -- Ein Batch leert höchstens den ganzen Bucket
+        v_cost := LEAST(GREATEST(p_cost, 1), v_bucket.capacity);
+
+        IF v_tokens < v_cost THEN
+            v_allowed := FALSE;
+            v_wait := (v_cost - v_tokens) * 60.0 / v_bucket.refill_per_minute;
+            IF v_wait > v_retry_after THEN
+                v_retry_after := v_wait;
+                v_limited_scope := v_bucket.scope;
+            END IF;
+        END IF;
+
+        v_keys := v_keys || v_bucket.bucket_key;
+        v_levels := v_levels || v_tokens;
+        v_costs := v_costs || v_cost;
+        v_limits := v_limits || jsonb_build_object(v_bucket.scope, jsonb_build_object(
+            'capacity', v_bucket.capacity,
+            'refill_per_minute', v_bucket.refill_per_minute,
+            'remaining', FLOOR(v_tokens)::INTEGER
+        ));
+    END LOOP;
+
+    -- Aufgefüllten Stand speichern, nur bei Erfolg abbuchen
+    FOR i IN 1 .. COALESCE(array_length(v_keys, 1), 0)
+    LOOP
+        UPDATE rate_limit_buckets b
+        SET tokens = v_levels[i] - CASE WHEN v_allowed THEN v_costs[i] ELSE 0 END,
+            refilled_at = v_now
+        WHERE b.bucket_key = v_keys[i];
+    END LOOP;
+
+    IF v_allowed THEN
+        SELECT COALESCE(jsonb_object_agg(
+            l.key,
+            l.value || jsonb_build_object(
+                'remaining', GREATEST((l.value->>'remaining')::INTEGER - LEAST(GREATEST(p_cost, 1), (l.value->>'capacity')::INTEGER), 0)
+            )
+        ), '{}'::jsonb)
+        INTO v_limits
+        FROM jsonb_each(v_limits) AS l;
+    END IF;
+
+    RETURN QUERY SELECT v_allowed, v_limited_scope, CEIL(v_retry_after)::INTEGER, v_limits;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_rate_limit FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.consume_rate_limit IS
+'Token Bucket pro User (Plan), IP und global. Bucht nur ab, wenn alle Buckets genug Tokens haben.';
+
+-- ============================================
+-- 4. Aufräumen (pg_cron, optional)
+-- ============================================
+-- Buckets, die seit einem Tag nicht genutzt wurden, sind wieder voll.
+
+CREATE OR REPLACE FUNCTION public.cleanup_rate_limit_buckets()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_deleted INTEGER;
+BEGIN
+    DELETE FROM rate_limit_buckets b
+    WHERE b.refilled_at < NOW() - INTERVAL '1 day';
+
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+    RETURN v_deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cleanup_rate_limit_buckets FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'cleanup-rate-limit-buckets',
+            '*/30 * * * *',
+            'SELECT public.cleanup_rate_limit_buckets()'
+        );
+    END IF;
+END;
+$$;
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
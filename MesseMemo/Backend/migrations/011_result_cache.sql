@@ -0,0 +1,120 @@
+-- ============================================
+-- MesseMemo Result Cache Migration
+-- Version: 011
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Ergebnis-Cache für KI-Functions (process-card, generate-email).
+-- Schlüssel ist ein SHA-256 über die normalisierte Eingabe plus Prompt-
+-- Version, Provider und Modelle (siehe _shared/result-cache.ts). Ein Treffer
+-- wird ohne KI-Call und ohne Credit ausgeliefert.
+--
+-- Nur die Service Role liest und schreibt; abgelaufene Einträge räumt
+-- pg_cron auf.
+-- ============================================
+
+-- ============================================
+-- 1. Tabelle ai_result_cache
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.ai_result_cache (
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    function_name TEXT NOT NULL,
+    -- SHA-256 (hex) über Eingabe + Prompt-Version + Modelle
+    input_hash TEXT NOT NULL CHECK (input_hash ~ '^[0-9a-f]{64}$'),
+
+    -- Antwort ohne user-spezifische Laufzeitwerte (credits_remaining, Dubletten)
+    response_body JSONB NOT NULL,
+
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    last_hit_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    PRIMARY KEY (user_id, function_name, input_hash)
+);
+
+CREATE INDEX IF NOT EXISTS ai_result_cache_expires_idx
+    ON public.ai_result_cache (expires_at);
+
+-- Nur Service Role, keine Policies für User
+ALTER TABLE public.ai_result_cache ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.ai_result_cache IS
+'Gecachte KI-Ergebnisse pro User, Function und Eingabe-Hash (mit TTL).';
+
+-- ============================================
+-- 2. RPC: Treffer lesen
+-- ============================================
+-- Liefert die gespeicherte Antwort (oder NULL) und zählt den Treffer.
+
+CREATE OR REPLACE FUNCTION public.lookup_ai_result_cache(
+    p_user_id UUID,
+    p_function_name TEXT,
+    p_input_hash TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_body JSONB;
+BEGIN
+    UPDATE ai_result_cache c
+    SET hit_count = c.hit_count + 1,
+        last_hit_at = NOW()
+    WHERE c.user_id = p_user_id
+      AND c.function_name = p_function_name
+      AND c.input_hash = p_input_hash
+      AND c.expires_at > NOW()
+    RETURNING c.response_body INTO v_body;
+
+    RETURN v_body;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lookup_ai_result_cache FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.lookup_ai_result_cache IS
+'Gibt ein nicht abgelaufenes Cache-Ergebnis zurück und erhöht hit_count.';
+
+-- ============================================
+-- 3. Aufräumen (pg_cron, optional)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.cleanup_ai_result_cache()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_deleted INTEGER;
+BEGIN
+    DELETE FROM ai_result_cache c
+    WHERE c.expires_at < NOW();
+
+    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+    RETURN v_deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cleanup_ai_result_cache FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'cleanup-ai-result-cache',
+            '15 3 * * *',
+            'SELECT public.cleanup_ai_result_cache()'
+        );
+    END IF;
+END;
+$$;
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
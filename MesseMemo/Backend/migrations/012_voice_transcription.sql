@@ -0,0 +1,258 @@
+-- ============================================
+-- MesseMemo Voice Transcription Migration
+-- Version: 012
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Serverseitige Transkription der Sprachmemos (Edge Function transcribe-memo).
+--   - leads bekommt erkannte Sprache, Segmente mit Zeitstempeln und
+--     den Zeitpunkt der Transkription
+--   - reserve_ai_credit kann mehrere Credits reservieren (p_amount)
+--   - settle_ai_credit schließt eine Reservierung mit dem tatsächlichen
+--     Betrag ab (z.B. nach der echten Audio-Dauer) und bucht die Differenz
+-- ============================================
+
+-- ============================================
+-- 1. Spalten auf leads
+-- ============================================
+
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS transcript_language TEXT;
+-- [{ "start": 0.0, "end": 4.2, "text": "..." }] in Sekunden
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS transcript_segments JSONB;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS transcribed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.leads.transcript_segments IS
+'Segmente der Server-Transkription mit Start/Ende in Sekunden.';
+
+-- ============================================
+-- 2. RPC: Mehrere Credits reservieren (ersetzt 008)
+-- ============================================
+
+DROP FUNCTION IF EXISTS public.reserve_ai_credit(UUID, TEXT, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.reserve_ai_credit(
+    p_user_id UUID,
+    p_function_name TEXT,
+    p_idempotency_key TEXT,
+    p_ttl_seconds INTEGER DEFAULT 120,
+    p_amount INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    reservation_id UUID,
+    credits_remaining INTEGER,
+    error_message TEXT,
+    replayed BOOLEAN,
+    response_status INTEGER,
+    response_body JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_current_credits INTEGER;
+    v_is_premium BOOLEAN;
+    v_existing_id UUID;
+    v_existing_status TEXT;
+    v_existing_response_status INTEGER;
+    v_existing_response_body JSONB;
+    v_amount INTEGER;
+    v_reservation_id UUID;
+BEGIN
+    -- Verwaiste Reservierungen dieses Users zuerst freigeben
+    PERFORM release_expired_credit_reservations(p_user_id);
+
+    -- Existiert bereits eine Reservierung mit diesem Key?
+    SELECT r.id, r.status, r.response_status, r.response_body
+    INTO v_existing_id, v_existing_status, v_existing_response_status, v_existing_response_body
+    FROM credit_reservations r
+    WHERE r.user_id = p_user_id
+      AND r.function_name = p_function_name
+      AND r.idempotency_key = p_idempotency_key
+    FOR UPDATE;
+
+    IF FOUND THEN
+        -- Bereits erfolgreich → Original-Antwort zurückgeben, nichts abbuchen
+        IF v_existing_status = 'committed' THEN
+            RETURN QUERY SELECT TRUE, v_existing_id, NULL::INTEGER, NULL::TEXT,
+                TRUE, v_existing_response_status, v_existing_response_body;
+            RETURN;
+        END IF;
+
+        -- Läuft noch (paralleler Retry)
+        IF v_existing_status = 'reserved' THEN
+            RETURN QUERY SELECT FALSE, v_existing_id, NULL::INTEGER,
+                'Anfrage wird bereits verarbeitet'::TEXT, FALSE, NULL::INTEGER, NULL::JSONB;
+            RETURN;
+        END IF;
+
+        -- 'released' → neuer Versuch mit demselben Key ist erlaubt
+    END IF;
+
+    SELECT p.ai_credits_balance, p.is_premium
+    INTO v_current_credits, v_is_premium
+    FROM profiles p
+    WHERE p.id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, 0, 'User nicht gefunden'::TEXT,
+            FALSE, NULL::INTEGER, NULL::JSONB;
+        RETURN;
+    END IF;
+
+    IF v_is_premium THEN
+        v_amount := 0;
+    ELSE
+        v_amount := GREATEST(COALESCE(p_amount, 1), 1);
+
+        IF v_current_credits < 1 THEN
+            RETURN QUERY SELECT FALSE, NULL::UUID, 0, 'Kein Guthaben mehr'::TEXT,
+                FALSE, NULL::INTEGER, NULL::JSONB;
+            RETURN;
+        END IF;
+
+        IF v_current_credits < v_amount THEN
+            RETURN QUERY SELECT FALSE, NULL::UUID, v_current_credits,
+                format('Nicht genug Guthaben (%s Credits benötigt)', v_amount),
+                FALSE, NULL::INTEGER, NULL::JSONB;
+            RETURN;
+        END IF;
+
+        UPDATE profiles p
+        SET ai_credits_balance = p.ai_credits_balance - v_amount,
+            updated_at = NOW()
+        WHERE p.id = p_user_id;
+    END IF;
+
+    IF v_existing_id IS NOT NULL THEN
+        UPDATE credit_reservations r
+        SET status = 'reserved',
+            amount = v_amount,
+            response_status = NULL,
+            response_body = NULL,
+            expires_at = NOW() + make_interval(secs => p_ttl_seconds)
+        WHERE r.id = v_existing_id;
+        v_reservation_id := v_existing_id;
+    ELSE
+        INSERT INTO credit_reservations (user_id, function_name, idempotency_key, amount, expires_at)
+        VALUES (p_user_id, p_function_name, p_idempotency_key, v_amount,
+                NOW() + make_interval(secs => p_ttl_seconds))
+        RETURNING id INTO v_reservation_id;
+    END IF;
+
+    IF v_amount > 0 THEN
+        PERFORM record_credit_transaction(
+            p_user_id, -v_amount, 'usage', p_function_name, p_idempotency_key, v_reservation_id
+        );
+    END IF;
+
+    RETURN QUERY SELECT TRUE, v_reservation_id,
+        CASE WHEN v_is_premium THEN -1 ELSE v_current_credits - v_amount END, -- -1 = unbegrenzt
+        NULL::TEXT, FALSE, NULL::INTEGER, NULL::JSONB;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_ai_credit FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.reserve_ai_credit IS
+'Reserviert p_amount Credits (Premium: 0) für einen Idempotency-Key. Committete Keys liefern die gespeicherte Antwort.';
+
+-- ============================================
+-- 3. RPC: Reservierung mit tatsächlichem Betrag abschließen
+-- ============================================
+-- Wie commit_ai_credit, aber mit Endbetrag p_amount:
+--   weniger als reserviert → Differenz wird erstattet ('refund')
+--   mehr als reserviert    → Differenz wird nachgebucht ('usage'),
+--                            höchstens bis Guthaben 0
+-- charged = tatsächlich abgebuchte Credits der Reservierung.
+
+CREATE OR REPLACE FUNCTION public.settle_ai_credit(
+    p_reservation_id UUID,
+    p_amount INTEGER,
+    p_response_status INTEGER,
+    p_response_body JSONB
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    charged INTEGER,
+    credits_remaining INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_reservation RECORD;
+    v_balance INTEGER;
+    v_is_premium BOOLEAN;
+    v_final INTEGER;
+    v_diff INTEGER;
+BEGIN
+    SELECT r.id, r.user_id, r.amount, r.function_name, r.idempotency_key
+    INTO v_reservation
+    FROM credit_reservations r
+    WHERE r.id = p_reservation_id
+      AND r.status = 'reserved'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, 0, NULL::INTEGER;
+        RETURN;
+    END IF;
+
+    SELECT p.ai_credits_balance, p.is_premium
+    INTO v_balance, v_is_premium
+    FROM profiles p
+    WHERE p.id = v_reservation.user_id
+    FOR UPDATE;
+
+    -- Premium war beim Reservieren kostenlos und bleibt es
+    IF v_is_premium OR v_reservation.amount = 0 THEN
+        v_final := v_reservation.amount;
+    ELSE
+        v_final := GREATEST(COALESCE(p_amount, v_reservation.amount), 0);
+    END IF;
+
+    v_diff := v_final - v_reservation.amount;
+
+    IF v_diff > 0 THEN
+        v_diff := LEAST(v_diff, GREATEST(v_balance, 0));
+        v_final := v_reservation.amount + v_diff;
+    END IF;
+
+    IF v_diff <> 0 THEN
+        UPDATE profiles p
+        SET ai_credits_balance = p.ai_credits_balance - v_diff,
+            updated_at = NOW()
+        WHERE p.id = v_reservation.user_id
+        RETURNING p.ai_credits_balance INTO v_balance;
+
+        PERFORM record_credit_transaction(
+            v_reservation.user_id, -v_diff,
+            CASE WHEN v_diff > 0 THEN 'usage' ELSE 'refund' END,
+            v_reservation.function_name, v_reservation.idempotency_key, v_reservation.id
+        );
+    END IF;
+
+    UPDATE credit_reservations r
+    SET status = 'committed',
+        amount = v_final,
+        response_status = p_response_status,
+        response_body = p_response_body
+    WHERE r.id = p_reservation_id;
+
+    RETURN QUERY SELECT TRUE, v_final,
+        CASE WHEN v_is_premium THEN -1 ELSE v_balance END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_ai_credit FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.settle_ai_credit IS
+'Committet eine Reservierung mit dem tatsächlichen Betrag und bucht die Differenz (Erstattung oder Nachbuchung bis Guthaben 0).';
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
@@ -0,0 +1,46 @@
+-- ============================================
+-- MesseMemo Lead Qualification Migration
+-- Version: 013
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Strukturierte Auswertung von Notizen und Transkript (Edge Function
+-- qualify-lead): Zusammenfassung, Produktinteressen, BANT-Signale,
+-- offene Fragen, Next Steps, Follow-up Datum und Lead-Score.
+-- Score und Follow-up Datum sind eigene Spalten, damit das Dashboard
+-- nach den heißesten Leads sortieren kann.
+-- ============================================
+
+-- ============================================
+-- 1. Spalten auf leads
+-- ============================================
+
+-- Vollständiges Ergebnis (siehe _shared/qualification.ts)
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS qualification JSONB;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS lead_score INTEGER
+    CHECK (lead_score BETWEEN 0 AND 100);
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS follow_up_date DATE;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS qualified_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.leads.qualification IS
+'KI-Auswertung des Gesprächs: summary, products_of_interest, bant, open_questions, next_steps, score_reasons.';
+COMMENT ON COLUMN public.leads.lead_score IS
+'Lead-Score 0 (kalt) bis 100 (heiß) aus qualify-lead.';
+
+-- ============================================
+-- 2. Indizes für das Dashboard
+-- ============================================
+
+-- "Heißeste Leads zuerst"
+CREATE INDEX IF NOT EXISTS leads_user_score_idx
+    ON public.leads (user_id, lead_score DESC NULLS LAST)
+    WHERE deleted_at IS NULL;
+
+-- Fällige Follow-ups
+CREATE INDEX IF NOT EXISTS leads_user_follow_up_idx
+    ON public.leads (user_id, follow_up_date)
+    WHERE deleted_at IS NULL AND follow_up_date IS NOT NULL;
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
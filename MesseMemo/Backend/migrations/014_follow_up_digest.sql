@@ -0,0 +1,390 @@
+-- ============================================
+-- MesseMemo Follow-up Digest Migration
+-- Version: 014
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Tägliche Erinnerung an offene Follow-ups (Edge Function follow-up-digest).
+-- Die Function läuft per pg_cron (z.B. stündlich) und holt sich mit
+-- claim_follow_up_digests alle User, bei denen
+--   - die lokale Versandstunde erreicht ist und keine Ruhezeit gilt,
+--   - heute (lokales Datum) noch kein Digest verschickt wurde,
+--   - mindestens ein Lead fällig ist: follow_up_date erreicht oder
+--     ohne Follow-up seit follow_up_after_days Tagen.
+-- Versandweg: E-Mail (SMTP), Webhook oder Push (APNs).
+-- ============================================
+
+-- ============================================
+-- 1. leads: Follow-up verschickt
+-- ============================================
+
+-- Gesetzt von send-email oder der App, sobald das Follow-up raus ist
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS follow_up_sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS leads_user_open_follow_up_idx
+    ON public.leads (user_id, created_at)
+    WHERE deleted_at IS NULL AND follow_up_sent_at IS NULL;
+
+-- ============================================
+-- 2. user_settings: Digest-Einstellungen
+-- ============================================
+
+ALTER TABLE public.user_settings ADD COLUMN IF NOT EXISTS digest_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE public.user_settings ADD COLUMN IF NOT EXISTS digest_channel TEXT NOT NULL DEFAULT 'email'
+    CHECK (digest_channel IN ('email', 'webhook', 'push'));
+-- NULL = Login-E-Mail des Users
+ALTER TABLE public.user_settings ADD COLUMN IF NOT EXISTS digest_email TEXT;
+-- URL und Signatur-Secret setzt nur follow-up-digest (PUT /webhook) nach der
+-- SSRF-Prüfung, siehe Trigger user_settings_digest_webhook
+ALTER TABLE public.user_settings ADD COLUMN IF NOT EXISTS digest_webhook_url TEXT
+    CHECK (digest_webhook_url ~ '^https://');
+ALTER TABLE public.user_settings ADD COLUMN IF NOT EXISTS digest_webhook_secret TEXT;
+-- Lokale Stunde (0–23), ab der verschickt wird
+ALTER TABLE public.user_settings ADD COLUMN IF NOT EXISTS digest_hour SMALLINT NOT NULL DEFAULT 8
+    CHECK (digest_hour BETWEEN 0 AND 23);
+ALTER TABLE public.user_settings ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Europe/Berlin';
+-- Ruhezeit (lokale Stunden, Ende exklusiv), darf über Mitternacht gehen (22 → 7)
+ALTER TABLE public.user_settings ADD COLUMN IF NOT EXISTS quiet_hours_start SMALLINT
+    CHECK (quiet_hours_start BETWEEN 0 AND 23);
+ALTER TABLE public.user_settings ADD COLUMN IF NOT EXISTS quiet_hours_end SMALLINT
+    CHECK (quiet_hours_end BETWEEN 0 AND 23);
+-- Leads ohne follow_up_date gelten nach so vielen Tagen als fällig
+ALTER TABLE public.user_settings ADD COLUMN IF NOT EXISTS follow_up_after_days SMALLINT NOT NULL DEFAULT 3
+    CHECK (follow_up_after_days BETWEEN 1 AND 60);
+
+-- Ungültige Zeitzonen würden den Digest-Lauf abbrechen → beim Speichern prüfen
+CREATE OR REPLACE FUNCTION public.validate_user_settings_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+        RAISE EXCEPTION 'Unbekannte Zeitzone: %', NEW.timezone
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS user_settings_timezone ON public.user_settings;
+CREATE TRIGGER user_settings_timezone
+    BEFORE INSERT OR UPDATE OF timezone ON public.user_settings
+    FOR EACH ROW EXECUTE FUNCTION public.validate_user_settings_timezone();
+
+-- Webhook-URL nicht per Client: der Digest-Job würde sonst Lead-Daten an
+-- beliebige Adressen schicken (127.0.0.1, Metadata-Dienste, interne Hosts).
+-- Die Service Role (follow-up-digest) ist davon nicht betroffen.
+CREATE OR REPLACE FUNCTION public.handle_user_settings_digest_webhook()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') AND (
+        CASE WHEN TG_OP = 'INSERT' THEN
+            NEW.digest_webhook_url IS NOT NULL OR NEW.digest_webhook_secret IS NOT NULL
+        ELSE
+            NEW.digest_webhook_url IS DISTINCT FROM OLD.digest_webhook_url
+            OR NEW.digest_webhook_secret IS DISTINCT FROM OLD.digest_webhook_secret
+        END
+    ) THEN
+        RAISE EXCEPTION 'Die Digest-Webhook-URL wird über follow-up-digest gesetzt'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS user_settings_digest_webhook ON public.user_settings;
+CREATE TRIGGER user_settings_digest_webhook
+    BEFORE INSERT OR UPDATE ON public.user_settings
+    FOR EACH ROW EXECUTE FUNCTION public.handle_user_settings_digest_webhook();
+
+COMMENT ON FUNCTION public.handle_user_settings_digest_webhook IS
+'Verhindert, dass Clients digest_webhook_url oder digest_webhook_secret direkt setzen.';
+
+-- ============================================
+-- 3. Tabelle push_devices (APNs Device Tokens)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.push_devices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+    -- Hex-Token aus didRegisterForRemoteNotificationsWithDeviceToken
+    token TEXT NOT NULL UNIQUE CHECK (token ~ '^[0-9a-f]{64,200}$'),
+    environment TEXT NOT NULL DEFAULT 'production'
+        CHECK (environment IN ('production', 'sandbox')),
+
+    -- Von APNs abgelehnt (Unregistered, BadDeviceToken) → nicht mehr verwenden
+    disabled_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS push_devices_user_id_idx
+    ON public.push_devices (user_id)
+    WHERE disabled_at IS NULL;
+
+DROP TRIGGER IF EXISTS push_devices_updated_at ON public.push_devices;
+CREATE TRIGGER push_devices_updated_at
+    BEFORE UPDATE ON public.push_devices
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.push_devices ENABLE ROW LEVEL SECURITY;
+
+-- Die App registriert und entfernt ihre eigenen Tokens
+DROP POLICY IF EXISTS "Users can view own push devices" ON public.push_devices;
+CREATE POLICY "Users can view own push devices"
+    ON public.push_devices FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can register own push devices" ON public.push_devices;
+CREATE POLICY "Users can register own push devices"
+    ON public.push_devices FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own push devices" ON public.push_devices;
+CREATE POLICY "Users can delete own push devices"
+    ON public.push_devices FOR DELETE
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.push_devices IS
+'APNs Device Tokens pro User für Push-Benachrichtigungen.';
+
+-- ============================================
+-- 4. Tabelle follow_up_digests (Versand-Log)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.follow_up_digests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+    -- Lokales Datum des Users → höchstens ein Digest pro Tag
+    digest_date DATE NOT NULL,
+    channel TEXT NOT NULL CHECK (channel IN ('email', 'webhook', 'push')),
+
+    -- sending → sent | failed (max. 3 Versuche)
+    status TEXT NOT NULL DEFAULT 'sending'
+        CHECK (status IN ('sending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 1,
+    lead_ids UUID[] NOT NULL DEFAULT '{}',
+    error TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    CONSTRAINT follow_up_digests_user_date_key UNIQUE (user_id, digest_date)
+);
+
+DROP TRIGGER IF EXISTS follow_up_digests_updated_at ON public.follow_up_digests;
+CREATE TRIGGER follow_up_digests_updated_at
+    BEFORE UPDATE ON public.follow_up_digests
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.follow_up_digests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own follow-up digests" ON public.follow_up_digests;
+CREATE POLICY "Users can view own follow-up digests"
+    ON public.follow_up_digests FOR SELECT
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.follow_up_digests IS
+'Versand-Log der täglichen Follow-up-Erinnerungen (ein Eintrag pro User und lokalem Tag).';
+
+-- ============================================
+-- 5. RPC: Fällige Digests reservieren
+-- ============================================
+-- Legt für jeden fälligen User einen Eintrag 'sending' an (oder übernimmt
+-- einen fehlgeschlagenen bzw. seit 1 Stunde hängenden) und liefert die
+-- Empfänger-Daten und bis zu 20 fällige Leads. Parallele Läufe bekommen
+-- nie denselben User. p_force ignoriert Versandstunde und Ruhezeit (Test).
+
+-- Ältere Fassung ohne webhook_secret ersetzen (anderer Rückgabetyp)
+DROP FUNCTION IF EXISTS public.claim_follow_up_digests(INTEGER, UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.claim_follow_up_digests(
+    p_limit INTEGER DEFAULT 50,
+    p_user_id UUID DEFAULT NULL,
+    p_force BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+    digest_id UUID,
+    user_id UUID,
+    digest_date DATE,
+    channel TEXT,
+    email TEXT,
+    webhook_url TEXT,
+    webhook_secret TEXT,
+    display_name TEXT,
+    language TEXT,
+    leads JSONB,
+    total_leads INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_candidate RECORD;
+    v_digest_id UUID;
+    v_leads JSONB;
+    v_total INTEGER;
+    v_claimed INTEGER := 0;
+BEGIN
+    FOR v_candidate IN
+        SELECT
+            p.id AS user_id,
+            p.display_name,
+            COALESCE(s.digest_channel, 'email') AS channel,
+            COALESCE(NULLIF(s.digest_email, ''), u.email) AS email,
+            s.digest_webhook_url AS webhook_url,
+            s.digest_webhook_secret AS webhook_secret,
+            COALESCE(s.email_language, 'de') AS language,
+            COALESCE(s.follow_up_after_days, 3) AS after_days,
+            (NOW() AT TIME ZONE COALESCE(s.timezone, 'Europe/Berlin'))::DATE AS local_date,
+            EXTRACT(HOUR FROM NOW() AT TIME ZONE COALESCE(s.timezone, 'Europe/Berlin'))::INTEGER AS local_hour,
+            COALESCE(s.digest_hour, 8) AS digest_hour,
+            s.quiet_hours_start,
+            s.quiet_hours_end
+        FROM profiles p
+        JOIN auth.users u ON u.id = p.id
+        LEFT JOIN user_settings s ON s.user_id = p.id
+        WHERE COALESCE(s.digest_enabled, TRUE)
+          AND (p_user_id IS NULL OR p.id = p_user_id)
+        ORDER BY p.id
+    LOOP
+        EXIT WHEN v_claimed >= p_limit;
+
+        IF NOT p_force THEN
+            CONTINUE WHEN v_candidate.local_hour < v_candidate.digest_hour;
+
+            -- Ruhezeit, ggf. über Mitternacht
+            CONTINUE WHEN v_candidate.quiet_hours_start IS NOT NULL
+                AND v_candidate.quiet_hours_end IS NOT NULL
+                AND v_candidate.quiet_hours_start <> v_candidate.quiet_hours_end
+                AND CASE
+                    WHEN v_candidate.quiet_hours_start < v_candidate.quiet_hours_end THEN
+                        v_candidate.local_hour >= v_candidate.quiet_hours_start
+                        AND v_candidate.local_hour < v_candidate.quiet_hours_end
+                    ELSE
+                        v_candidate.local_hour >= v_candidate.quiet_hours_start
+                        OR v_candidate.local_hour < v_candidate.quiet_hours_end
+                END;
+        END IF;
+
+        -- Fällige Leads, heißeste zuerst
+        SELECT
+            COALESCE(jsonb_agg(d.lead ORDER BY d.sort_score DESC, d.due_since) FILTER (WHERE d.rn <= 20), '[]'::jsonb),
+            COUNT(*)
+        INTO v_leads, v_total
+        FROM (
+            SELECT
+                jsonb_build_object(
+                    'id', l.id,
+                    'name', l.name,
+                    'company', l.company,
+                    'email', l.email,
+                    'lead_score', l.lead_score,
+                    'follow_up_date', l.follow_up_date,
+                    'created_at', l.created_at,
+                    'reason', CASE WHEN l.follow_up_date IS NOT NULL THEN 'follow_up_date' ELSE 'no_follow_up' END
+                ) AS lead,
+                COALESCE(l.lead_score, -1) AS sort_score,
+                COALESCE(l.follow_up_date::TIMESTAMP WITH TIME ZONE, l.created_at) AS due_since,
+                ROW_NUMBER() OVER (
+                    ORDER BY COALESCE(l.lead_score, -1) DESC,
+                             COALESCE(l.follow_up_date::TIMESTAMP WITH TIME ZONE, l.created_at)
+                ) AS rn
+            FROM leads l
+            WHERE l.user_id = v_candidate.user_id
+              AND l.deleted_at IS NULL
+              AND l.follow_up_sent_at IS NULL
+              AND (
+                  l.follow_up_date <= v_candidate.local_date
+                  OR (l.follow_up_date IS NULL
+                      AND l.created_at <= NOW() - make_interval(days => v_candidate.after_days))
+              )
+        ) d;
+
+        CONTINUE WHEN v_total = 0;
+
+        v_digest_id := NULL;
+
+        INSERT INTO follow_up_digests AS f (user_id, digest_date, channel, status, attempts)
+        VALUES (v_candidate.user_id, v_candidate.local_date, v_candidate.channel, 'sending', 1)
+        -- Constraint-Name statt Spalten (Spalten heißen wie die OUT-Parameter)
+        ON CONFLICT ON CONSTRAINT follow_up_digests_user_date_key DO UPDATE
+            SET status = 'sending',
+                channel = EXCLUDED.channel,
+                attempts = f.attempts + 1,
+                error = NULL
+            WHERE (f.status = 'failed' AND f.attempts < 3)
+               OR (f.status = 'sending' AND f.updated_at < NOW() - INTERVAL '1 hour')
+        RETURNING f.id INTO v_digest_id;
+
+        CONTINUE WHEN v_digest_id IS NULL;
+
+        v_claimed := v_claimed + 1;
+
+        RETURN QUERY SELECT
+            v_digest_id, v_candidate.user_id, v_candidate.local_date, v_candidate.channel,
+            v_candidate.email::TEXT, v_candidate.webhook_url, v_candidate.webhook_secret, v_candidate.display_name,
+            v_candidate.language, v_leads, v_total;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_follow_up_digests FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.claim_follow_up_digests IS
+'Reserviert fällige Follow-up-Digests (Versandstunde, Ruhezeit, 1x pro lokalem Tag) und liefert Empfänger und Leads.';
+
+-- ============================================
+-- 6. Zeitplan (pg_cron + pg_net)
+-- ============================================
+-- Ruft die Edge Function nach Zeitplan auf. Stündlich reicht, weil jeder
+-- User seine eigene Versandstunde hat:
+--   SELECT schedule_follow_up_digest(
+--       'https://<project>.supabase.co/functions/v1/follow-up-digest',
+--       '<CRON_SECRET>'
+--   );
+-- Erneuter Aufruf ändert den Zeitplan; cron.unschedule('follow-up-digest')
+-- stoppt ihn.
+
+CREATE OR REPLACE FUNCTION public.schedule_follow_up_digest(
+    p_function_url TEXT,
+    p_secret TEXT,
+    p_schedule TEXT DEFAULT '0 * * * *'
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+       OR NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+        RAISE EXCEPTION 'pg_cron und pg_net müssen aktiviert sein';
+    END IF;
+
+    RETURN cron.schedule(
+        'follow-up-digest',
+        p_schedule,
+        format(
+            'SELECT net.http_post(url := %L, headers := %L::jsonb, body := ''{}''::jsonb, timeout_milliseconds := 60000)',
+            p_function_url,
+            jsonb_build_object(
+                'Content-Type', 'application/json',
+                'Authorization', 'Bearer ' || p_secret
+            )
+        )
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.schedule_follow_up_digest FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
@@ -0,0 +1,263 @@
+-- ============================================
+-- MesseMemo E-Mail Outbox Migration
+-- Version: 015
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Versand von Follow-up-Mails über den Server (Edge Function send-email):
+--   - email_outbox: eine Zeile pro Mail, sofort oder geplant (scheduled_at),
+--     mit Status queued → sending → sent | failed | bounced | cancelled
+--     und Wiederholung mit Backoff bei vorübergehenden Fehlern
+--   - email_opt_outs: Kontakte, die weiteren Mails widersprochen haben
+--     (Art. 21 DSGVO) – an sie wird nichts verschickt
+--   - leads.email_status: letzter Versandstatus am Lead (für sync-leads)
+-- ============================================
+
+-- ============================================
+-- 1. Tabelle email_outbox
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    -- Lead bleibt optional, damit das Log ein Löschen des Leads überlebt
+    lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+
+    to_email TEXT NOT NULL,
+    reply_to TEXT,
+    subject TEXT NOT NULL CHECK (char_length(subject) BETWEEN 1 AND 300),
+    body_text TEXT NOT NULL CHECK (char_length(body_text) BETWEEN 1 AND 20000),
+    body_html TEXT,
+
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'sending', 'sent', 'failed', 'bounced', 'cancelled')),
+    scheduled_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    -- Nächster Versuch nach vorübergehendem Fehler
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+
+    provider TEXT,
+    provider_message_id TEXT,
+    idempotency_key TEXT,
+
+    sent_at TIMESTAMP WITH TIME ZONE,
+    bounced_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    UNIQUE (user_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS email_outbox_due_idx
+    ON public.email_outbox (next_attempt_at)
+    WHERE status = 'queued';
+
+CREATE INDEX IF NOT EXISTS email_outbox_lead_idx
+    ON public.email_outbox (lead_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS email_outbox_provider_message_idx
+    ON public.email_outbox (provider_message_id)
+    WHERE provider_message_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS email_outbox_updated_at ON public.email_outbox;
+CREATE TRIGGER email_outbox_updated_at
+    BEFORE UPDATE ON public.email_outbox
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Lesen darf der User, schreiben nur send-email (Service Role)
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own outbox" ON public.email_outbox;
+CREATE POLICY "Users can view own outbox"
+    ON public.email_outbox FOR SELECT
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.email_outbox IS
+'Vom Server verschickte oder geplante E-Mails an Leads mit Versandstatus und Wiederholungen.';
+
+-- ============================================
+-- 2. Tabelle email_opt_outs
+-- ============================================
+-- Widerspruch gilt pro Absender (User): der Kontakt hat einem bestimmten
+-- Aussteller widersprochen, nicht allen MesseMemo-Nutzern.
+
+CREATE TABLE IF NOT EXISTS public.email_opt_outs (
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    -- Immer klein geschrieben
+    email TEXT NOT NULL CHECK (email = lower(email)),
+    -- manual: vom User erfasst, unsubscribe: Abmelde-Link, bounce: Adresse existiert nicht
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'unsubscribe', 'bounce')),
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    PRIMARY KEY (user_id, email)
+);
+
+ALTER TABLE public.email_opt_outs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own opt-outs" ON public.email_opt_outs;
+CREATE POLICY "Users can view own opt-outs"
+    ON public.email_opt_outs FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can add own opt-outs" ON public.email_opt_outs;
+CREATE POLICY "Users can add own opt-outs"
+    ON public.email_opt_outs FOR INSERT
+    WITH CHECK (auth.uid() = user_id AND source = 'manual');
+
+-- Nur selbst erfasste Einträge; Widersprüche der Kontakte bleiben stehen
+DROP POLICY IF EXISTS "Users can delete own manual opt-outs" ON public.email_opt_outs;
+CREATE POLICY "Users can delete own manual opt-outs"
+    ON public.email_opt_outs FOR DELETE
+    USING (auth.uid() = user_id AND source = 'manual');
+
+COMMENT ON TABLE public.email_opt_outs IS
+'Kontakte, die weiteren E-Mails eines Users widersprochen haben (Sperrliste für send-email).';
+
+-- ============================================
+-- 3. leads: letzter Versandstatus
+-- ============================================
+
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS email_status TEXT
+    CHECK (email_status IN ('queued', 'sent', 'failed', 'bounced', 'cancelled'));
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS email_status_at TIMESTAMP WITH TIME ZONE;
+
+-- Spiegelt Statuswechsel der Outbox an den Lead; updated_at setzt der
+-- Sync-Trigger, damit sync-leads die Änderung verteilt
+CREATE OR REPLACE FUNCTION public.handle_email_outbox_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.lead_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+    -- 'sending' ist ein interner Zwischenschritt
+    IF NEW.status = 'sending' THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE leads
+    SET email_status = NEW.status,
+        email_status_at = NOW(),
+        follow_up_sent_at = CASE
+            WHEN NEW.status = 'sent' THEN COALESCE(follow_up_sent_at, NEW.sent_at, NOW())
+            ELSE follow_up_sent_at
+        END
+    WHERE id = NEW.lead_id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS email_outbox_status ON public.email_outbox;
+CREATE TRIGGER email_outbox_status
+    AFTER INSERT OR UPDATE OF status ON public.email_outbox
+    FOR EACH ROW EXECUTE FUNCTION public.handle_email_outbox_status();
+
+-- ============================================
+-- 4. RPC: Fällige Mails reservieren
+-- ============================================
+-- Setzt fällige Mails (geplanter Zeitpunkt und Backoff erreicht) auf
+-- 'sending' und zählt den Versuch. Hängt eine Mail seit 15 Minuten in
+-- 'sending' (Function abgebrochen), wird sie erneut vergeben.
+-- p_id reserviert genau eine Mail (Sofortversand aus send-email).
+
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(
+    p_limit INTEGER DEFAULT 50,
+    p_id UUID DEFAULT NULL
+)
+RETURNS SETOF public.email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE email_outbox o
+    SET status = 'sending',
+        attempts = o.attempts + 1
+    WHERE o.id IN (
+        SELECT c.id
+        FROM email_outbox c
+        WHERE (p_id IS NULL OR c.id = p_id)
+          AND (
+              (c.status = 'queued' AND c.scheduled_at <= NOW() AND c.next_attempt_at <= NOW())
+              OR (c.status = 'sending' AND c.updated_at < NOW() - INTERVAL '15 minutes')
+          )
+        ORDER BY c.next_attempt_at
+        LIMIT GREATEST(1, LEAST(p_limit, 500))
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING o.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.claim_email_outbox IS
+'Reserviert fällige Mails der Outbox für den Versand (SKIP LOCKED, zählt attempts).';
+
+-- ============================================
+-- 5. Zeitplan (pg_cron + pg_net)
+-- ============================================
+-- Geplante Mails und Wiederholungen verschickt send-email/process:
+--   SELECT schedule_email_outbox(
+--       'https://<project>.supabase.co/functions/v1/send-email/process',
+--       '<CRON_SECRET>'
+--   );
+-- cron.unschedule('email-outbox') stoppt den Job.
+
+CREATE OR REPLACE FUNCTION public.schedule_email_outbox(
+    p_function_url TEXT,
+    p_secret TEXT,
+    p_schedule TEXT DEFAULT '* * * * *'
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+       OR NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+        RAISE EXCEPTION 'pg_cron und pg_net müssen aktiviert sein';
+    END IF;
+
+    RETURN cron.schedule(
+        'email-outbox',
+        p_schedule,
+        format(
+            'SELECT net.http_post(url := %L, headers := %L::jsonb, body := ''{}''::jsonb, timeout_milliseconds := 60000)',
+            p_function_url,
+            jsonb_build_object(
+                'Content-Type', 'application/json',
+                'Authorization', 'Bearer ' || p_secret
+            )
+        )
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.schedule_email_outbox FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 6. Rate Limits für send-email
+-- ============================================
+-- Strenger als die KI-Functions: schützt die Absender-Reputation
+
+INSERT INTO public.rate_limit_policies (scope, function_name, capacity, refill_per_minute) VALUES
+    ('free',    'send-email', 10,  2),
+    ('premium', 'send-email', 60,  10),
+    ('ip',      'send-email', 30,  10)
+ON CONFLICT (scope, function_name) DO NOTHING;
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
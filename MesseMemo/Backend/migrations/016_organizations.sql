@@ -0,0 +1,1288 @@
+-- ============================================
+-- MesseMemo Organizations Migration
+-- Version: 016
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Team-Workspaces für Messestände (Edge Function organizations):
+--   - organizations / memberships (owner, admin, member) / Einladungen
+--   - leads.organization_id: Leads sind für alle Mitglieder sichtbar und
+--     bearbeitbar; neue Leads eines Mitglieds gehören automatisch zur
+--     Organisation. Besitzer und Organisation eines Leads ändern nur RPCs.
+--   - Credit-Pool pro Organisation mit eigenem Ledger und optionalem
+--     Monatslimit pro Mitglied. use_ai_credit / reserve_ai_credit buchen
+--     zuerst aus dem Pool, danach vom persönlichen Guthaben.
+--
+-- Ein User gehört zu höchstens einer Organisation.
+-- ============================================
+
+-- ============================================
+-- 1. Tabelle organizations
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.organizations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+
+    -- Gemeinsamer Credit-Pool (gecachter Stand, Referenz ist das Ledger)
+    ai_credits_balance INTEGER NOT NULL DEFAULT 0 CHECK (ai_credits_balance >= 0),
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+DROP TRIGGER IF EXISTS organizations_updated_at ON public.organizations;
+CREATE TRIGGER organizations_updated_at
+    BEFORE UPDATE ON public.organizations
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+COMMENT ON TABLE public.organizations IS
+'Team-Workspaces (z.B. ein Messestand) mit gemeinsamen Leads und Credit-Pool.';
+
+-- ============================================
+-- 2. Tabelle memberships
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.memberships (
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    -- Höchstens eine Organisation pro User
+    user_id UUID NOT NULL UNIQUE REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+    -- Max. Credits aus dem Pool pro Kalendermonat (UTC), NULL = unbegrenzt
+    monthly_credit_cap INTEGER CHECK (monthly_credit_cap >= 0),
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    PRIMARY KEY (organization_id, user_id)
+);
+
+DROP TRIGGER IF EXISTS memberships_updated_at ON public.memberships;
+CREATE TRIGGER memberships_updated_at
+    BEFORE UPDATE ON public.memberships
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+COMMENT ON TABLE public.memberships IS
+'Mitglieder einer Organisation mit Rolle und optionalem Monatslimit für den Credit-Pool.';
+
+-- ============================================
+-- 3. Tabelle organization_invitations
+-- ============================================
+-- Gespeichert wird nur der SHA-256 des Tokens; der Token selbst geht
+-- einmalig an den Einladenden bzw. per Mail an den Eingeladenen.
+
+CREATE TABLE IF NOT EXISTS public.organization_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    email TEXT NOT NULL CHECK (email = lower(email)),
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+    token_hash TEXT NOT NULL UNIQUE CHECK (token_hash ~ '^[0-9a-f]{64}$'),
+    invited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    accepted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Pro Adresse eine offene Einladung je Organisation
+CREATE UNIQUE INDEX IF NOT EXISTS organization_invitations_open_idx
+    ON public.organization_invitations (organization_id, email)
+    WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+COMMENT ON TABLE public.organization_invitations IS
+'Einladungen in eine Organisation (Token-Hash, Rolle, Ablauf).';
+
+-- ============================================
+-- 4. Tabelle organization_credit_transactions
+-- ============================================
+-- Append-only Ledger des Pools, analog zu credit_transactions.
+-- user_id = Mitglied, das gebucht hat (Verbrauch, Übertrag).
+
+CREATE TABLE IF NOT EXISTS public.organization_credit_transactions (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+
+    amount INTEGER NOT NULL CHECK (amount <> 0),
+    balance_after INTEGER NOT NULL,
+
+    reason TEXT NOT NULL CHECK (reason IN (
+        'transfer',           -- Übertrag vom persönlichen Guthaben eines Mitglieds
+        'purchase',           -- Kauf für die Organisation
+        'usage',              -- KI-Request eines Mitglieds
+        'refund',             -- Reservierung freigegeben
+        'expired_refund',     -- Reservierung nie committet, automatisch erstattet
+        'adjustment'          -- Manuelle Korrektur (Support)
+    )),
+
+    function_name TEXT,
+    request_id TEXT,
+    reservation_id UUID REFERENCES public.credit_reservations(id) ON DELETE SET NULL,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS organization_credit_transactions_org_idx
+    ON public.organization_credit_transactions (organization_id, id DESC);
+
+-- Verbrauch je Mitglied und Monat (Monatslimit)
+CREATE INDEX IF NOT EXISTS organization_credit_transactions_member_idx
+    ON public.organization_credit_transactions (organization_id, user_id, created_at);
+
+DROP TRIGGER IF EXISTS organization_credit_transactions_append_only ON public.organization_credit_transactions;
+CREATE TRIGGER organization_credit_transactions_append_only
+    BEFORE UPDATE ON public.organization_credit_transactions
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_credit_transaction_update();
+
+COMMENT ON TABLE public.organization_credit_transactions IS
+'Append-only Ledger des Credit-Pools einer Organisation.';
+
+-- Reservierungen merken sich, aus welchem Pool gebucht wurde
+ALTER TABLE public.credit_reservations
+    ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+-- ============================================
+-- 5. leads: Organisation
+-- ============================================
+
+ALTER TABLE public.leads
+    ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+DROP INDEX IF EXISTS public.leads_organization_sync_seq_idx;
+CREATE INDEX IF NOT EXISTS leads_organization_sync_idx
+    ON public.leads (organization_id, sync_xid, sync_seq)
+    WHERE organization_id IS NOT NULL;
+
+-- Neue Leads eines Mitglieds gehören automatisch zur Organisation
+CREATE OR REPLACE FUNCTION public.handle_leads_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.organization_id IS NULL THEN
+        SELECT m.organization_id INTO NEW.organization_id
+        FROM memberships m
+        WHERE m.user_id = NEW.user_id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS leads_organization ON public.leads;
+CREATE TRIGGER leads_organization
+    BEFORE INSERT ON public.leads
+    FOR EACH ROW EXECUTE FUNCTION public.handle_leads_organization();
+
+-- Besitzer und Organisation nicht per Client-Update: die Update-Policy
+-- prüft nur, ob der neue Stand sichtbar ist – ein Mitglied könnte sonst
+-- Leads der Organisation an sich ziehen oder in eine andere verschieben.
+-- RPCs (SECURITY DEFINER, z.B. accept_organization_invitation) und die
+-- Service Role sind davon nicht betroffen.
+CREATE OR REPLACE FUNCTION public.handle_leads_ownership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF current_user IN ('anon', 'authenticated') AND (
+        NEW.user_id IS DISTINCT FROM OLD.user_id
+        OR NEW.organization_id IS DISTINCT FROM OLD.organization_id
+    ) THEN
+        RAISE EXCEPTION 'user_id und organization_id eines Leads sind nur serverseitig änderbar'
+            USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS leads_ownership ON public.leads;
+CREATE TRIGGER leads_ownership
+    BEFORE UPDATE ON public.leads
+    FOR EACH ROW EXECUTE FUNCTION public.handle_leads_ownership();
+
+COMMENT ON FUNCTION public.handle_leads_ownership IS
+'Verhindert, dass Clients Besitzer oder Organisation eines Leads ändern.';
+
+-- ============================================
+-- 6. Hilfsfunktionen für RLS
+-- ============================================
+-- SECURITY DEFINER, damit Policies auf memberships nicht rekursiv
+-- über RLS von memberships laufen.
+
+CREATE OR REPLACE FUNCTION public.organization_role(p_organization_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT m.role
+    FROM memberships m
+    WHERE m.organization_id = p_organization_id
+      AND m.user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_organization_member(p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p_organization_id IS NOT NULL AND organization_role(p_organization_id) IS NOT NULL;
+$$;
+
+COMMENT ON FUNCTION public.organization_role IS
+'Rolle des aktuellen Users (auth.uid()) in der Organisation oder NULL.';
+
+-- ============================================
+-- 7. ROW LEVEL SECURITY
+-- ============================================
+-- Geschrieben wird nur per RPC bzw. Edge Function (Service Role).
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.memberships ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_credit_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view own organization" ON public.organizations;
+CREATE POLICY "Members can view own organization"
+    ON public.organizations FOR SELECT
+    USING (is_organization_member(id));
+
+DROP POLICY IF EXISTS "Members can view memberships" ON public.memberships;
+CREATE POLICY "Members can view memberships"
+    ON public.memberships FOR SELECT
+    USING (is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Admins can view invitations" ON public.organization_invitations;
+CREATE POLICY "Admins can view invitations"
+    ON public.organization_invitations FOR SELECT
+    USING (organization_role(organization_id) IN ('owner', 'admin'));
+
+-- Admins sehen den ganzen Pool, Mitglieder ihre eigenen Buchungen
+DROP POLICY IF EXISTS "Members can view pool transactions" ON public.organization_credit_transactions;
+CREATE POLICY "Members can view pool transactions"
+    ON public.organization_credit_transactions FOR SELECT
+    USING (
+        organization_role(organization_id) IN ('owner', 'admin')
+        OR (auth.uid() = user_id AND is_organization_member(organization_id))
+    );
+
+-- Leads: eigene oder die der eigenen Organisation (ersetzt supabase_schema.sql)
+DROP POLICY IF EXISTS "Users can view own leads" ON public.leads;
+DROP POLICY IF EXISTS "Users can view own or organization leads" ON public.leads;
+CREATE POLICY "Users can view own or organization leads"
+    ON public.leads FOR SELECT
+    USING (auth.uid() = user_id OR is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Users can create own leads" ON public.leads;
+CREATE POLICY "Users can create own leads"
+    ON public.leads FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND (organization_id IS NULL OR is_organization_member(organization_id))
+    );
+
+-- Mitglieder dürfen Leads der Organisation bearbeiten. WITH CHECK hält den
+-- Lead sichtbar; dass Besitzer und Organisation unverändert bleiben,
+-- erzwingt der Trigger leads_ownership (Abschnitt 5)
+DROP POLICY IF EXISTS "Users can update own leads" ON public.leads;
+DROP POLICY IF EXISTS "Users can update own or organization leads" ON public.leads;
+CREATE POLICY "Users can update own or organization leads"
+    ON public.leads FOR UPDATE
+    USING (auth.uid() = user_id OR is_organization_member(organization_id))
+    WITH CHECK (auth.uid() = user_id OR is_organization_member(organization_id));
+
+-- Löschen: Besitzer oder Admins der Organisation
+DROP POLICY IF EXISTS "Users can delete own leads" ON public.leads;
+DROP POLICY IF EXISTS "Users can delete own or administered leads" ON public.leads;
+CREATE POLICY "Users can delete own or administered leads"
+    ON public.leads FOR DELETE
+    USING (auth.uid() = user_id OR organization_role(organization_id) IN ('owner', 'admin'));
+
+-- ============================================
+-- 8. Pool: Buchung, Verbrauch, Auswahl
+-- ============================================
+
+-- Netto-Verbrauch eines Mitglieds aus dem Pool im laufenden Monat (UTC)
+CREATE OR REPLACE FUNCTION public.organization_member_usage(
+    p_organization_id UUID,
+    p_user_id UUID
+)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(-SUM(t.amount), 0)::INTEGER
+    FROM organization_credit_transactions t
+    WHERE t.organization_id = p_organization_id
+      AND t.user_id = p_user_id
+      AND t.reason IN ('usage', 'refund', 'expired_refund')
+      AND t.created_at >= date_trunc('month', timezone('utc'::text, now())) AT TIME ZONE 'utc';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.organization_member_usage FROM PUBLIC, anon, authenticated;
+
+-- Ändert den Pool und schreibt die Buchung (intern)
+CREATE OR REPLACE FUNCTION public.book_organization_credits(
+    p_organization_id UUID,
+    p_user_id UUID,
+    p_amount INTEGER,
+    p_reason TEXT,
+    p_function_name TEXT DEFAULT NULL,
+    p_request_id TEXT DEFAULT NULL,
+    p_reservation_id UUID DEFAULT NULL,
+    p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_balance INTEGER;
+BEGIN
+    UPDATE organizations o
+    SET ai_credits_balance = o.ai_credits_balance + p_amount
+    WHERE o.id = p_organization_id
+    RETURNING o.ai_credits_balance INTO v_balance;
+
+    INSERT INTO organization_credit_transactions (
+        organization_id, user_id, amount, balance_after, reason,
+        function_name, request_id, reservation_id, metadata
+    )
+    VALUES (
+        p_organization_id, p_user_id, p_amount, v_balance, p_reason,
+        p_function_name, p_request_id, p_reservation_id, COALESCE(p_metadata, '{}'::jsonb)
+    );
+
+    RETURN v_balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.book_organization_credits FROM PUBLIC, anon, authenticated;
+
+-- Pool, aus dem p_amount Credits gebucht werden können (sperrt die
+-- Organisation), sonst NULL → persönliches Guthaben
+CREATE OR REPLACE FUNCTION public.organization_pool_for(
+    p_user_id UUID,
+    p_amount INTEGER
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_organization_id UUID;
+    v_cap INTEGER;
+    v_balance INTEGER;
+BEGIN
+    SELECT m.organization_id, m.monthly_credit_cap
+    INTO v_organization_id, v_cap
+    FROM memberships m
+    WHERE m.user_id = p_user_id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT o.ai_credits_balance INTO v_balance
+    FROM organizations o
+    WHERE o.id = v_organization_id
+    FOR UPDATE;
+
+    IF v_balance < p_amount THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_cap IS NOT NULL
+       AND organization_member_usage(v_organization_id, p_user_id) + p_amount > v_cap THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN v_organization_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.organization_pool_for FROM PUBLIC, anon, authenticated;
+
+-- Stand für Antworten ohne Reservierung (Cache-Treffer): -1 bei Premium,
+-- sonst der Pool, sofern nutzbar, sonst das persönliche Guthaben
+CREATE OR REPLACE FUNCTION public.get_credits_remaining(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_balance INTEGER;
+    v_is_premium BOOLEAN;
+    v_pool INTEGER;
+BEGIN
+    SELECT p.ai_credits_balance, p.is_premium
+    INTO v_balance, v_is_premium
+    FROM profiles p
+    WHERE p.id = p_user_id;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+    IF v_is_premium THEN
+        RETURN -1;
+    END IF;
+
+    SELECT o.ai_credits_balance INTO v_pool
+    FROM memberships m
+    JOIN organizations o ON o.id = m.organization_id
+    WHERE m.user_id = p_user_id
+      AND o.ai_credits_balance > 0
+      AND (m.monthly_credit_cap IS NULL
+           OR organization_member_usage(m.organization_id, m.user_id) < m.monthly_credit_cap);
+
+    RETURN COALESCE(v_pool, v_balance);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_credits_remaining FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 9. Credit-RPCs mit Pool (ersetzen 008/012)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.use_ai_credit(
+    user_id UUID,
+    p_function_name TEXT DEFAULT NULL,
+    p_request_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    credits_remaining INTEGER,
+    error_message TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_current_credits INTEGER;
+    v_is_premium BOOLEAN;
+    v_organization_id UUID;
+    v_pool_balance INTEGER;
+BEGIN
+    SELECT p.ai_credits_balance, p.is_premium
+    INTO v_current_credits, v_is_premium
+    FROM profiles p
+    WHERE p.id = use_ai_credit.user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, 0, 'User nicht gefunden'::TEXT;
+        RETURN;
+    END IF;
+
+    -- Premium User haben unbegrenzte Credits (keine Buchung)
+    IF v_is_premium THEN
+        RETURN QUERY SELECT TRUE, -1, NULL::TEXT; -- -1 = unbegrenzt
+        RETURN;
+    END IF;
+
+    -- Zuerst der Pool der Organisation
+    v_organization_id := organization_pool_for(use_ai_credit.user_id, 1);
+    IF v_organization_id IS NOT NULL THEN
+        v_pool_balance := book_organization_credits(
+            v_organization_id, use_ai_credit.user_id, -1, 'usage', p_function_name, p_request_id
+        );
+        RETURN QUERY SELECT TRUE, v_pool_balance, NULL::TEXT;
+        RETURN;
+    END IF;
+
+    IF v_current_credits < 1 THEN
+        RETURN QUERY SELECT FALSE, 0, 'Kein Guthaben mehr'::TEXT;
+        RETURN;
+    END IF;
+
+    UPDATE profiles p
+    SET ai_credits_balance = p.ai_credits_balance - 1,
+        updated_at = NOW()
+    WHERE p.id = use_ai_credit.user_id;
+
+    PERFORM record_credit_transaction(use_ai_credit.user_id, -1, 'usage', p_function_name, p_request_id);
+
+    RETURN QUERY SELECT TRUE, v_current_credits - 1, NULL::TEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.use_ai_credit FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.use_ai_credit IS
+'Zieht 1 KI-Credit ab – aus dem Pool der Organisation (Monatslimit beachtet), sonst vom User – und bucht ihn im Ledger.';
+
+CREATE OR REPLACE FUNCTION public.reserve_ai_credit(
+    p_user_id UUID,
+    p_function_name TEXT,
+    p_idempotency_key TEXT,
+    p_ttl_seconds INTEGER DEFAULT 120,
+    p_amount INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    reservation_id UUID,
+    credits_remaining INTEGER,
+    error_message TEXT,
+    replayed BOOLEAN,
+    response_status INTEGER,
+    response_body JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_current_credits INTEGER;
+    v_is_premium BOOLEAN;
+    v_existing_id UUID;
+    v_existing_status TEXT;
+    v_existing_response_status INTEGER;
+    v_existing_response_body JSONB;
+    v_amount INTEGER;
+    v_organization_id UUID;
+    v_remaining INTEGER;
+    v_reservation_id UUID;
+BEGIN
+    -- Verwaiste Reservierungen dieses Users zuerst freigeben
+    PERFORM release_expired_credit_reservations(p_user_id);
+
+    -- Existiert bereits eine Reservierung mit diesem Key?
+    SELECT r.id, r.status, r.response_status, r.response_body
+    INTO v_existing_id, v_existing_status, v_existing_response_status, v_existing_response_body
+    FROM credit_reservations r
+    WHERE r.user_id = p_user_id
+      AND r.function_name = p_function_name
+      AND r.idempotency_key = p_idempotency_key
+    FOR UPDATE;
+
+    IF FOUND THEN
+        -- Bereits erfolgreich → Original-Antwort zurückgeben, nichts abbuchen
+        IF v_existing_status = 'committed' THEN
+            RETURN QUERY SELECT TRUE, v_existing_id, NULL::INTEGER, NULL::TEXT,
+                TRUE, v_existing_response_status, v_existing_response_body;
+            RETURN;
+        END IF;
+
+        -- Läuft noch (paralleler Retry)
+        IF v_existing_status = 'reserved' THEN
+            RETURN QUERY SELECT FALSE, v_existing_id, NULL::INTEGER,
+                'Anfrage wird bereits verarbeitet'::TEXT, FALSE, NULL::INTEGER, NULL::JSONB;
+            RETURN;
+        END IF;
+
+        -- 'released' → neuer Versuch mit demselben Key ist erlaubt
+    END IF;
+
+    SELECT p.ai_credits_balance, p.is_premium
+    INTO v_current_credits, v_is_premium
+    FROM profiles p
+    WHERE p.id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, NULL::UUID, 0, 'User nicht gefunden'::TEXT,
+            FALSE, NULL::INTEGER, NULL::JSONB;
+        RETURN;
+    END IF;
+
+    IF v_is_premium THEN
+        v_amount := 0;
+        v_remaining := -1; -- -1 = unbegrenzt
+    ELSE
+        v_amount := GREATEST(COALESCE(p_amount, 1), 1);
+        v_organization_id := organization_pool_for(p_user_id, v_amount);
+
+        IF v_organization_id IS NULL THEN
+            IF v_current_credits < 1 THEN
+                RETURN QUERY SELECT FALSE, NULL::UUID, 0, 'Kein Guthaben mehr'::TEXT,
+                    FALSE, NULL::INTEGER, NULL::JSONB;
+                RETURN;
+            END IF;
+
+            IF v_current_credits < v_amount THEN
+                RETURN QUERY SELECT FALSE, NULL::UUID, v_current_credits,
+                    format('Nicht genug Guthaben (%s Credits benötigt)', v_amount),
+                    FALSE, NULL::INTEGER, NULL::JSONB;
+                RETURN;
+            END IF;
+
+            UPDATE profiles p
+            SET ai_credits_balance = p.ai_credits_balance - v_amount,
+                updated_at = NOW()
+            WHERE p.id = p_user_id;
+
+            v_remaining := v_current_credits - v_amount;
+        END IF;
+    END IF;
+
+    IF v_existing_id IS NOT NULL THEN
+        UPDATE credit_reservations r
+        SET status = 'reserved',
+            amount = v_amount,
+            organization_id = v_organization_id,
+            response_status = NULL,
+            response_body = NULL,
+            expires_at = NOW() + make_interval(secs => p_ttl_seconds)
+        WHERE r.id = v_existing_id;
+        v_reservation_id := v_existing_id;
+    ELSE
+        INSERT INTO credit_reservations (
+            user_id, function_name, idempotency_key, amount, organization_id, expires_at
+        )
+        VALUES (p_user_id, p_function_name, p_idempotency_key, v_amount, v_organization_id,
+                NOW() + make_interval(secs => p_ttl_seconds))
+        RETURNING id INTO v_reservation_id;
+    END IF;
+
+    IF v_organization_id IS NOT NULL THEN
+        v_remaining := book_organization_credits(
+            v_organization_id, p_user_id, -v_amount, 'usage',
+            p_function_name, p_idempotency_key, v_reservation_id
+        );
+    ELSIF v_amount > 0 THEN
+        PERFORM record_credit_transaction(
+            p_user_id, -v_amount, 'usage', p_function_name, p_idempotency_key, v_reservation_id
+        );
+    END IF;
+
+    RETURN QUERY SELECT TRUE, v_reservation_id, v_remaining,
+        NULL::TEXT, FALSE, NULL::INTEGER, NULL::JSONB;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_ai_credit FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.reserve_ai_credit IS
+'Reserviert p_amount Credits aus dem Pool der Organisation oder vom User (Premium: 0). Committete Keys liefern die gespeicherte Antwort.';
+
+-- Erstattung einer Reservierung an Pool oder User (intern)
+CREATE OR REPLACE FUNCTION public.refund_credit_reservation(
+    p_reservation_id UUID,
+    p_user_id UUID,
+    p_organization_id UUID,
+    p_function_name TEXT,
+    p_idempotency_key TEXT,
+    p_amount INTEGER,
+    p_reason TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_amount <= 0 THEN
+        RETURN;
+    END IF;
+
+    IF p_organization_id IS NOT NULL THEN
+        PERFORM book_organization_credits(
+            p_organization_id, p_user_id, p_amount, p_reason,
+            p_function_name, p_idempotency_key, p_reservation_id
+        );
+        RETURN;
+    END IF;
+
+    UPDATE profiles p
+    SET ai_credits_balance = p.ai_credits_balance + p_amount,
+        updated_at = NOW()
+    WHERE p.id = p_user_id;
+
+    PERFORM record_credit_transaction(
+        p_user_id, p_amount, p_reason, p_function_name, p_idempotency_key, p_reservation_id
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_credit_reservation FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.release_expired_credit_reservations(
+    p_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_released INTEGER := 0;
+    v_row RECORD;
+BEGIN
+    FOR v_row IN
+        SELECT r.id, r.user_id, r.amount, r.organization_id, r.function_name, r.idempotency_key
+        FROM credit_reservations r
+        WHERE r.status = 'reserved'
+          AND r.expires_at < NOW()
+          AND (p_user_id IS NULL OR r.user_id = p_user_id)
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        UPDATE credit_reservations r
+        SET status = 'released'
+        WHERE r.id = v_row.id;
+
+        PERFORM refund_credit_reservation(
+            v_row.id, v_row.user_id, v_row.organization_id,
+            v_row.function_name, v_row.idempotency_key, v_row.amount, 'expired_refund'
+        );
+
+        v_released := v_released + 1;
+    END LOOP;
+
+    RETURN v_released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_expired_credit_reservations FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.release_ai_credit(p_reservation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_row RECORD;
+BEGIN
+    -- Nur offene Reservierungen → kein doppelter Refund möglich
+    UPDATE credit_reservations r
+    SET status = 'released'
+    WHERE r.id = p_reservation_id
+      AND r.status = 'reserved'
+    RETURNING r.id, r.user_id, r.amount, r.organization_id, r.function_name, r.idempotency_key
+    INTO v_row;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    PERFORM refund_credit_reservation(
+        v_row.id, v_row.user_id, v_row.organization_id,
+        v_row.function_name, v_row.idempotency_key, v_row.amount, 'refund'
+    );
+
+    RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_ai_credit FROM PUBLIC, anon, authenticated;
+
+-- Wie in 012; Differenzen gehen an die Quelle der Reservierung (Pool oder User)
+CREATE OR REPLACE FUNCTION public.settle_ai_credit(
+    p_reservation_id UUID,
+    p_amount INTEGER,
+    p_response_status INTEGER,
+    p_response_body JSONB
+)
+RETURNS TABLE (
+    success BOOLEAN,
+    charged INTEGER,
+    credits_remaining INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_reservation RECORD;
+    v_balance INTEGER;
+    v_is_premium BOOLEAN;
+    v_final INTEGER;
+    v_diff INTEGER;
+BEGIN
+    SELECT r.id, r.user_id, r.amount, r.organization_id, r.function_name, r.idempotency_key
+    INTO v_reservation
+    FROM credit_reservations r
+    WHERE r.id = p_reservation_id
+      AND r.status = 'reserved'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT FALSE, 0, NULL::INTEGER;
+        RETURN;
+    END IF;
+
+    SELECT p.ai_credits_balance, p.is_premium
+    INTO v_balance, v_is_premium
+    FROM profiles p
+    WHERE p.id = v_reservation.user_id
+    FOR UPDATE;
+
+    -- Stand der Quelle, aus der reserviert wurde
+    IF v_reservation.organization_id IS NOT NULL THEN
+        SELECT o.ai_credits_balance INTO v_balance
+        FROM organizations o
+        WHERE o.id = v_reservation.organization_id
+        FOR UPDATE;
+    END IF;
+
+    -- Premium war beim Reservieren kostenlos und bleibt es
+    IF v_is_premium OR v_reservation.amount = 0 THEN
+        v_final := v_reservation.amount;
+    ELSE
+        v_final := GREATEST(COALESCE(p_amount, v_reservation.amount), 0);
+    END IF;
+
+    v_diff := v_final - v_reservation.amount;
+
+    -- Nachbuchung höchstens bis Stand 0 (Monatslimit gilt nur beim Reservieren)
+    IF v_diff > 0 THEN
+        v_diff := LEAST(v_diff, GREATEST(v_balance, 0));
+        v_final := v_reservation.amount + v_diff;
+    END IF;
+
+    IF v_diff < 0 THEN
+        PERFORM refund_credit_reservation(
+            v_reservation.id, v_reservation.user_id, v_reservation.organization_id,
+            v_reservation.function_name, v_reservation.idempotency_key, -v_diff, 'refund'
+        );
+    ELSIF v_diff > 0 AND v_reservation.organization_id IS NOT NULL THEN
+        PERFORM book_organization_credits(
+            v_reservation.organization_id, v_reservation.user_id, -v_diff, 'usage',
+            v_reservation.function_name, v_reservation.idempotency_key, v_reservation.id
+        );
+    ELSIF v_diff > 0 THEN
+        UPDATE profiles p
+        SET ai_credits_balance = p.ai_credits_balance - v_diff,
+            updated_at = NOW()
+        WHERE p.id = v_reservation.user_id;
+
+        PERFORM record_credit_transaction(
+            v_reservation.user_id, -v_diff, 'usage',
+            v_reservation.function_name, v_reservation.idempotency_key, v_reservation.id
+        );
+    END IF;
+
+    UPDATE credit_reservations r
+    SET status = 'committed',
+        amount = v_final,
+        response_status = p_response_status,
+        response_body = p_response_body
+    WHERE r.id = p_reservation_id;
+
+    IF v_is_premium THEN
+        v_balance := -1;
+    ELSIF v_reservation.organization_id IS NOT NULL THEN
+        SELECT o.ai_credits_balance INTO v_balance
+        FROM organizations o WHERE o.id = v_reservation.organization_id;
+    ELSE
+        SELECT p.ai_credits_balance INTO v_balance
+        FROM profiles p WHERE p.id = v_reservation.user_id;
+    END IF;
+
+    RETURN QUERY SELECT TRUE, v_final, v_balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_ai_credit FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 10. RPCs: Organisation verwalten
+-- ============================================
+-- Aufruf aus der Edge Function organizations mit der ID des handelnden
+-- Users. Ergebnis ist ein Status-Code, den die Function in HTTP übersetzt:
+--   ok, not_found, forbidden, already_member, last_owner, expired,
+--   email_mismatch, insufficient
+
+CREATE OR REPLACE FUNCTION public.create_organization(
+    p_user_id UUID,
+    p_name TEXT
+)
+RETURNS TABLE (status TEXT, organization_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_organization_id UUID;
+BEGIN
+    IF EXISTS (SELECT 1 FROM memberships m WHERE m.user_id = p_user_id) THEN
+        RETURN QUERY SELECT 'already_member'::TEXT, NULL::UUID;
+        RETURN;
+    END IF;
+
+    INSERT INTO organizations (name, created_by)
+    VALUES (btrim(p_name), p_user_id)
+    RETURNING id INTO v_organization_id;
+
+    INSERT INTO memberships (organization_id, user_id, role)
+    VALUES (v_organization_id, p_user_id, 'owner');
+
+    RETURN QUERY SELECT 'ok'::TEXT, v_organization_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_organization FROM PUBLIC, anon, authenticated;
+
+-- Prüft Token-Hash, Ablauf und E-Mail. p_share_leads ordnet die
+-- bisherigen Leads des Users der Organisation zu.
+CREATE OR REPLACE FUNCTION public.accept_organization_invitation(
+    p_user_id UUID,
+    p_token_hash TEXT,
+    p_share_leads BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (status TEXT, organization_id UUID, role TEXT, shared_leads INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_invitation RECORD;
+    v_email TEXT;
+    v_shared INTEGER := 0;
+BEGIN
+    SELECT i.id, i.organization_id, i.email, i.role, i.expires_at
+    INTO v_invitation
+    FROM organization_invitations i
+    WHERE i.token_hash = p_token_hash
+      AND i.accepted_at IS NULL
+      AND i.revoked_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT 'not_found'::TEXT, NULL::UUID, NULL::TEXT, 0;
+        RETURN;
+    END IF;
+    IF v_invitation.expires_at < NOW() THEN
+        RETURN QUERY SELECT 'expired'::TEXT, NULL::UUID, NULL::TEXT, 0;
+        RETURN;
+    END IF;
+
+    -- Nur der eingeladene Account darf annehmen
+    SELECT lower(u.email) INTO v_email FROM auth.users u WHERE u.id = p_user_id;
+    IF v_email IS DISTINCT FROM v_invitation.email THEN
+        RETURN QUERY SELECT 'email_mismatch'::TEXT, NULL::UUID, NULL::TEXT, 0;
+        RETURN;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM memberships m WHERE m.user_id = p_user_id) THEN
+        RETURN QUERY SELECT 'already_member'::TEXT, NULL::UUID, NULL::TEXT, 0;
+        RETURN;
+    END IF;
+
+    INSERT INTO memberships (organization_id, user_id, role)
+    VALUES (v_invitation.organization_id, p_user_id, v_invitation.role);
+
+    UPDATE organization_invitations i
+    SET accepted_at = NOW(),
+        accepted_by = p_user_id
+    WHERE i.id = v_invitation.id;
+
+    IF p_share_leads THEN
+        UPDATE leads l
+        SET organization_id = v_invitation.organization_id
+        WHERE l.user_id = p_user_id
+          AND l.organization_id IS NULL;
+        GET DIAGNOSTICS v_shared = ROW_COUNT;
+    END IF;
+
+    RETURN QUERY SELECT 'ok'::TEXT, v_invitation.organization_id, v_invitation.role, v_shared;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_organization_invitation FROM PUBLIC, anon, authenticated;
+
+-- Rolle und/oder Monatslimit ändern. Nur owner/admin; owner-Rolle
+-- vergibt und entzieht nur ein owner; der letzte owner bleibt owner.
+-- p_clear_cap = TRUE entfernt das Limit.
+CREATE OR REPLACE FUNCTION public.update_organization_member(
+    p_actor_id UUID,
+    p_user_id UUID,
+    p_role TEXT DEFAULT NULL,
+    p_monthly_credit_cap INTEGER DEFAULT NULL,
+    p_clear_cap BOOLEAN DEFAULT FALSE
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_actor RECORD;
+    v_target RECORD;
+BEGIN
+    SELECT m.organization_id, m.role INTO v_actor
+    FROM memberships m WHERE m.user_id = p_actor_id;
+
+    SELECT m.organization_id, m.role INTO v_target
+    FROM memberships m WHERE m.user_id = p_user_id
+    FOR UPDATE;
+
+    IF v_target IS NULL OR v_actor IS NULL OR v_actor.organization_id <> v_target.organization_id THEN
+        RETURN 'not_found';
+    END IF;
+    IF v_actor.role NOT IN ('owner', 'admin') THEN
+        RETURN 'forbidden';
+    END IF;
+    IF v_actor.role <> 'owner' AND ('owner' IN (v_target.role, COALESCE(p_role, ''))) THEN
+        RETURN 'forbidden';
+    END IF;
+
+    IF p_role IS NOT NULL AND v_target.role = 'owner' AND p_role <> 'owner'
+       AND (SELECT COUNT(*) FROM memberships m
+            WHERE m.organization_id = v_target.organization_id AND m.role = 'owner') <= 1 THEN
+        RETURN 'last_owner';
+    END IF;
+
+    UPDATE memberships m
+    SET role = COALESCE(p_role, m.role),
+        monthly_credit_cap = CASE
+            WHEN p_clear_cap THEN NULL
+            ELSE COALESCE(p_monthly_credit_cap, m.monthly_credit_cap)
+        END
+    WHERE m.user_id = p_user_id;
+
+    RETURN 'ok';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_organization_member FROM PUBLIC, anon, authenticated;
+
+-- Mitglied entfernen (owner/admin) oder selbst austreten. Leads bleiben
+-- bei der Organisation; der letzte owner kann nicht gehen.
+CREATE OR REPLACE FUNCTION public.remove_organization_member(
+    p_actor_id UUID,
+    p_user_id UUID
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_actor RECORD;
+    v_target RECORD;
+BEGIN
+    SELECT m.organization_id, m.role INTO v_actor
+    FROM memberships m WHERE m.user_id = p_actor_id;
+
+    SELECT m.organization_id, m.role INTO v_target
+    FROM memberships m WHERE m.user_id = p_user_id
+    FOR UPDATE;
+
+    IF v_target IS NULL OR v_actor IS NULL OR v_actor.organization_id <> v_target.organization_id THEN
+        RETURN 'not_found';
+    END IF;
+    IF p_actor_id <> p_user_id AND (
+        v_actor.role NOT IN ('owner', 'admin')
+        OR (v_target.role = 'owner' AND v_actor.role <> 'owner')
+    ) THEN
+        RETURN 'forbidden';
+    END IF;
+
+    IF v_target.role = 'owner'
+       AND (SELECT COUNT(*) FROM memberships m
+            WHERE m.organization_id = v_target.organization_id AND m.role = 'owner') <= 1 THEN
+        RETURN 'last_owner';
+    END IF;
+
+    DELETE FROM memberships m WHERE m.user_id = p_user_id;
+
+    RETURN 'ok';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.remove_organization_member FROM PUBLIC, anon, authenticated;
+
+-- Persönliche Credits in den Pool übertragen (beide Ledger)
+CREATE OR REPLACE FUNCTION public.transfer_credits_to_organization(
+    p_user_id UUID,
+    p_amount INTEGER
+)
+RETURNS TABLE (status TEXT, credits_after INTEGER, pool_after INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_organization_id UUID;
+    v_balance INTEGER;
+    v_pool INTEGER;
+BEGIN
+    SELECT m.organization_id INTO v_organization_id
+    FROM memberships m WHERE m.user_id = p_user_id;
+
+    IF v_organization_id IS NULL THEN
+        RETURN QUERY SELECT 'not_found'::TEXT, NULL::INTEGER, NULL::INTEGER;
+        RETURN;
+    END IF;
+
+    SELECT p.ai_credits_balance INTO v_balance
+    FROM profiles p WHERE p.id = p_user_id
+    FOR UPDATE;
+
+    IF p_amount < 1 OR v_balance < p_amount THEN
+        RETURN QUERY SELECT 'insufficient'::TEXT, v_balance, NULL::INTEGER;
+        RETURN;
+    END IF;
+
+    UPDATE profiles p
+    SET ai_credits_balance = p.ai_credits_balance - p_amount,
+        updated_at = NOW()
+    WHERE p.id = p_user_id
+    RETURNING p.ai_credits_balance INTO v_balance;
+
+    PERFORM record_credit_transaction(
+        p_user_id, -p_amount, 'adjustment', 'organizations', NULL, NULL, NULL,
+        jsonb_build_object('transfer_to_organization', v_organization_id)
+    );
+
+    v_pool := book_organization_credits(v_organization_id, p_user_id, p_amount, 'transfer', 'organizations');
+
+    RETURN QUERY SELECT 'ok'::TEXT, v_balance, v_pool;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transfer_credits_to_organization FROM PUBLIC, anon, authenticated;
+
+-- Gutschrift für den Pool (Kauf, Support). Nur Service Role.
+CREATE OR REPLACE FUNCTION public.add_organization_credits(
+    p_organization_id UUID,
+    p_amount INTEGER,
+    p_reason TEXT DEFAULT 'purchase',
+    p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM 1 FROM organizations o WHERE o.id = p_organization_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Organisation % nicht gefunden', p_organization_id;
+    END IF;
+
+    RETURN book_organization_credits(p_organization_id, NULL, p_amount, p_reason, NULL, NULL, NULL, p_metadata);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_organization_credits FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.add_organization_credits IS
+'Bucht Credits in den Pool einer Organisation (Kauf oder Korrektur). Nur Service Role.';
+
+-- ============================================
+-- 11. sync_upsert_leads: Leads der Organisation (ersetzt 006)
+-- ============================================
+-- Mitglieder dürfen Leads der Organisation per Sync ändern; fremde Leads
+-- außerhalb der Organisation bleiben 'forbidden'.
+
+CREATE OR REPLACE FUNCTION public.sync_upsert_leads(
+    p_user_id UUID,
+    p_leads JSONB
+)
+RETURNS TABLE (
+    lead_id UUID,
+    status TEXT,
+    server_updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_item JSONB;
+    v_id UUID;
+    v_updated_at TIMESTAMP WITH TIME ZONE;
+    v_existing_user UUID;
+    v_existing_organization UUID;
+    v_existing_updated TIMESTAMP WITH TIME ZONE;
+    v_user_organization UUID;
+BEGIN
+    SELECT m.organization_id INTO v_user_organization
+    FROM memberships m
+    WHERE m.user_id = p_user_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_leads)
+    LOOP
+        v_id := (v_item->>'id')::UUID;
+        v_updated_at := (v_item->>'updated_at')::TIMESTAMP WITH TIME ZONE;
+
+        SELECT l.user_id, l.organization_id, l.updated_at
+        INTO v_existing_user, v_existing_organization, v_existing_updated
+        FROM leads l
+        WHERE l.id = v_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            INSERT INTO leads (
+                id, user_id, name, company, email, phone, notes, transcript,
+                generated_email, original_image_filename, audio_url, audio_duration_seconds,
+                created_at, updated_at, deleted_at
+            )
+            VALUES (
+                v_id,
+                p_user_id,
+                COALESCE(v_item->>'name', ''),
+                COALESCE(v_item->>'company', ''),
+                COALESCE(v_item->>'email', ''),
+                COALESCE(v_item->>'phone', ''),
+                COALESCE(v_item->>'notes', ''),
+                v_item->>'transcript',
+                v_item->>'generated_email',
+                v_item->>'original_image_filename',
+                v_item->>'audio_url',
+                (v_item->>'audio_duration_seconds')::INTEGER,
+                COALESCE((v_item->>'created_at')::TIMESTAMP WITH TIME ZONE, v_updated_at),
+                v_updated_at,
+                (v_item->>'deleted_at')::TIMESTAMP WITH TIME ZONE
+            );
+            RETURN QUERY SELECT v_id, 'applied'::TEXT, v_updated_at;
+
+        ELSIF v_existing_user <> p_user_id
+              AND (v_user_organization IS NULL OR v_existing_organization IS DISTINCT FROM v_user_organization) THEN
+            RETURN QUERY SELECT v_id, 'forbidden'::TEXT, NULL::TIMESTAMP WITH TIME ZONE;
+
+        ELSIF v_updated_at > v_existing_updated THEN
+            UPDATE leads l
+            SET name = CASE WHEN v_item ? 'name' THEN COALESCE(v_item->>'name', '') ELSE l.name END,
+                company = CASE WHEN v_item ? 'company' THEN COALESCE(v_item->>'company', '') ELSE l.company END,
+                email = CASE WHEN v_item ? 'email' THEN COALESCE(v_item->>'email', '') ELSE l.email END,
+                phone = CASE WHEN v_item ? 'phone' THEN COALESCE(v_item->>'phone', '') ELSE l.phone END,
+                notes = CASE WHEN v_item ? 'notes' THEN COALESCE(v_item->>'notes', '') ELSE l.notes END,
+                transcript = CASE WHEN v_item ? 'transcript' THEN v_item->>'transcript' ELSE l.transcript END,
+                generated_email = CASE WHEN v_item ? 'generated_email' THEN v_item->>'generated_email' ELSE l.generated_email END,
+                original_image_filename = CASE WHEN v_item ? 'original_image_filename' THEN v_item->>'original_image_filename' ELSE l.original_image_filename END,
+                audio_url = CASE WHEN v_item ? 'audio_url' THEN v_item->>'audio_url' ELSE l.audio_url END,
+                audio_duration_seconds = CASE WHEN v_item ? 'audio_duration_seconds' THEN (v_item->>'audio_duration_seconds')::INTEGER ELSE l.audio_duration_seconds END,
+                updated_at = v_updated_at,
+                deleted_at = CASE WHEN v_item ? 'deleted_at' THEN (v_item->>'deleted_at')::TIMESTAMP WITH TIME ZONE ELSE l.deleted_at END
+            WHERE l.id = v_id;
+            RETURN QUERY SELECT v_id, 'applied'::TEXT, v_updated_at;
+
+        ELSIF v_updated_at = v_existing_updated THEN
+            RETURN QUERY SELECT v_id, 'unchanged'::TEXT, v_existing_updated;
+
+        ELSE
+            RETURN QUERY SELECT v_id, 'conflict'::TEXT, v_existing_updated;
+        END IF;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_upsert_leads FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.sync_upsert_leads IS
+'Batch-Upsert von Leads mit Last-Writer-Wins auf updated_at, inkl. Leads der eigenen Organisation. Wird von der Edge Function sync-leads aufgerufen.';
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
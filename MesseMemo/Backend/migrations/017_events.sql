@@ -0,0 +1,398 @@
+-- ============================================
+-- MesseMemo Events Migration
+-- Version: 017
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Messen als eigene Einträge (Edge Function events):
+--   - events: Name, Ort, Zeitraum, Stand, gezeigte Produkte
+--   - leads.event_id: auf welcher Messe der Kontakt entstand. Neue Leads
+--     ohne event_id bekommen die Messe, die beim Erfassen gerade läuft.
+--   - process-card und generate-email nehmen die Messe in den Prompt auf
+--   - event_stats(): Leads pro Tag, Qualifizierung, Follow-up-Quote
+--
+-- Events einer Organisation (016) sind für alle Mitglieder sichtbar.
+-- ============================================
+
+-- ============================================
+-- 1. Tabelle events
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL,
+
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 200),
+    venue TEXT,
+    city TEXT,
+    -- ISO-Code, z.B. DE
+    country TEXT CHECK (country ~ '^[A-Z]{2}$'),
+    starts_on DATE NOT NULL,
+    ends_on DATE NOT NULL,
+    -- Zeitzone der Messe: bestimmt "heute" und die Tage in event_stats
+    time_zone TEXT NOT NULL DEFAULT 'Europe/Berlin',
+    booth TEXT,
+    products TEXT[] NOT NULL DEFAULT '{}',
+    notes TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    CHECK (ends_on >= starts_on),
+    CHECK (cardinality(products) <= 50)
+);
+
+CREATE INDEX IF NOT EXISTS events_user_dates_idx
+    ON public.events (user_id, starts_on, ends_on);
+
+CREATE INDEX IF NOT EXISTS events_organization_dates_idx
+    ON public.events (organization_id, starts_on, ends_on)
+    WHERE organization_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS events_updated_at ON public.events;
+CREATE TRIGGER events_updated_at
+    BEFORE UPDATE ON public.events
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Ungültige Zeitzonen würden später jedes Lead-Insert (Trigger) scheitern lassen
+CREATE OR REPLACE FUNCTION public.handle_events_time_zone()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.time_zone) THEN
+        RAISE EXCEPTION 'Unbekannte Zeitzone: %', NEW.time_zone USING ERRCODE = '22023';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS events_time_zone ON public.events;
+CREATE TRIGGER events_time_zone
+    BEFORE INSERT OR UPDATE OF time_zone ON public.events
+    FOR EACH ROW EXECUTE FUNCTION public.handle_events_time_zone();
+
+-- Neue Events eines Mitglieds gehören wie Leads zur Organisation
+DROP TRIGGER IF EXISTS events_organization ON public.events;
+CREATE TRIGGER events_organization
+    BEFORE INSERT ON public.events
+    FOR EACH ROW EXECUTE FUNCTION public.handle_leads_organization();
+
+COMMENT ON TABLE public.events IS
+'Messen und Veranstaltungen, auf denen Leads erfasst werden.';
+
+-- ============================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================
+
+ALTER TABLE public.events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own or organization events" ON public.events;
+CREATE POLICY "Users can view own or organization events"
+    ON public.events FOR SELECT
+    USING (auth.uid() = user_id OR is_organization_member(organization_id));
+
+DROP POLICY IF EXISTS "Users can create own events" ON public.events;
+CREATE POLICY "Users can create own events"
+    ON public.events FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND (organization_id IS NULL OR is_organization_member(organization_id))
+    );
+
+-- Ändern und Löschen: Ersteller oder owner/admin der Organisation
+DROP POLICY IF EXISTS "Users can update own or administered events" ON public.events;
+CREATE POLICY "Users can update own or administered events"
+    ON public.events FOR UPDATE
+    USING (auth.uid() = user_id OR organization_role(organization_id) IN ('owner', 'admin'))
+    WITH CHECK (auth.uid() = user_id OR organization_role(organization_id) IN ('owner', 'admin'));
+
+DROP POLICY IF EXISTS "Users can delete own or administered events" ON public.events;
+CREATE POLICY "Users can delete own or administered events"
+    ON public.events FOR DELETE
+    USING (auth.uid() = user_id OR organization_role(organization_id) IN ('owner', 'admin'));
+
+-- ============================================
+-- 3. leads.event_id
+-- ============================================
+
+ALTER TABLE public.leads
+    ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES public.events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS leads_event_idx
+    ON public.leads (event_id, created_at)
+    WHERE event_id IS NOT NULL AND deleted_at IS NULL;
+
+-- Darf der User Leads dieser Messe zuordnen? (eigene oder der Organisation)
+CREATE OR REPLACE FUNCTION public.event_visible_to(
+    p_event_id UUID,
+    p_user_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM events e
+        LEFT JOIN memberships m
+            ON m.organization_id = e.organization_id AND m.user_id = p_user_id
+        WHERE e.id = p_event_id
+          AND (e.user_id = p_user_id OR m.user_id IS NOT NULL)
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_visible_to FROM PUBLIC, anon, authenticated;
+
+-- Messe, die für den User zum Zeitpunkt p_at läuft (Ortszeit der Messe).
+-- Laufen mehrere, gewinnt die zuletzt begonnene.
+CREATE OR REPLACE FUNCTION public.active_event_id(
+    p_user_id UUID,
+    p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT e.id
+    FROM events e
+    LEFT JOIN memberships m
+        ON m.organization_id = e.organization_id AND m.user_id = p_user_id
+    WHERE (e.user_id = p_user_id OR m.user_id IS NOT NULL)
+      AND (COALESCE(p_at, NOW()) AT TIME ZONE e.time_zone)::DATE BETWEEN e.starts_on AND e.ends_on
+    ORDER BY e.starts_on DESC, e.created_at DESC
+    LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.active_event_id FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.active_event_id IS
+'Laufende Messe des Users (eigene oder der Organisation) zum Zeitpunkt p_at, sonst NULL.';
+
+-- Für den User-Client (process-card, generate-email)
+CREATE OR REPLACE FUNCTION public.current_event_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT active_event_id(auth.uid());
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.current_event_id FROM PUBLIC, anon;
+
+-- Neue Leads ohne event_id: laufende Messe zum Erfassungszeitpunkt
+CREATE OR REPLACE FUNCTION public.handle_leads_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.event_id IS NULL THEN
+        NEW.event_id := active_event_id(NEW.user_id, NEW.created_at);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS leads_event ON public.leads;
+CREATE TRIGGER leads_event
+    BEFORE INSERT ON public.leads
+    FOR EACH ROW EXECUTE FUNCTION public.handle_leads_event();
+
+-- ============================================
+-- 4. Statistik
+-- ============================================
+-- SECURITY INVOKER: läuft mit den Rechten des Aufrufers, RLS auf events
+-- und leads entscheidet, was gezählt wird.
+--
+-- Qualifizierung nach lead_score (013): hot ≥ 70, warm 40–69, cold < 40,
+-- unqualified ohne Score. Follow-up erledigt = Mail verschickt
+-- (email_status 'sent') oder als erledigt markiert (follow_up_sent_at).
+
+CREATE OR REPLACE FUNCTION public.event_stats(p_event_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    WITH event AS (
+        SELECT e.id, e.time_zone, e.starts_on, e.ends_on
+        FROM events e
+        WHERE e.id = p_event_id
+    ),
+    event_leads AS (
+        SELECT
+            (l.created_at AT TIME ZONE ev.time_zone)::DATE AS day,
+            l.lead_score,
+            l.follow_up_date,
+            (l.follow_up_sent_at IS NOT NULL OR l.email_status = 'sent') AS followed_up
+        FROM leads l
+        JOIN event ev ON ev.id = l.event_id
+        WHERE l.deleted_at IS NULL
+    ),
+    per_day AS (
+        SELECT d::DATE AS day, COUNT(el.day) AS leads
+        FROM event ev
+        CROSS JOIN generate_series(ev.starts_on, ev.ends_on, INTERVAL '1 day') AS d
+        LEFT JOIN event_leads el ON el.day = d::DATE
+        GROUP BY d
+    )
+    SELECT CASE WHEN NOT EXISTS (SELECT 1 FROM event) THEN NULL ELSE jsonb_build_object(
+        'total_leads', (SELECT COUNT(*) FROM event_leads),
+        -- Alle Messetage (auch ohne Leads) plus Tage davor/danach mit Leads
+        'leads_per_day', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('date', x.day, 'leads', x.leads) ORDER BY x.day)
+            FROM (
+                SELECT day, leads FROM per_day
+                UNION ALL
+                SELECT el.day, COUNT(*) FROM event_leads el, event ev
+                WHERE el.day NOT BETWEEN ev.starts_on AND ev.ends_on
+                GROUP BY el.day
+            ) x
+        ), '[]'::jsonb),
+        'qualification', jsonb_build_object(
+            'hot', (SELECT COUNT(*) FROM event_leads WHERE lead_score >= 70),
+            'warm', (SELECT COUNT(*) FROM event_leads WHERE lead_score BETWEEN 40 AND 69),
+            'cold', (SELECT COUNT(*) FROM event_leads WHERE lead_score < 40),
+            'unqualified', (SELECT COUNT(*) FROM event_leads WHERE lead_score IS NULL),
+            'average_score', (SELECT ROUND(AVG(lead_score), 1) FROM event_leads)
+        ),
+        'follow_up', jsonb_build_object(
+            'done', (SELECT COUNT(*) FROM event_leads WHERE followed_up),
+            'overdue', (SELECT COUNT(*) FROM event_leads
+                        WHERE NOT followed_up AND follow_up_date < CURRENT_DATE),
+            'rate', (SELECT CASE WHEN COUNT(*) = 0 THEN 0
+                            ELSE ROUND(COUNT(*) FILTER (WHERE followed_up)::NUMERIC / COUNT(*), 3) END
+                     FROM event_leads)
+        )
+    ) END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_stats FROM PUBLIC, anon;
+
+COMMENT ON FUNCTION public.event_stats IS
+'Kennzahlen einer Messe (Leads pro Tag, Qualifizierung, Follow-up-Quote). NULL, wenn die Messe nicht sichtbar ist.';
+
+-- ============================================
+-- 5. sync_upsert_leads: event_id (ersetzt 016)
+-- ============================================
+-- event_id wird nur übernommen, wenn das Gerät es mitschickt (ältere
+-- App-Versionen überschreiben die Zuordnung nicht). Messen, die der User
+-- nicht sehen darf, werden ignoriert.
+
+CREATE OR REPLACE FUNCTION public.sync_upsert_leads(
+    p_user_id UUID,
+    p_leads JSONB
+)
+RETURNS TABLE (
+    lead_id UUID,
+    status TEXT,
+    server_updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_item JSONB;
+    v_id UUID;
+    v_updated_at TIMESTAMP WITH TIME ZONE;
+    v_existing_user UUID;
+    v_existing_organization UUID;
+    v_existing_updated TIMESTAMP WITH TIME ZONE;
+    v_user_organization UUID;
+    v_event_id UUID;
+BEGIN
+    SELECT m.organization_id INTO v_user_organization
+    FROM memberships m
+    WHERE m.user_id = p_user_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_leads)
+    LOOP
+        v_id := (v_item->>'id')::UUID;
+        v_updated_at := (v_item->>'updated_at')::TIMESTAMP WITH TIME ZONE;
+
+        v_event_id := (v_item->>'event_id')::UUID;
+        IF v_event_id IS NOT NULL AND NOT event_visible_to(v_event_id, p_user_id) THEN
+            v_event_id := NULL;
+        END IF;
+
+        SELECT l.user_id, l.organization_id, l.updated_at
+        INTO v_existing_user, v_existing_organization, v_existing_updated
+        FROM leads l
+        WHERE l.id = v_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            INSERT INTO leads (
+                id, user_id, name, company, email, phone, notes, transcript,
+                generated_email, original_image_filename, audio_url, audio_duration_seconds,
+                event_id, created_at, updated_at, deleted_at
+            )
+            VALUES (
+                v_id,
+                p_user_id,
+                COALESCE(v_item->>'name', ''),
+                COALESCE(v_item->>'company', ''),
+                COALESCE(v_item->>'email', ''),
+                COALESCE(v_item->>'phone', ''),
+                COALESCE(v_item->>'notes', ''),
+                v_item->>'transcript',
+                v_item->>'generated_email',
+                v_item->>'original_image_filename',
+                v_item->>'audio_url',
+                (v_item->>'audio_duration_seconds')::INTEGER,
+                v_event_id,
+                COALESCE((v_item->>'created_at')::TIMESTAMP WITH TIME ZONE, v_updated_at),
+                v_updated_at,
+                (v_item->>'deleted_at')::TIMESTAMP WITH TIME ZONE
+            );
+            RETURN QUERY SELECT v_id, 'applied'::TEXT, v_updated_at;
+
+        ELSIF v_existing_user <> p_user_id
+              AND (v_user_organization IS NULL OR v_existing_organization IS DISTINCT FROM v_user_organization) THEN
+            RETURN QUERY SELECT v_id, 'forbidden'::TEXT, NULL::TIMESTAMP WITH TIME ZONE;
+
+        ELSIF v_updated_at > v_existing_updated THEN
+            UPDATE leads l
+            SET name = CASE WHEN v_item ? 'name' THEN COALESCE(v_item->>'name', '') ELSE l.name END,
+                company = CASE WHEN v_item ? 'company' THEN COALESCE(v_item->>'company', '') ELSE l.company END,
+                email = CASE WHEN v_item ? 'email' THEN COALESCE(v_item->>'email', '') ELSE l.email END,
+                phone = CASE WHEN v_item ? 'phone' THEN COALESCE(v_item->>'phone', '') ELSE l.phone END,
+                notes = CASE WHEN v_item ? 'notes' THEN COALESCE(v_item->>'notes', '') ELSE l.notes END,
+                transcript = CASE WHEN v_item ? 'transcript' THEN v_item->>'transcript' ELSE l.transcript END,
+                generated_email = CASE WHEN v_item ? 'generated_email' THEN v_item->>'generated_email' ELSE l.generated_email END,
+                original_image_filename = CASE WHEN v_item ? 'original_image_filename' THEN v_item->>'original_image_filename' ELSE l.original_image_filename END,
+                audio_url = CASE WHEN v_item ? 'audio_url' THEN v_item->>'audio_url' ELSE l.audio_url END,
+                audio_duration_seconds = CASE WHEN v_item ? 'audio_duration_seconds' THEN (v_item->>'audio_duration_seconds')::INTEGER ELSE l.audio_duration_seconds END,
+                event_id = CASE WHEN v_item ? 'event_id' THEN v_event_id ELSE l.event_id END,
+                updated_at = v_updated_at,
+                deleted_at = CASE WHEN v_item ? 'deleted_at' THEN (v_item->>'deleted_at')::TIMESTAMP WITH TIME ZONE ELSE l.deleted_at END
+            WHERE l.id = v_id;
+            RETURN QUERY SELECT v_id, 'applied'::TEXT, v_updated_at;
+
+        ELSIF v_updated_at = v_existing_updated THEN
+            RETURN QUERY SELECT v_id, 'unchanged'::TEXT, v_existing_updated;
+
+        ELSE
+            RETURN QUERY SELECT v_id, 'conflict'::TEXT, v_existing_updated;
+        END IF;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_upsert_leads FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.sync_upsert_leads IS
+'Batch-Upsert von Leads mit Last-Writer-Wins auf updated_at, inkl. Leads der eigenen Organisation und Messe-Zuordnung. Wird von der Edge Function sync-leads aufgerufen.';
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
@@ -0,0 +1,463 @@
+-- ============================================
+-- MesseMemo CRM Webhooks Migration
+-- Version: 018
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Export von Leads ins CRM (Edge Function crm-export):
+--   - webhook_endpoints: Ziel-URLs eines Users mit abonnierten Ereignissen
+--     (lead.created, lead.updated, email.generated), Payload-Format
+--     (messememo, hubspot, salesforce) und HMAC-Secret
+--   - webhook_deliveries: Warteschlange, eine Zeile pro Ereignis und
+--     Endpoint, Status queued → sending → delivered, Wiederholung mit
+--     exponentiellem Backoff
+--   - webhook_dead_letters: endgültig fehlgeschlagene Zustellungen, per
+--     crm-export/replay erneut einreihbar
+--   - Trigger auf leads: Anlegen und inhaltliche Änderungen erzeugen
+--     Ereignisse, email.generated kommt aus generate-email
+-- ============================================
+
+-- ============================================
+-- 1. Tabelle webhook_endpoints
+-- ============================================
+-- Das Secret wird zum Signieren im Klartext gebraucht. Deshalb gibt es
+-- keine Policies: Clients sehen die Tabelle nicht, crm-export verwaltet
+-- sie mit dem Service-Client und gibt das Secret nur beim Anlegen und
+-- Rotieren zurück.
+
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+    url TEXT NOT NULL CHECK (char_length(url) BETWEEN 1 AND 2000),
+    description TEXT CHECK (char_length(description) <= 200),
+    event_types TEXT[] NOT NULL
+        CHECK (cardinality(event_types) >= 1
+               AND event_types <@ ARRAY['lead.created', 'lead.updated', 'email.generated']),
+    format TEXT NOT NULL DEFAULT 'messememo'
+        CHECK (format IN ('messememo', 'hubspot', 'salesforce')),
+    secret TEXT NOT NULL,
+
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Grund für automatisches Abschalten (z.B. HTTP 410)
+    disabled_reason TEXT,
+    last_success_at TIMESTAMP WITH TIME ZONE,
+    last_failure_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS webhook_endpoints_user_idx
+    ON public.webhook_endpoints (user_id)
+    WHERE enabled;
+
+DROP TRIGGER IF EXISTS webhook_endpoints_updated_at ON public.webhook_endpoints;
+CREATE TRIGGER webhook_endpoints_updated_at
+    BEFORE UPDATE ON public.webhook_endpoints
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.webhook_endpoints IS
+'CRM-Webhooks eines Users (Ziel-URL, Ereignisse, Payload-Format, HMAC-Secret). Zugriff nur über crm-export.';
+
+-- ============================================
+-- 2. Tabelle webhook_deliveries
+-- ============================================
+-- `lead` ist ein Schnappschuss zum Zeitpunkt des Ereignisses; das Format
+-- (HubSpot, Salesforce) wendet crm-export beim Senden an. Die ID bleibt
+-- über alle Versuche gleich und dient Empfängern zur Deduplizierung.
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+    event_type TEXT NOT NULL,
+    lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+    lead JSONB,
+    data JSONB NOT NULL DEFAULT '{}'::jsonb,
+    occurred_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'sending', 'delivered')),
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_status_code INTEGER,
+    last_error TEXT,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_due_idx
+    ON public.webhook_deliveries (next_attempt_at)
+    WHERE status = 'queued';
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_endpoint_idx
+    ON public.webhook_deliveries (endpoint_id, created_at DESC);
+
+-- Mehrere Änderungen am selben Lead vor dem ersten Versuch → ein Ereignis
+-- mit dem neuesten Stand (siehe enqueue_webhook_event)
+CREATE UNIQUE INDEX IF NOT EXISTS webhook_deliveries_pending_update_idx
+    ON public.webhook_deliveries (endpoint_id, lead_id)
+    WHERE event_type = 'lead.updated' AND status = 'queued' AND attempts = 0;
+
+DROP TRIGGER IF EXISTS webhook_deliveries_updated_at ON public.webhook_deliveries;
+CREATE TRIGGER webhook_deliveries_updated_at
+    BEFORE UPDATE ON public.webhook_deliveries
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Lesen darf der User, schreiben nur crm-export (Service Role)
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own webhook deliveries" ON public.webhook_deliveries;
+CREATE POLICY "Users can view own webhook deliveries"
+    ON public.webhook_deliveries FOR SELECT
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.webhook_deliveries IS
+'Warteschlange der CRM-Webhooks mit Versuchen und Backoff; zugestellte Einträge werden nach 30 Tagen gelöscht.';
+
+-- ============================================
+-- 3. Tabelle webhook_dead_letters
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.webhook_dead_letters (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- ID der ursprünglichen Zustellung (Header X-MesseMemo-Delivery)
+    delivery_id UUID NOT NULL UNIQUE,
+    endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+
+    event_type TEXT NOT NULL,
+    lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+    lead JSONB,
+    data JSONB NOT NULL DEFAULT '{}'::jsonb,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    attempts INTEGER NOT NULL,
+    last_status_code INTEGER,
+    last_error TEXT,
+    failed_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    -- Erneut eingereiht (neue Zustellung)
+    replayed_at TIMESTAMP WITH TIME ZONE,
+    replay_delivery_id UUID
+);
+
+CREATE INDEX IF NOT EXISTS webhook_dead_letters_user_idx
+    ON public.webhook_dead_letters (user_id, failed_at DESC);
+
+ALTER TABLE public.webhook_dead_letters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own webhook dead letters" ON public.webhook_dead_letters;
+CREATE POLICY "Users can view own webhook dead letters"
+    ON public.webhook_dead_letters FOR SELECT
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.webhook_dead_letters IS
+'CRM-Webhooks, die nach allen Versuchen oder mit dauerhaftem Fehler nicht zugestellt wurden.';
+
+-- ============================================
+-- 4. Ereignisse einreihen
+-- ============================================
+
+-- Lead-Daten für Webhooks (Format-Mapping in _shared/crm.ts)
+CREATE OR REPLACE FUNCTION public.lead_webhook_snapshot(p_lead_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT jsonb_build_object(
+        'id', l.id,
+        'user_id', l.user_id,
+        'organization_id', l.organization_id,
+        'name', COALESCE(l.name, ''),
+        'company', COALESCE(l.company, ''),
+        'email', COALESCE(l.email, ''),
+        'phone', COALESCE(l.phone, ''),
+        'notes', COALESCE(l.notes, ''),
+        'transcript', l.transcript,
+        'qualification', l.qualification,
+        'lead_score', l.lead_score,
+        'follow_up_date', l.follow_up_date,
+        'email_status', l.email_status,
+        'event_id', l.event_id,
+        'event_name', e.name,
+        'has_audio', l.audio_url IS NOT NULL,
+        'created_at', l.created_at,
+        'updated_at', l.updated_at
+    )
+    FROM leads l
+    LEFT JOIN events e ON e.id = l.event_id
+    WHERE l.id = p_lead_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lead_webhook_snapshot FROM PUBLIC, anon, authenticated;
+
+-- Eine Zustellung pro aktivem Endpoint, der das Ereignis abonniert hat.
+-- Gibt die Anzahl der eingereihten (bzw. zusammengefassten) Zustellungen zurück.
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(
+    p_user_id UUID,
+    p_event_type TEXT,
+    p_lead_id UUID DEFAULT NULL,
+    p_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_lead JSONB;
+    v_count INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM webhook_endpoints w
+        WHERE w.user_id = p_user_id AND w.enabled AND p_event_type = ANY (w.event_types)
+    ) THEN
+        RETURN 0;
+    END IF;
+
+    -- Nur Leads, die der User sehen darf (eigene oder der Organisation)
+    IF p_lead_id IS NOT NULL THEN
+        SELECT lead_webhook_snapshot(l.id) INTO v_lead
+        FROM leads l
+        WHERE l.id = p_lead_id
+          AND (l.user_id = p_user_id OR l.organization_id IN (
+              SELECT m.organization_id FROM memberships m WHERE m.user_id = p_user_id
+          ));
+    END IF;
+
+    INSERT INTO webhook_deliveries (endpoint_id, user_id, event_type, lead_id, lead, data)
+    SELECT w.id, p_user_id, p_event_type, (v_lead->>'id')::UUID, v_lead, COALESCE(p_data, '{}'::jsonb)
+    FROM webhook_endpoints w
+    WHERE w.user_id = p_user_id AND w.enabled AND p_event_type = ANY (w.event_types)
+    ON CONFLICT (endpoint_id, lead_id)
+        WHERE event_type = 'lead.updated' AND status = 'queued' AND attempts = 0
+    DO UPDATE SET lead = EXCLUDED.lead,
+                  data = EXCLUDED.data,
+                  occurred_at = EXCLUDED.occurred_at;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_webhook_event FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.enqueue_webhook_event IS
+'Reiht ein Ereignis für alle aktiven CRM-Webhooks des Users ein (lead.updated vor dem ersten Versuch wird zusammengefasst).';
+
+-- Neue Leads und inhaltliche Änderungen. Technische Spalten (sync_seq,
+-- email_status, generated_email, …) lösen kein Ereignis aus, Tombstones
+-- ebenfalls nicht.
+CREATE OR REPLACE FUNCTION public.handle_leads_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.deleted_at IS NOT NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF TG_OP = 'UPDATE'
+       AND OLD.deleted_at IS NULL
+       AND (NEW.name, NEW.company, NEW.email, NEW.phone, NEW.notes, NEW.transcript,
+            NEW.qualification, NEW.lead_score, NEW.follow_up_date, NEW.event_id)
+           IS NOT DISTINCT FROM
+           (OLD.name, OLD.company, OLD.email, OLD.phone, OLD.notes, OLD.transcript,
+            OLD.qualification, OLD.lead_score, OLD.follow_up_date, OLD.event_id) THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM enqueue_webhook_event(
+        NEW.user_id,
+        CASE WHEN TG_OP = 'INSERT' THEN 'lead.created' ELSE 'lead.updated' END,
+        NEW.id
+    );
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS leads_webhooks ON public.leads;
+CREATE TRIGGER leads_webhooks
+    AFTER INSERT OR UPDATE ON public.leads
+    FOR EACH ROW EXECUTE FUNCTION public.handle_leads_webhooks();
+
+-- ============================================
+-- 5. RPCs für crm-export
+-- ============================================
+
+-- Wie claim_email_outbox (015): fällige Zustellungen reservieren, nur für
+-- aktive Endpoints. Hängt eine Zustellung seit 15 Minuten in 'sending',
+-- wird sie erneut vergeben.
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(
+    p_limit INTEGER DEFAULT 50
+)
+RETURNS SETOF public.webhook_deliveries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE webhook_deliveries d
+    SET status = 'sending',
+        attempts = d.attempts + 1
+    WHERE d.id IN (
+        SELECT c.id
+        FROM webhook_deliveries c
+        JOIN webhook_endpoints w ON w.id = c.endpoint_id
+        WHERE w.enabled
+          AND (
+              (c.status = 'queued' AND c.next_attempt_at <= NOW())
+              OR (c.status = 'sending' AND c.updated_at < NOW() - INTERVAL '15 minutes')
+          )
+        ORDER BY c.next_attempt_at
+        LIMIT GREATEST(1, LEAST(p_limit, 500))
+        FOR UPDATE OF c SKIP LOCKED
+    )
+    RETURNING d.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries FROM PUBLIC, anon, authenticated;
+
+-- Zustellung endgültig aufgeben: verschiebt sie atomar in webhook_dead_letters
+CREATE OR REPLACE FUNCTION public.dead_letter_webhook_delivery(
+    p_delivery_id UUID,
+    p_status_code INTEGER,
+    p_error TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_id UUID;
+BEGIN
+    WITH moved AS (
+        DELETE FROM webhook_deliveries
+        WHERE id = p_delivery_id
+        RETURNING *
+    )
+    INSERT INTO webhook_dead_letters (
+        delivery_id, endpoint_id, user_id, event_type, lead_id, lead, data,
+        occurred_at, attempts, last_status_code, last_error
+    )
+    SELECT id, endpoint_id, user_id, event_type, lead_id, lead, data,
+           occurred_at, attempts, p_status_code, left(p_error, 500)
+    FROM moved
+    RETURNING id INTO v_id;
+
+    RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.dead_letter_webhook_delivery FROM PUBLIC, anon, authenticated;
+
+-- Dead Letter erneut einreihen (neue Zustellung mit neuer ID). NULL, wenn
+-- der Eintrag nicht dem User gehört oder schon eingereiht wurde.
+CREATE OR REPLACE FUNCTION public.replay_webhook_dead_letter(
+    p_user_id UUID,
+    p_dead_letter_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_letter webhook_dead_letters%ROWTYPE;
+    v_delivery_id UUID;
+BEGIN
+    SELECT * INTO v_letter
+    FROM webhook_dead_letters
+    WHERE id = p_dead_letter_id AND user_id = p_user_id AND replayed_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO webhook_deliveries (endpoint_id, user_id, event_type, lead_id, lead, data, occurred_at)
+    VALUES (v_letter.endpoint_id, v_letter.user_id, v_letter.event_type, v_letter.lead_id,
+            v_letter.lead, v_letter.data, v_letter.occurred_at)
+    RETURNING id INTO v_delivery_id;
+
+    UPDATE webhook_dead_letters
+    SET replayed_at = NOW(), replay_delivery_id = v_delivery_id
+    WHERE id = v_letter.id;
+
+    RETURN v_delivery_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replay_webhook_dead_letter FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 6. Zeitplan (pg_cron + pg_net)
+-- ============================================
+-- Zustellungen und Wiederholungen verschickt crm-export/process:
+--   SELECT schedule_webhook_deliveries(
+--       'https://<project>.supabase.co/functions/v1/crm-export/process',
+--       '<CRON_SECRET>'
+--   );
+-- cron.unschedule('webhook-deliveries') stoppt den Job.
+
+CREATE OR REPLACE FUNCTION public.schedule_webhook_deliveries(
+    p_function_url TEXT,
+    p_secret TEXT,
+    p_schedule TEXT DEFAULT '* * * * *'
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+       OR NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+        RAISE EXCEPTION 'pg_cron und pg_net müssen aktiviert sein';
+    END IF;
+
+    RETURN cron.schedule(
+        'webhook-deliveries',
+        p_schedule,
+        format(
+            'SELECT net.http_post(url := %L, headers := %L::jsonb, body := ''{}''::jsonb, timeout_milliseconds := 60000)',
+            p_function_url,
+            jsonb_build_object(
+                'Content-Type', 'application/json',
+                'Authorization', 'Bearer ' || p_secret
+            )
+        )
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.schedule_webhook_deliveries FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 7. Rate Limits für crm-export
+-- ============================================
+-- Gilt für Export und Test-Ping (beide erzeugen Last bzw. ausgehende Requests)
+
+INSERT INTO public.rate_limit_policies (scope, function_name, capacity, refill_per_minute) VALUES
+    ('free',    'crm-export', 10,  2),
+    ('premium', 'crm-export', 30,  10),
+    ('ip',      'crm-export', 30,  10)
+ON CONFLICT (scope, function_name) DO NOTHING;
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
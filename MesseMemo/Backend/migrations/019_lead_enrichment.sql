@@ -0,0 +1,299 @@
+-- ============================================
+-- MesseMemo Lead Enrichment Migration
+-- Version: 019
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Offline-Anreicherung von Leads (Edge Function enrich-lead), ohne
+-- externe Dienste:
+--   - enrichment_rules: Regeltabelle (Freemail-Domains, Ländervorwahlen,
+--     Länder-TLDs, mehrteilige Domain-Endungen, Vornamen, Anreden).
+--     Änderungen per SQL wirken ohne Deploy (enrich-lead lädt die Regeln
+--     alle 5 Minuten neu).
+--   - leads.enrichment: abgeleitete Felder mit Herkunft (Regel, Quelle,
+--     Confidence), siehe _shared/enrichment.ts
+-- ============================================
+
+-- ============================================
+-- 1. Tabelle enrichment_rules
+-- ============================================
+-- kind / key / value:
+--   free_mail_domain  gmail.com   { "provider": "Google" }
+--   phone_prefix      +49         { "country": "DE", "language": "de" }
+--   country_tld       de          { "country": "DE", "language": "de" }
+--   public_suffix     co.uk       {}  (Domain-Endungen aus mehreren Teilen)
+--   first_name        anna        { "gender": "f" }
+--   salutation        de          { "f": "Frau", "m": "Herr" }
+-- language ist immer eine Sprache von generate-email (de, en, fr, es, it,
+-- nl, pl, pt); für andere Länder steht die Geschäftssprache Englisch.
+
+CREATE TABLE IF NOT EXISTS public.enrichment_rules (
+    kind TEXT NOT NULL CHECK (kind IN (
+        'free_mail_domain', 'phone_prefix', 'country_tld', 'public_suffix', 'first_name', 'salutation'
+    )),
+    -- Immer klein geschrieben (Vorwahlen mit +)
+    key TEXT NOT NULL CHECK (key = lower(key) AND char_length(key) BETWEEN 1 AND 100),
+    value JSONB NOT NULL DEFAULT '{}'::jsonb,
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+
+    PRIMARY KEY (kind, key)
+);
+
+DROP TRIGGER IF EXISTS enrichment_rules_updated_at ON public.enrichment_rules;
+CREATE TRIGGER enrichment_rules_updated_at
+    BEFORE UPDATE ON public.enrichment_rules
+    FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- Keine Policies: gelesen wird nur von enrich-lead (Service Role),
+-- gepflegt per SQL
+ALTER TABLE public.enrichment_rules ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.enrichment_rules IS
+'Regeln für enrich-lead (Freemail-Domains, Vorwahlen, TLDs, Vornamen, Anreden). Pflege per SQL.';
+
+-- ============================================
+-- 2. Spalten auf leads
+-- ============================================
+
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS enrichment JSONB;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS enriched_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.leads.enrichment IS
+'Abgeleitete Felder aus enrich-lead (email_type, company, website, country, language, salutation) mit Herkunft.';
+
+-- ============================================
+-- 3. Regeln: Freemail-Domains
+-- ============================================
+
+INSERT INTO public.enrichment_rules (kind, key, value) VALUES
+    ('free_mail_domain', 'gmail.com',        '{"provider": "Google"}'),
+    ('free_mail_domain', 'googlemail.com',   '{"provider": "Google"}'),
+    ('free_mail_domain', 'outlook.com',      '{"provider": "Microsoft"}'),
+    ('free_mail_domain', 'outlook.de',       '{"provider": "Microsoft"}'),
+    ('free_mail_domain', 'hotmail.com',      '{"provider": "Microsoft"}'),
+    ('free_mail_domain', 'hotmail.de',       '{"provider": "Microsoft"}'),
+    ('free_mail_domain', 'hotmail.fr',       '{"provider": "Microsoft"}'),
+    ('free_mail_domain', 'hotmail.it',       '{"provider": "Microsoft"}'),
+    ('free_mail_domain', 'hotmail.co.uk',    '{"provider": "Microsoft"}'),
+    ('free_mail_domain', 'live.com',         '{"provider": "Microsoft"}'),
+    ('free_mail_domain', 'live.de',          '{"provider": "Microsoft"}'),
+    ('free_mail_domain', 'msn.com',          '{"provider": "Microsoft"}'),
+    ('free_mail_domain', 'yahoo.com',        '{"provider": "Yahoo"}'),
+    ('free_mail_domain', 'yahoo.de',         '{"provider": "Yahoo"}'),
+    ('free_mail_domain', 'yahoo.fr',         '{"provider": "Yahoo"}'),
+    ('free_mail_domain', 'yahoo.co.uk',      '{"provider": "Yahoo"}'),
+    ('free_mail_domain', 'ymail.com',        '{"provider": "Yahoo"}'),
+    ('free_mail_domain', 'aol.com',          '{"provider": "AOL"}'),
+    ('free_mail_domain', 'icloud.com',       '{"provider": "Apple"}'),
+    ('free_mail_domain', 'me.com',           '{"provider": "Apple"}'),
+    ('free_mail_domain', 'mac.com',          '{"provider": "Apple"}'),
+    ('free_mail_domain', 'proton.me',        '{"provider": "Proton"}'),
+    ('free_mail_domain', 'protonmail.com',   '{"provider": "Proton"}'),
+    ('free_mail_domain', 'gmx.de',           '{"provider": "GMX"}'),
+    ('free_mail_domain', 'gmx.net',          '{"provider": "GMX"}'),
+    ('free_mail_domain', 'gmx.at',           '{"provider": "GMX"}'),
+    ('free_mail_domain', 'gmx.ch',           '{"provider": "GMX"}'),
+    ('free_mail_domain', 'gmx.com',          '{"provider": "GMX"}'),
+    ('free_mail_domain', 'web.de',           '{"provider": "WEB.DE"}'),
+    ('free_mail_domain', 't-online.de',      '{"provider": "Telekom"}'),
+    ('free_mail_domain', 'freenet.de',       '{"provider": "freenet"}'),
+    ('free_mail_domain', 'posteo.de',        '{"provider": "Posteo"}'),
+    ('free_mail_domain', 'mailbox.org',      '{"provider": "mailbox.org"}'),
+    ('free_mail_domain', 'arcor.de',         '{"provider": "Vodafone"}'),
+    ('free_mail_domain', 'online.de',        '{"provider": "1&1"}'),
+    ('free_mail_domain', 'bluewin.ch',       '{"provider": "Swisscom"}'),
+    ('free_mail_domain', 'orange.fr',        '{"provider": "Orange"}'),
+    ('free_mail_domain', 'free.fr',          '{"provider": "Free"}'),
+    ('free_mail_domain', 'laposte.net',      '{"provider": "La Poste"}'),
+    ('free_mail_domain', 'libero.it',        '{"provider": "Libero"}'),
+    ('free_mail_domain', 'virgilio.it',      '{"provider": "Virgilio"}'),
+    ('free_mail_domain', 'wp.pl',            '{"provider": "Wirtualna Polska"}'),
+    ('free_mail_domain', 'onet.pl',          '{"provider": "Onet"}'),
+    ('free_mail_domain', 'interia.pl',       '{"provider": "Interia"}'),
+    ('free_mail_domain', 'seznam.cz',        '{"provider": "Seznam"}'),
+    ('free_mail_domain', 'yandex.ru',        '{"provider": "Yandex"}'),
+    ('free_mail_domain', 'mail.ru',          '{"provider": "Mail.ru"}'),
+    ('free_mail_domain', 'qq.com',           '{"provider": "Tencent"}'),
+    ('free_mail_domain', '163.com',          '{"provider": "NetEase"}'),
+    ('free_mail_domain', 'naver.com',        '{"provider": "Naver"}'),
+    ('free_mail_domain', 'zoho.com',         '{"provider": "Zoho"}')
+ON CONFLICT (kind, key) DO NOTHING;
+
+-- ============================================
+-- 4. Regeln: Ländervorwahlen
+-- ============================================
+-- Längster Treffer gewinnt (+352 vor +35). +1 ist USA und Kanada.
+
+INSERT INTO public.enrichment_rules (kind, key, value, note) VALUES
+    ('phone_prefix', '+49',  '{"country": "DE", "language": "de"}', NULL),
+    ('phone_prefix', '+43',  '{"country": "AT", "language": "de"}', NULL),
+    ('phone_prefix', '+41',  '{"country": "CH", "language": "de"}', 'mehrsprachig, Deutsch am häufigsten'),
+    ('phone_prefix', '+423', '{"country": "LI", "language": "de"}', NULL),
+    ('phone_prefix', '+352', '{"country": "LU", "language": "fr"}', 'mehrsprachig'),
+    ('phone_prefix', '+32',  '{"country": "BE", "language": "nl"}', 'mehrsprachig, Niederländisch am häufigsten'),
+    ('phone_prefix', '+31',  '{"country": "NL", "language": "nl"}', NULL),
+    ('phone_prefix', '+33',  '{"country": "FR", "language": "fr"}', NULL),
+    ('phone_prefix', '+377', '{"country": "MC", "language": "fr"}', NULL),
+    ('phone_prefix', '+34',  '{"country": "ES", "language": "es"}', NULL),
+    ('phone_prefix', '+351', '{"country": "PT", "language": "pt"}', NULL),
+    ('phone_prefix', '+39',  '{"country": "IT", "language": "it"}', NULL),
+    ('phone_prefix', '+48',  '{"country": "PL", "language": "pl"}', NULL),
+    ('phone_prefix', '+44',  '{"country": "GB", "language": "en"}', NULL),
+    ('phone_prefix', '+353', '{"country": "IE", "language": "en"}', NULL),
+    ('phone_prefix', '+1',   '{"country": "US", "language": "en"}', 'auch Kanada und Karibik'),
+    ('phone_prefix', '+61',  '{"country": "AU", "language": "en"}', NULL),
+    ('phone_prefix', '+64',  '{"country": "NZ", "language": "en"}', NULL),
+    ('phone_prefix', '+27',  '{"country": "ZA", "language": "en"}', NULL),
+    ('phone_prefix', '+91',  '{"country": "IN", "language": "en"}', NULL),
+    ('phone_prefix', '+65',  '{"country": "SG", "language": "en"}', NULL),
+    ('phone_prefix', '+971', '{"country": "AE", "language": "en"}', NULL),
+    ('phone_prefix', '+52',  '{"country": "MX", "language": "es"}', NULL),
+    ('phone_prefix', '+54',  '{"country": "AR", "language": "es"}', NULL),
+    ('phone_prefix', '+56',  '{"country": "CL", "language": "es"}', NULL),
+    ('phone_prefix', '+57',  '{"country": "CO", "language": "es"}', NULL),
+    ('phone_prefix', '+55',  '{"country": "BR", "language": "pt"}', NULL),
+    ('phone_prefix', '+45',  '{"country": "DK", "language": "en"}', NULL),
+    ('phone_prefix', '+46',  '{"country": "SE", "language": "en"}', NULL),
+    ('phone_prefix', '+47',  '{"country": "NO", "language": "en"}', NULL),
+    ('phone_prefix', '+358', '{"country": "FI", "language": "en"}', NULL),
+    ('phone_prefix', '+354', '{"country": "IS", "language": "en"}', NULL),
+    ('phone_prefix', '+420', '{"country": "CZ", "language": "en"}', NULL),
+    ('phone_prefix', '+421', '{"country": "SK", "language": "en"}', NULL),
+    ('phone_prefix', '+36',  '{"country": "HU", "language": "en"}', NULL),
+    ('phone_prefix', '+386', '{"country": "SI", "language": "en"}', NULL),
+    ('phone_prefix', '+385', '{"country": "HR", "language": "en"}', NULL),
+    ('phone_prefix', '+40',  '{"country": "RO", "language": "en"}', NULL),
+    ('phone_prefix', '+359', '{"country": "BG", "language": "en"}', NULL),
+    ('phone_prefix', '+30',  '{"country": "GR", "language": "en"}', NULL),
+    ('phone_prefix', '+90',  '{"country": "TR", "language": "en"}', NULL),
+    ('phone_prefix', '+370', '{"country": "LT", "language": "en"}', NULL),
+    ('phone_prefix', '+371', '{"country": "LV", "language": "en"}', NULL),
+    ('phone_prefix', '+372', '{"country": "EE", "language": "en"}', NULL),
+    ('phone_prefix', '+380', '{"country": "UA", "language": "en"}', NULL),
+    ('phone_prefix', '+7',   '{"country": "RU", "language": "en"}', 'auch Kasachstan'),
+    ('phone_prefix', '+972', '{"country": "IL", "language": "en"}', NULL),
+    ('phone_prefix', '+86',  '{"country": "CN", "language": "en"}', NULL),
+    ('phone_prefix', '+852', '{"country": "HK", "language": "en"}', NULL),
+    ('phone_prefix', '+81',  '{"country": "JP", "language": "en"}', NULL),
+    ('phone_prefix', '+82',  '{"country": "KR", "language": "en"}', NULL),
+    ('phone_prefix', '+886', '{"country": "TW", "language": "en"}', NULL)
+ON CONFLICT (kind, key) DO NOTHING;
+
+-- ============================================
+-- 5. Regeln: Länder-TLDs und mehrteilige Endungen
+-- ============================================
+
+INSERT INTO public.enrichment_rules (kind, key, value) VALUES
+    ('country_tld', 'de', '{"country": "DE", "language": "de"}'),
+    ('country_tld', 'at', '{"country": "AT", "language": "de"}'),
+    ('country_tld', 'ch', '{"country": "CH", "language": "de"}'),
+    ('country_tld', 'li', '{"country": "LI", "language": "de"}'),
+    ('country_tld', 'lu', '{"country": "LU", "language": "fr"}'),
+    ('country_tld', 'be', '{"country": "BE", "language": "nl"}'),
+    ('country_tld', 'nl', '{"country": "NL", "language": "nl"}'),
+    ('country_tld', 'fr', '{"country": "FR", "language": "fr"}'),
+    ('country_tld', 'es', '{"country": "ES", "language": "es"}'),
+    ('country_tld', 'pt', '{"country": "PT", "language": "pt"}'),
+    ('country_tld', 'it', '{"country": "IT", "language": "it"}'),
+    ('country_tld', 'pl', '{"country": "PL", "language": "pl"}'),
+    ('country_tld', 'uk', '{"country": "GB", "language": "en"}'),
+    ('country_tld', 'ie', '{"country": "IE", "language": "en"}'),
+    ('country_tld', 'us', '{"country": "US", "language": "en"}'),
+    ('country_tld', 'ca', '{"country": "CA", "language": "en"}'),
+    ('country_tld', 'au', '{"country": "AU", "language": "en"}'),
+    ('country_tld', 'nz', '{"country": "NZ", "language": "en"}'),
+    ('country_tld', 'za', '{"country": "ZA", "language": "en"}'),
+    ('country_tld', 'in', '{"country": "IN", "language": "en"}'),
+    ('country_tld', 'sg', '{"country": "SG", "language": "en"}'),
+    ('country_tld', 'mx', '{"country": "MX", "language": "es"}'),
+    ('country_tld', 'ar', '{"country": "AR", "language": "es"}'),
+    ('country_tld', 'br', '{"country": "BR", "language": "pt"}'),
+    ('country_tld', 'dk', '{"country": "DK", "language": "en"}'),
+    ('country_tld', 'se', '{"country": "SE", "language": "en"}'),
+    ('country_tld', 'no', '{"country": "NO", "language": "en"}'),
+    ('country_tld', 'fi', '{"country": "FI", "language": "en"}'),
+    ('country_tld', 'cz', '{"country": "CZ", "language": "en"}'),
+    ('country_tld', 'sk', '{"country": "SK", "language": "en"}'),
+    ('country_tld', 'hu', '{"country": "HU", "language": "en"}'),
+    ('country_tld', 'si', '{"country": "SI", "language": "en"}'),
+    ('country_tld', 'hr', '{"country": "HR", "language": "en"}'),
+    ('country_tld', 'ro', '{"country": "RO", "language": "en"}'),
+    ('country_tld', 'gr', '{"country": "GR", "language": "en"}'),
+    ('country_tld', 'tr', '{"country": "TR", "language": "en"}'),
+    ('country_tld', 'cn', '{"country": "CN", "language": "en"}'),
+    ('country_tld', 'jp', '{"country": "JP", "language": "en"}'),
+    ('country_tld', 'kr', '{"country": "KR", "language": "en"}'),
+
+    ('public_suffix', 'co.uk',  '{}'),
+    ('public_suffix', 'org.uk', '{}'),
+    ('public_suffix', 'ac.uk',  '{}'),
+    ('public_suffix', 'co.at',  '{}'),
+    ('public_suffix', 'or.at',  '{}'),
+    ('public_suffix', 'com.au', '{}'),
+    ('public_suffix', 'co.nz',  '{}'),
+    ('public_suffix', 'co.za',  '{}'),
+    ('public_suffix', 'co.in',  '{}'),
+    ('public_suffix', 'com.br', '{}'),
+    ('public_suffix', 'com.mx', '{}'),
+    ('public_suffix', 'com.ar', '{}'),
+    ('public_suffix', 'com.cn', '{}'),
+    ('public_suffix', 'co.jp',  '{}'),
+    ('public_suffix', 'com.tr', '{}'),
+    ('public_suffix', 'com.pl', '{}')
+ON CONFLICT (kind, key) DO NOTHING;
+
+-- ============================================
+-- 6. Regeln: Vornamen und Anreden
+-- ============================================
+-- Nur eindeutige Vornamen (Andrea, Kim, Sascha, … fehlen absichtlich).
+-- Ohne Treffer gibt es keine Anrede – generate-email bleibt neutral.
+
+INSERT INTO public.enrichment_rules (kind, key, value)
+SELECT 'first_name', name, '{"gender": "f"}'::jsonb
+FROM unnest(ARRAY[
+    'anna', 'anne', 'annika', 'antje', 'barbara', 'bettina', 'birgit', 'brigitte', 'carina', 'carolin',
+    'caroline', 'charlotte', 'christina', 'christine', 'claudia', 'daniela', 'diana', 'doris', 'elena',
+    'elisabeth', 'emma', 'eva', 'franziska', 'gabriele', 'hannah', 'heike', 'helena', 'ines', 'inga',
+    'isabel', 'jana', 'janina', 'jennifer', 'jessica', 'johanna', 'julia', 'juliane', 'karin', 'katharina',
+    'kathrin', 'katja', 'kerstin', 'laura', 'lea', 'lena', 'lisa', 'lucia', 'marie', 'marina', 'martina',
+    'melanie', 'michaela', 'miriam', 'monika', 'nadine', 'natalie', 'nicole', 'nina', 'petra', 'ramona',
+    'sabine', 'sandra', 'sarah', 'silke', 'simone', 'sofia', 'sophie', 'stefanie', 'stephanie', 'susanne',
+    'svenja', 'tanja', 'theresa', 'ulrike', 'ursula', 'vanessa', 'verena', 'yvonne',
+    'amelie', 'chloe', 'emily', 'olivia', 'isabelle', 'camille', 'giulia', 'francesca', 'chiara',
+    'agnieszka', 'katarzyna', 'magdalena', 'ana', 'carmen', 'lucía', 'joana', 'beatriz'
+]) AS name
+ON CONFLICT (kind, key) DO NOTHING;
+
+INSERT INTO public.enrichment_rules (kind, key, value)
+SELECT 'first_name', name, '{"gender": "m"}'::jsonb
+FROM unnest(ARRAY[
+    'alexander', 'andreas', 'axel', 'benjamin', 'bernd', 'christian', 'christoph', 'daniel', 'david',
+    'dennis', 'dieter', 'dirk', 'florian', 'frank', 'georg', 'gerhard', 'hans', 'harald', 'heiko',
+    'helmut', 'holger', 'ingo', 'jan', 'jens', 'joachim', 'jochen', 'johannes', 'jonas', 'jörg',
+    'jürgen', 'kai', 'karl', 'klaus', 'lars', 'lukas', 'marc', 'marcel', 'marco', 'mario', 'markus',
+    'martin', 'matthias', 'max', 'maximilian', 'michael', 'moritz', 'niklas', 'nils', 'oliver', 'patrick',
+    'paul', 'peter', 'philipp', 'ralf', 'rainer', 'robert', 'rolf', 'sebastian', 'simon', 'stefan',
+    'stephan', 'sven', 'thomas', 'thorsten', 'tim', 'tobias', 'torsten', 'uwe', 'volker', 'werner',
+    'wolfgang', 'james', 'john', 'william', 'george', 'richard', 'pierre', 'jean', 'nicolas', 'françois',
+    'giuseppe', 'giovanni', 'luca', 'piotr', 'krzysztof', 'tomasz', 'carlos', 'javier', 'josé',
+    'joão', 'pedro'
+]) AS name
+ON CONFLICT (kind, key) DO NOTHING;
+
+INSERT INTO public.enrichment_rules (kind, key, value) VALUES
+    ('salutation', 'de', '{"f": "Frau", "m": "Herr"}'),
+    ('salutation', 'en', '{"f": "Ms", "m": "Mr"}'),
+    ('salutation', 'fr', '{"f": "Madame", "m": "Monsieur"}'),
+    ('salutation', 'es', '{"f": "Sra.", "m": "Sr."}'),
+    ('salutation', 'it', '{"f": "Sig.ra", "m": "Sig."}'),
+    ('salutation', 'nl', '{"f": "Mevrouw", "m": "De heer"}'),
+    ('salutation', 'pl', '{"f": "Pani", "m": "Pan"}'),
+    ('salutation', 'pt', '{"f": "Sra.", "m": "Sr."}')
+ON CONFLICT (kind, key) DO NOTHING;
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
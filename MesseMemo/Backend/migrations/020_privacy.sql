@@ -0,0 +1,660 @@
+-- ============================================
+-- MesseMemo Privacy Migration (DSGVO)
+-- Version: 020
+-- Datum: 19.10.2026
+-- ============================================
+--
+-- Datenexport und Löschung (Edge Function privacy):
+--   - account_deletion_requests: Bestätigungscode für die Kontolöschung
+--   - deletion_receipts: Löschnachweis (ohne personenbezogene Daten außer
+--     der User-ID, überlebt das Konto)
+--   - forget_lead(): einen Kontakt vollständig vergessen (Art. 17 DSGVO,
+--     Anfrage des Kontakts selbst)
+--   - delete_account(): alle Zeilen des Users und das Auth-Konto in einer
+--     Transaktion; Storage-Objekte löscht die Function vorher per API
+--   - sync_upsert_leads: vergessene Leads lassen sich nicht zurück-syncen
+-- ============================================
+
+-- ============================================
+-- 1. Tabelle account_deletion_requests
+-- ============================================
+-- Ein offener Antrag pro User. Der Code geht per E-Mail raus, gespeichert
+-- wird nur der SHA-256 Hash.
+
+CREATE TABLE IF NOT EXISTS public.account_deletion_requests (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL CHECK (code_hash ~ '^[0-9a-f]{64}$'),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- Nur Service Role (privacy), keine Policies
+ALTER TABLE public.account_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.account_deletion_requests IS
+'Offene Anträge auf Kontolöschung (Hash des E-Mail-Codes, Versuche, Ablauf).';
+
+-- ============================================
+-- 2. Tabelle deletion_receipts
+-- ============================================
+-- Bewusst ohne Fremdschlüssel auf profiles: der Nachweis einer
+-- Kontolöschung muss das Konto überleben.
+
+CREATE TABLE IF NOT EXISTS public.deletion_receipts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    kind TEXT NOT NULL CHECK (kind IN ('account', 'lead')),
+    user_id UUID NOT NULL,
+    lead_id UUID,
+    -- Anzahl gelöschter Zeilen je Tabelle, z.B. { "leads": 42, "email_outbox": 3 }
+    removed JSONB NOT NULL DEFAULT '{}'::jsonb,
+    storage_objects INTEGER NOT NULL DEFAULT 0,
+    requested_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS deletion_receipts_user_idx
+    ON public.deletion_receipts (user_id, completed_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS deletion_receipts_lead_key
+    ON public.deletion_receipts (lead_id)
+    WHERE kind = 'lead';
+
+ALTER TABLE public.deletion_receipts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own deletion receipts" ON public.deletion_receipts;
+CREATE POLICY "Users can view own deletion receipts"
+    ON public.deletion_receipts FOR SELECT
+    USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.deletion_receipts IS
+'Löschnachweise für Konten und vergessene Kontakte (nur IDs und Anzahlen).';
+
+-- ============================================
+-- 3. leads: vergessene Kontakte, Sperrliste
+-- ============================================
+
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS forgotten_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.leads.forgotten_at IS
+'Gesetzt von forget_lead(): Tombstone ohne Inhalt, Sync-Änderungen werden abgelehnt.';
+
+-- erasure: Kontakt hat Löschung verlangt und soll keine Mails mehr bekommen
+ALTER TABLE public.email_opt_outs DROP CONSTRAINT IF EXISTS email_opt_outs_source_check;
+ALTER TABLE public.email_opt_outs ADD CONSTRAINT email_opt_outs_source_check
+    CHECK (source IN ('manual', 'unsubscribe', 'bounce', 'erasure'));
+
+-- ============================================
+-- 4. RPC: Storage-Objekte eines Users
+-- ============================================
+-- Pfadkonvention voice-memos/<user_id>/… (siehe Storage Policies im Schema)
+
+CREATE OR REPLACE FUNCTION public.user_storage_objects(p_user_id UUID)
+RETURNS TABLE (
+    name TEXT,
+    size BIGINT,
+    mime_type TEXT,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT o.name,
+           (o.metadata->>'size')::BIGINT,
+           o.metadata->>'mimetype',
+           o.created_at
+    FROM storage.objects o
+    WHERE o.bucket_id = 'voice-memos'
+      AND (storage.foldername(o.name))[1] = p_user_id::TEXT
+    ORDER BY o.name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.user_storage_objects FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 5. RPCs: Kontolöschung beantragen und bestätigen
+-- ============================================
+-- Status-Codes: ok, not_found, expired, invalid, too_many_attempts,
+-- last_owner (letzter Owner einer Organisation mit weiteren Mitgliedern)
+
+CREATE OR REPLACE FUNCTION public.account_deletion_blocker(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT 'last_owner'
+    FROM memberships m
+    WHERE m.user_id = p_user_id
+      AND m.role = 'owner'
+      AND EXISTS (SELECT 1 FROM memberships o
+                  WHERE o.organization_id = m.organization_id AND o.user_id <> p_user_id)
+      AND NOT EXISTS (SELECT 1 FROM memberships o
+                      WHERE o.organization_id = m.organization_id AND o.user_id <> p_user_id
+                        AND o.role = 'owner');
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.account_deletion_blocker FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.start_account_deletion(
+    p_user_id UUID,
+    p_code_hash TEXT,
+    p_ttl_minutes INTEGER DEFAULT 15
+)
+RETURNS TABLE (status TEXT, expires_at TIMESTAMP WITH TIME ZONE, shared_leads INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_expires_at TIMESTAMP WITH TIME ZONE := now() + make_interval(mins => p_ttl_minutes);
+    v_shared INTEGER;
+BEGIN
+    IF account_deletion_blocker(p_user_id) IS NOT NULL THEN
+        RETURN QUERY SELECT 'last_owner'::TEXT, NULL::TIMESTAMP WITH TIME ZONE, NULL::INTEGER;
+        RETURN;
+    END IF;
+
+    -- Neuer Antrag ersetzt einen offenen (neuer Code, Versuche zurückgesetzt)
+    INSERT INTO account_deletion_requests (user_id, code_hash, attempts, expires_at, verified_at, created_at)
+    VALUES (p_user_id, p_code_hash, 0, v_expires_at, NULL, now())
+    ON CONFLICT (user_id) DO UPDATE
+        SET code_hash = EXCLUDED.code_hash,
+            attempts = 0,
+            expires_at = EXCLUDED.expires_at,
+            verified_at = NULL,
+            created_at = EXCLUDED.created_at;
+
+    -- Mit der Organisation geteilte Leads verschwinden auch für das Team
+    SELECT COUNT(*)::INTEGER INTO v_shared
+    FROM leads l
+    WHERE l.user_id = p_user_id AND l.organization_id IS NOT NULL AND l.deleted_at IS NULL;
+
+    RETURN QUERY SELECT 'ok'::TEXT, v_expires_at, v_shared;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_account_deletion FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.verify_account_deletion(
+    p_user_id UUID,
+    p_code_hash TEXT,
+    p_max_attempts INTEGER DEFAULT 5
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_request account_deletion_requests%ROWTYPE;
+BEGIN
+    SELECT * INTO v_request
+    FROM account_deletion_requests r
+    WHERE r.user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN 'not_found';
+    END IF;
+    IF v_request.expires_at < now() THEN
+        RETURN 'expired';
+    END IF;
+    IF v_request.attempts >= p_max_attempts THEN
+        RETURN 'too_many_attempts';
+    END IF;
+
+    IF v_request.code_hash <> p_code_hash THEN
+        UPDATE account_deletion_requests SET attempts = attempts + 1 WHERE user_id = p_user_id;
+        RETURN CASE WHEN v_request.attempts + 1 >= p_max_attempts THEN 'too_many_attempts' ELSE 'invalid' END;
+    END IF;
+
+    IF account_deletion_blocker(p_user_id) IS NOT NULL THEN
+        RETURN 'last_owner';
+    END IF;
+
+    UPDATE account_deletion_requests SET verified_at = now() WHERE user_id = p_user_id;
+    RETURN 'ok';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_account_deletion FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 6. RPC: Konto löschen
+-- ============================================
+-- Nur nach verify_account_deletion (höchstens 15 Minuten alt). Löscht
+-- auth.users – alles mit ON DELETE CASCADE folgt (profiles, leads, events,
+-- email_outbox, webhook_*, …). Nicht per Fremdschlüssel erfasst und daher
+-- hier explizit: Rate-Limit-Buckets und die Organisation, wenn der User
+-- ihr einziges Mitglied war. Im Pool-Ledger einer weiterbestehenden
+-- Organisation bleibt die Buchung, user_id wird NULL.
+
+CREATE OR REPLACE FUNCTION public.delete_account(
+    p_user_id UUID,
+    p_storage_objects INTEGER
+)
+RETURNS TABLE (status TEXT, receipt JSONB)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_request account_deletion_requests%ROWTYPE;
+    v_organization_id UUID;
+    v_removed JSONB;
+    v_organization_deleted BOOLEAN := FALSE;
+    v_buckets INTEGER;
+    v_receipt deletion_receipts%ROWTYPE;
+BEGIN
+    SELECT * INTO v_request
+    FROM account_deletion_requests r
+    WHERE r.user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_request.verified_at IS NULL OR v_request.verified_at < now() - interval '15 minutes' THEN
+        RETURN QUERY SELECT 'not_verified'::TEXT, NULL::JSONB;
+        RETURN;
+    END IF;
+    IF account_deletion_blocker(p_user_id) IS NOT NULL THEN
+        RETURN QUERY SELECT 'last_owner'::TEXT, NULL::JSONB;
+        RETURN;
+    END IF;
+
+    v_removed := jsonb_build_object(
+        'profiles', (SELECT COUNT(*) FROM profiles WHERE id = p_user_id),
+        'user_settings', (SELECT COUNT(*) FROM user_settings WHERE user_id = p_user_id),
+        'leads', (SELECT COUNT(*) FROM leads WHERE user_id = p_user_id),
+        'events', (SELECT COUNT(*) FROM events WHERE user_id = p_user_id),
+        'email_templates', (SELECT COUNT(*) FROM email_templates WHERE user_id = p_user_id),
+        'lead_merges', (SELECT COUNT(*) FROM lead_merges WHERE user_id = p_user_id),
+        'credit_reservations', (SELECT COUNT(*) FROM credit_reservations WHERE user_id = p_user_id),
+        'credit_transactions', (SELECT COUNT(*) FROM credit_transactions WHERE user_id = p_user_id),
+        'app_store_transactions', (SELECT COUNT(*) FROM app_store_transactions WHERE user_id = p_user_id),
+        'ai_result_cache', (SELECT COUNT(*) FROM ai_result_cache WHERE user_id = p_user_id),
+        'push_devices', (SELECT COUNT(*) FROM push_devices WHERE user_id = p_user_id),
+        'follow_up_digests', (SELECT COUNT(*) FROM follow_up_digests WHERE user_id = p_user_id),
+        'email_outbox', (SELECT COUNT(*) FROM email_outbox WHERE user_id = p_user_id),
+        'email_opt_outs', (SELECT COUNT(*) FROM email_opt_outs WHERE user_id = p_user_id),
+        'memberships', (SELECT COUNT(*) FROM memberships WHERE user_id = p_user_id),
+        'webhook_endpoints', (SELECT COUNT(*) FROM webhook_endpoints WHERE user_id = p_user_id),
+        'webhook_deliveries', (SELECT COUNT(*) FROM webhook_deliveries WHERE user_id = p_user_id),
+        'webhook_dead_letters', (SELECT COUNT(*) FROM webhook_dead_letters WHERE user_id = p_user_id)
+    );
+
+    -- Einziges Mitglied → Organisation samt Einladungen und Pool-Ledger löschen
+    SELECT m.organization_id INTO v_organization_id
+    FROM memberships m
+    WHERE m.user_id = p_user_id;
+
+    IF v_organization_id IS NOT NULL
+       AND NOT EXISTS (SELECT 1 FROM memberships m
+                       WHERE m.organization_id = v_organization_id AND m.user_id <> p_user_id) THEN
+        DELETE FROM organizations o WHERE o.id = v_organization_id;
+        v_organization_deleted := TRUE;
+    END IF;
+
+    -- Erst Webhooks, dann Leads: beim Kaskadieren (events → leads.event_id)
+    -- sollen keine Zustellungen mehr entstehen
+    DELETE FROM webhook_endpoints w WHERE w.user_id = p_user_id;
+    DELETE FROM leads l WHERE l.user_id = p_user_id;
+
+    DELETE FROM rate_limit_buckets b WHERE b.bucket_key LIKE 'user:' || p_user_id::TEXT || ':%';
+    GET DIAGNOSTICS v_buckets = ROW_COUNT;
+
+    DELETE FROM auth.users u WHERE u.id = p_user_id;
+
+    INSERT INTO deletion_receipts (kind, user_id, removed, storage_objects, requested_at)
+    VALUES (
+        'account',
+        p_user_id,
+        v_removed || jsonb_build_object(
+            'organizations', CASE WHEN v_organization_deleted THEN 1 ELSE 0 END,
+            'rate_limit_buckets', v_buckets
+        ),
+        p_storage_objects,
+        v_request.created_at
+    )
+    RETURNING * INTO v_receipt;
+
+    RETURN QUERY SELECT 'ok'::TEXT, to_jsonb(v_receipt);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_account FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.delete_account IS
+'Löscht Konto und alle Zeilen des Users nach bestätigtem Antrag; gibt den Löschnachweis zurück.';
+
+-- ============================================
+-- 7. RPC: Kontakt vergessen
+-- ============================================
+-- Berechtigt wie das Löschen eines Leads: Besitzer oder owner/admin der
+-- Organisation. Der Lead bleibt als leerer Tombstone (deleted_at), damit
+-- sync-leads das Löschen an alle Geräte verteilt. Entfernt außerdem alle
+-- Kopien der Kontaktdaten: E-Mail-Log, Webhook-Snapshots, Merge-Historie
+-- und Cache-Einträge, die Name, E-Mail oder Telefon enthalten.
+--
+-- audio_url bleibt stehen, bis die Function die Datei gelöscht hat
+-- (clear_forgotten_audio) – ein erneuter Aufruf räumt dann nach. owner_id
+-- dient der Function zur Prüfung, dass der Pfad im Ordner des Besitzers
+-- liegt (audio_url kommt vom Gerät).
+
+-- Mitgliedschaft für einen beliebigen User (is_organization_member prüft auth.uid())
+CREATE OR REPLACE FUNCTION public.is_organization_member_of(p_user_id UUID, p_organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (SELECT 1 FROM memberships m
+                   WHERE m.user_id = p_user_id AND m.organization_id = p_organization_id);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_organization_member_of FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.forget_lead(
+    p_user_id UUID,
+    p_lead_id UUID,
+    p_suppress_email BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (status TEXT, owner_id UUID, audio_url TEXT, receipt_id UUID, removed JSONB)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_lead leads%ROWTYPE;
+    v_email TEXT;
+    v_outbox INTEGER;
+    v_deliveries INTEGER;
+    v_dead_letters INTEGER;
+    v_merges INTEGER;
+    v_cache INTEGER;
+    v_reservations INTEGER;
+    v_suppressed INTEGER := 0;
+    v_removed JSONB;
+    v_receipt_id UUID;
+BEGIN
+    SELECT * INTO v_lead FROM leads l WHERE l.id = p_lead_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT 'not_found'::TEXT, NULL::UUID, NULL::TEXT, NULL::UUID, NULL::JSONB;
+        RETURN;
+    END IF;
+    IF v_lead.user_id <> p_user_id
+       AND NOT EXISTS (SELECT 1 FROM memberships m
+                       WHERE m.user_id = p_user_id
+                         AND m.organization_id = v_lead.organization_id
+                         AND m.role IN ('owner', 'admin')) THEN
+        RETURN QUERY SELECT (CASE WHEN v_lead.organization_id IS NOT NULL
+                                   AND is_organization_member_of(p_user_id, v_lead.organization_id)
+                              THEN 'forbidden' ELSE 'not_found' END)::TEXT,
+                            NULL::UUID, NULL::TEXT, NULL::UUID, NULL::JSONB;
+        RETURN;
+    END IF;
+
+    -- Bereits vergessen: nur noch die Audio-Datei offen
+    IF v_lead.forgotten_at IS NOT NULL THEN
+        RETURN QUERY
+        SELECT 'ok'::TEXT, v_lead.user_id, v_lead.audio_url, r.id, r.removed
+        FROM deletion_receipts r
+        WHERE r.kind = 'lead' AND r.lead_id = p_lead_id;
+        RETURN;
+    END IF;
+
+    v_email := lower(btrim(COALESCE(v_lead.email, '')));
+
+    DELETE FROM email_outbox o
+    WHERE o.lead_id = p_lead_id
+       OR (v_email <> '' AND o.user_id = v_lead.user_id AND lower(o.to_email) = v_email);
+    GET DIAGNOSTICS v_outbox = ROW_COUNT;
+
+    DELETE FROM webhook_deliveries d WHERE d.lead_id = p_lead_id;
+    GET DIAGNOSTICS v_deliveries = ROW_COUNT;
+
+    DELETE FROM webhook_dead_letters d WHERE d.lead_id = p_lead_id;
+    GET DIAGNOSTICS v_dead_letters = ROW_COUNT;
+
+    DELETE FROM lead_merges m WHERE p_lead_id IN (m.primary_lead_id, m.secondary_lead_id);
+    GET DIAGNOSTICS v_merges = ROW_COUNT;
+
+    -- Lieber zu viel als zu wenig: ein gelöschter Cache-Eintrag kostet
+    -- höchstens eine neue KI-Antwort
+    DELETE FROM ai_result_cache c
+    WHERE c.user_id = v_lead.user_id
+      AND (
+          (v_email <> '' AND strpos(lower(c.response_body::TEXT), v_email) > 0)
+          OR (char_length(btrim(COALESCE(v_lead.name, ''))) >= 4
+              AND strpos(lower(c.response_body::TEXT), lower(btrim(v_lead.name))) > 0)
+          OR (char_length(regexp_replace(COALESCE(v_lead.phone, ''), '\D', '', 'g')) >= 6
+              AND strpos(regexp_replace(c.response_body::TEXT, '\D', '', 'g'),
+                         regexp_replace(v_lead.phone, '\D', '', 'g')) > 0)
+      );
+    GET DIAGNOSTICS v_cache = ROW_COUNT;
+
+    -- Gespeicherte Antworten für Idempotency-Replays (z.B. erkannte
+    -- Visitenkarte): Reservierung bleibt fürs Credit-Ledger, nur der Inhalt geht
+    UPDATE credit_reservations r
+    SET response_body = NULL
+    WHERE r.user_id = v_lead.user_id
+      AND r.response_body IS NOT NULL
+      AND (
+          strpos(r.response_body::TEXT, p_lead_id::TEXT) > 0
+          OR (v_email <> '' AND strpos(lower(r.response_body::TEXT), v_email) > 0)
+          OR (char_length(btrim(COALESCE(v_lead.name, ''))) >= 4
+              AND strpos(lower(r.response_body::TEXT), lower(btrim(v_lead.name))) > 0)
+          OR (char_length(regexp_replace(COALESCE(v_lead.phone, ''), '\D', '', 'g')) >= 6
+              AND strpos(regexp_replace(r.response_body::TEXT, '\D', '', 'g'),
+                         regexp_replace(v_lead.phone, '\D', '', 'g')) > 0)
+      );
+    GET DIAGNOSTICS v_reservations = ROW_COUNT;
+
+    IF p_suppress_email AND v_email <> '' THEN
+        INSERT INTO email_opt_outs (user_id, email, source, reason)
+        VALUES (v_lead.user_id, v_email, 'erasure', 'Löschung durch den Kontakt verlangt')
+        ON CONFLICT (user_id, email) DO NOTHING;
+        GET DIAGNOSTICS v_suppressed = ROW_COUNT;
+    END IF;
+
+    UPDATE leads l
+    SET name = '',
+        company = '',
+        email = '',
+        phone = '',
+        notes = '',
+        transcript = NULL,
+        transcript_language = NULL,
+        transcript_segments = NULL,
+        transcribed_at = NULL,
+        generated_email = NULL,
+        original_image_filename = NULL,
+        audio_duration_seconds = NULL,
+        qualification = NULL,
+        lead_score = NULL,
+        follow_up_date = NULL,
+        qualified_at = NULL,
+        follow_up_sent_at = NULL,
+        email_status = NULL,
+        email_status_at = NULL,
+        enrichment = NULL,
+        enriched_at = NULL,
+        event_id = NULL,
+        deleted_at = COALESCE(l.deleted_at, now()),
+        forgotten_at = now()
+    WHERE l.id = p_lead_id;
+
+    v_removed := jsonb_build_object(
+        'leads', 1,
+        'email_outbox', v_outbox,
+        'webhook_deliveries', v_deliveries,
+        'webhook_dead_letters', v_dead_letters,
+        'lead_merges', v_merges,
+        'ai_result_cache', v_cache,
+        'credit_reservations_cleared', v_reservations,
+        'email_opt_outs_added', v_suppressed
+    );
+
+    INSERT INTO deletion_receipts (kind, user_id, lead_id, removed, requested_at)
+    VALUES ('lead', p_user_id, p_lead_id, v_removed, now())
+    RETURNING id INTO v_receipt_id;
+
+    RETURN QUERY SELECT 'ok'::TEXT, v_lead.user_id, v_lead.audio_url, v_receipt_id, v_removed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.forget_lead FROM PUBLIC, anon, authenticated;
+
+-- Nach dem Löschen der Audio-Datei. p_storage_objects: tatsächlich aus dem
+-- Storage entfernte Dateien (0, wenn der Pfad ungültig oder die Datei schon
+-- weg war) – audio_url wird in jedem Fall geleert.
+-- Ältere Fassung ohne p_storage_objects ersetzen
+DROP FUNCTION IF EXISTS public.clear_forgotten_audio(UUID);
+
+CREATE OR REPLACE FUNCTION public.clear_forgotten_audio(p_lead_id UUID, p_storage_objects INTEGER)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE leads SET audio_url = NULL WHERE id = p_lead_id AND forgotten_at IS NOT NULL;
+    UPDATE deletion_receipts SET storage_objects = storage_objects + p_storage_objects
+    WHERE kind = 'lead' AND lead_id = p_lead_id AND p_storage_objects > 0;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.clear_forgotten_audio FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 8. sync_upsert_leads: vergessene Leads (ersetzt 017)
+-- ============================================
+-- Ein Gerät, das offline war, darf einen vergessenen Kontakt nicht
+-- wiederherstellen → 'conflict', sync-leads schickt den leeren Tombstone.
+
+CREATE OR REPLACE FUNCTION public.sync_upsert_leads(
+    p_user_id UUID,
+    p_leads JSONB
+)
+RETURNS TABLE (
+    lead_id UUID,
+    status TEXT,
+    server_updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_item JSONB;
+    v_id UUID;
+    v_updated_at TIMESTAMP WITH TIME ZONE;
+    v_existing_user UUID;
+    v_existing_organization UUID;
+    v_existing_updated TIMESTAMP WITH TIME ZONE;
+    v_existing_forgotten TIMESTAMP WITH TIME ZONE;
+    v_user_organization UUID;
+    v_event_id UUID;
+BEGIN
+    SELECT m.organization_id INTO v_user_organization
+    FROM memberships m
+    WHERE m.user_id = p_user_id;
+
+    FOR v_item IN SELECT * FROM jsonb_array_elements(p_leads)
+    LOOP
+        v_id := (v_item->>'id')::UUID;
+        v_updated_at := (v_item->>'updated_at')::TIMESTAMP WITH TIME ZONE;
+
+        v_event_id := (v_item->>'event_id')::UUID;
+        IF v_event_id IS NOT NULL AND NOT event_visible_to(v_event_id, p_user_id) THEN
+            v_event_id := NULL;
+        END IF;
+
+        SELECT l.user_id, l.organization_id, l.updated_at, l.forgotten_at
+        INTO v_existing_user, v_existing_organization, v_existing_updated, v_existing_forgotten
+        FROM leads l
+        WHERE l.id = v_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            INSERT INTO leads (
+                id, user_id, name, company, email, phone, notes, transcript,
+                generated_email, original_image_filename, audio_url, audio_duration_seconds,
+                event_id, created_at, updated_at, deleted_at
+            )
+            VALUES (
+                v_id,
+                p_user_id,
+                COALESCE(v_item->>'name', ''),
+                COALESCE(v_item->>'company', ''),
+                COALESCE(v_item->>'email', ''),
+                COALESCE(v_item->>'phone', ''),
+                COALESCE(v_item->>'notes', ''),
+                v_item->>'transcript',
+                v_item->>'generated_email',
+                v_item->>'original_image_filename',
+                v_item->>'audio_url',
+                (v_item->>'audio_duration_seconds')::INTEGER,
+                v_event_id,
+                COALESCE((v_item->>'created_at')::TIMESTAMP WITH TIME ZONE, v_updated_at),
+                v_updated_at,
+                (v_item->>'deleted_at')::TIMESTAMP WITH TIME ZONE
+            );
+            RETURN QUERY SELECT v_id, 'applied'::TEXT, v_updated_at;
+
+        ELSIF v_existing_user <> p_user_id
+              AND (v_user_organization IS NULL OR v_existing_organization IS DISTINCT FROM v_user_organization) THEN
+            RETURN QUERY SELECT v_id, 'forbidden'::TEXT, NULL::TIMESTAMP WITH TIME ZONE;
+
+        ELSIF v_existing_forgotten IS NOT NULL THEN
+            RETURN QUERY SELECT v_id, 'conflict'::TEXT, v_existing_updated;
+
+        ELSIF v_updated_at > v_existing_updated THEN
+            UPDATE leads l
+            SET name = CASE WHEN v_item ? 'name' THEN COALESCE(v_item->>'name', '') ELSE l.name END,
+                company = CASE WHEN v_item ? 'company' THEN COALESCE(v_item->>'company', '') ELSE l.company END,
+                email = CASE WHEN v_item ? 'email' THEN COALESCE(v_item->>'email', '') ELSE l.email END,
+                phone = CASE WHEN v_item ? 'phone' THEN COALESCE(v_item->>'phone', '') ELSE l.phone END,
+                notes = CASE WHEN v_item ? 'notes' THEN COALESCE(v_item->>'notes', '') ELSE l.notes END,
+                transcript = CASE WHEN v_item ? 'transcript' THEN v_item->>'transcript' ELSE l.transcript END,
+                generated_email = CASE WHEN v_item ? 'generated_email' THEN v_item->>'generated_email' ELSE l.generated_email END,
+                original_image_filename = CASE WHEN v_item ? 'original_image_filename' THEN v_item->>'original_image_filename' ELSE l.original_image_filename END,
+                audio_url = CASE WHEN v_item ? 'audio_url' THEN v_item->>'audio_url' ELSE l.audio_url END,
+                audio_duration_seconds = CASE WHEN v_item ? 'audio_duration_seconds' THEN (v_item->>'audio_duration_seconds')::INTEGER ELSE l.audio_duration_seconds END,
+                event_id = CASE WHEN v_item ? 'event_id' THEN v_event_id ELSE l.event_id END,
+                updated_at = v_updated_at,
+                deleted_at = CASE WHEN v_item ? 'deleted_at' THEN (v_item->>'deleted_at')::TIMESTAMP WITH TIME ZONE ELSE l.deleted_at END
+            WHERE l.id = v_id;
+            RETURN QUERY SELECT v_id, 'applied'::TEXT, v_updated_at;
+
+        ELSIF v_updated_at = v_existing_updated THEN
+            RETURN QUERY SELECT v_id, 'unchanged'::TEXT, v_existing_updated;
+
+        ELSE
+            RETURN QUERY SELECT v_id, 'conflict'::TEXT, v_existing_updated;
+        END IF;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_upsert_leads FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.sync_upsert_leads IS
+'Batch-Upsert von Leads mit Last-Writer-Wins auf updated_at, inkl. Leads der eigenen Organisation und Messe-Zuordnung; vergessene Leads bleiben leer. Wird von der Edge Function sync-leads aufgerufen.';
+
+-- ============================================
+-- 9. Rate Limits für privacy (Export, Löschcode per E-Mail)
+-- ============================================
+
+INSERT INTO public.rate_limit_policies (scope, function_name, capacity, refill_per_minute) VALUES
+    ('free',    'privacy', 5,  1),
+    ('premium', 'privacy', 5,  1),
+    ('ip',      'privacy', 10, 2)
+ON CONFLICT (scope, function_name) DO NOTHING;
+
+-- ============================================
+-- Fertig! ✅
+-- ============================================
@@ -0,0 +1,499 @@
+// ============================================
+// MesseMemo App Store (StoreKit 2) Verifikation
+// ============================================
+//
+// StoreKit 2 Transaktionen und App Store Server Notifications V2 sind
+// JWS (ES256). Der Header enthält die Zertifikatskette (x5c):
+//   Leaf → Apple WWDR Intermediate → Apple Root CA
+// Geprüft wird:
+//   1. jedes Zertifikat ist vom nächsten signiert und zum Signaturzeitpunkt gültig
+//   2. das letzte Zertifikat ist eines der konfigurierten Root-Zertifikate
+//   3. Leaf und Intermediate tragen die Apple-OIDs
+//   4. die JWS-Signatur passt zum Public Key des Leafs
+//
+// Root-Zertifikate kommen aus dem Secret APPLE_ROOT_CERTIFICATES
+// (Base64-DER oder PEM, mehrere durch Komma getrennt).
+//
+// Gebucht wird per RPC (migrations/009_app_store_purchases.sql): Replays
+// derselben Transaktion bzw. Notification buchen nichts, Erstattungen und
+// abgelaufene Abos entziehen Credits bzw. Premium.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { X509Certificate } from "https://esm.sh/@peculiar/x509@1";
+import { isUuid } from "./supabase.ts";
+
+/** Marker-OID im Leaf-Zertifikat (App Store Receipt Signing) */
+const LEAF_OID = "1.2.840.113635.100.6.11.1";
+/** Marker-OID im Intermediate (Apple Worldwide Developer Relations) */
+const INTERMEDIATE_OID = "1.2.840.113635.100.6.2.1";
+
+export class AppStoreVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AppStoreVerificationError";
+  }
+}
+
+export interface AppStoreConfig {
+  bundleId: string;
+  rootCertificates: Uint8Array[];
+  allowSandbox: boolean;
+  products: Record<string, ProductGrant>;
+}
+
+/** Was ein Produkt freischaltet */
+export type ProductGrant = { kind: "credits"; credits: number } | { kind: "premium" };
+
+/** Entspricht JWSTransactionDecodedPayload (nur genutzte Felder) */
+export interface TransactionPayload {
+  transactionId: string;
+  originalTransactionId: string;
+  bundleId: string;
+  productId: string;
+  purchaseDate: number;
+  expiresDate?: number;
+  revocationDate?: number;
+  revocationReason?: number;
+  appAccountToken?: string;
+  environment: string;
+  type?: string;
+  signedDate: number;
+}
+
+/** Entspricht ResponseBodyV2DecodedPayload (nur genutzte Felder) */
+export interface NotificationPayload {
+  notificationType: string;
+  subtype?: string;
+  notificationUUID: string;
+  signedDate: number;
+  data?: {
+    bundleId?: string;
+    environment?: string;
+    signedTransactionInfo?: string;
+    signedRenewalInfo?: string;
+  };
+}
+
+/** Ergebnis von apply_app_store_transaction */
+export interface ApplyResult {
+  status: "granted" | "duplicate" | "forbidden" | "revoked";
+  credits_remaining: number;
+  is_premium: boolean;
+  premium_expires_at: string | null;
+}
+
+export type NotificationResult =
+  | { duplicate: boolean; outcome: string }
+  | { error: string };
+
+/** Notifications, die eine (neue) Transaktion freischalten */
+const GRANT_NOTIFICATIONS = ["SUBSCRIBED", "DID_RENEW", "ONE_TIME_CHARGE", "OFFER_REDEEMED"];
+/** Notifications, die eine Transaktion erstatten/widerrufen */
+const REVOKE_NOTIFICATIONS = ["REFUND", "REVOKE"];
+/** Notifications, mit denen ein Abo endet */
+const EXPIRE_NOTIFICATIONS = ["EXPIRED", "GRACE_PERIOD_EXPIRED"];
+
+/**
+ * Standard-Produkte (wie CreditPack in der App). Über das Secret
+ * APP_STORE_PRODUCTS als JSON überschreibbar:
+ *   {"com.messememo.credits.10": {"credits": 10}, "com.messememo.pro.monthly": {"premium": true}}
+ */
+export const DEFAULT_PRODUCTS: Record<string, ProductGrant> = {
+  "com.messememo.credits.10": { kind: "credits", credits: 10 },
+  "com.messememo.credits.50": { kind: "credits", credits: 50 },
+  "com.messememo.credits.200": { kind: "credits", credits: 200 },
+  "com.messememo.pro.monthly": { kind: "premium" },
+  "com.messememo.pro.yearly": { kind: "premium" },
+};
+
+// ============================================
+// Konfiguration
+// ============================================
+
+/**
+ * Liest die Konfiguration aus den Secrets. Wirft, wenn Bundle-ID oder
+ * Root-Zertifikate fehlen – ohne sie kann nichts verifiziert werden.
+ */
+export function loadAppStoreConfig(): AppStoreConfig {
+  const bundleId = Deno.env.get("APP_STORE_BUNDLE_ID")?.trim();
+  if (!bundleId) {
+    throw new AppStoreVerificationError("APP_STORE_BUNDLE_ID nicht konfiguriert");
+  }
+
+  const rootCertificates = parseCertificateList(Deno.env.get("APPLE_ROOT_CERTIFICATES") ?? "");
+  if (rootCertificates.length === 0) {
+    throw new AppStoreVerificationError("APPLE_ROOT_CERTIFICATES nicht konfiguriert");
+  }
+
+  return {
+    bundleId,
+    rootCertificates,
+    allowSandbox: Deno.env.get("APP_STORE_ALLOW_SANDBOX") !== "false",
+    products: parseProducts(Deno.env.get("APP_STORE_PRODUCTS")),
+  };
+}
+
+function parseCertificateList(value: string): Uint8Array[] {
+  // PEM-Blöcke oder kommagetrennte Base64-DER-Werte
+  const pemBlocks = value.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g);
+  const entries = pemBlocks
+    ? pemBlocks.map((block) => block.replace(/-----(BEGIN|END) CERTIFICATE-----/g, ""))
+    : value.split(",");
+
+  return entries
+    .map((entry) => entry.replace(/\s+/g, ""))
+    .filter((entry) => entry.length > 0)
+    .map((entry) => base64ToBytes(entry));
+}
+
+function parseProducts(value: string | undefined): Record<string, ProductGrant> {
+  if (!value?.trim()) {
+    return DEFAULT_PRODUCTS;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(value);
+  } catch {
+    throw new AppStoreVerificationError("APP_STORE_PRODUCTS ist kein gültiges JSON");
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new AppStoreVerificationError("APP_STORE_PRODUCTS muss ein Objekt sein");
+  }
+
+  const products: Record<string, ProductGrant> = {};
+  for (const [productId, grant] of Object.entries(raw as Record<string, Record<string, unknown>>)) {
+    if (grant?.premium === true) {
+      products[productId] = { kind: "premium" };
+    } else if (Number.isInteger(grant?.credits) && (grant.credits as number) > 0) {
+      products[productId] = { kind: "credits", credits: grant.credits as number };
+    } else {
+      throw new AppStoreVerificationError(`APP_STORE_PRODUCTS: ungültiger Eintrag für ${productId}`);
+    }
+  }
+  return products;
+}
+
+// ============================================
+// Verifikation
+// ============================================
+
+/**
+ * Signierte Transaktion (Transaction.jwsRepresentation) prüfen und dekodieren
+ */
+export async function verifySignedTransaction(
+  jws: string,
+  config: AppStoreConfig
+): Promise<TransactionPayload> {
+  const payload = await verifyJws<TransactionPayload>(jws, config.rootCertificates);
+
+  if (payload.bundleId !== config.bundleId) {
+    throw new AppStoreVerificationError("Transaktion gehört zu einer anderen App");
+  }
+  checkEnvironment(payload.environment, config);
+  if (typeof payload.transactionId !== "string" || typeof payload.productId !== "string") {
+    throw new AppStoreVerificationError("Transaktion unvollständig");
+  }
+  return payload;
+}
+
+/**
+ * App Store Server Notification V2 ({ signedPayload }) prüfen und dekodieren
+ */
+export async function verifyNotification(
+  signedPayload: string,
+  config: AppStoreConfig
+): Promise<NotificationPayload> {
+  const payload = await verifyJws<NotificationPayload>(signedPayload, config.rootCertificates);
+
+  if (payload.data?.bundleId !== undefined && payload.data.bundleId !== config.bundleId) {
+    throw new AppStoreVerificationError("Benachrichtigung gehört zu einer anderen App");
+  }
+  if (payload.data?.environment !== undefined) {
+    checkEnvironment(payload.data.environment, config);
+  }
+  if (typeof payload.notificationUUID !== "string" || typeof payload.notificationType !== "string") {
+    throw new AppStoreVerificationError("Benachrichtigung unvollständig");
+  }
+  return payload;
+}
+
+function checkEnvironment(environment: string, config: AppStoreConfig): void {
+  if (environment === "Production") return;
+  if (config.allowSandbox && (environment === "Sandbox" || environment === "Xcode")) return;
+  throw new AppStoreVerificationError(`Umgebung nicht erlaubt: ${environment}`);
+}
+
+/**
+ * Prüft Zertifikatskette und Signatur eines Apple-JWS und gibt den Payload zurück
+ */
+export async function verifyJws<T extends { signedDate?: number }>(
+  jws: string,
+  rootCertificates: Uint8Array[]
+): Promise<T> {
+  const parts = typeof jws === "string" ? jws.split(".") : [];
+  if (parts.length !== 3) {
+    throw new AppStoreVerificationError("Kein gültiges JWS");
+  }
+  const [headerPart, payloadPart, signaturePart] = parts;
+
+  const header = decodeJsonPart<{ alg?: string; x5c?: string[] }>(headerPart);
+  const payload = decodeJsonPart<T>(payloadPart);
+
+  if (header.alg !== "ES256") {
+    throw new AppStoreVerificationError(`Nicht unterstützter Algorithmus: ${header.alg}`);
+  }
+  if (!Array.isArray(header.x5c) || header.x5c.length !== 3) {
+    throw new AppStoreVerificationError("Zertifikatskette fehlt");
+  }
+  if (header.x5c.some((cert) => typeof cert !== "string")) {
+    throw new AppStoreVerificationError("Zertifikatskette nicht lesbar");
+  }
+
+  let chain: X509Certificate[];
+  try {
+    chain = header.x5c.map((cert) => new X509Certificate(base64ToBuffer(cert)));
+  } catch {
+    throw new AppStoreVerificationError("Zertifikatskette nicht lesbar");
+  }
+
+  // Gültigkeit zum Signaturzeitpunkt – alte Transaktionen bleiben prüfbar
+  const signedAt = typeof payload.signedDate === "number" ? new Date(payload.signedDate) : new Date();
+  await verifyChain(chain, rootCertificates, signedAt);
+
+  // Kein P-256-Schlüssel oder kaputte Signatur sind Eingabefehler, kein 500
+  let valid: boolean;
+  try {
+    const key = await chain[0].publicKey.export({ name: "ECDSA", namedCurve: "P-256" }, ["verify"]);
+    valid = await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      key,
+      base64ToBuffer(signaturePart),
+      new TextEncoder().encode(`${headerPart}.${payloadPart}`)
+    );
+  } catch {
+    throw new AppStoreVerificationError("Signatur nicht prüfbar");
+  }
+  if (!valid) {
+    throw new AppStoreVerificationError("Ungültige Signatur");
+  }
+
+  return payload;
+}
+
+async function verifyChain(
+  chain: X509Certificate[],
+  rootCertificates: Uint8Array[],
+  date: Date
+): Promise<void> {
+  const root = chain[chain.length - 1];
+  const rootBytes = new Uint8Array(root.rawData);
+  if (!rootCertificates.some((trusted) => bytesEqual(trusted, rootBytes))) {
+    throw new AppStoreVerificationError("Root-Zertifikat nicht vertrauenswürdig");
+  }
+
+  if (!chain[0].getExtension(LEAF_OID)) {
+    throw new AppStoreVerificationError("Leaf-Zertifikat ist kein App-Store-Zertifikat");
+  }
+  if (!chain[1].getExtension(INTERMEDIATE_OID)) {
+    throw new AppStoreVerificationError("Intermediate-Zertifikat ist kein Apple-WWDR-Zertifikat");
+  }
+
+  for (let i = 0; i < chain.length - 1; i++) {
+    const cert = chain[i];
+    const issuer = chain[i + 1];
+    let valid = false;
+    try {
+      valid = cert.issuer === issuer.subject &&
+        await cert.verify({ publicKey: issuer.publicKey, date });
+    } catch {
+      // Nicht unterstützter Algorithmus o.ä. → wie eine ungültige Kette
+    }
+    if (!valid) {
+      throw new AppStoreVerificationError("Zertifikatskette ungültig");
+    }
+  }
+}
+
+// ============================================
+// Buchung
+// ============================================
+
+/**
+ * Verbucht eine verifizierte Transaktion für den User. Wirft bei RPC-Fehlern.
+ */
+export async function applyTransaction(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  transaction: TransactionPayload,
+  config: AppStoreConfig,
+  functionName: string
+): Promise<ApplyResult> {
+  const product = config.products[transaction.productId];
+
+  const { data, error } = await supabaseAdmin.rpc("apply_app_store_transaction", {
+    p_user_id: userId,
+    p_transaction_id: transaction.transactionId,
+    p_original_transaction_id: transaction.originalTransactionId ?? transaction.transactionId,
+    p_product_id: transaction.productId,
+    p_product_kind: product.kind,
+    p_credits: product.kind === "credits" ? product.credits : 0,
+    p_environment: transaction.environment,
+    p_purchase_date: toIso(transaction.purchaseDate) ?? new Date().toISOString(),
+    p_expires_date: toIso(transaction.expiresDate),
+    p_revocation_date: toIso(transaction.revocationDate),
+    p_function_name: functionName,
+  });
+
+  if (error || !data?.[0]) {
+    console.error("Apply Transaction RPC Error:", JSON.stringify(error));
+    throw new Error("Kauf konnte nicht verbucht werden");
+  }
+  return data[0] as ApplyResult;
+}
+
+/**
+ * Verarbeitet eine verifizierte Server Notification genau einmal
+ * (notificationUUID). Fehler beim Buchen → { error }, damit Apple wiederholt.
+ */
+export async function processNotification(
+  supabaseAdmin: SupabaseClient,
+  config: AppStoreConfig,
+  notification: NotificationPayload,
+  transaction: TransactionPayload | null,
+  functionName: string
+): Promise<NotificationResult> {
+  const type = notification.notificationType;
+
+  const { data: seen, error: seenError } = await supabaseAdmin
+    .from("app_store_notifications")
+    .select("notification_uuid")
+    .eq("notification_uuid", notification.notificationUUID)
+    .maybeSingle();
+
+  if (seenError) {
+    console.error("Notification Lookup Error:", JSON.stringify(seenError));
+    return { error: "Benachrichtigung konnte nicht geprüft werden" };
+  }
+  if (seen) {
+    return { duplicate: true, outcome: "duplicate" };
+  }
+
+  let outcome = "ignored";
+
+  if (transaction && GRANT_NOTIFICATIONS.includes(type)) {
+    const userId = await resolveUserId(supabaseAdmin, transaction);
+    if (!userId) {
+      console.warn(`No user for transaction ${transaction.originalTransactionId}`);
+    } else if (config.products[transaction.productId]) {
+      const result = await applyTransaction(supabaseAdmin, userId, transaction, config, functionName);
+      outcome = result.status;
+    } else {
+      console.warn(`Unknown product in notification: ${transaction.productId}`);
+    }
+  } else if (transaction && REVOKE_NOTIFICATIONS.includes(type)) {
+    const { data, error } = await supabaseAdmin.rpc("revoke_app_store_transaction", {
+      p_transaction_id: transaction.transactionId,
+      p_revocation_date: toIso(transaction.revocationDate) ?? new Date().toISOString(),
+      p_revocation_reason: transaction.revocationReason ?? null,
+    });
+    if (error) {
+      console.error("Revoke RPC Error:", JSON.stringify(error));
+      return { error: "Erstattung konnte nicht verbucht werden" };
+    }
+    outcome = data?.[0]?.status ?? "not_found";
+  } else if (transaction && EXPIRE_NOTIFICATIONS.includes(type)) {
+    const { error } = await supabaseAdmin.rpc("expire_app_store_subscription", {
+      p_original_transaction_id: transaction.originalTransactionId,
+    });
+    if (error) {
+      console.error("Expire RPC Error:", JSON.stringify(error));
+      return { error: "Ablauf konnte nicht verbucht werden" };
+    }
+    outcome = "expired";
+  }
+
+  const { error: recordError } = await supabaseAdmin
+    .from("app_store_notifications")
+    .upsert({
+      notification_uuid: notification.notificationUUID,
+      notification_type: type,
+      subtype: notification.subtype ?? null,
+      transaction_id: transaction?.transactionId ?? null,
+      signed_date: toIso(notification.signedDate) ?? new Date().toISOString(),
+    }, { onConflict: "notification_uuid", ignoreDuplicates: true });
+
+  if (recordError) {
+    // Buchung ist idempotent – eine Wiederholung schadet nicht
+    console.error("Notification Record Error:", JSON.stringify(recordError));
+  }
+
+  return { duplicate: false, outcome };
+}
+
+/**
+ * User zur Transaktion: appAccountToken oder ein früher verbuchter Kauf desselben Abos
+ */
+async function resolveUserId(
+  supabaseAdmin: SupabaseClient,
+  transaction: TransactionPayload
+): Promise<string | null> {
+  if (isUuid(transaction.appAccountToken)) {
+    return transaction.appAccountToken.toLowerCase();
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("app_store_transactions")
+    .select("user_id")
+    .eq("original_transaction_id", transaction.originalTransactionId)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Transaction Lookup Error:", JSON.stringify(error));
+    throw new Error("Kauf konnte nicht zugeordnet werden");
+  }
+  return data?.user_id ?? null;
+}
+
+// ============================================
+// Helper
+// ============================================
+
+/** Apple-Zeitstempel (ms) → ISO-8601 */
+export function toIso(millis: number | undefined): string | null {
+  return typeof millis === "number" ? new Date(millis).toISOString() : null;
+}
+
+function decodeJsonPart<T>(part: string): T {
+  try {
+    const value = JSON.parse(new TextDecoder().decode(base64ToBytes(part)));
+    if (!value || typeof value !== "object") {
+      throw new Error("kein Objekt");
+    }
+    return value as T;
+  } catch {
+    throw new AppStoreVerificationError("JWS nicht lesbar");
+  }
+}
+
+/** Base64 oder Base64URL (mit oder ohne Padding) */
+function base64ToBuffer(value: string): ArrayBuffer {
+  const normalized = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = normalized + "=".repeat((4 - (normalized.length % 4)) % 4);
+  const binary = atob(padded);
+  const buffer = new ArrayBuffer(binary.length);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return buffer;
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  return new Uint8Array(base64ToBuffer(value));
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
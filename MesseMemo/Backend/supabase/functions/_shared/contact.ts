@@ -0,0 +1,532 @@
+// ============================================
+// MesseMemo Contact Schema & Normalisierung
+// ============================================
+//
+// Validiert die KI-Antwort von process-card gegen ein festes Kontakt-Schema
+// und normalisiert die Felder:
+//   - Telefon → E.164 (mit Default-Region, z.B. "DE")
+//   - E-Mail  → Syntax-Check, lowercase
+//   - Website → kanonische URL (https://host/pfad)
+//   - Adresse → Straße, PLZ, Stadt, Land (ISO 3166-1 alpha-2)
+// Jedes Feld bekommt einen Confidence-Score (0–1), damit die App unsichere
+// Felder hervorheben kann.
+
+import { parsePhoneNumberFromString } from "https://esm.sh/libphonenumber-js@1/min";
+import type { CountryCode } from "https://esm.sh/libphonenumber-js@1/min";
+
+export const CONTACT_FIELDS = [
+  "name",
+  "company",
+  "email",
+  "phone",
+  "job_title",
+  "website",
+  "street",
+  "postal_code",
+  "city",
+  "country",
+] as const;
+
+export type ContactFieldName = typeof CONTACT_FIELDS[number];
+
+export interface AddressParts {
+  street: string;
+  postal_code: string;
+  city: string;
+  country: string;
+}
+
+/** Flaches Format, wie es die App bisher als `data` erwartet */
+export interface ContactData {
+  name: string;
+  company: string;
+  email: string;
+  phone: string;
+  job_title: string;
+  website: string;
+  address: string;
+  address_components: AddressParts;
+}
+
+export interface FieldResult {
+  value: string;
+  confidence: number;
+  valid: boolean;
+}
+
+export interface ValidatedContact {
+  data: ContactData;
+  fields: Record<ContactFieldName, FieldResult>;
+  /** Hinweise zu fehlenden, falschen oder unbekannten Feldern */
+  issues: string[];
+}
+
+export interface ValidationOptions {
+  /** ISO 3166-1 alpha-2 Region für Telefonnummern ohne Ländervorwahl */
+  defaultRegion: string;
+  /** Original OCR-Text, um Halluzinationen zu erkennen */
+  sourceText: string;
+}
+
+/** Die KI-Antwort ist kein Kontakt-Objekt */
+export class ContactValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ContactValidationError";
+  }
+}
+
+// ============================================
+// Structured Output Schema
+// ============================================
+
+const confidenceProperties = Object.fromEntries(
+  CONTACT_FIELDS.map((field) => [field, { type: "number" }])
+);
+
+export const CONTACT_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    company: { type: "string" },
+    email: { type: "string" },
+    phone: { type: "string" },
+    job_title: { type: "string" },
+    website: { type: "string" },
+    address: {
+      type: "object",
+      properties: {
+        street: { type: "string" },
+        postal_code: { type: "string" },
+        city: { type: "string" },
+        country: { type: "string" },
+      },
+      required: ["street", "postal_code", "city", "country"],
+      additionalProperties: false,
+    },
+    confidence: {
+      type: "object",
+      properties: confidenceProperties,
+      required: [...CONTACT_FIELDS],
+      additionalProperties: false,
+    },
+  },
+  required: ["name", "company", "email", "phone", "job_title", "website", "address", "confidence"],
+  additionalProperties: false,
+};
+
+const TOP_LEVEL_KEYS = new Set(["name", "company", "email", "phone", "job_title", "website", "address", "confidence"]);
+
+/** Zusätzliche Felder bei der Bild-Analyse (Logos, QR-Codes) */
+const CARD_FEATURE_KEYS = new Set(["logos", "qr_codes"]);
+
+export const CARD_IMAGE_SCHEMA = {
+  ...CONTACT_SCHEMA,
+  properties: {
+    ...CONTACT_SCHEMA.properties,
+    logos: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          description: { type: "string" },
+          company_hint: { type: "string" },
+        },
+        required: ["description", "company_hint"],
+        additionalProperties: false,
+      },
+    },
+    qr_codes: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          content: { type: "string" },
+          kind: { type: "string", enum: ["vcard", "url", "text", "unreadable"] },
+        },
+        required: ["content", "kind"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: [...CONTACT_SCHEMA.required, "logos", "qr_codes"],
+};
+
+export interface CardFeatures {
+  logos: { description: string; company_hint: string }[];
+  qr_codes: { content: string; kind: "vcard" | "url" | "text" | "unreadable" }[];
+}
+
+// ============================================
+// Validierung
+// ============================================
+
+/**
+ * Validiert und normalisiert einen von der KI extrahierten Kontakt.
+ * Wirft ContactValidationError, wenn `raw` kein Objekt ist.
+ */
+export function validateContact(raw: unknown, options: ValidationOptions): ValidatedContact {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new ContactValidationError("KI-Antwort ist kein Kontakt-Objekt");
+  }
+
+  const input = raw as Record<string, unknown>;
+  const issues: string[] = [];
+
+  for (const key of Object.keys(input)) {
+    if (!TOP_LEVEL_KEYS.has(key) && !CARD_FEATURE_KEYS.has(key)) {
+      issues.push(`Unbekanntes Feld "${key}" ignoriert`);
+    }
+  }
+  for (const key of TOP_LEVEL_KEYS) {
+    if (!(key in input)) {
+      issues.push(`Feld "${key}" fehlt`);
+    }
+  }
+
+  const modelConfidence = readConfidence(input.confidence);
+  const str = (key: string) => readString(input, key, issues);
+
+  const name = cleanText(str("name"));
+  const company = cleanText(str("company"));
+  const jobTitle = cleanText(str("job_title"));
+  const email = normalizeEmail(str("email"));
+  const phone = normalizePhone(str("phone"), options.defaultRegion);
+  const website = normalizeWebsite(str("website"));
+  const address = readAddress(input.address, options.defaultRegion, issues);
+
+  const score = (field: ContactFieldName, value: string, valid: boolean, matchBy: "text" | "digits" = "text"): FieldResult => {
+    if (!value) {
+      return { value: "", confidence: 0, valid: true };
+    }
+    if (!valid) {
+      issues.push(`Feld "${field}" ist ungültig: ${value}`);
+    }
+    let confidence = modelConfidence[field] ?? 0.8;
+    if (!valid) {
+      confidence = Math.min(confidence, 0.2);
+    }
+    if (!appearsInSource(value, options.sourceText, matchBy)) {
+      confidence *= 0.7;
+    }
+    return { value, confidence: Math.round(confidence * 100) / 100, valid };
+  };
+
+  const fields: Record<ContactFieldName, FieldResult> = {
+    name: score("name", name, true),
+    company: score("company", company, true),
+    email: score("email", email.value, email.valid),
+    phone: score("phone", phone.value, phone.valid, "digits"),
+    job_title: score("job_title", jobTitle, true),
+    website: score("website", website.value, website.valid),
+    street: score("street", address.street, true),
+    postal_code: score("postal_code", address.postal_code, /^[A-Z0-9\- ]{3,10}$/i.test(address.postal_code), "digits"),
+    city: score("city", address.city, true),
+    // Das Land steht oft nicht auf der Karte → nicht gegen den OCR-Text prüfen
+    country: address.country
+      ? { value: address.country, confidence: modelConfidence.country ?? 0.6, valid: /^[A-Z]{2}$/.test(address.country) }
+      : { value: "", confidence: 0, valid: true },
+  };
+
+  return { data: dataFromFields(fields), fields, issues };
+}
+
+/**
+ * Baut das flache `data`-Format aus den einzelnen Feldern
+ */
+function dataFromFields(fields: Record<ContactFieldName, FieldResult>): ContactData {
+  const address: AddressParts = {
+    street: fields.street.value,
+    postal_code: fields.postal_code.value,
+    city: fields.city.value,
+    country: fields.country.value,
+  };
+
+  return {
+    name: fields.name.value,
+    company: fields.company.value,
+    email: fields.email.value,
+    phone: fields.phone.value,
+    job_title: fields.job_title.value,
+    website: fields.website.value,
+    address: formatAddress(address),
+    address_components: address,
+  };
+}
+
+/**
+ * Ergänzt leere Felder von `primary` (KI) mit Werten aus `secondary`
+ * (z.B. regelbasierte Vorerkennung). Stimmen beide überein, steigt die
+ * Confidence. Gibt die aus `secondary` übernommenen Felder zurück.
+ */
+export function mergeContacts(
+  primary: ValidatedContact,
+  secondary: ValidatedContact
+): { contact: ValidatedContact; mergedFields: ContactFieldName[] } {
+  const fields = { ...primary.fields };
+  const mergedFields: ContactFieldName[] = [];
+
+  for (const field of CONTACT_FIELDS) {
+    const own = primary.fields[field];
+    const other = secondary.fields[field];
+
+    if (!own.value && other.value) {
+      fields[field] = other;
+      mergedFields.push(field);
+    } else if (own.value && own.value.toLowerCase() === other.value.toLowerCase()) {
+      const confidence = Math.min(1, Math.max(own.confidence, other.confidence) + 0.1);
+      fields[field] = { ...own, confidence: Math.round(confidence * 100) / 100 };
+    }
+  }
+
+  return {
+    contact: { data: dataFromFields(fields), fields, issues: primary.issues },
+    mergedFields,
+  };
+}
+
+/**
+ * Liest erkannte Logos und QR-Codes aus der KI-Antwort der Bild-Analyse
+ */
+export function readCardFeatures(raw: unknown): CardFeatures {
+  const input = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const list = (value: unknown) =>
+    (Array.isArray(value) ? value : []).filter((item): item is Record<string, unknown> =>
+      !!item && typeof item === "object"
+    );
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  const kinds = ["vcard", "url", "text", "unreadable"] as const;
+
+  return {
+    logos: list(input.logos)
+      .map((logo) => ({ description: text(logo.description), company_hint: text(logo.company_hint) }))
+      .filter((logo) => logo.description || logo.company_hint),
+    qr_codes: list(input.qr_codes).map((qr) => {
+      const content = text(qr.content);
+      const kind = kinds.find((k) => k === qr.kind)
+        ?? (/^BEGIN:VCARD/i.test(content) ? "vcard" : /^https?:\/\//i.test(content) ? "url" : "text");
+      return { content, kind };
+    }),
+  };
+}
+
+function readString(source: Record<string, unknown>, key: string, issues: string[]): string {
+  const value = source[key];
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "number") {
+    return String(value);
+  }
+  issues.push(`Feld "${key}" hat ungültigen Typ (${Array.isArray(value) ? "array" : typeof value})`);
+  return "";
+}
+
+function readConfidence(value: unknown): Partial<Record<ContactFieldName, number>> {
+  if (!value || typeof value !== "object") {
+    return {};
+  }
+  const result: Partial<Record<ContactFieldName, number>> = {};
+  for (const field of CONTACT_FIELDS) {
+    const score = (value as Record<string, unknown>)[field];
+    if (typeof score === "number" && Number.isFinite(score)) {
+      result[field] = Math.min(1, Math.max(0, score));
+    }
+  }
+  return result;
+}
+
+function cleanText(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Prüft grob, ob ein Wert im OCR-Text vorkommt
+ */
+function appearsInSource(value: string, sourceText: string, matchBy: "text" | "digits"): boolean {
+  if (!sourceText) {
+    return true;
+  }
+  if (matchBy === "digits") {
+    const digits = value.replace(/\D/g, "");
+    // Nur die letzten Ziffern vergleichen – Ländervorwahl steht oft nicht auf der Karte
+    return sourceText.replace(/\D/g, "").includes(digits.slice(-6));
+  }
+  const simplify = (s: string) => s.toLowerCase().replace(/^https?:\/\//, "").replace(/[^\p{L}\p{N}]/gu, "");
+  return simplify(sourceText).includes(simplify(value));
+}
+
+// ============================================
+// Normalisierung
+// ============================================
+
+const EMAIL_REGEX = /^[a-z0-9!#$%&'*+/=?^_`{|}~.-]+@[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/;
+
+export function normalizeEmail(raw: string): { value: string; valid: boolean } {
+  const value = raw
+    .trim()
+    .replace(/^mailto:/i, "")
+    // Typische OCR-/Schreibweisen: "name (at) firma.de", "name[at]firma.de"
+    .replace(/\s*[\[(]at[\])]\s*/i, "@")
+    .replace(/\s+/g, "")
+    .toLowerCase();
+
+  if (!value) {
+    return { value: "", valid: true };
+  }
+  return { value, valid: EMAIL_REGEX.test(value) && !value.includes("..") };
+}
+
+export function normalizePhone(raw: string, defaultRegion: string): { value: string; valid: boolean } {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return { value: "", valid: true };
+  }
+
+  // "0049 …" → "+49 …"
+  const prepared = trimmed.replace(/^00/, "+");
+  const parsed = parsePhoneNumberFromString(prepared, defaultRegion.toUpperCase() as CountryCode);
+
+  if (parsed?.isValid()) {
+    return { value: parsed.format("E.164"), valid: true };
+  }
+  return { value: trimmed, valid: false };
+}
+
+export function normalizeWebsite(raw: string): { value: string; valid: boolean } {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return { value: "", valid: true };
+  }
+
+  try {
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    if (!url.hostname.includes(".")) {
+      return { value: trimmed, valid: false };
+    }
+    const path = url.pathname === "/" ? "" : url.pathname.replace(/\/+$/, "");
+    return { value: `${url.protocol}//${url.hostname.toLowerCase()}${path}${url.search}`, valid: true };
+  } catch {
+    return { value: trimmed, valid: false };
+  }
+}
+
+// ============================================
+// Adresse
+// ============================================
+
+const COUNTRY_NAMES: Record<string, string> = {
+  "deutschland": "DE",
+  "germany": "DE",
+  "österreich": "AT",
+  "austria": "AT",
+  "schweiz": "CH",
+  "switzerland": "CH",
+  "suisse": "CH",
+  "frankreich": "FR",
+  "france": "FR",
+  "niederlande": "NL",
+  "netherlands": "NL",
+  "belgien": "BE",
+  "belgium": "BE",
+  "italien": "IT",
+  "italy": "IT",
+  "spanien": "ES",
+  "spain": "ES",
+  "polen": "PL",
+  "poland": "PL",
+  "united kingdom": "GB",
+  "uk": "GB",
+  "usa": "US",
+  "united states": "US",
+};
+
+/** Länderkürzel vor der PLZ, z.B. "D-12345" oder "CH-8000" */
+const POSTAL_PREFIX: Record<string, string> = { "D": "DE", "A": "AT", "CH": "CH", "F": "FR", "NL": "NL", "B": "BE" };
+
+export function normalizeCountry(raw: string): string {
+  const value = raw.trim();
+  if (!value) {
+    return "";
+  }
+  if (/^[A-Za-z]{2}$/.test(value)) {
+    return value.toUpperCase();
+  }
+  return COUNTRY_NAMES[value.toLowerCase()] ?? value;
+}
+
+function readAddress(value: unknown, defaultRegion: string, issues: string[]): AddressParts {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const source = value as Record<string, unknown>;
+    return {
+      street: cleanText(readString(source, "street", issues)),
+      postal_code: cleanText(readString(source, "postal_code", issues)),
+      city: cleanText(readString(source, "city", issues)),
+      country: normalizeCountry(readString(source, "country", issues)),
+    };
+  }
+  if (typeof value === "string") {
+    return parseAddress(value, defaultRegion);
+  }
+  if (value !== undefined && value !== null) {
+    issues.push(`Feld "address" hat ungültigen Typ (${typeof value})`);
+  }
+  return { street: "", postal_code: "", city: "", country: "" };
+}
+
+/**
+ * Zerlegt eine Freitext-Adresse ("Musterstr. 1, D-12345 Berlin, Deutschland")
+ */
+export function parseAddress(raw: string, defaultRegion: string): AddressParts {
+  const parts = raw.split(/[,\n]/).map((p) => p.trim()).filter(Boolean);
+  const result: AddressParts = { street: "", postal_code: "", city: "", country: "" };
+
+  for (const part of parts) {
+    const postalMatch = part.match(/^(?:([A-Z]{1,2})\s*-\s*)?(\d{4,5})\s+(.+)$/);
+    if (postalMatch && !result.postal_code) {
+      const [, prefix, postalCode, city] = postalMatch;
+      result.postal_code = postalCode;
+      result.city = city;
+      if (prefix && POSTAL_PREFIX[prefix]) {
+        result.country = POSTAL_PREFIX[prefix];
+      }
+      continue;
+    }
+
+    if (COUNTRY_NAMES[part.toLowerCase()] || /^[A-Z]{2}$/.test(part)) {
+      result.country = normalizeCountry(part);
+      continue;
+    }
+
+    if (!result.street) {
+      result.street = part;
+    } else if (!result.city) {
+      result.city = part;
+    }
+  }
+
+  // PLZ gefunden, aber kein Land → Default-Region annehmen
+  if (!result.country && result.postal_code) {
+    result.country = defaultRegion.toUpperCase();
+  }
+
+  return result;
+}
+
+export function formatAddress(address: AddressParts): string {
+  const cityLine = [address.postal_code, address.city].filter(Boolean).join(" ");
+  return [address.street, cityLine].filter(Boolean).join(", ");
+}
+
+/**
+ * Default-Region für Telefonnummern: Request > Env > "DE"
+ */
+export function resolveDefaultRegion(requested: unknown): string {
+  if (typeof requested === "string" && /^[A-Za-z]{2}$/.test(requested)) {
+    return requested.toUpperCase();
+  }
+  return (Deno.env.get("DEFAULT_PHONE_REGION") || "DE").toUpperCase();
+}
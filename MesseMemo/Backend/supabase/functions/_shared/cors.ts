@@ -0,0 +1,37 @@
+// ============================================
+// MesseMemo Shared HTTP Helpers
+// ============================================
+
+// CORS Headers
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, idempotency-key",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+  "Access-Control-Expose-Headers": "retry-after, ratelimit-limit, ratelimit-remaining, idempotent-replayed",
+};
+
+/**
+ * JSON-Antwort mit CORS Headers
+ */
+export function jsonResponse(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json", ...headers },
+    status: status,
+  });
+}
+
+/**
+ * Einheitliche Fehler-Antwort: { success: false, error, ...extra }
+ */
+export function errorResponse(
+  status: number,
+  message: string,
+  extra: Record<string, unknown> = {},
+  headers: Record<string, string> = {}
+): Response {
+  return jsonResponse({ success: false, error: message, ...extra }, status, headers);
+}
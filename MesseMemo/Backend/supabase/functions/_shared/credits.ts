@@ -0,0 +1,281 @@
+// ============================================
+// MesseMemo Credit Reservations
+// ============================================
+//
+// Ablauf pro KI-Request:
+//   reserve → Handler läuft → commit (2xx) oder release (alles andere)
+//
+// Der Client sendet einen `Idempotency-Key` Header. Ein Retry mit demselben
+// Key liefert die gespeicherte Original-Antwort, ohne erneut abzubuchen.
+// Ohne Header (ältere App-Versionen) wird der Key aus dem Request abgeleitet.
+// Reservierungen, die nie committet werden (z.B. Crash der Function),
+// verfallen nach `ttlSeconds` und werden per release_expired_credit_reservations
+// automatisch erstattet (siehe migrations/003_credit_reservations.sql).
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { errorResponse, jsonResponse } from "./cors.ts";
+import { sha256Hex } from "./result-cache.ts";
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+// Zeitfenster für abgeleitete Keys: deckt Retries nach Timeout ab, dieselbe
+// Anfrage später (z.B. force_refresh) wird wieder normal abgerechnet
+const DERIVED_KEY_WINDOW_SECONDS = 10 * 60;
+
+export interface CreditReservation {
+  id: string;
+  /** Verbleibende Credits nach der Reservierung (-1 = unbegrenzt/Premium) */
+  creditsRemaining: number;
+  /** Reservierte Credits (Premium: 0) */
+  amount: number;
+  /**
+   * Der Handler kann `charge = false` setzen, um trotz 2xx nicht abzubuchen
+   * (z.B. kostenloser Fallback). Die Antwort wird dann nicht für Replays gespeichert.
+   */
+  charge: boolean;
+}
+
+export interface ReservationOptions {
+  userId: string;
+  functionName: string;
+  idempotencyKey: string;
+  ttlSeconds?: number;
+  /** Zu reservierende Credits (Default 1) */
+  amount?: number;
+}
+
+export interface SettleResult {
+  /** Tatsächlich abgebuchte Credits */
+  charged: number;
+  creditsRemaining: number;
+}
+
+/** Antwort, wenn commitCredit scheitert */
+export const COMMIT_FAILED_MESSAGE = "Guthaben konnte nicht abgebucht werden. Bitte erneut versuchen.";
+
+export type ReserveResult =
+  | { kind: "reserved"; reservation: CreditReservation }
+  | { kind: "replayed"; status: number; body: unknown }
+  | { kind: "in_progress" }
+  | { kind: "insufficient"; message: string }
+  | { kind: "error"; message: string };
+
+/**
+ * Liest den Idempotency-Key Header. Ohne Header wird der Key aus Pfad,
+ * Query und `requestInput` (Body bzw. alles, was das Ergebnis bestimmt)
+ * abgeleitet (SHA-256 je Zeitfenster) – ein Retry derselben Anfrage wird
+ * so auch ohne Header nicht doppelt abgebucht. null bei ungültigem Header.
+ */
+export async function getIdempotencyKey(req: Request, requestInput: unknown): Promise<string | null> {
+  const key = req.headers.get("Idempotency-Key")?.trim();
+  if (!key) {
+    const url = new URL(req.url);
+    const window = Math.floor(Date.now() / 1000 / DERIVED_KEY_WINDOW_SECONDS);
+    const hash = await sha256Hex(`${url.pathname}${url.search}\n${JSON.stringify(requestInput ?? null)}`);
+    return `derived:${window}:${hash}`;
+  }
+  if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return null;
+  }
+  return key;
+}
+
+/**
+ * Reserviert Credits (Default 1) für den Idempotency-Key
+ */
+export async function reserveCredit(
+  supabaseAdmin: SupabaseClient,
+  options: ReservationOptions
+): Promise<ReserveResult> {
+  const { data, error } = await supabaseAdmin.rpc("reserve_ai_credit", {
+    p_user_id: options.userId,
+    p_function_name: options.functionName,
+    p_idempotency_key: options.idempotencyKey,
+    p_ttl_seconds: options.ttlSeconds ?? 120,
+    p_amount: options.amount ?? 1,
+  });
+
+  if (error) {
+    console.error("Credit Reserve RPC Error:", JSON.stringify(error));
+    return { kind: "error", message: error.message || "Fehler beim Guthaben-Abzug" };
+  }
+
+  const row = data?.[0];
+  if (!row) {
+    return { kind: "error", message: "Leere Antwort von reserve_ai_credit" };
+  }
+
+  if (row.replayed) {
+    return { kind: "replayed", status: row.response_status ?? 200, body: row.response_body };
+  }
+
+  if (!row.success) {
+    // Eine offene Reservierung mit demselben Key → paralleler Retry
+    if (row.reservation_id) {
+      return { kind: "in_progress" };
+    }
+    return { kind: "insufficient", message: row.error_message || "Kein Guthaben mehr" };
+  }
+
+  return {
+    kind: "reserved",
+    reservation: {
+      id: row.reservation_id,
+      creditsRemaining: row.credits_remaining,
+      amount: row.credits_remaining < 0 ? 0 : options.amount ?? 1,
+      charge: true,
+    },
+  };
+}
+
+/**
+ * Markiert die Reservierung als verbraucht und speichert die Antwort für Replays.
+ * false, wenn sie nicht mehr offen war (abgelaufen und erstattet) oder der
+ * RPC fehlschlug – das Ergebnis darf dann nicht ausgeliefert werden.
+ */
+export async function commitCredit(
+  supabaseAdmin: SupabaseClient,
+  reservation: CreditReservation,
+  status: number,
+  body: unknown
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc("commit_ai_credit", {
+    p_reservation_id: reservation.id,
+    p_response_status: status,
+    p_response_body: body,
+  });
+
+  if (error) {
+    console.error("Credit Commit RPC Error:", JSON.stringify(error));
+    return false;
+  }
+  if (data !== true) {
+    console.error(`Credit Commit: reservation ${reservation.id} is no longer open`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Committet die Reservierung mit dem tatsächlichen Betrag (z.B. nach der
+ * echten Audio-Dauer). Zu viel Reserviertes wird erstattet, Fehlendes
+ * nachgebucht (höchstens bis Guthaben 0). null bei RPC-Fehler.
+ */
+export async function settleCredit(
+  supabaseAdmin: SupabaseClient,
+  reservation: CreditReservation,
+  amount: number,
+  status: number,
+  body: unknown
+): Promise<SettleResult | null> {
+  const { data, error } = await supabaseAdmin.rpc("settle_ai_credit", {
+    p_reservation_id: reservation.id,
+    p_amount: amount,
+    p_response_status: status,
+    p_response_body: body,
+  });
+
+  const row = data?.[0];
+  if (error || !row?.success) {
+    console.error("Credit Settle RPC Error:", JSON.stringify(error));
+    return null;
+  }
+  return { charged: row.charged, creditsRemaining: row.credits_remaining };
+}
+
+/**
+ * Gibt die Reservierung frei und erstattet den Credit (idempotent)
+ */
+export async function releaseCredit(
+  supabaseAdmin: SupabaseClient,
+  reservation: CreditReservation
+): Promise<void> {
+  const { error } = await supabaseAdmin.rpc("release_ai_credit", {
+    p_reservation_id: reservation.id,
+  });
+
+  if (error) {
+    console.error("Credit Release RPC Error:", JSON.stringify(error));
+  }
+}
+
+/**
+ * Credit-Stand, nachdem die Reservierung freigegeben wurde
+ */
+export function creditsAfterRelease(reservation: CreditReservation): number {
+  return reservation.creditsRemaining < 0
+    ? reservation.creditsRemaining
+    : reservation.creditsRemaining + reservation.amount;
+}
+
+/**
+ * Führt `handler` innerhalb einer Credit-Reservierung aus.
+ *
+ * - 2xx Antwort → commit, Antwort wird für Replays gespeichert
+ * - Commit scheitert (Reservierung abgelaufen) → Fehlerantwort statt Ergebnis
+ * - jede andere Antwort, Exception oder `charge = false` → release (Refund)
+ * - bereits committeter Key → gespeicherte Antwort ohne Abbuchung
+ */
+export async function withCreditReservation(
+  supabaseAdmin: SupabaseClient,
+  options: ReservationOptions,
+  handler: (reservation: CreditReservation) => Promise<Response>
+): Promise<Response> {
+  const result = await reserveCredit(supabaseAdmin, options);
+
+  switch (result.kind) {
+    case "replayed":
+      console.log(`Idempotent replay for ${options.functionName} (${options.idempotencyKey})`);
+      return jsonResponse(result.body, result.status, { "Idempotent-Replayed": "true" });
+    case "in_progress":
+      return errorResponse(409, "Anfrage wird bereits verarbeitet. Bitte kurz warten.");
+    case "insufficient":
+      return errorResponse(403, result.message, { credits_remaining: 0 });
+    case "error":
+      return errorResponse(500, "Fehler beim Guthaben-Abzug");
+  }
+
+  const { reservation } = result;
+  let response: Response;
+
+  try {
+    response = await handler(reservation);
+  } catch (error) {
+    await releaseCredit(supabaseAdmin, reservation);
+    throw error;
+  }
+
+  if (response.status < 200 || response.status >= 300 || !reservation.charge) {
+    await releaseCredit(supabaseAdmin, reservation);
+    return response;
+  }
+
+  let body: unknown = null;
+  try {
+    body = await response.clone().json();
+  } catch {
+    // Keine JSON-Antwort → wird ohne Body für Replays gespeichert
+  }
+
+  if (!await commitCredit(supabaseAdmin, reservation, response.status, body)) {
+    await releaseCredit(supabaseAdmin, reservation);
+    return errorResponse(500, COMMIT_FAILED_MESSAGE);
+  }
+  return response;
+}
+
+/**
+ * Aktueller Credit-Stand (-1 = unbegrenzt/Premium), z.B. für Antworten ohne Reservierung.
+ * Bei Mitgliedern einer Organisation der Pool, solange er nutzbar ist.
+ */
+export async function loadCreditsRemaining(
+  supabaseAdmin: SupabaseClient,
+  userId: string
+): Promise<number | undefined> {
+  const { data, error } = await supabaseAdmin.rpc("get_credits_remaining", { p_user_id: userId });
+
+  if (error) {
+    console.error("Credits Lookup Error:", JSON.stringify(error));
+    return undefined;
+  }
+  return data ?? undefined;
+}
@@ -0,0 +1,286 @@
+// ============================================
+// MesseMemo CRM-Formate
+// ============================================
+//
+// Lead → Payload für Webhooks und Export (crm-export):
+//   - messememo:  Lead wie in der Datenbank (lead_webhook_snapshot)
+//   - hubspot:    Contact-Objekt der HubSpot CRM API ({ properties })
+//   - salesforce: Lead-sObject der Salesforce REST API
+//   - vCard 4.0 (RFC 6350) und CSV (wie CSVExportService in der App)
+//
+// Eigene Felder (messememo_*, MesseMemo_*__c) müssen im CRM angelegt sein,
+// sonst lehnt die API den Datensatz ab – siehe README.
+
+export const CRM_FORMATS = ["messememo", "hubspot", "salesforce"] as const;
+export type CrmFormat = typeof CRM_FORMATS[number];
+
+export interface LeadSnapshot {
+  id: string;
+  name: string;
+  company: string;
+  email: string;
+  phone: string;
+  notes: string;
+  transcript: string | null;
+  qualification: { summary?: string } | null;
+  lead_score: number | null;
+  follow_up_date: string | null;
+  event_id: string | null;
+  event_name: string | null;
+  has_audio: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Gleiche Schwellen wie event_stats (017): hot ≥ 70, warm 40–69, cold < 40
+const HOT_SCORE = 70;
+const WARM_SCORE = 40;
+
+// Salesforce verlangt LastName und Company
+const SALESFORCE_PLACEHOLDER = "[nicht angegeben]";
+
+/**
+ * Lead im gewünschten Format (ein Datensatz)
+ */
+export function mapLead(format: CrmFormat, lead: LeadSnapshot): Record<string, unknown> {
+  switch (format) {
+    case "hubspot":
+      return toHubSpotContact(lead);
+    case "salesforce":
+      return toSalesforceLead(lead);
+    default:
+      return { ...lead };
+  }
+}
+
+/**
+ * Mehrere Leads im Format der jeweiligen Batch-API
+ * (HubSpot batch/create, Salesforce sObject Collections)
+ */
+export function mapLeadBatch(format: CrmFormat, leads: LeadSnapshot[]): Record<string, unknown> {
+  switch (format) {
+    case "hubspot":
+      return { inputs: leads.map(toHubSpotContact) };
+    case "salesforce":
+      return { allOrNone: false, records: leads.map(toSalesforceLead) };
+    default:
+      return { leads };
+  }
+}
+
+// ============================================
+// HubSpot
+// ============================================
+
+function toHubSpotContact(lead: LeadSnapshot): Record<string, unknown> {
+  const { firstName, lastName } = splitName(lead.name);
+  const properties: Record<string, string> = {
+    email: lead.email,
+    firstname: firstName,
+    lastname: lastName,
+    company: lead.company,
+    phone: lead.phone,
+    lifecyclestage: "lead",
+    hs_lead_status: "NEW",
+    messememo_lead_id: lead.id,
+    messememo_notes: describeLead(lead),
+    messememo_event: lead.event_name ?? "",
+    messememo_lead_score: lead.lead_score?.toString() ?? "",
+    messememo_follow_up_date: lead.follow_up_date ?? "",
+  };
+
+  // Leere Werte weglassen, damit sie im CRM nichts überschreiben
+  return {
+    properties: Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== "")),
+  };
+}
+
+// ============================================
+// Salesforce
+// ============================================
+
+function toSalesforceLead(lead: LeadSnapshot): Record<string, unknown> {
+  const { firstName, lastName } = splitName(lead.name);
+  return {
+    attributes: { type: "Lead" },
+    FirstName: firstName || null,
+    LastName: lastName || SALESFORCE_PLACEHOLDER,
+    Company: lead.company.trim() || SALESFORCE_PLACEHOLDER,
+    Email: lead.email || null,
+    Phone: lead.phone || null,
+    Description: describeLead(lead) || null,
+    LeadSource: "Trade Show",
+    Rating: rating(lead.lead_score),
+    MesseMemo_Lead_ID__c: lead.id,
+    MesseMemo_Event__c: lead.event_name,
+    MesseMemo_Score__c: lead.lead_score,
+    MesseMemo_Follow_Up_Date__c: lead.follow_up_date,
+  };
+}
+
+function rating(score: number | null): "Hot" | "Warm" | "Cold" | null {
+  if (score === null) {
+    return null;
+  }
+  return score >= HOT_SCORE ? "Hot" : score >= WARM_SCORE ? "Warm" : "Cold";
+}
+
+// ============================================
+// vCard 4.0
+// ============================================
+
+/**
+ * Leads als vCard-Datei (mehrere Karten hintereinander, CRLF)
+ */
+export function toVCards(leads: LeadSnapshot[]): string {
+  return leads.map(toVCard).join("");
+}
+
+function toVCard(lead: LeadSnapshot): string {
+  const { firstName, lastName } = splitName(lead.name);
+  const displayName = lead.name.trim() || lead.company.trim() || lead.email.trim() || lead.id;
+
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:4.0",
+    `UID:urn:uuid:${lead.id}`,
+    `FN:${escapeVCardText(displayName)}`,
+    `N:${[lastName, firstName, "", "", ""].map(escapeVCardText).join(";")}`,
+  ];
+  if (lead.company.trim()) {
+    lines.push(`ORG:${escapeVCardText(lead.company.trim())}`);
+  }
+  if (lead.email.trim()) {
+    lines.push(`EMAIL;TYPE=work:${escapeVCardText(lead.email.trim())}`);
+  }
+  if (lead.phone.trim()) {
+    // Als tel:-URI, wenn die Nummer nur aus Ziffern und Trennzeichen besteht
+    const phone = lead.phone.trim();
+    lines.push(/^\+?[\d\s\-()/.]+$/.test(phone)
+      ? `TEL;VALUE=uri;TYPE=work,voice:tel:${phone.replace(/[^\d+]/g, "")}`
+      : `TEL;TYPE=work,voice:${escapeVCardText(phone)}`);
+  }
+  const note = describeLead(lead);
+  if (note) {
+    lines.push(`NOTE:${escapeVCardText(note)}`);
+  }
+  lines.push(`CATEGORIES:${["MesseMemo", lead.event_name].filter(Boolean).map((c) => escapeVCardText(c!)).join(",")}`);
+  lines.push(`REV:${toVCardTimestamp(lead.updated_at)}`);
+  lines.push("END:VCARD");
+
+  return lines.map(foldVCardLine).join("\r\n") + "\r\n";
+}
+
+function escapeVCardText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+/**
+ * Zeilen über 75 Oktette umbrechen (RFC 6350, 3.2), ohne UTF-8-Zeichen zu trennen
+ */
+function foldVCardLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  // Folgezeilen beginnen mit einem Leerzeichen → 74 Oktette Inhalt
+  let limit = 75;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+      limit = 74;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function toVCardTimestamp(iso: string): string {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? "" : date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// ============================================
+// CSV
+// ============================================
+
+const CSV_HEADERS = [
+  "Name", "Firma", "E-Mail", "Telefon", "Notizen", "Hat Audio-Notiz", "Erfasst am",
+  "Messe", "Lead-Score", "Follow-up", "ID",
+];
+
+/**
+ * Leads als CSV – Spalten, Trennzeichen und Escaping wie CSVExportService
+ * in der App (Excel-kompatibel mit UTF-8 BOM), ergänzt um Messe, Score,
+ * Follow-up und ID
+ */
+export function toCsv(leads: LeadSnapshot[], timeZone: string): string {
+  const formatter = new Intl.DateTimeFormat("de-DE", {
+    timeZone,
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  const rows = leads.map((lead) => [
+    escapeCsv(lead.name),
+    escapeCsv(lead.company),
+    escapeCsv(lead.email),
+    escapeCsv(lead.phone),
+    escapeCsv(lead.notes),
+    lead.has_audio ? "Ja" : "Nein",
+    formatter.format(new Date(lead.created_at)).replace(",", ""),
+    escapeCsv(lead.event_name ?? ""),
+    lead.lead_score?.toString() ?? "",
+    lead.follow_up_date ? lead.follow_up_date.split("-").reverse().join(".") : "",
+    lead.id,
+  ].join(";"));
+
+  return "\uFEFF" + [CSV_HEADERS.join(";"), ...rows].map((row) => row + "\n").join("");
+}
+
+function escapeCsv(value: string): string {
+  const escaped = value.replace(/[\r\n]/g, " ");
+  if (/[;",]/.test(escaped)) {
+    return `"${escaped.replace(/"/g, '""')}"`;
+  }
+  return escaped;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Ein Wort gilt als Nachname (Pflichtfeld in den CRMs)
+ */
+function splitName(name: string): { firstName: string; lastName: string } {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) {
+    return { firstName: "", lastName: "" };
+  }
+  if (parts.length === 1) {
+    return { firstName: "", lastName: parts[0] };
+  }
+  return { firstName: parts.slice(0, -1).join(" "), lastName: parts[parts.length - 1] };
+}
+
+/**
+ * Notizen plus Zusammenfassung aus qualify-lead als Freitext fürs CRM
+ */
+function describeLead(lead: LeadSnapshot): string {
+  const summary = typeof lead.qualification?.summary === "string" ? lead.qualification.summary.trim() : "";
+  return [lead.notes.trim(), summary].filter(Boolean).join("\n\n");
+}
@@ -0,0 +1,244 @@
+// ============================================
+// MesseMemo Follow-up Digest
+// ============================================
+//
+// Versand der von claim_follow_up_digests reservierten Digests
+// (migrations/014_follow_up_digest.sql). Die SQL-Funktion wählt User und
+// Leads aus (Versandstunde, Ruhezeit, Zeitzone, 1x pro lokalem Tag); hier
+// wird der Text gebaut, über den gewählten Kanal verschickt und der Status
+// in follow_up_digests geschrieben.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { escapeHtml } from "./mailer.ts";
+import { deliverNotification, Notification, NotificationChannel } from "./notify.ts";
+
+export interface DigestLead {
+  id: string;
+  name: string | null;
+  company: string | null;
+  email: string | null;
+  lead_score: number | null;
+  follow_up_date: string | null;
+  created_at: string;
+  reason: "follow_up_date" | "no_follow_up";
+}
+
+export interface ClaimedDigest {
+  digest_id: string;
+  user_id: string;
+  digest_date: string;
+  channel: NotificationChannel;
+  email: string | null;
+  webhook_url: string | null;
+  webhook_secret: string | null;
+  display_name: string | null;
+  language: string;
+  leads: DigestLead[];
+  total_leads: number;
+}
+
+export interface DigestResult {
+  digest_id: string;
+  user_id: string;
+  channel: NotificationChannel;
+  leads: number;
+  status: "sent" | "failed";
+  error?: string;
+}
+
+export interface DigestOptions {
+  batchSize: number;
+  /** Nur dieser User (manueller Testlauf) */
+  userId?: string | null;
+  /** Versandstunde und Ruhezeit ignorieren */
+  force?: boolean;
+}
+
+// ============================================
+// Versand
+// ============================================
+
+/**
+ * Reserviert fällige Digests und verschickt sie.
+ * null, wenn nicht reserviert werden konnte.
+ */
+export async function processDigests(
+  supabaseAdmin: SupabaseClient,
+  options: DigestOptions
+): Promise<DigestResult[] | null> {
+  const { data: claimed, error: claimError } = await supabaseAdmin.rpc("claim_follow_up_digests", {
+    p_limit: options.batchSize,
+    p_user_id: options.userId ?? null,
+    p_force: options.force === true,
+  });
+
+  if (claimError) {
+    console.error("Claim Digests Error:", JSON.stringify(claimError));
+    return null;
+  }
+
+  const results: DigestResult[] = [];
+  for (const digest of (claimed ?? []) as ClaimedDigest[]) {
+    results.push(await sendDigest(supabaseAdmin, digest));
+  }
+
+  const sent = results.filter((result) => result.status === "sent").length;
+  console.log(`📬 Follow-up Digests: ${sent} gesendet, ${results.length - sent} fehlgeschlagen`);
+  return results;
+}
+
+/**
+ * Verschickt einen reservierten Digest. Fehler landen im Versand-Log;
+ * fehlgeschlagene Digests reserviert der nächste Lauf erneut (max. 3 Versuche).
+ */
+export async function sendDigest(supabaseAdmin: SupabaseClient, digest: ClaimedDigest): Promise<DigestResult> {
+  let status: DigestResult["status"] = "failed";
+  let error: string | undefined;
+
+  try {
+    const delivery = await deliverNotification(
+      supabaseAdmin,
+      digest.channel,
+      {
+        userId: digest.user_id,
+        email: digest.email,
+        webhookUrl: digest.webhook_url,
+        webhookSecret: digest.webhook_secret,
+      },
+      buildDigest(digest)
+    );
+    status = delivery.ok ? "sent" : "failed";
+    error = delivery.error;
+  } catch (deliveryError) {
+    error = deliveryError instanceof Error ? deliveryError.message : String(deliveryError);
+  }
+
+  if (error) {
+    console.warn(`Digest ${digest.digest_id} (${digest.channel}) fehlgeschlagen: ${error}`);
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from("follow_up_digests")
+    .update({
+      status,
+      error: error?.substring(0, 500) ?? null,
+      lead_ids: digest.leads.map((lead) => lead.id),
+      sent_at: status === "sent" ? new Date().toISOString() : null,
+    })
+    .eq("id", digest.digest_id);
+
+  if (updateError) {
+    console.error("Digest Update Error:", JSON.stringify(updateError));
+  }
+
+  return {
+    digest_id: digest.digest_id,
+    user_id: digest.user_id,
+    channel: digest.channel,
+    leads: digest.total_leads,
+    status,
+    ...(error ? { error } : {}),
+  };
+}
+
+// ============================================
+// Digest-Inhalt (de/en)
+// ============================================
+
+const TEXTS = {
+  de: {
+    subject: (count: number) => count === 1
+      ? "1 Lead wartet auf dein Follow-up"
+      : `${count} Leads warten auf dein Follow-up`,
+    greeting: (name: string | null) => name ? `Hallo ${name},` : "Hallo,",
+    intro: "bei diesen Kontakten ist ein Follow-up fällig:",
+    dueSince: (date: string) => `fällig seit ${date}`,
+    dueToday: "heute fällig",
+    noFollowUp: (date: string) => `erfasst am ${date}, noch kein Follow-up`,
+    score: "Score",
+    more: (count: number) => `… und ${count} weitere in der App.`,
+    footer: "Du bekommst diese Erinnerung, weil der Follow-up Digest in MesseMemo aktiviert ist. "
+      + "Abschalten kannst du ihn in den Einstellungen der App.",
+    unknown: "(ohne Namen)",
+  },
+  en: {
+    subject: (count: number) => count === 1
+      ? "1 lead is waiting for your follow-up"
+      : `${count} leads are waiting for your follow-up`,
+    greeting: (name: string | null) => name ? `Hi ${name},` : "Hi,",
+    intro: "these contacts are due for a follow-up:",
+    dueSince: (date: string) => `due since ${date}`,
+    dueToday: "due today",
+    noFollowUp: (date: string) => `captured on ${date}, no follow-up yet`,
+    score: "Score",
+    more: (count: number) => `… and ${count} more in the app.`,
+    footer: "You receive this reminder because the follow-up digest is enabled in MesseMemo. "
+      + "You can turn it off in the app settings.",
+    unknown: "(no name)",
+  },
+};
+
+export function buildDigest(digest: ClaimedDigest): Notification {
+  const t = digest.language === "en" ? TEXTS.en : TEXTS.de;
+  const remaining = digest.total_leads - digest.leads.length;
+
+  const lines = digest.leads.map((lead) => {
+    const title = [lead.name || t.unknown, lead.company].filter(Boolean).join(" – ");
+    const details = [leadStatus(lead, digest.digest_date, t)];
+    if (lead.lead_score !== null) {
+      details.push(`${t.score} ${lead.lead_score}`);
+    }
+    return { title, details: details.join(" · "), email: lead.email };
+  });
+
+  const subject = t.subject(digest.total_leads);
+
+  const text = [
+    t.greeting(digest.display_name),
+    "",
+    t.intro,
+    "",
+    ...lines.map((line) => `• ${line.title} (${line.details})${line.email ? ` <${line.email}>` : ""}`),
+    ...(remaining > 0 ? ["", t.more(remaining)] : []),
+    "",
+    "--",
+    t.footer,
+  ].join("\n");
+
+  const html = `<!DOCTYPE html>
+<html><body style="font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1c1c1e;">
+<p>${escapeHtml(t.greeting(digest.display_name))}</p>
+<p>${escapeHtml(t.intro)}</p>
+<ul>
+${lines.map((line) => `<li><strong>${escapeHtml(line.title)}</strong><br><span style="color: #6e6e73;">${escapeHtml(line.details)}</span>${line.email ? ` · <a href="mailto:${escapeHtml(line.email)}">${escapeHtml(line.email)}</a>` : ""}</li>`).join("\n")}
+</ul>
+${remaining > 0 ? `<p>${escapeHtml(t.more(remaining))}</p>` : ""}
+<p style="color: #6e6e73; font-size: 12px;">${escapeHtml(t.footer)}</p>
+</body></html>`;
+
+  // Push: die ersten drei Namen reichen
+  const pushBody = lines.slice(0, 3).map((line) => line.title).join(", ")
+    + (digest.total_leads > 3 ? ` +${digest.total_leads - 3}` : "");
+
+  return {
+    id: digest.digest_id,
+    event: "follow_up_digest",
+    subject,
+    text,
+    html,
+    pushBody,
+    data: {
+      digest_id: digest.digest_id,
+      digest_date: digest.digest_date,
+      total_leads: digest.total_leads,
+      leads: digest.leads,
+    },
+  };
+}
+
+function leadStatus(lead: DigestLead, today: string, t: typeof TEXTS.de): string {
+  if (lead.reason === "no_follow_up" || !lead.follow_up_date) {
+    return t.noFollowUp(lead.created_at.slice(0, 10));
+  }
+  return lead.follow_up_date >= today ? t.dueToday : t.dueSince(lead.follow_up_date);
+}
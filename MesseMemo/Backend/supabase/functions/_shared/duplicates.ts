@@ -0,0 +1,246 @@
+// ============================================
+// MesseMemo Dubletten-Erkennung
+// ============================================
+//
+// Vergleicht einen extrahierten Kontakt mit den bestehenden Leads des Users.
+// Jedes Feld bekommt eine Ähnlichkeit von 0–1, der Gesamt-Score ist der
+// gewichtete Mittelwert über die Felder, die auf beiden Seiten gefüllt sind.
+// Eine identische E-Mail oder Telefonnummer allein reicht für einen hohen Score.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { normalizeEmail, normalizePhone } from "./contact.ts";
+
+/** Wie viele Leads maximal verglichen werden (neueste zuerst) */
+const MAX_LEADS_TO_COMPARE = 5000;
+const DEFAULT_MIN_SCORE = 0.6;
+const DEFAULT_LIMIT = 5;
+
+const FIELD_WEIGHTS = {
+  email: 0.35,
+  phone: 0.25,
+  name: 0.3,
+  company: 0.1,
+} as const;
+
+type MatchField = keyof typeof FIELD_WEIGHTS;
+
+const COMPANY_SUFFIXES = /\b(gmbh|ag|se|kg|ohg|ug|mbh|kgaa|e\.?\s?v|inc|corp|corporation|ltd|limited|llc|plc|co)\b\.?/g;
+const NAME_TITLES = /\b(dr|prof|dipl|ing|mag|med|jur|rer|nat|phil|mba|msc|bsc|herr|frau|mr|mrs|ms)\b\.?/g;
+
+export interface DuplicateCandidateInput {
+  name: string;
+  company: string;
+  email: string;
+  phone: string;
+}
+
+export interface ExistingLead extends DuplicateCandidateInput {
+  id: string;
+  updated_at: string;
+}
+
+export interface DuplicateCandidate {
+  lead_id: string;
+  score: number;
+  /** Ähnlichkeit je verglichenem Feld */
+  matched_fields: Partial<Record<MatchField, number>>;
+  lead: ExistingLead;
+}
+
+/**
+ * Lädt die (nicht gelöschten) Leads des Users für den Vergleich
+ */
+export async function loadLeadsForMatching(
+  supabaseAdmin: SupabaseClient,
+  userId: string
+): Promise<ExistingLead[]> {
+  const { data, error } = await supabaseAdmin
+    .from("leads")
+    .select("id, name, company, email, phone, updated_at")
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .order("updated_at", { ascending: false })
+    .limit(MAX_LEADS_TO_COMPARE);
+
+  if (error) {
+    console.error("Duplicate Lookup Error:", JSON.stringify(error));
+    return [];
+  }
+  return (data ?? []) as ExistingLead[];
+}
+
+/**
+ * Rangliste möglicher Dubletten (höchster Score zuerst)
+ */
+export function findDuplicateCandidates(
+  contact: DuplicateCandidateInput,
+  leads: ExistingLead[],
+  options: { defaultRegion: string; minScore?: number; limit?: number }
+): DuplicateCandidate[] {
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  const prepared = prepare(contact, options.defaultRegion);
+
+  return leads
+    .map((lead) => scoreLead(prepared, lead, options.defaultRegion))
+    .filter((candidate): candidate is DuplicateCandidate => candidate !== null && candidate.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? DEFAULT_LIMIT);
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+interface PreparedContact {
+  name: string;
+  company: string;
+  email: string;
+  phone: string;
+}
+
+function prepare(contact: DuplicateCandidateInput, defaultRegion: string): PreparedContact {
+  return {
+    name: normalizeName(contact.name ?? ""),
+    company: normalizeCompany(contact.company ?? ""),
+    email: normalizeEmail(contact.email ?? "").value,
+    phone: normalizePhoneForMatch(contact.phone ?? "", defaultRegion),
+  };
+}
+
+// Normalisierte Leads pro Region – im Batch werden dieselben Leads für jede Karte verglichen
+const preparedLeads = new WeakMap<ExistingLead, Map<string, PreparedContact>>();
+
+function prepareLead(lead: ExistingLead, defaultRegion: string): PreparedContact {
+  let byRegion = preparedLeads.get(lead);
+  if (!byRegion) {
+    byRegion = new Map();
+    preparedLeads.set(lead, byRegion);
+  }
+  let prepared = byRegion.get(defaultRegion);
+  if (!prepared) {
+    prepared = prepare(lead, defaultRegion);
+    byRegion.set(defaultRegion, prepared);
+  }
+  return prepared;
+}
+
+function scoreLead(
+  contact: PreparedContact,
+  lead: ExistingLead,
+  defaultRegion: string
+): DuplicateCandidate | null {
+  const other = prepareLead(lead, defaultRegion);
+  const matched: Partial<Record<MatchField, number>> = {};
+
+  if (contact.email && other.email) {
+    matched.email = contact.email === other.email ? 1 : emailSimilarity(contact.email, other.email);
+  }
+  if (contact.phone && other.phone) {
+    matched.phone = contact.phone === other.phone ? 1 : 0;
+  }
+  if (contact.name && other.name) {
+    matched.name = tokenSimilarity(contact.name, other.name);
+  }
+  if (contact.company && other.company) {
+    matched.company = tokenSimilarity(contact.company, other.company);
+  }
+
+  const fields = Object.keys(matched) as MatchField[];
+  if (fields.length === 0) {
+    return null;
+  }
+
+  const totalWeight = fields.reduce((sum, field) => sum + FIELD_WEIGHTS[field], 0);
+  let score = fields.reduce((sum, field) => sum + FIELD_WEIGHTS[field] * matched[field]!, 0) / totalWeight;
+
+  // Eindeutige Kennungen: gleiche E-Mail/Telefonnummer ist fast sicher dieselbe Person
+  if (matched.email === 1 || matched.phone === 1) {
+    score = Math.max(score, 0.9);
+  }
+  // Ohne E-Mail/Telefon zum Vergleich bleibt ein Rest an Unsicherheit
+  if (matched.email === undefined && matched.phone === undefined) {
+    score = Math.min(score, fields.length === 1 ? 0.75 : 0.85);
+  }
+
+  return {
+    lead_id: lead.id,
+    score: round(score),
+    matched_fields: Object.fromEntries(fields.map((field) => [field, round(matched[field]!)])),
+    lead,
+  };
+}
+
+function emailSimilarity(a: string, b: string): number {
+  const [localA, domainA] = a.split("@");
+  const [localB, domainB] = b.split("@");
+  // Gleiche Person, neue Firma (oder Tippfehler in der Domain)
+  if (localA === localB) return 0.6;
+  if (domainA === domainB) return 0.5 * levenshteinSimilarity(localA, localB);
+  return 0;
+}
+
+/**
+ * Ähnlichkeit unabhängig von der Wortreihenfolge ("Mustermann, Max" = "Max Mustermann")
+ */
+export function tokenSimilarity(a: string, b: string): number {
+  const sortedA = a.split(" ").sort().join(" ");
+  const sortedB = b.split(" ").sort().join(" ");
+  return Math.max(levenshteinSimilarity(a, b), levenshteinSimilarity(sortedA, sortedB));
+}
+
+export function levenshteinSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(a, b) / longest;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// ============================================
+// Normalisierung
+// ============================================
+
+function foldText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/ß/g, "ss")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+function normalizeName(name: string): string {
+  return foldText(name)
+    .replace(NAME_TITLES, " ")
+    .replace(/[^a-z\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function normalizeCompany(company: string): string {
+  return foldText(company)
+    .replace(COMPANY_SUFFIXES, " ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function normalizePhoneForMatch(phone: string, defaultRegion: string): string {
+  const normalized = normalizePhone(phone, defaultRegion);
+  return normalized.valid ? normalized.value : phone.replace(/\D/g, "");
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,244 @@
+// ============================================
+// MesseMemo E-Mail-Optionen
+// ============================================
+//
+// Sprache, Tonalität, Anrede, Länge und Signatur für generierte E-Mails.
+// Reihenfolge: Request-Body > user_settings (siehe
+// migrations/004_user_settings.sql) > Defaults in diesem Modul.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type EmailTone = "formal" | "casual";
+export type AddressForm = "sie" | "du";
+export type EmailLength = "short" | "medium" | "long";
+
+export interface EmailOptions {
+  /** ISO 639-1 Code, z.B. "de", "en" */
+  language: string;
+  tone: EmailTone;
+  addressForm: AddressForm;
+  length: EmailLength;
+  /** Fertiger Signatur-Block, leer = keine Signatur */
+  signature: string;
+  /** profiles.display_name */
+  senderName: string;
+}
+
+interface LengthPreset {
+  maxWords: number;
+  maxOutputTokens: number;
+}
+
+/** Sprachen, für die der Prompt eine Anweisung kennt */
+export const LANGUAGE_NAMES: Record<string, string> = {
+  de: "Deutsch",
+  en: "Englisch",
+  fr: "Französisch",
+  es: "Spanisch",
+  it: "Italienisch",
+  nl: "Niederländisch",
+  pl: "Polnisch",
+  pt: "Portugiesisch",
+};
+
+export const LENGTH_PRESETS: Record<EmailLength, LengthPreset> = {
+  short: { maxWords: 80, maxOutputTokens: 300 },
+  medium: { maxWords: 150, maxOutputTokens: 500 },
+  long: { maxWords: 250, maxOutputTokens: 800 },
+};
+
+/** Betreff, falls das Modell keinen liefert */
+const FALLBACK_SUBJECTS: Record<string, string> = {
+  de: "Follow-up zu unserem Gespräch",
+  en: "Follow-up on our conversation",
+  fr: "Suite à notre échange",
+  es: "Seguimiento de nuestra conversación",
+  it: "Seguito della nostra conversazione",
+  nl: "Follow-up van ons gesprek",
+  pl: "Nawiązanie do naszej rozmowy",
+  pt: "Seguimento da nossa conversa",
+};
+
+export const DEFAULT_EMAIL_OPTIONS: EmailOptions = {
+  language: "de",
+  tone: "formal",
+  addressForm: "sie",
+  length: "medium",
+  signature: "",
+  senderName: "",
+};
+
+const MAX_SIGNATURE_LENGTH = 500;
+
+export class EmailOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmailOptionsError";
+  }
+}
+
+// ============================================
+// Defaults laden
+// ============================================
+
+/**
+ * Lädt display_name und user_settings des Users und baut daraus die Defaults.
+ * Fehlende Zeilen oder Lesefehler führen zu den Modul-Defaults.
+ */
+export async function loadEmailDefaults(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<EmailOptions> {
+  const [profileResult, settingsResult] = await Promise.all([
+    supabase.from("profiles").select("display_name").eq("id", userId).maybeSingle(),
+    supabase.from("user_settings").select("*").eq("user_id", userId).maybeSingle(),
+  ]);
+
+  if (profileResult.error) {
+    console.warn("Profil konnte nicht geladen werden:", profileResult.error.message);
+  }
+  if (settingsResult.error) {
+    console.warn("user_settings konnten nicht geladen werden:", settingsResult.error.message);
+  }
+
+  const settings = settingsResult.data ?? {};
+  const pick = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+    allowed.includes(value as T) ? value as T : fallback;
+
+  return {
+    language: typeof settings.email_language === "string" && LANGUAGE_NAMES[settings.email_language]
+      ? settings.email_language
+      : DEFAULT_EMAIL_OPTIONS.language,
+    tone: pick(settings.email_tone, ["formal", "casual"], DEFAULT_EMAIL_OPTIONS.tone),
+    addressForm: pick(settings.email_address_form, ["sie", "du"], DEFAULT_EMAIL_OPTIONS.addressForm),
+    length: pick(settings.email_length, ["short", "medium", "long"], DEFAULT_EMAIL_OPTIONS.length),
+    signature: buildSignature(profileResult.data?.display_name, settings),
+    senderName: typeof profileResult.data?.display_name === "string" ? profileResult.data.display_name.trim() : "",
+  };
+}
+
+/**
+ * Signatur-Block: Name, dann Position, Firma und Kontaktdaten je eine Zeile
+ */
+export function buildSignature(
+  displayName: unknown,
+  settings: Record<string, unknown>
+): string {
+  const lines = [
+    displayName,
+    settings.signature_title,
+    settings.signature_company,
+    settings.signature_phone,
+    settings.signature_email,
+    settings.signature_website,
+  ]
+    .filter((value): value is string => typeof value === "string")
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  return lines.join("\n");
+}
+
+// ============================================
+// Request-Optionen
+// ============================================
+
+/**
+ * Übernimmt die Optionen aus dem Request-Body, fehlende Felder aus `defaults`.
+ * Wirft EmailOptionsError bei ungültigen Werten.
+ */
+export function resolveEmailOptions(
+  body: Record<string, unknown>,
+  defaults: EmailOptions
+): EmailOptions {
+  const options = { ...defaults };
+
+  if (body.language !== undefined) {
+    const language = typeof body.language === "string" ? body.language.trim().toLowerCase() : "";
+    if (!LANGUAGE_NAMES[language]) {
+      throw new EmailOptionsError(
+        `Ungültige Sprache. Erlaubt: ${Object.keys(LANGUAGE_NAMES).join(", ")}`
+      );
+    }
+    options.language = language;
+  }
+
+  if (body.tone !== undefined) {
+    if (body.tone !== "formal" && body.tone !== "casual") {
+      throw new EmailOptionsError("Ungültige Tonalität. Erlaubt: formal, casual");
+    }
+    options.tone = body.tone;
+  }
+
+  if (body.address_form !== undefined) {
+    if (body.address_form !== "sie" && body.address_form !== "du") {
+      throw new EmailOptionsError("Ungültige Anrede. Erlaubt: sie, du");
+    }
+    options.addressForm = body.address_form;
+  }
+
+  if (body.length !== undefined) {
+    if (body.length !== "short" && body.length !== "medium" && body.length !== "long") {
+      throw new EmailOptionsError("Ungültige Länge. Erlaubt: short, medium, long");
+    }
+    options.length = body.length;
+  }
+
+  // Explizite Signatur ersetzt die gespeicherte, "" unterdrückt sie
+  if (body.signature !== undefined) {
+    if (typeof body.signature !== "string" || body.signature.length > MAX_SIGNATURE_LENGTH) {
+      throw new EmailOptionsError(`Signatur muss ein Text mit max. ${MAX_SIGNATURE_LENGTH} Zeichen sein`);
+    }
+    options.signature = body.signature.trim();
+  }
+
+  return options;
+}
+
+// ============================================
+// Prompt-Bausteine
+// ============================================
+
+/**
+ * Stil-Regeln für den Prompt (Sprache, Anrede, Ton, Länge, Grußformel)
+ */
+export function describeEmailStyle(options: EmailOptions): string[] {
+  const languageName = LANGUAGE_NAMES[options.language] ?? LANGUAGE_NAMES.de;
+  const { maxWords } = LENGTH_PRESETS[options.length];
+
+  const rules = [
+    `Schreibe die E-Mail (inkl. Betreff) auf ${languageName}`,
+    `Die E-Mail muss ${options.length === "long" ? "ausführlich, aber fokussiert" : "kurz und prägnant"} sein (max. ${maxWords} Wörter)`,
+  ];
+
+  if (options.addressForm === "du") {
+    rules.push("Duze den Empfänger (informelle Anrede, z.B. \"du\", \"tu\", Vorname)");
+  } else {
+    rules.push("Sieze den Empfänger (formelle Anrede, z.B. \"Sie\", \"vous\", Nachname)");
+  }
+
+  if (options.tone === "casual") {
+    rules.push("Der Ton ist locker und herzlich, aber nicht unprofessionell");
+  } else {
+    rules.push("Der Ton ist professionell und höflich");
+  }
+
+  if (options.signature) {
+    rules.push("Beende die E-Mail mit einer Grußformel, aber OHNE Namen oder Signatur – die Signatur wird automatisch angehängt");
+  } else {
+    rules.push("Beende die E-Mail mit einer Grußformel, ohne Platzhalter wie [Name] oder [Absender]");
+  }
+
+  return rules;
+}
+
+/**
+ * Hängt die Signatur an den generierten Body an
+ */
+export function appendSignature(body: string, signature: string): string {
+  return signature ? `${body.trimEnd()}\n${signature}` : body;
+}
+
+export function fallbackSubject(language: string): string {
+  return FALLBACK_SUBJECTS[language] ?? FALLBACK_SUBJECTS.de;
+}
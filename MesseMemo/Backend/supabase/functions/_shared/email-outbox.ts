@@ -0,0 +1,130 @@
+// ============================================
+// MesseMemo E-Mail Outbox
+// ============================================
+//
+// Versand der in email_outbox reservierten Mails (migrations/015_email_outbox.sql).
+// claim_email_outbox setzt fällige Mails auf 'sending' und zählt den Versuch;
+// hier wird verschickt und der neue Status geschrieben:
+//   - Erfolg → 'sent'
+//   - vorübergehender Fehler → wieder 'queued' mit Backoff (next_attempt_at)
+//   - endgültiger Fehler oder MAX_ATTEMPTS erreicht → 'failed'
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { MailError, sendMail } from "./mailer.ts";
+import { isOptedOut, unsubscribeUrl } from "./opt-out.ts";
+
+// Versuche insgesamt; Pause vor Versuch 2, 3, 4, 5
+export const MAX_ATTEMPTS = 5;
+export const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+
+export type OutboxStatus = "queued" | "sending" | "sent" | "failed" | "bounced" | "cancelled";
+
+export interface OutboxRow {
+  id: string;
+  user_id: string;
+  lead_id: string | null;
+  to_email: string;
+  reply_to: string | null;
+  subject: string;
+  body_text: string;
+  body_html: string | null;
+  status: OutboxStatus;
+  attempts: number;
+}
+
+export interface OutboxRun {
+  processed: number;
+  counts: Record<string, number>;
+}
+
+/**
+ * Reserviert bis zu `batchSize` fällige Mails und verschickt sie.
+ * null, wenn die Outbox nicht gelesen werden konnte.
+ */
+export async function processOutbox(supabaseAdmin: SupabaseClient, batchSize: number): Promise<OutboxRun | null> {
+  const { data: claimed, error: claimError } = await supabaseAdmin.rpc("claim_email_outbox", {
+    p_limit: batchSize,
+  });
+  if (claimError) {
+    console.error("Claim Outbox Error:", JSON.stringify(claimError));
+    return null;
+  }
+
+  const counts: Record<string, number> = { sent: 0, queued: 0, failed: 0, cancelled: 0 };
+  for (const row of (claimed ?? []) as OutboxRow[]) {
+    const status = await deliverEmail(supabaseAdmin, row);
+    counts[status] = (counts[status] ?? 0) + 1;
+  }
+
+  const processed = claimed?.length ?? 0;
+  if (processed > 0) {
+    console.log(`📤 Outbox: ${counts.sent} gesendet, ${counts.queued} erneut eingereiht, ${counts.failed} fehlgeschlagen`);
+  }
+  return { processed, counts };
+}
+
+/**
+ * Verschickt eine reservierte Mail und schreibt den neuen Status.
+ * Vorübergehende Fehler reihen sie mit Backoff erneut ein.
+ */
+export async function deliverEmail(supabaseAdmin: SupabaseClient, row: OutboxRow): Promise<OutboxStatus> {
+  let update: Record<string, unknown>;
+
+  // Widerspruch kann nach dem Planen eingegangen sein
+  if (await isOptedOut(supabaseAdmin, row.user_id, row.to_email)) {
+    update = { status: "cancelled", last_error: "Kontakt hat weiteren E-Mails widersprochen" };
+  } else {
+    const unsubscribe = await unsubscribeUrl(row.user_id, row.to_email);
+    try {
+      const sent = await sendMail({
+        to: row.to_email,
+        subject: row.subject,
+        text: row.body_text,
+        html: row.body_html ?? undefined,
+        replyTo: row.reply_to ?? undefined,
+        headers: unsubscribe
+          ? { "List-Unsubscribe": `<${unsubscribe}>`, "List-Unsubscribe-Post": "List-Unsubscribe=One-Click" }
+          : undefined,
+        idempotencyKey: row.id,
+      });
+      update = {
+        status: "sent",
+        sent_at: new Date().toISOString(),
+        provider: sent.provider,
+        provider_message_id: sent.messageId,
+        last_error: null,
+      };
+    } catch (error) {
+      const message = (error instanceof Error ? error.message : String(error)).substring(0, 500);
+      const permanent = error instanceof MailError && error.permanent;
+
+      if (permanent || row.attempts >= MAX_ATTEMPTS) {
+        update = { status: "failed", last_error: message };
+      } else {
+        update = {
+          status: "queued",
+          last_error: message,
+          next_attempt_at: new Date(Date.now() + retryDelayMinutes(row.attempts) * 60 * 1000).toISOString(),
+        };
+      }
+      console.warn(`Mail ${row.id} Versuch ${row.attempts} fehlgeschlagen: ${message}`);
+    }
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from("email_outbox")
+    .update(update)
+    .eq("id", row.id);
+
+  if (updateError) {
+    console.error("Outbox Update Error:", JSON.stringify(updateError));
+  }
+  return update.status as OutboxStatus;
+}
+
+/**
+ * Pause nach dem n-ten fehlgeschlagenen Versuch
+ */
+export function retryDelayMinutes(attempts: number): number {
+  return RETRY_DELAYS_MINUTES[Math.min(Math.max(attempts, 1), RETRY_DELAYS_MINUTES.length) - 1];
+}
@@ -0,0 +1,114 @@
+// ============================================
+// MesseMemo E-Mail-Varianten
+// ============================================
+//
+// JSON-Schema und Validierung für strukturierte generate-email Antworten.
+// Ein Call liefert 1–3 alternative Varianten (z.B. kurz vs. ausführlich),
+// jeweils mit Betreff, Text, Call-to-Action und vorgeschlagenem Follow-up Datum.
+
+export const MAX_VARIANTS = 3;
+
+const MAX_SUBJECT_LENGTH = 200;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const EMAIL_VARIANTS_SCHEMA = {
+  type: "object",
+  properties: {
+    variants: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          label: { type: "string" },
+          subject: { type: "string" },
+          body: { type: "string" },
+          call_to_action: { type: "string" },
+          follow_up_date: { type: "string" },
+        },
+        required: ["label", "subject", "body", "call_to_action", "follow_up_date"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["variants"],
+  additionalProperties: false,
+};
+
+export interface EmailVariant {
+  /** Kurzbeschreibung, z.B. "Kurz & direkt" */
+  label: string;
+  subject: string;
+  body: string;
+  call_to_action: string;
+  /** YYYY-MM-DD, null wenn ungültig oder in der Vergangenheit */
+  follow_up_date: string | null;
+}
+
+export class EmailVariantsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmailVariantsError";
+  }
+}
+
+/**
+ * Prüft die Modell-Antwort. Varianten ohne Betreff oder Text werden
+ * verworfen; wirft EmailVariantsError, wenn keine gültige übrig bleibt.
+ * Gibt höchstens `count` Varianten zurück.
+ */
+export function validateEmailVariants(
+  raw: unknown,
+  count: number,
+  today: string = new Date().toISOString().slice(0, 10)
+): EmailVariant[] {
+  if (!raw || typeof raw !== "object" || !Array.isArray((raw as Record<string, unknown>).variants)) {
+    throw new EmailVariantsError("Antwort enthält kein 'variants' Array");
+  }
+
+  const variants: EmailVariant[] = [];
+  for (const item of (raw as { variants: unknown[] }).variants) {
+    if (!item || typeof item !== "object") continue;
+    const entry = item as Record<string, unknown>;
+
+    const subject = text(entry.subject).replace(/^(?:BETREFF|Betreff|Subject):\s*/i, "");
+    const body = text(entry.body);
+    if (!subject || !body || subject.length > MAX_SUBJECT_LENGTH) {
+      console.warn("Ungültige E-Mail-Variante verworfen:", JSON.stringify(entry).substring(0, 200));
+      continue;
+    }
+
+    variants.push({
+      label: text(entry.label) || `Variante ${variants.length + 1}`,
+      subject,
+      body,
+      call_to_action: text(entry.call_to_action),
+      follow_up_date: normalizeFollowUpDate(entry.follow_up_date, today),
+    });
+
+    if (variants.length >= count) break;
+  }
+
+  if (variants.length === 0) {
+    throw new EmailVariantsError("Keine gültige E-Mail-Variante erhalten");
+  }
+  return variants;
+}
+
+/**
+ * YYYY-MM-DD, gültiges Kalenderdatum, nicht vor `today`
+ */
+export function normalizeFollowUpDate(value: unknown, today: string): string | null {
+  const date = text(value);
+  if (!DATE_PATTERN.test(date)) {
+    return null;
+  }
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+    return null;
+  }
+  return date < today ? null : date;
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
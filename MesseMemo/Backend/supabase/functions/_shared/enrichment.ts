@@ -0,0 +1,458 @@
+// ============================================
+// MesseMemo Offline Lead-Anreicherung
+// ============================================
+//
+// Leitet aus E-Mail-Domain, Website, Telefonnummer und Name weitere Felder
+// ab – ohne externe Dienste, nur mit den Regeln aus enrichment_rules (siehe
+// migrations/019_lead_enrichment.sql). Jedes Feld trägt seine Herkunft:
+//
+//   { value, source, rule: "kind:key" | null, evidence, confidence }
+//
+// Vom User erfasste Werte werden nie überschrieben; company und website
+// werden nur vorgeschlagen, wenn sie am Lead fehlen.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { LANGUAGE_NAMES } from "./email-options.ts";
+
+export type EnrichmentSource = "email" | "website" | "phone" | "name";
+
+export interface DerivedField {
+  value: string;
+  source: EnrichmentSource;
+  /** Regel aus enrichment_rules ("kind:key"), null bei reiner Ableitung */
+  rule: string | null;
+  /** Eingabe, aus der abgeleitet wurde (Domain, Vorwahl, Vorname) */
+  evidence: string;
+  /** 0–1 */
+  confidence: number;
+}
+
+export const ENRICHED_FIELDS = [
+  "domain", "email_type", "company", "website", "country", "language", "gender", "salutation",
+] as const;
+export type EnrichedField = typeof ENRICHED_FIELDS[number];
+
+export interface LeadEnrichment {
+  fields: Partial<Record<EnrichedField, DerivedField>>;
+  /** Letzte Änderung an den Regeln – ältere Ergebnisse lassen sich neu berechnen */
+  rules_version: string | null;
+  enriched_at: string;
+}
+
+export interface EnrichmentInput {
+  name: string;
+  company: string;
+  email: string;
+  phone: string;
+  website: string;
+}
+
+interface Locale {
+  country: string;
+  /** Nur Sprachen, die generate-email kennt */
+  language: string | null;
+}
+
+export interface EnrichmentRules {
+  freeMailDomains: Map<string, string>;
+  phonePrefixes: Map<string, Locale>;
+  countryTlds: Map<string, Locale>;
+  publicSuffixes: Set<string>;
+  firstNames: Map<string, "f" | "m">;
+  salutations: Map<string, { f: string; m: string }>;
+  version: string | null;
+}
+
+interface RuleRow {
+  kind: string;
+  key: string;
+  value: Record<string, unknown> | null;
+  enabled: boolean;
+  updated_at: string;
+}
+
+// Regeln werden pro Instanz zwischengespeichert
+const RULES_TTL_MS = 5 * 60 * 1000;
+const RULES_PAGE_SIZE = 1000;
+
+// Confidence je Ableitung
+const CONFIDENCE = {
+  domain: 1,
+  freeMail: 0.95,
+  corporate: 0.8,
+  phoneCountry: 0.8,
+  corporateTld: 0.6,
+  freeMailTld: 0.4,
+  agreement: 0.1,
+  companyFromDomain: 0.5,
+  websiteFromDomain: 0.6,
+  gender: 0.8,
+  salutation: 0.7,
+};
+
+// Titel, die in der deutschen Anrede bleiben ("Frau Dr.")
+const SALUTATION_TITLES = ["Prof.", "Dr."];
+
+// Längste Ländervorwahl (+1 bis +999)
+const MAX_PREFIX_DIGITS = 3;
+
+let cachedRules: { rules: EnrichmentRules; loadedAt: number } | null = null;
+
+// ============================================
+// Regeln laden
+// ============================================
+
+/**
+ * Aktive Regeln (Service Role), null bei DB-Fehler
+ */
+export async function loadEnrichmentRules(supabaseAdmin: SupabaseClient): Promise<EnrichmentRules | null> {
+  if (cachedRules && Date.now() - cachedRules.loadedAt < RULES_TTL_MS) {
+    return cachedRules.rules;
+  }
+
+  const rows: RuleRow[] = [];
+  for (let from = 0; ; from += RULES_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from("enrichment_rules")
+      .select("kind, key, value, enabled, updated_at")
+      .order("kind")
+      .order("key")
+      .range(from, from + RULES_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Enrichment Rules Error:", JSON.stringify(error));
+      return null;
+    }
+    rows.push(...(data ?? []) as RuleRow[]);
+    if ((data ?? []).length < RULES_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  const rules = buildRules(rows);
+  cachedRules = { rules, loadedAt: Date.now() };
+  return rules;
+}
+
+/**
+ * Regelzeilen → Lookup-Tabellen. Zeilen mit unbrauchbarem value werden
+ * übersprungen statt den Request scheitern zu lassen.
+ */
+function buildRules(rows: RuleRow[]): EnrichmentRules {
+  const rules: EnrichmentRules = {
+    freeMailDomains: new Map(),
+    phonePrefixes: new Map(),
+    countryTlds: new Map(),
+    publicSuffixes: new Set(),
+    firstNames: new Map(),
+    salutations: new Map(),
+    // Auch deaktivierte Regeln zählen – Abschalten ändert das Ergebnis
+    version: rows.reduce<string | null>(
+      (latest, row) => (latest === null || row.updated_at > latest ? row.updated_at : latest),
+      null
+    ),
+  };
+
+  for (const row of rows) {
+    if (!row.enabled) {
+      continue;
+    }
+    const value = row.value ?? {};
+    switch (row.kind) {
+      case "free_mail_domain":
+        rules.freeMailDomains.set(row.key, typeof value.provider === "string" ? value.provider : row.key);
+        break;
+      case "phone_prefix":
+      case "country_tld": {
+        const locale = parseLocale(value);
+        if (locale) {
+          (row.kind === "phone_prefix" ? rules.phonePrefixes : rules.countryTlds).set(row.key, locale);
+        }
+        break;
+      }
+      case "public_suffix":
+        rules.publicSuffixes.add(row.key);
+        break;
+      case "first_name":
+        if (value.gender === "f" || value.gender === "m") {
+          rules.firstNames.set(row.key, value.gender);
+        }
+        break;
+      case "salutation":
+        if (typeof value.f === "string" && typeof value.m === "string") {
+          rules.salutations.set(row.key, { f: value.f, m: value.m });
+        }
+        break;
+    }
+  }
+  return rules;
+}
+
+function parseLocale(value: Record<string, unknown>): Locale | null {
+  if (typeof value.country !== "string" || !/^[A-Z]{2}$/.test(value.country)) {
+    return null;
+  }
+  const language = typeof value.language === "string" && LANGUAGE_NAMES[value.language] ? value.language : null;
+  return { country: value.country, language };
+}
+
+// ============================================
+// Anreicherung
+// ============================================
+
+/**
+ * Alle ableitbaren Felder für einen Kontakt
+ */
+export function enrichContact(input: EnrichmentInput, rules: EnrichmentRules): LeadEnrichment {
+  const fields: LeadEnrichment["fields"] = {};
+
+  // ---- Domain & E-Mail-Typ ----
+  const emailDomain = domainFromEmail(input.email);
+  const websiteDomain = domainFromWebsite(input.website);
+  const freeMailProvider = emailDomain ? rules.freeMailDomains.get(emailDomain) : undefined;
+
+  if (emailDomain) {
+    fields.email_type = freeMailProvider !== undefined
+      ? field("free_mail", "email", `free_mail_domain:${emailDomain}`, `${emailDomain} (${freeMailProvider})`, CONFIDENCE.freeMail)
+      : field("corporate", "email", null, emailDomain, CONFIDENCE.corporate);
+  }
+
+  // Firmen-Domain: geschäftliche E-Mail vor Website
+  const companyDomain = emailDomain && freeMailProvider === undefined
+    ? { domain: emailDomain, source: "email" as const }
+    : websiteDomain
+      ? { domain: websiteDomain, source: "website" as const }
+      : null;
+
+  if (companyDomain) {
+    fields.domain = field(companyDomain.domain, companyDomain.source, null, companyDomain.domain, CONFIDENCE.domain);
+    const registrable = registrableDomain(companyDomain.domain, rules);
+
+    // ---- Firma aus der Domain ----
+    if (!input.company.trim()) {
+      const company = companyFromDomain(registrable);
+      if (company) {
+        fields.company = field(company, companyDomain.source, null, registrable.domain, CONFIDENCE.companyFromDomain);
+      }
+    }
+
+    // ---- Website aus der E-Mail-Domain ----
+    if (!input.website.trim() && companyDomain.source === "email") {
+      fields.website = field(`https://${registrable.domain}`, "email", null, emailDomain!, CONFIDENCE.websiteFromDomain);
+    }
+  }
+
+  // ---- Land & Sprache ----
+  const candidates: Array<{ locale: Locale; source: EnrichmentSource; rule: string; evidence: string; confidence: number }> = [];
+
+  const prefix = phonePrefix(input.phone, rules);
+  if (prefix) {
+    candidates.push({
+      locale: rules.phonePrefixes.get(prefix)!,
+      source: "phone",
+      rule: `phone_prefix:${prefix}`,
+      evidence: prefix,
+      confidence: CONFIDENCE.phoneCountry,
+    });
+  }
+  if (companyDomain) {
+    const tld = registrableDomain(companyDomain.domain, rules).tld;
+    const locale = rules.countryTlds.get(tld);
+    if (locale) {
+      candidates.push({
+        locale,
+        source: companyDomain.source,
+        rule: `country_tld:${tld}`,
+        evidence: companyDomain.domain,
+        confidence: CONFIDENCE.corporateTld,
+      });
+    }
+  }
+  // gmx.de, web.de, … sagen etwas über das Land, aber weniger als eine Firmen-Domain
+  if (emailDomain && freeMailProvider !== undefined) {
+    const tld = registrableDomain(emailDomain, rules).tld;
+    const locale = rules.countryTlds.get(tld);
+    if (locale) {
+      candidates.push({
+        locale,
+        source: "email",
+        rule: `country_tld:${tld}`,
+        evidence: emailDomain,
+        confidence: CONFIDENCE.freeMailTld,
+      });
+    }
+  }
+
+  const country = pickLocale(candidates, (locale) => locale.country);
+  if (country) {
+    fields.country = country;
+  }
+  const language = pickLocale(candidates, (locale) => locale.language);
+  if (language) {
+    fields.language = language;
+  }
+
+  // ---- Geschlecht & Anrede ----
+  const parsedName = parseName(input.name);
+  const gender = parsedName.firstName ? rules.firstNames.get(parsedName.firstName) : undefined;
+  if (gender) {
+    fields.gender = field(gender, "name", `first_name:${parsedName.firstName}`, parsedName.firstName!, CONFIDENCE.gender);
+
+    // Ohne erkannte Sprache: Deutsch wie der Standard in generate-email
+    const language = fields.language?.value ?? "de";
+    const salutation = rules.salutations.get(language);
+    if (salutation) {
+      // Akademische Titel gehören nur im Deutschen zur Anrede
+      const titles = language === "de" ? parsedName.titles : [];
+      fields.salutation = field(
+        [salutation[gender], ...titles].join(" "),
+        "name",
+        `salutation:${language}`,
+        input.name.trim(),
+        fields.language ? CONFIDENCE.salutation : CONFIDENCE.salutation - CONFIDENCE.agreement
+      );
+    }
+  }
+
+  return {
+    fields,
+    rules_version: rules.version,
+    enriched_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Sicherster Kandidat gewinnt; stimmen weitere Quellen mit ihm überein,
+ * steigt die Confidence
+ */
+function pickLocale(
+  candidates: Array<{ locale: Locale; source: EnrichmentSource; rule: string; evidence: string; confidence: number }>,
+  pick: (locale: Locale) => string | null
+): DerivedField | null {
+  const usable = candidates
+    .filter((candidate) => pick(candidate.locale) !== null)
+    .sort((a, b) => b.confidence - a.confidence);
+  if (usable.length === 0) {
+    return null;
+  }
+
+  const best = usable[0];
+  const value = pick(best.locale)!;
+  const agreeing = usable.slice(1).filter((candidate) => pick(candidate.locale) === value).length;
+  const confidence = Math.min(0.95, best.confidence + agreeing * CONFIDENCE.agreement);
+  return field(value, best.source, best.rule, best.evidence, Math.round(confidence * 100) / 100);
+}
+
+function field(
+  value: string,
+  source: EnrichmentSource,
+  rule: string | null,
+  evidence: string,
+  confidence: number
+): DerivedField {
+  return { value, source, rule, evidence, confidence };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function domainFromEmail(email: string): string | null {
+  const at = email.trim().lastIndexOf("@");
+  if (at <= 0) {
+    return null;
+  }
+  return normalizeDomain(email.trim().slice(at + 1));
+}
+
+function domainFromWebsite(website: string): string | null {
+  const trimmed = website.trim();
+  if (!trimmed) {
+    return null;
+  }
+  try {
+    const url = new URL(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return normalizeDomain(url.hostname.replace(/^www\./, ""));
+  } catch {
+    return null;
+  }
+}
+
+function normalizeDomain(value: string): string | null {
+  const domain = value.toLowerCase().replace(/\.$/, "");
+  return /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z][a-z0-9-]*[a-z0-9]$/.test(domain) ? domain : null;
+}
+
+/**
+ * "vertrieb.mueller-maschinenbau.co.uk" → label "mueller-maschinenbau",
+ * domain "mueller-maschinenbau.co.uk", tld "uk"
+ */
+function registrableDomain(domain: string, rules: EnrichmentRules): { label: string; domain: string; tld: string } {
+  const labels = domain.split(".");
+  const suffixLength = labels.length > 2 && rules.publicSuffixes.has(labels.slice(-2).join(".")) ? 2 : 1;
+  const registrable = labels.slice(-(suffixLength + 1));
+  return { label: registrable[0], domain: registrable.join("."), tld: labels[labels.length - 1] };
+}
+
+/**
+ * "mueller-maschinenbau" → "Mueller Maschinenbau", "sap" → "SAP".
+ * Umlaute lassen sich aus der Domain nicht zurückgewinnen.
+ */
+function companyFromDomain(registrable: { label: string }): string | null {
+  if (registrable.label.startsWith("xn--")) {
+    return null;
+  }
+  const words = registrable.label.split("-").filter(Boolean);
+  if (words.length === 0) {
+    return null;
+  }
+  if (words.length === 1 && words[0].length <= 3) {
+    return words[0].toUpperCase();
+  }
+  return words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+}
+
+/**
+ * Längste passende Ländervorwahl. Nationale Nummern (0…) haben keine.
+ */
+function phonePrefix(phone: string, rules: EnrichmentRules): string | null {
+  let digits = phone.replace(/[\s\-()/.]/g, "");
+  if (digits.startsWith("00")) {
+    digits = "+" + digits.slice(2);
+  }
+  if (!/^\+\d{4,}$/.test(digits)) {
+    return null;
+  }
+  for (let length = MAX_PREFIX_DIGITS; length >= 1; length--) {
+    const prefix = digits.slice(0, length + 1);
+    if (rules.phonePrefixes.has(prefix)) {
+      return prefix;
+    }
+  }
+  return null;
+}
+
+/**
+ * Vorname (klein geschrieben) und Titel für die Anrede.
+ * "Prof. Dr. Anna-Lena Schmidt" → anna, ["Prof.", "Dr."];
+ * "Schmidt, Anna" → anna
+ */
+function parseName(name: string): { firstName: string | null; titles: string[] } {
+  let rest = name.trim();
+  const comma = rest.indexOf(",");
+  if (comma > 0) {
+    rest = rest.slice(comma + 1).trim();
+  }
+
+  const titles: string[] = [];
+  const tokens = rest.split(/\s+/).filter(Boolean);
+  while (tokens.length > 0 && /\.$|^(?:MBA|DI|RA|StB|WP)$/.test(tokens[0])) {
+    const title = tokens.shift()!;
+    if (SALUTATION_TITLES.includes(title)) {
+      titles.push(title);
+    }
+  }
+
+  const first = tokens[0]?.split("-")[0]?.toLowerCase();
+  return { firstName: first && /^\p{L}+$/u.test(first) ? first : null, titles };
+}
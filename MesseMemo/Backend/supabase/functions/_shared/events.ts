@@ -0,0 +1,111 @@
+// ============================================
+// MesseMemo Messen (Events)
+// ============================================
+//
+// Messe-Kontext für die Prompts von process-card und generate-email (siehe
+// migrations/017_events.sql). Die Messe kommt aus dem Request (`event_id`)
+// oder ist die, die gerade läuft; `event_id: null` schaltet den Kontext ab.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isUuid } from "./supabase.ts";
+
+export interface TradeFairEvent {
+  id: string;
+  name: string;
+  venue: string | null;
+  city: string | null;
+  country: string | null;
+  starts_on: string;
+  ends_on: string;
+  time_zone: string;
+  booth: string | null;
+  products: string[];
+}
+
+/** Spalten für Prompts und Antworten */
+export const EVENT_COLUMNS = "id, name, venue, city, country, starts_on, ends_on, time_zone, booth, products";
+
+export type EventResolution =
+  | { event: TradeFairEvent | null }
+  | { error: string; status: number };
+
+/**
+ * Messe für einen Request. Der User-Client prüft per RLS, dass eine
+ * angegebene Messe dem User oder seiner Organisation gehört.
+ */
+export async function resolveEvent(supabaseClient: SupabaseClient, eventId: unknown): Promise<EventResolution> {
+  if (eventId === null) {
+    return { event: null };
+  }
+  if (eventId !== undefined && !isUuid(eventId)) {
+    return { error: "Ungültige event_id", status: 400 };
+  }
+
+  let id = eventId as string | undefined;
+  if (id === undefined) {
+    const { data, error } = await supabaseClient.rpc("current_event_id");
+    if (error) {
+      // Ohne Messe-Kontext weiterarbeiten statt den Request scheitern zu lassen
+      console.error("Active Event Lookup Error:", JSON.stringify(error));
+      return { event: null };
+    }
+    if (!data) {
+      return { event: null };
+    }
+    id = data as string;
+  }
+
+  const { data: event, error } = await supabaseClient
+    .from("events")
+    .select(EVENT_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Event Load Error:", JSON.stringify(error));
+    return { error: "Messe konnte nicht geladen werden", status: 500 };
+  }
+  if (!event && eventId !== undefined) {
+    return { error: "Messe nicht gefunden", status: 404 };
+  }
+  return { event: event as TradeFairEvent | null };
+}
+
+/**
+ * Messe als Prompt-Abschnitt (Deutsch, wie die übrigen Prompts)
+ */
+export function describeEventForPrompt(event: TradeFairEvent): string {
+  const place = [event.venue, event.city].filter(Boolean).join(", ");
+  const dates = event.starts_on === event.ends_on
+    ? formatDate(event.starts_on)
+    : `${formatDate(event.starts_on)} bis ${formatDate(event.ends_on)}`;
+
+  const lines = [`Messe: ${event.name}`];
+  if (place) {
+    lines.push(`Ort: ${place}`);
+  }
+  lines.push(`Zeitraum: ${dates}`);
+  if (event.booth) {
+    lines.push(`Unser Stand: ${event.booth}`);
+  }
+  if (event.products.length > 0) {
+    lines.push(`Gezeigte Produkte: ${event.products.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Felder, die das Ergebnis beeinflussen – für Cache-Schlüssel
+ */
+export function eventCacheInfo(event: TradeFairEvent | null): Record<string, unknown> | null {
+  if (!event) {
+    return null;
+  }
+  const { time_zone: _, ...fields } = event;
+  return fields;
+}
+
+function formatDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split("-");
+  return `${day}.${month}.${year}`;
+}
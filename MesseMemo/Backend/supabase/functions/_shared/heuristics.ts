@@ -0,0 +1,249 @@
+// ============================================
+// MesseMemo Regelbasierte Kontakt-Extraktion
+// ============================================
+//
+// Deterministische Extraktion aus OCR-Zeilen ohne Netzwerkzugriff
+// (Port der Logik aus OCRService.swift). Wird genutzt als:
+//   - Vorerkennung, deren Ergebnis dem LLM als Hinweis mitgegeben wird
+//   - kostenloser Fallback, wenn alle Modelle scheitern
+//
+// Das Ergebnis hat dieselbe Form wie die KI-Antwort und läuft danach
+// ebenfalls durch validateContact().
+
+const ACADEMIC_TITLES = [
+  "Dr.", "Prof.", "Prof. Dr.", "Dr.-Ing.", "Dipl.-Ing.", "Dipl.-Kfm.",
+  "Dr. med.", "Dr. jur.", "Dr. rer. nat.", "Dr. phil.", "MBA", "M.Sc.", "B.Sc.",
+  "Mag.", "DI", "Ing.", "RA", "StB", "WP",
+];
+
+const JOB_TITLES = [
+  "CEO", "CTO", "CFO", "COO", "CMO", "CIO",
+  "Geschäftsführer", "Geschäftsführerin", "Managing Director",
+  "Vorstand", "Vorstandsvorsitzender", "Vorstandsvorsitzende",
+  "Director", "Manager", "Senior Manager", "Partner",
+  "Head of", "Leiter", "Leiterin", "Abteilungsleiter",
+  "Sales", "Marketing", "Vertrieb", "Account", "Berater", "Consultant",
+  "Engineer", "Developer", "Designer", "Architect",
+  "Assistant", "Assistentin", "Sekretär", "Sekretärin",
+  "Projektleiter", "Projektmanager", "Team Lead",
+];
+
+const COMPANY_SUFFIXES = [
+  "GmbH", "AG", "SE", "KG", "OHG", "e.V.", "e.G.", "mbH", "UG", "KGaA", "PartG", "PartGmbB",
+  "Inc.", "Inc", "Corp.", "Corp", "Corporation", "Ltd.", "Ltd", "Limited",
+  "LLC", "LLP", "PLC", "S.A.", "S.L.", "B.V.", "N.V.", "Pty", "SRL", "SpA", "SARL", "SAS",
+];
+
+const ADDRESS_INDICATORS = [
+  "straße", "str.", "strasse", "weg", "platz", "allee", "ring", "gasse",
+  "street", "road", "rd.", "avenue", "ave.", "boulevard", "blvd.",
+  "postfach", "po box",
+];
+
+const NON_NAME_WORDS = ["straße", "str.", "platz", "gmbh", "ag", "ug", "tel", "fax", "www", "http"];
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const PHONE_PREFIX = /^(?:Tel|Phone|Fon|Mobil|Mobile|Handy|Telefon|Mob|T|M)\.?[:\s]*/i;
+const PHONE_PATTERNS = [
+  // Internationale Formate
+  /\+\d{1,3}[\s\-]?(?:\(0\)\s?)?\d{2,4}[\s\-/]?\d{3,4}[\s\-]?\d{0,5}/,
+  // Deutsche Formate
+  /0\d{2,4}[\s\-/]?\d{3,8}(?:[\s\-]\d{1,5})?/,
+  // Mit Klammern
+  /\(\d{2,5}\)[\s\-]?\d{3,10}/,
+];
+const WEBSITE_PATTERN = /(?:https?:\/\/)?(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}(?:\/\S*)?/i;
+const POSTAL_CITY_PATTERN = /(?:\b[A-Z]{1,2}\s*-\s*)?\b\d{4,5}\s+[A-ZÄÖÜ][\p{L}.\- ]+/u;
+const FAX_PATTERN = /^\s*(?:Fax|F)\.?[:\s]/i;
+
+export interface HeuristicContact {
+  name: string;
+  company: string;
+  email: string;
+  phone: string;
+  job_title: string;
+  website: string;
+  address: string;
+  confidence: Record<string, number>;
+}
+
+/**
+ * Extrahiert Kontaktdaten rein regelbasiert aus OCR-Zeilen
+ */
+export function extractHeuristically(lines: string[]): HeuristicContact {
+  const emails: string[] = [];
+  const phones: string[] = [];
+  const websites: string[] = [];
+  const addressLines: string[] = [];
+  const jobTitleLines: string[] = [];
+  const nameCandidates: { text: string; score: number; position: number }[] = [];
+  const companyCandidates: { text: string; score: number }[] = [];
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) {
+      return;
+    }
+
+    // 1. E-Mails
+    const lineEmails = line.match(EMAIL_PATTERN) ?? [];
+    emails.push(...lineEmails);
+
+    // 2. Telefonnummern (Fax-Zeilen ignorieren)
+    const phone = FAX_PATTERN.test(line) ? "" : extractPhone(line);
+    if (phone) {
+      phones.push(phone);
+    }
+
+    // 3. Website (nicht die Domain einer E-Mail-Adresse)
+    const withoutEmails = lineEmails.reduce((rest, email) => rest.replace(email, ""), line);
+    const websiteMatch = withoutEmails.match(WEBSITE_PATTERN)?.[0] ?? "";
+    const website = /www\.|https?:\/\/|\.(?:de|com|net|org|eu|at|ch|io)\b/i.test(websiteMatch) ? websiteMatch : "";
+    if (website) {
+      websites.push(website);
+    }
+
+    if (lineEmails.length > 0 || phone || website || FAX_PATTERN.test(line)) {
+      return;
+    }
+
+    // 4. Adresse
+    if (isAddress(line)) {
+      addressLines.push(line);
+      return;
+    }
+
+    // 5. Jobtitel
+    if (isJobTitle(line)) {
+      jobTitleLines.push(line);
+      return;
+    }
+
+    // 6. Firma
+    const companyScore = calculateCompanyScore(line);
+    if (companyScore > 0) {
+      companyCandidates.push({ text: line, score: companyScore });
+    }
+
+    // 7. Name
+    const nameScore = calculateNameScore(line, index);
+    if (nameScore > 0) {
+      nameCandidates.push({ text: line, score: nameScore, position: index });
+    }
+  });
+
+  const bestName = [...nameCandidates].sort((a, b) =>
+    a.score !== b.score ? b.score - a.score : a.position - b.position
+  )[0];
+  const bestCompany = [...companyCandidates].sort((a, b) => b.score - a.score)[0];
+  const name = bestName?.text ?? "";
+  const company = bestCompany && bestCompany.text !== name ? bestCompany.text : "";
+
+  return {
+    name,
+    company,
+    email: emails[0]?.toLowerCase() ?? "",
+    phone: selectBestPhone(phones),
+    job_title: jobTitleLines[0] ?? "",
+    website: websites[0] ?? "",
+    address: addressLines.join(", "),
+    // Regeln sind bei strukturierten Feldern zuverlässig, bei Name/Firma nicht
+    confidence: {
+      name: bestName ? Math.min(0.7, bestName.score / 100) : 0,
+      company: company ? Math.min(0.8, bestCompany.score / 60) : 0,
+      email: emails.length > 0 ? 0.9 : 0,
+      phone: phones.length > 0 ? 0.8 : 0,
+      job_title: jobTitleLines.length > 0 ? 0.6 : 0,
+      website: websites.length > 0 ? 0.8 : 0,
+      street: addressLines.length > 0 ? 0.6 : 0,
+      postal_code: addressLines.some((l) => /\d{4,5}/.test(l)) ? 0.8 : 0,
+      city: addressLines.length > 0 ? 0.6 : 0,
+      country: 0.4,
+    },
+  };
+}
+
+function extractPhone(line: string): string {
+  const text = line.replace(PHONE_PREFIX, "");
+  for (const pattern of PHONE_PATTERNS) {
+    const match = text.match(pattern);
+    if (match && match[0].replace(/\D/g, "").length >= 8) {
+      return match[0].trim();
+    }
+  }
+  return "";
+}
+
+/**
+ * Bevorzugt Mobilnummern (+49 1… oder 01…)
+ */
+function selectBestPhone(phones: string[]): string {
+  const mobile = phones.find((phone) => {
+    const digits = phone.replace(/\D/g, "");
+    return digits.startsWith("491") || digits.startsWith("01");
+  });
+  return mobile ?? phones[0] ?? "";
+}
+
+function isAddress(line: string): boolean {
+  const lower = line.toLowerCase();
+  // Indikatoren nur zusammen mit einer Hausnummer – sonst wäre "Engineering" eine Adresse
+  const hasIndicator = ADDRESS_INDICATORS.some((indicator) => lower.includes(indicator)) && /\d/.test(line);
+  return hasIndicator || POSTAL_CITY_PATTERN.test(line);
+}
+
+function isJobTitle(line: string): boolean {
+  const lower = line.toLowerCase();
+  return JOB_TITLES.some((title) => lower.includes(title.toLowerCase()));
+}
+
+/**
+ * Score, wie wahrscheinlich die Zeile ein Name ist
+ */
+function calculateNameScore(text: string, position: number): number {
+  const words = text.split(/\s+/);
+
+  // Keine Namen: zu kurz oder zu lang, enthält Zahlen oder viele Sonderzeichen
+  if (words.length < 2 || words.length > 6) return 0;
+  if (/\d/.test(text)) return 0;
+  if (text.replace(/[\p{L}\s.\-]/gu, "").length > 2) return 0;
+
+  const lower = text.toLowerCase();
+  if (NON_NAME_WORDS.some((word) => lower.split(/\s+/).includes(word) || lower.includes(`${word}.`))) {
+    return 0;
+  }
+
+  let score = 0;
+  if (ACADEMIC_TITLES.some((title) => text.includes(title))) score += 30;
+  if (words.every((word) => /^\p{Lu}/u.test(word))) score += 20;
+  if (position < 3) score += 15;
+  if (words.length <= 3) score += 10;
+  if (text.includes("-")) score += 5;
+
+  return score >= 15 ? score : 0;
+}
+
+/**
+ * Score, wie wahrscheinlich die Zeile ein Firmenname ist
+ */
+function calculateCompanyScore(text: string): number {
+  let score = 0;
+
+  const words = text.split(/\s+/);
+  if (COMPANY_SUFFIXES.some((suffix) => words.includes(suffix) || text.endsWith(` ${suffix}`))) {
+    score += 50;
+  }
+  // Komplett in Großbuchstaben (oft Logos)
+  if (text.length > 3 && text === text.toUpperCase() && /\p{L}/u.test(text)) {
+    score += 25;
+  }
+  if (text.includes("&") || text.includes("+")) {
+    score += 10;
+  }
+  // Sieht eher aus wie ein Name
+  if (calculateNameScore(text, 99) > 20 && score < 40) {
+    return 0;
+  }
+
+  return score;
+}
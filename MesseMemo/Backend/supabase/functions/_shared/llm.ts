@@ -0,0 +1,649 @@
+// ============================================
+// MesseMemo LLM Provider Layer
+// ============================================
+//
+// Gemeinsame KI-Anbindung für alle Edge Functions.
+//
+// Konfiguration über Supabase Secrets:
+//   LLM_PROVIDER            gemini (Default) | openai | ollama
+//   LLM_MODELS              Kommaliste ("gpt-4o-mini,gpt-4o") oder JSON-Array
+//                           ([{"model":"...","apiVersion":"v1beta","timeoutMs":15000,"vision":true}])
+//   LLM_BASE_URL            Basis-URL (z.B. lokaler Stub oder http://localhost:11434)
+//   LLM_API_KEY             API-Key (Fallback: GOOGLE_API_KEY bzw. OPENAI_API_KEY)
+//   LLM_TIMEOUT_MS          Default-Timeout pro Modell (20000)
+//   LLM_BREAKER_THRESHOLD   Fehler in Folge bis ein Modell übersprungen wird (3)
+//   LLM_BREAKER_COOLDOWN_MS Wie lange ein Modell übersprungen wird (60000)
+
+export type ProviderName = "gemini" | "openai" | "ollama";
+
+export interface ModelOption {
+  model: string;
+  /** Nur Gemini: v1 oder v1beta (JSON Mode gibt es nur in v1beta) */
+  apiVersion?: string;
+  timeoutMs?: number;
+  /** Kann das Modell Bilder verarbeiten? (undefined = ja) */
+  vision?: boolean;
+}
+
+export interface LlmImage {
+  mimeType: string;
+  /** Base64 ohne data:-Präfix */
+  data: string;
+}
+
+export interface LlmRequest {
+  prompt: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  topP?: number;
+  topK?: number;
+  /** Antwort als JSON anfordern */
+  json?: boolean;
+  /** Optionales JSON-Schema für Structured Output (impliziert json) */
+  jsonSchema?: Record<string, unknown>;
+  /** Bilder für multimodale Modelle (nur Modelle mit vision !== false) */
+  images?: LlmImage[];
+}
+
+export interface LlmResult {
+  text: string;
+  provider: ProviderName;
+  model: string;
+}
+
+export interface LlmConfig {
+  provider: ProviderName;
+  models: ModelOption[];
+  baseUrl: string;
+  apiKey: string | undefined;
+  defaultTimeoutMs: number;
+}
+
+export interface LlmStream {
+  provider: ProviderName;
+  model: string;
+  /** Text-Chunks in Reihenfolge; wirft LlmError bei Abbruch */
+  chunks: AsyncIterable<string>;
+}
+
+/** Antwortformate der Provider – nur die Felder, die gelesen werden */
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+interface OpenAiResponse {
+  choices?: {
+    message?: { content?: string | null };
+    delta?: { content?: string | null };
+  }[];
+}
+
+interface OllamaResponse {
+  response?: string;
+}
+
+interface LlmProvider {
+  buildRequest(
+    config: LlmConfig,
+    option: ModelOption,
+    request: LlmRequest,
+    stream: boolean
+  ): { url: string; init: RequestInit };
+  extractText(data: unknown): string;
+  /** Text aus einem einzelnen Stream-Chunk */
+  extractStreamText(data: unknown): string;
+  /** SSE ("data: {...}") oder zeilenweises JSON */
+  streamFormat: "sse" | "ndjson";
+}
+
+/**
+ * Alle Modelle fehlgeschlagen. `message` enthält den letzten Fehler,
+ * `attempts` die Fehler aller Modelle.
+ */
+export class LlmError extends Error {
+  constructor(message: string, public attempts: string[]) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+// ============================================
+// Konfiguration
+// ============================================
+
+// Fallback-Strategie: Neueste/zuverlässigste Modelle zuerst
+const DEFAULT_MODELS: Record<ProviderName, ModelOption[]> = {
+  gemini: [
+    { model: "gemini-1.5-flash-latest", apiVersion: "v1beta" },
+    { model: "gemini-1.5-pro-latest", apiVersion: "v1beta" },
+    { model: "gemini-1.5-flash-002", apiVersion: "v1beta" },
+    { model: "gemini-1.5-flash", apiVersion: "v1" },
+    { model: "gemini-1.5-flash-latest", apiVersion: "v1" },
+    { model: "gemini-2.0-flash-exp", apiVersion: "v1beta" },
+    { model: "gemini-pro", apiVersion: "v1beta", vision: false },
+  ],
+  openai: [
+    { model: "gpt-4o-mini" },
+    { model: "gpt-4o" },
+  ],
+  ollama: [
+    { model: "llama3.1", vision: false },
+    { model: "llava", vision: true },
+  ],
+};
+
+const DEFAULT_BASE_URLS: Record<ProviderName, string> = {
+  gemini: "https://generativelanguage.googleapis.com",
+  openai: "https://api.openai.com/v1",
+  ollama: "http://localhost:11434",
+};
+
+/**
+ * Liest die Provider-Konfiguration aus den Env Vars
+ */
+export function loadLlmConfig(): LlmConfig {
+  const rawProvider = (Deno.env.get("LLM_PROVIDER") || "gemini").toLowerCase();
+  const provider: ProviderName =
+    rawProvider === "openai" || rawProvider === "ollama" ? rawProvider : "gemini";
+
+  const fallbackKey = provider === "gemini"
+    ? Deno.env.get("GOOGLE_API_KEY")
+    : provider === "openai"
+    ? Deno.env.get("OPENAI_API_KEY")
+    : undefined;
+
+  return {
+    provider,
+    models: parseModels(Deno.env.get("LLM_MODELS")) ?? DEFAULT_MODELS[provider],
+    baseUrl: (Deno.env.get("LLM_BASE_URL") || DEFAULT_BASE_URLS[provider]).replace(/\/+$/, ""),
+    apiKey: Deno.env.get("LLM_API_KEY")?.trim() || fallbackKey?.trim() || undefined,
+    defaultTimeoutMs: Number(Deno.env.get("LLM_TIMEOUT_MS")) || 20000,
+  };
+}
+
+function parseModels(raw: string | undefined): ModelOption[] | null {
+  if (!raw?.trim()) {
+    return null;
+  }
+
+  if (raw.trim().startsWith("[")) {
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed) && parsed.every((m) => typeof m?.model === "string")) {
+        return parsed;
+      }
+    } catch (e) {
+      console.warn("LLM_MODELS ist kein gültiges JSON:", e);
+    }
+    return null;
+  }
+
+  return raw.split(",").map((m) => m.trim()).filter(Boolean).map((model) => ({ model }));
+}
+
+/**
+ * Prüft ob der konfigurierte Provider nutzbar ist (API-Key vorhanden).
+ * Gibt eine Fehlermeldung zurück oder null.
+ */
+export function checkLlmConfig(config: LlmConfig): string | null {
+  if (config.provider === "ollama") {
+    return null;
+  }
+  if (!config.apiKey) {
+    return config.provider === "gemini"
+      ? "Google API Key nicht konfiguriert. Bitte GOOGLE_API_KEY in Supabase Edge Function Secrets setzen."
+      : "LLM API Key nicht konfiguriert. Bitte LLM_API_KEY in Supabase Edge Function Secrets setzen.";
+  }
+  return null;
+}
+
+// ============================================
+// Circuit Breaker
+// ============================================
+// Lebt pro Edge-Function-Instanz. Modelle, die mehrfach in Folge scheitern,
+// werden für eine Cooldown-Phase übersprungen.
+
+interface BreakerState {
+  failures: number;
+  openUntil: number;
+}
+
+const breakers = new Map<string, BreakerState>();
+
+function breakerKey(config: LlmConfig, option: ModelOption): string {
+  return `${config.provider}:${option.model}:${option.apiVersion ?? ""}`;
+}
+
+function isBreakerOpen(key: string): boolean {
+  const state = breakers.get(key);
+  return !!state && state.openUntil > Date.now();
+}
+
+function recordSuccess(key: string) {
+  breakers.delete(key);
+}
+
+function recordFailure(key: string) {
+  const threshold = Number(Deno.env.get("LLM_BREAKER_THRESHOLD")) || 3;
+  const cooldownMs = Number(Deno.env.get("LLM_BREAKER_COOLDOWN_MS")) || 60000;
+  const state = breakers.get(key) ?? { failures: 0, openUntil: 0 };
+
+  state.failures += 1;
+  if (state.failures >= threshold) {
+    state.openUntil = Date.now() + cooldownMs;
+    // Nach dem Cooldown bekommt das Modell einen neuen Versuch (half-open)
+    state.failures = threshold - 1;
+    console.warn(`⚡️ Circuit open for ${key} (${cooldownMs}ms)`);
+  }
+  breakers.set(key, state);
+}
+
+// ============================================
+// Provider
+// ============================================
+
+const gemini: LlmProvider = {
+  streamFormat: "sse",
+  buildRequest(config, option, request, stream) {
+    const apiVersion = option.apiVersion || "v1beta";
+    const wantsJson = request.json || !!request.jsonSchema;
+    const generationConfig: Record<string, unknown> = {
+      temperature: request.temperature,
+      maxOutputTokens: request.maxOutputTokens,
+      topP: request.topP,
+      topK: request.topK,
+    };
+
+    // JSON Mode / responseSchema gibt es nur in v1beta – v1 bleibt prompt-basiert
+    if (wantsJson && apiVersion !== "v1") {
+      generationConfig.responseMimeType = "application/json";
+      if (request.jsonSchema) {
+        generationConfig.responseSchema = toGeminiSchema(request.jsonSchema);
+      }
+    }
+
+    return {
+      url: stream
+        ? `${config.baseUrl}/${apiVersion}/models/${option.model}:streamGenerateContent?alt=sse&key=${config.apiKey}`
+        : `${config.baseUrl}/${apiVersion}/models/${option.model}:generateContent?key=${config.apiKey}`,
+      init: {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          contents: [{
+            parts: [
+              { text: request.prompt },
+              ...(request.images ?? []).map((image) => ({
+                inline_data: { mime_type: image.mimeType, data: image.data },
+              })),
+            ],
+          }],
+          generationConfig,
+          safetySettings: [
+            { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_NONE" },
+            { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_NONE" },
+            { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_NONE" },
+            { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_NONE" },
+          ],
+        }),
+      },
+    };
+  },
+  extractText(data) {
+    // Gemini Response Format: candidates[0].content.parts[0].text
+    return (data as GeminiResponse | null)?.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  },
+  extractStreamText(data) {
+    // Stream-Chunks haben dasselbe Format wie die komplette Antwort
+    return gemini.extractText(data);
+  },
+};
+
+const openai: LlmProvider = {
+  streamFormat: "sse",
+  buildRequest(config, option, request, stream) {
+    const content = request.images?.length
+      ? [
+        { type: "text", text: request.prompt },
+        ...request.images.map((image) => ({
+          type: "image_url",
+          image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+        })),
+      ]
+      : request.prompt;
+
+    const body: Record<string, unknown> = {
+      model: option.model,
+      messages: [{ role: "user", content }],
+      temperature: request.temperature,
+      max_tokens: request.maxOutputTokens,
+      top_p: request.topP,
+      stream,
+    };
+
+    if (request.jsonSchema) {
+      body.response_format = {
+        type: "json_schema",
+        json_schema: { name: "result", schema: request.jsonSchema, strict: true },
+      };
+    } else if (request.json) {
+      body.response_format = { type: "json_object" };
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    return {
+      url: `${config.baseUrl}/chat/completions`,
+      init: { method: "POST", headers, body: JSON.stringify(body) },
+    };
+  },
+  extractText(data) {
+    return (data as OpenAiResponse | null)?.choices?.[0]?.message?.content || "";
+  },
+  extractStreamText(data) {
+    return (data as OpenAiResponse | null)?.choices?.[0]?.delta?.content || "";
+  },
+};
+
+const ollama: LlmProvider = {
+  streamFormat: "ndjson",
+  buildRequest(config, option, request, stream) {
+    const body: Record<string, unknown> = {
+      model: option.model,
+      prompt: request.prompt,
+      images: request.images?.map((image) => image.data),
+      stream,
+      options: {
+        temperature: request.temperature,
+        num_predict: request.maxOutputTokens,
+        top_p: request.topP,
+        top_k: request.topK,
+      },
+    };
+
+    if (request.jsonSchema) {
+      body.format = request.jsonSchema;
+    } else if (request.json) {
+      body.format = "json";
+    }
+
+    return {
+      url: `${config.baseUrl}/api/generate`,
+      init: {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+    };
+  },
+  extractText(data) {
+    return (data as OllamaResponse | null)?.response || "";
+  },
+  extractStreamText(data) {
+    return ollama.extractText(data);
+  },
+};
+
+const PROVIDERS: Record<ProviderName, LlmProvider> = { gemini, openai, ollama };
+
+/**
+ * Gemini erwartet ein OpenAPI-Subset: Typen in Großbuchstaben,
+ * kein additionalProperties.
+ */
+function toGeminiSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "additionalProperties" || key === "$schema") {
+      continue;
+    }
+    if (key === "type" && typeof value === "string") {
+      result.type = value.toUpperCase();
+    } else if (key === "properties" && value && typeof value === "object") {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, Record<string, unknown>>)
+          .map(([name, prop]) => [name, toGeminiSchema(prop)])
+      );
+    } else if (key === "items" && value && typeof value === "object") {
+      result.items = toGeminiSchema(value as Record<string, unknown>);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Schickt den Prompt an die konfigurierten Modelle (Fallback-Strategie).
+ * Jedes Modell hat ein eigenes Timeout; Modelle mit offenem Circuit
+ * Breaker werden übersprungen. Wirft LlmError wenn alle scheitern.
+ */
+export async function generateText(
+  request: LlmRequest,
+  config: LlmConfig = loadLlmConfig()
+): Promise<LlmResult> {
+  const provider = PROVIDERS[config.provider];
+  const attempts: string[] = [];
+
+  for (const option of candidateModels(config, request)) {
+    const key = breakerKey(config, option);
+    const label = `${option.model}${option.apiVersion ? ` (${option.apiVersion})` : ""}`;
+    const timeoutMs = option.timeoutMs ?? config.defaultTimeoutMs;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    console.log(`Trying model: ${label} via ${config.provider}`);
+
+    try {
+      const { url, init } = provider.buildRequest(config, option, request, false);
+      const response = await fetch(url, { ...init, signal: controller.signal });
+
+      if (!response.ok) {
+        const errorData = await response.text();
+        const statusText = response.statusText || `HTTP ${response.status}`;
+        attempts.push(`Model ${label}: ${response.status} ${statusText} - ${errorData}`);
+        console.warn(`❌ Model ${label} failed [${response.status}]:`, errorData);
+        recordFailure(key);
+        continue;
+      }
+
+      const text = provider.extractText(await response.json());
+      if (!text) {
+        attempts.push(`Model ${label}: Leere Antwort`);
+        recordFailure(key);
+        continue;
+      }
+
+      console.log(`✅ Successfully used model: ${label}`);
+      recordSuccess(key);
+      return { text, provider: config.provider, model: option.model };
+    } catch (fetchError) {
+      const message = controller.signal.aborted
+        ? `Timeout nach ${timeoutMs}ms`
+        : fetchError instanceof Error ? fetchError.message : String(fetchError);
+      attempts.push(`Model ${label}: ${message}`);
+      console.warn(`Model ${label} threw error:`, message);
+      recordFailure(key);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw new LlmError(attempts[attempts.length - 1] || "Kein Modell konfiguriert", attempts);
+}
+
+/**
+ * Öffnet einen Text-Stream. Die Fallback-Strategie greift nur bis zur
+ * ersten Antwort eines Modells – danach kann nicht mehr gewechselt werden.
+ * Das Timeout gilt bis zum Verbindungsaufbau und danach als Leerlauf-Timeout
+ * zwischen zwei Chunks. Wirft LlmError wenn kein Modell antwortet.
+ */
+export async function openTextStream(
+  request: LlmRequest,
+  config: LlmConfig = loadLlmConfig()
+): Promise<LlmStream> {
+  const provider = PROVIDERS[config.provider];
+  const attempts: string[] = [];
+
+  for (const option of candidateModels(config, request)) {
+    const key = breakerKey(config, option);
+    const label = `${option.model}${option.apiVersion ? ` (${option.apiVersion})` : ""}`;
+    const timeoutMs = option.timeoutMs ?? config.defaultTimeoutMs;
+    const controller = new AbortController();
+    let timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    console.log(`Streaming model: ${label} via ${config.provider}`);
+
+    try {
+      const { url, init } = provider.buildRequest(config, option, request, true);
+      const response = await fetch(url, { ...init, signal: controller.signal });
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.text();
+        attempts.push(`Model ${label}: ${response.status} ${response.statusText} - ${errorData}`);
+        console.warn(`❌ Model ${label} failed [${response.status}]:`, errorData);
+        clearTimeout(timer);
+        recordFailure(key);
+        continue;
+      }
+
+      const body = response.body;
+      const resetTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => controller.abort(), timeoutMs);
+      };
+
+      const chunks = async function* (): AsyncGenerator<string> {
+        let received = false;
+        try {
+          for await (const data of readStreamEvents(body, provider.streamFormat)) {
+            resetTimer();
+            const text = provider.extractStreamText(data);
+            if (text) {
+              received = true;
+              yield text;
+            }
+          }
+          if (!received) {
+            throw new LlmError(`Model ${label}: Leere Antwort`, [...attempts]);
+          }
+          recordSuccess(key);
+        } catch (streamError) {
+          recordFailure(key);
+          if (streamError instanceof LlmError) {
+            throw streamError;
+          }
+          const message = controller.signal.aborted
+            ? `Timeout nach ${timeoutMs}ms ohne Daten`
+            : streamError instanceof Error ? streamError.message : String(streamError);
+          throw new LlmError(`Model ${label}: ${message}`, [...attempts, message]);
+        } finally {
+          clearTimeout(timer);
+          controller.abort();
+        }
+      };
+
+      console.log(`✅ Streaming from model: ${label}`);
+      return { provider: config.provider, model: option.model, chunks: chunks() };
+    } catch (fetchError) {
+      clearTimeout(timer);
+      const message = controller.signal.aborted
+        ? `Timeout nach ${timeoutMs}ms`
+        : fetchError instanceof Error ? fetchError.message : String(fetchError);
+      attempts.push(`Model ${label}: ${message}`);
+      console.warn(`Model ${label} threw error:`, message);
+      recordFailure(key);
+    }
+  }
+
+  throw new LlmError(attempts[attempts.length - 1] || "Kein Modell konfiguriert", attempts);
+}
+
+/**
+ * Zerlegt einen SSE- oder NDJSON-Body in JSON-Objekte
+ */
+async function* readStreamEvents(
+  body: ReadableStream<Uint8Array>,
+  format: "sse" | "ndjson"
+): AsyncGenerator<unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parseLine = (rawLine: string): unknown | undefined => {
+    const line = rawLine.trim();
+    if (!line) return undefined;
+    if (format === "sse") {
+      if (!line.startsWith("data:")) return undefined;
+      const payload = line.slice(5).trim();
+      if (payload === "[DONE]") return undefined;
+      return JSON.parse(payload);
+    }
+    return JSON.parse(line);
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      const event = parseLine(line);
+      if (event !== undefined) yield event;
+    }
+  }
+
+  const last = parseLine(buffer);
+  if (last !== undefined) yield last;
+}
+
+/**
+ * Modelle in Fallback-Reihenfolge, gefiltert nach Bildfähigkeit und Circuit Breaker
+ */
+function candidateModels(config: LlmConfig, request: LlmRequest): ModelOption[] {
+  // Mit Bildern kommen nur bildfähige Modelle in Frage
+  const models = request.images?.length
+    ? config.models.filter((m) => m.vision !== false)
+    : config.models;
+  if (models.length === 0) {
+    throw new LlmError("Kein bildfähiges Modell konfiguriert", []);
+  }
+
+  // Sind alle Circuits offen, wird trotzdem versucht (besser als sofort aufgeben)
+  const candidates = models.filter((m) => !isBreakerOpen(breakerKey(config, m)));
+  return candidates.length > 0 ? candidates : models;
+}
+
+/**
+ * Wie generateText, parst die Antwort aber als JSON.
+ * Wirft SyntaxError wenn die Antwort kein gültiges JSON ist.
+ */
+export async function generateJson(
+  request: LlmRequest,
+  config?: LlmConfig
+): Promise<LlmResult & { json: unknown }> {
+  const result = await generateText({ ...request, json: true }, config);
+  return { ...result, json: parseJsonText(result.text) };
+}
+
+/**
+ * Parst JSON aus einer Modell-Antwort (entfernt Markdown Code-Blöcke)
+ */
+export function parseJsonText(text: string): unknown {
+  const cleanJson = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  return JSON.parse(cleanJson);
+}
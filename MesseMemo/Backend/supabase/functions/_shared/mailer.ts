@@ -0,0 +1,265 @@
+// ============================================
+// MesseMemo Mailer
+// ============================================
+//
+// Versand über einen beliebigen SMTP-Server (denomailer) oder die HTTP-API
+// von Resend. Zum Testen reicht ein lokaler SMTP-Catch-All (z.B. Mailpit
+// oder MailHog auf Port 1025, SMTP_SECURITY=none).
+//
+// Konfiguration über Supabase Secrets:
+//   MAIL_PROVIDER   smtp (Default) | resend
+//   MAIL_FROM       Absender, z.B. "MesseMemo <noreply@messememo.app>" (Pflicht,
+//                   Fallback: SMTP_FROM)
+//
+//   SMTP_HOST       Hostname (Pflicht bei smtp)
+//   SMTP_PORT       Port (Default: 465 bei tls, 587 bei starttls, 25 bei none)
+//   SMTP_SECURITY   tls | starttls (Default) | none
+//   SMTP_USER       Benutzer (optional)
+//   SMTP_PASSWORD   Passwort (optional)
+//
+//   RESEND_API_KEY         API Key (Pflicht bei resend)
+//   RESEND_WEBHOOK_SECRET  Signing Secret des Webhooks (whsec_…) für Bounces
+
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { constantTimeEqual } from "./supabase.ts";
+
+export type MailProvider = "smtp" | "resend";
+export type SmtpSecurity = "tls" | "starttls" | "none";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  security: SmtpSecurity;
+  username: string | undefined;
+  password: string | undefined;
+  from: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  /** Überschreibt MAIL_FROM (z.B. Absender im Namen des Users) */
+  from?: string;
+  replyTo?: string;
+  headers?: Record<string, string>;
+  /** Verhindert Doppelversand bei Wiederholungen (nur resend) */
+  idempotencyKey?: string;
+}
+
+export interface SentMail {
+  provider: MailProvider;
+  /** ID beim Provider (resend), für Bounce-Zuordnung */
+  messageId: string | null;
+}
+
+export class MailError extends Error {
+  /** Erneuter Versuch ist sinnlos (Adresse abgelehnt, Absender ungültig) */
+  readonly permanent: boolean;
+
+  constructor(message: string, permanent = false) {
+    super(message);
+    this.name = "MailError";
+    this.permanent = permanent;
+  }
+}
+
+const DEFAULT_PORTS: Record<SmtpSecurity, number> = { tls: 465, starttls: 587, none: 25 };
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+const RESEND_API_URL = "https://api.resend.com/emails";
+const RESEND_TIMEOUT_MS = 15000;
+
+// Toleranz für den Zeitstempel signierter Webhooks
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+export function mailProvider(): MailProvider {
+  return (Deno.env.get("MAIL_PROVIDER") || "smtp").toLowerCase() === "resend" ? "resend" : "smtp";
+}
+
+function mailFrom(): string {
+  return Deno.env.get("MAIL_FROM")?.trim() || Deno.env.get("SMTP_FROM")?.trim() || "";
+}
+
+export function loadSmtpConfig(): SmtpConfig {
+  const rawSecurity = (Deno.env.get("SMTP_SECURITY") || "starttls").toLowerCase();
+  const security: SmtpSecurity = rawSecurity === "tls" || rawSecurity === "none" ? rawSecurity : "starttls";
+
+  return {
+    host: Deno.env.get("SMTP_HOST")?.trim() ?? "",
+    port: Number(Deno.env.get("SMTP_PORT")) || DEFAULT_PORTS[security],
+    security,
+    username: Deno.env.get("SMTP_USER")?.trim() || undefined,
+    password: Deno.env.get("SMTP_PASSWORD") || undefined,
+    from: mailFrom(),
+  };
+}
+
+/**
+ * Fehlermeldung, wenn der gewählte Provider nicht vollständig konfiguriert ist, sonst null
+ */
+export function checkMailConfig(provider: MailProvider = mailProvider()): string | null {
+  if (!mailFrom()) {
+    return "E-Mail-Versand nicht konfiguriert (MAIL_FROM fehlt)";
+  }
+  if (provider === "resend") {
+    return Deno.env.get("RESEND_API_KEY") ? null : "E-Mail-Versand nicht konfiguriert (RESEND_API_KEY fehlt)";
+  }
+  return loadSmtpConfig().host ? null : "E-Mail-Versand nicht konfiguriert (SMTP_HOST fehlt)";
+}
+
+export function isEmailAddress(value: unknown): value is string {
+  return typeof value === "string" && value.length <= 254 && EMAIL_PATTERN.test(value);
+}
+
+/**
+ * Verschickt eine E-Mail über den konfigurierten Provider.
+ * Wirft MailError bei Konfigurations-, Verbindungs- oder Provider-Fehlern.
+ */
+export async function sendMail(message: MailMessage, provider: MailProvider = mailProvider()): Promise<SentMail> {
+  const configError = checkMailConfig(provider);
+  if (configError) {
+    throw new MailError(configError);
+  }
+  if (!isEmailAddress(message.to)) {
+    throw new MailError(`Ungültige Empfänger-Adresse: ${message.to}`, true);
+  }
+
+  return provider === "resend"
+    ? await sendViaResend(message)
+    : await sendViaSmtp(message, loadSmtpConfig());
+}
+
+// ============================================
+// SMTP (denomailer)
+// ============================================
+
+async function sendViaSmtp(message: MailMessage, config: SmtpConfig): Promise<SentMail> {
+  const client = new SMTPClient({
+    connection: {
+      hostname: config.host,
+      port: config.port,
+      tls: config.security === "tls",
+      auth: config.username ? { username: config.username, password: config.password ?? "" } : undefined,
+    },
+    debug: {
+      // Lokaler Catch-All ohne TLS
+      allowUnsecure: config.security === "none",
+      noStartTLS: config.security === "none",
+    },
+  });
+
+  try {
+    await client.send({
+      from: message.from ?? config.from,
+      to: message.to,
+      replyTo: message.replyTo,
+      subject: message.subject,
+      content: message.text,
+      html: message.html,
+      headers: message.headers,
+    });
+    return { provider: "smtp", messageId: null };
+  } catch (error) {
+    const text = error instanceof Error ? error.message : String(error);
+    // 5xx-Antworten des Servers (z.B. 550 Mailbox unavailable) sind endgültig
+    throw new MailError(text, /\b5\d\d\b/.test(text));
+  } finally {
+    try {
+      await client.close();
+    } catch {
+      // Verbindung bereits geschlossen
+    }
+  }
+}
+
+// ============================================
+// Resend (HTTP-API)
+// ============================================
+
+async function sendViaResend(message: MailMessage): Promise<SentMail> {
+  let response: Response;
+  try {
+    response = await fetch(RESEND_API_URL, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${Deno.env.get("RESEND_API_KEY")}`,
+        "Content-Type": "application/json",
+        ...(message.idempotencyKey ? { "Idempotency-Key": message.idempotencyKey } : {}),
+      },
+      body: JSON.stringify({
+        from: message.from ?? mailFrom(),
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        reply_to: message.replyTo,
+        headers: message.headers,
+      }),
+      signal: AbortSignal.timeout(RESEND_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new MailError(`Resend nicht erreichbar: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let body: { id?: string; message?: string } = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Kein JSON-Body
+  }
+
+  if (!response.ok) {
+    // 429 und 5xx sind vorübergehend, alles andere liegt an der Mail selbst
+    const permanent = response.status !== 429 && response.status < 500;
+    throw new MailError(`Resend HTTP ${response.status}: ${body.message ?? "unbekannter Fehler"}`, permanent);
+  }
+
+  return { provider: "resend", messageId: body.id ?? null };
+}
+
+/**
+ * Prüft die Signatur eines Resend-Webhooks (Svix: HMAC-SHA256 über
+ * "<svix-id>.<svix-timestamp>.<body>" mit dem Secret aus RESEND_WEBHOOK_SECRET)
+ */
+export async function verifyResendWebhook(headers: Headers, rawBody: string): Promise<boolean> {
+  const secret = Deno.env.get("RESEND_WEBHOOK_SECRET");
+  const id = headers.get("svix-id");
+  const timestamp = headers.get("svix-timestamp");
+  const signatures = headers.get("svix-signature");
+  if (!secret || !id || !timestamp || !signatures) {
+    return false;
+  }
+
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  let secretBytes: ArrayBuffer;
+  try {
+    secretBytes = Uint8Array.from(atob(secret.replace(/^whsec_/, "")), (c) => c.charCodeAt(0)).buffer;
+  } catch {
+    console.error("RESEND_WEBHOOK_SECRET ist kein gültiges Base64");
+    return false;
+  }
+
+  const key = await crypto.subtle.importKey("raw", secretBytes, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${id}.${timestamp}.${rawBody}`));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(signature)));
+
+  // Header enthält ggf. mehrere Signaturen: "v1,<base64> v1,<base64>"
+  return signatures.split(" ").some((entry) => constantTimeEqual(entry.split(",")[1] ?? "", expected));
+}
+
+/**
+ * Minimales Escaping für HTML-Mails
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,192 @@
+// ============================================
+// MesseMemo Benachrichtigungen
+// ============================================
+//
+// Ein Versandweg pro Kanal (E-Mail, Webhook, Push), austauschbar über
+// SENDERS. Neue Kanäle implementieren NotificationSender und werden dort
+// eingetragen (plus CHECK in user_settings.digest_channel).
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkMailConfig, MailError, sendMail } from "./mailer.ts";
+import { checkApnsConfig, loadApnsConfig, PushDevice, sendPush } from "./push.ts";
+import { checkWebhookUrl, postWebhook } from "./webhooks.ts";
+
+export type NotificationChannel = "email" | "webhook" | "push";
+
+export interface Notification {
+  /** Eindeutige ID (Webhook-Header X-MesseMemo-Delivery) */
+  id: string;
+  /** Ereignistyp, z.B. "follow_up_digest" (Webhook-Feld "event") */
+  event: string;
+  /** Betreff bzw. Push-Titel */
+  subject: string;
+  text: string;
+  html?: string;
+  /** Kurzfassung für Push (Default: subject) */
+  pushBody?: string;
+  /** Strukturierte Daten für Webhook und App */
+  data: Record<string, unknown>;
+}
+
+export interface Recipient {
+  userId: string;
+  email?: string | null;
+  webhookUrl?: string | null;
+  /** Signatur-Secret für webhookUrl (X-MesseMemo-Signature) */
+  webhookSecret?: string | null;
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  error?: string;
+}
+
+export interface NotificationSender {
+  /** Fehlermeldung, wenn der Kanal serverseitig nicht konfiguriert ist */
+  checkConfig(): string | null;
+  send(supabaseAdmin: SupabaseClient, recipient: Recipient, notification: Notification): Promise<DeliveryResult>;
+}
+
+// ============================================
+// E-Mail (SMTP oder Resend)
+// ============================================
+
+const emailSender: NotificationSender = {
+  checkConfig: () => checkMailConfig(),
+
+  async send(_supabaseAdmin, recipient, notification) {
+    if (!recipient.email) {
+      return { ok: false, error: "Keine E-Mail-Adresse hinterlegt" };
+    }
+    try {
+      await sendMail({
+        to: recipient.email,
+        subject: notification.subject,
+        text: notification.text,
+        html: notification.html,
+      });
+      return { ok: true };
+    } catch (error) {
+      if (error instanceof MailError) {
+        return { ok: false, error: error.message };
+      }
+      throw error;
+    }
+  },
+};
+
+// ============================================
+// Webhook (HTTPS POST mit JSON, signiert)
+// ============================================
+// Gleiche Header und Signatur wie die CRM-Webhooks (_shared/webhooks.ts).
+// Die URL wird beim Speichern und vor jedem Versand geprüft – sie stammt
+// vom User und könnte seitdem auf eine interne Adresse zeigen.
+
+const webhookSender: NotificationSender = {
+  checkConfig: () => null,
+
+  async send(_supabaseAdmin, recipient, notification) {
+    if (!recipient.webhookUrl || !recipient.webhookSecret) {
+      return { ok: false, error: "Keine gültige Webhook-URL hinterlegt" };
+    }
+    const urlError = checkWebhookUrl(recipient.webhookUrl);
+    if (urlError) {
+      return { ok: false, error: `Webhook-URL abgelehnt: ${urlError}` };
+    }
+
+    const result = await postWebhook({
+      url: recipient.webhookUrl,
+      secret: recipient.webhookSecret,
+      deliveryId: notification.id,
+      eventType: notification.event,
+      body: JSON.stringify({
+        id: notification.id,
+        event: notification.event,
+        sent_at: new Date().toISOString(),
+        user_id: recipient.userId,
+        subject: notification.subject,
+        text: notification.text,
+        data: notification.data,
+      }),
+    });
+    return result.ok ? { ok: true } : { ok: false, error: result.error };
+  },
+};
+
+// ============================================
+// Push (APNs) an alle aktiven Geräte
+// ============================================
+
+const pushSender: NotificationSender = {
+  checkConfig: () => checkApnsConfig(loadApnsConfig()),
+
+  async send(supabaseAdmin, recipient, notification) {
+    const { data: devices, error } = await supabaseAdmin
+      .from("push_devices")
+      .select("id, token, environment")
+      .eq("user_id", recipient.userId)
+      .is("disabled_at", null);
+
+    if (error) {
+      console.error("Push Devices Lookup Error:", JSON.stringify(error));
+      return { ok: false, error: "Geräte konnten nicht geladen werden" };
+    }
+    if (!devices?.length) {
+      return { ok: false, error: "Kein Gerät für Push registriert" };
+    }
+
+    const errors: string[] = [];
+    let delivered = 0;
+    for (const device of devices as (PushDevice & { id: string })[]) {
+      try {
+        const result = await sendPush(device, {
+          title: notification.subject,
+          body: notification.pushBody ?? notification.subject,
+          data: { event: notification.event, ...notification.data },
+          collapseId: notification.event,
+        });
+        if (result.ok) {
+          delivered++;
+          continue;
+        }
+        errors.push(`${result.status} ${result.reason ?? ""}`.trim());
+        if (result.invalidToken) {
+          await supabaseAdmin
+            .from("push_devices")
+            .update({ disabled_at: new Date().toISOString(), last_error: result.reason ?? String(result.status) })
+            .eq("id", device.id);
+        }
+      } catch (pushError) {
+        errors.push(pushError instanceof Error ? pushError.message : String(pushError));
+      }
+    }
+
+    return delivered > 0 ? { ok: true } : { ok: false, error: `APNs: ${errors.join(", ")}` };
+  },
+};
+
+export const SENDERS: Record<NotificationChannel, NotificationSender> = {
+  email: emailSender,
+  webhook: webhookSender,
+  push: pushSender,
+};
+
+/**
+ * Verschickt die Benachrichtigung über den gewählten Kanal
+ */
+export async function deliverNotification(
+  supabaseAdmin: SupabaseClient,
+  channel: NotificationChannel,
+  recipient: Recipient,
+  notification: Notification
+): Promise<DeliveryResult> {
+  const sender = SENDERS[channel];
+  if (!sender) {
+    return { ok: false, error: `Unbekannter Kanal: ${channel}` };
+  }
+  const configError = sender.checkConfig();
+  if (configError) {
+    return { ok: false, error: configError };
+  }
+  return await sender.send(supabaseAdmin, recipient, notification);
+}
@@ -0,0 +1,107 @@
+// ============================================
+// MesseMemo Opt-out (Sperrliste)
+// ============================================
+//
+// Kontakte, die weiteren Mails widersprochen haben (email_opt_outs, siehe
+// migrations/015_email_outbox.sql). Jede Mail aus send-email enthält einen
+// Abmelde-Link (auch als List-Unsubscribe Header), signiert mit
+// EMAIL_UNSUBSCRIBE_SECRET – ohne Secret gibt es keinen Link.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { constantTimeEqual } from "./supabase.ts";
+
+export type OptOutSource = "manual" | "unsubscribe" | "bounce";
+
+export function normalizeOptOutEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * true, wenn der Kontakt dem User widersprochen hat. Bei DB-Fehlern
+ * ebenfalls true: lieber eine Mail zu wenig als eine ohne Einwilligung.
+ */
+export async function isOptedOut(supabaseAdmin: SupabaseClient, userId: string, email: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("email_opt_outs")
+    .select("email")
+    .eq("user_id", userId)
+    .eq("email", normalizeOptOutEmail(email))
+    .maybeSingle();
+
+  if (error) {
+    console.error("Opt-out Lookup Error:", JSON.stringify(error));
+    return true;
+  }
+  return data !== null;
+}
+
+/**
+ * Trägt den Kontakt in die Sperrliste ein (bestehende Einträge bleiben)
+ */
+export async function addOptOut(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  email: string,
+  source: OptOutSource,
+  reason?: string
+): Promise<boolean> {
+  const { error } = await supabaseAdmin
+    .from("email_opt_outs")
+    .upsert({
+      user_id: userId,
+      email: normalizeOptOutEmail(email),
+      source,
+      reason: reason?.substring(0, 500) ?? null,
+    }, { onConflict: "user_id,email", ignoreDuplicates: true });
+
+  if (error) {
+    console.error("Opt-out Insert Error:", JSON.stringify(error));
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Abmelde-Link für einen Kontakt, null ohne EMAIL_UNSUBSCRIBE_SECRET
+ */
+export async function unsubscribeUrl(userId: string, email: string): Promise<string | null> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const token = await unsubscribeToken(userId, email);
+  if (!supabaseUrl || !token) {
+    return null;
+  }
+
+  const url = new URL(`${supabaseUrl.replace(/\/$/, "")}/functions/v1/send-email/unsubscribe`);
+  url.searchParams.set("u", userId);
+  url.searchParams.set("e", normalizeOptOutEmail(email));
+  url.searchParams.set("t", token);
+  return url.toString();
+}
+
+export async function verifyUnsubscribeToken(userId: string, email: string, token: string): Promise<boolean> {
+  const expected = await unsubscribeToken(userId, email);
+  return expected !== null && constantTimeEqual(token, expected);
+}
+
+async function unsubscribeToken(userId: string, email: string): Promise<string | null> {
+  const secret = Deno.env.get("EMAIL_UNSUBSCRIBE_SECRET");
+  if (!secret) {
+    return null;
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${userId}:${normalizeOptOutEmail(email)}`)
+  );
+
+  return btoa(String.fromCharCode(...new Uint8Array(signature)))
+    .replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
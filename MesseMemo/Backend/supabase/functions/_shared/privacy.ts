@@ -0,0 +1,123 @@
+// ============================================
+// MesseMemo Datenexport (DSGVO Art. 15/20)
+// ============================================
+//
+// Lädt alle Zeilen eines Users für GET /privacy/export. Service-Client, jede
+// Abfrage filtert auf user_id: der Export enthält auch Tabellen ohne
+// Client-Policies (webhook_endpoints, ai_result_cache) und nur die eigenen
+// Leads, nicht die des Teams.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const EXPORT_PAGE_SIZE = 1000;
+
+export interface ExportTable {
+  table: string;
+  columns?: string;
+  /** Eindeutige Sortierung für die Seiten (Primärschlüssel) */
+  order: string[];
+}
+
+/** Alle Tabellen mit user_id, die personenbezogene Daten des Users enthalten */
+export const EXPORT_TABLES: ExportTable[] = [
+  { table: "user_settings", order: ["user_id"] },
+  { table: "leads", order: ["id"] },
+  { table: "events", order: ["id"] },
+  { table: "email_templates", order: ["id"] },
+  { table: "lead_merges", order: ["id"] },
+  { table: "credit_transactions", order: ["id"] },
+  { table: "credit_reservations", order: ["id"] },
+  { table: "app_store_transactions", order: ["transaction_id"] },
+  { table: "push_devices", order: ["id"] },
+  { table: "follow_up_digests", order: ["id"] },
+  { table: "email_outbox", order: ["id"] },
+  { table: "email_opt_outs", order: ["email"] },
+  { table: "memberships", order: ["user_id"] },
+  { table: "organization_credit_transactions", order: ["id"] },
+  // Ohne Secret
+  {
+    table: "webhook_endpoints",
+    columns: "id, url, description, event_types, format, enabled, disabled_reason, " +
+      "last_success_at, last_failure_at, last_error, created_at, updated_at",
+    order: ["id"],
+  },
+  { table: "webhook_deliveries", order: ["id"] },
+  { table: "webhook_dead_letters", order: ["id"] },
+  { table: "ai_result_cache", order: ["function_name", "input_hash"] },
+  { table: "deletion_receipts", order: ["id"] },
+];
+
+export interface UserData {
+  profile: Record<string, unknown> | null;
+  /** Nur Name und ID, die Daten der anderen Mitglieder gehören nicht dazu */
+  organization: Record<string, unknown> | null;
+  data: Record<string, unknown[]>;
+}
+
+/**
+ * Profil, Organisation und alle EXPORT_TABLES eines Users.
+ * { error } mit der Meldung für den Client, wenn eine Abfrage fehlschlägt.
+ */
+export async function loadUserData(
+  supabaseAdmin: SupabaseClient,
+  userId: string
+): Promise<UserData | { error: string }> {
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from("profiles")
+    .select("*")
+    .eq("id", userId)
+    .maybeSingle();
+  if (profileError) {
+    console.error("Export Profile Error:", JSON.stringify(profileError));
+    return { error: "Profil konnte nicht geladen werden" };
+  }
+
+  const data: Record<string, unknown[]> = {};
+  for (const spec of EXPORT_TABLES) {
+    const rows = await loadAllRows(supabaseAdmin, spec, userId);
+    if (!rows) {
+      return { error: `Export fehlgeschlagen (${spec.table})` };
+    }
+    data[spec.table] = rows;
+  }
+
+  const membership = data.memberships[0] as { organization_id?: string } | undefined;
+  let organization = null;
+  if (membership?.organization_id) {
+    const { data: row, error } = await supabaseAdmin
+      .from("organizations")
+      .select("id, name, created_at")
+      .eq("id", membership.organization_id)
+      .maybeSingle();
+    if (error) {
+      console.error("Export Organization Error:", JSON.stringify(error));
+      return { error: "Organisation konnte nicht geladen werden" };
+    }
+    organization = row;
+  }
+
+  return { profile, organization, data };
+}
+
+async function loadAllRows(supabaseAdmin: SupabaseClient, spec: ExportTable, userId: string): Promise<unknown[] | null> {
+  const rows: unknown[] = [];
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    let query = supabaseAdmin
+      .from(spec.table)
+      .select(spec.columns ?? "*")
+      .eq("user_id", userId);
+    for (const column of spec.order) {
+      query = query.order(column, { ascending: true });
+    }
+    const { data, error } = await query.range(from, from + EXPORT_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error(`Export ${spec.table} Error:`, JSON.stringify(error));
+      return null;
+    }
+    rows.push(...(data ?? []));
+    if ((data ?? []).length < EXPORT_PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
@@ -0,0 +1,179 @@
+// ============================================
+// MesseMemo Push Notifications (APNs)
+// ============================================
+//
+// Versand über die APNs HTTP/2 API mit Token-Authentifizierung (.p8 Key).
+// Das JWT wird ca. 50 Minuten wiederverwendet (Apple erlaubt max. 60).
+//
+// Konfiguration über Supabase Secrets:
+//   APNS_KEY_ID       Key ID des .p8 Keys
+//   APNS_TEAM_ID      Team ID
+//   APNS_PRIVATE_KEY  Inhalt der .p8 Datei (PEM)
+//   APNS_TOPIC        Bundle ID der App (Fallback: APP_STORE_BUNDLE_ID)
+
+export interface ApnsConfig {
+  keyId: string;
+  teamId: string;
+  privateKey: string;
+  topic: string;
+}
+
+export interface PushDevice {
+  token: string;
+  environment: "production" | "sandbox";
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  /** Zusätzliche Daten für die App (neben "aps") */
+  data?: Record<string, unknown>;
+  /** Gleiche ID ersetzt eine ältere Notification */
+  collapseId?: string;
+  badge?: number;
+}
+
+export interface PushResult {
+  ok: boolean;
+  status: number;
+  /** APNs-Fehlergrund, z.B. "BadDeviceToken" */
+  reason?: string;
+  /** Token ist ungültig und sollte deaktiviert werden */
+  invalidToken: boolean;
+}
+
+const HOSTS = {
+  production: "https://api.push.apple.com",
+  sandbox: "https://api.sandbox.push.apple.com",
+};
+
+const TOKEN_LIFETIME_MS = 50 * 60 * 1000;
+const INVALID_TOKEN_REASONS = ["BadDeviceToken", "Unregistered", "DeviceTokenNotForTopic"];
+
+let cachedJwt: { value: string; keyId: string; createdAt: number } | null = null;
+
+export function loadApnsConfig(): ApnsConfig {
+  return {
+    keyId: Deno.env.get("APNS_KEY_ID")?.trim() ?? "",
+    teamId: Deno.env.get("APNS_TEAM_ID")?.trim() ?? "",
+    privateKey: Deno.env.get("APNS_PRIVATE_KEY") ?? "",
+    topic: Deno.env.get("APNS_TOPIC")?.trim() || Deno.env.get("APP_STORE_BUNDLE_ID")?.trim() || "",
+  };
+}
+
+/**
+ * Fehlermeldung, wenn die Konfiguration unvollständig ist, sonst null
+ */
+export function checkApnsConfig(config: ApnsConfig): string | null {
+  if (!config.keyId || !config.teamId || !config.privateKey || !config.topic) {
+    return "Push nicht konfiguriert (APNS_KEY_ID, APNS_TEAM_ID, APNS_PRIVATE_KEY, APNS_TOPIC)";
+  }
+  return null;
+}
+
+/**
+ * Schickt eine Alert-Notification an ein Gerät
+ */
+export async function sendPush(
+  device: PushDevice,
+  message: PushMessage,
+  config: ApnsConfig = loadApnsConfig()
+): Promise<PushResult> {
+  const jwt = await providerToken(config);
+
+  const headers: Record<string, string> = {
+    "authorization": `bearer ${jwt}`,
+    "apns-topic": config.topic,
+    "apns-push-type": "alert",
+    "apns-priority": "10",
+    "content-type": "application/json",
+  };
+  if (message.collapseId) {
+    headers["apns-collapse-id"] = message.collapseId.substring(0, 64);
+  }
+
+  const payload = {
+    aps: {
+      alert: { title: message.title, body: message.body },
+      sound: "default",
+      ...(message.badge !== undefined ? { badge: message.badge } : {}),
+    },
+    ...message.data,
+  };
+
+  const response = await fetch(`${HOSTS[device.environment]}/3/device/${device.token}`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(10000),
+  });
+
+  if (response.ok) {
+    return { ok: true, status: response.status, invalidToken: false };
+  }
+
+  let reason: string | undefined;
+  try {
+    reason = (await response.json())?.reason;
+  } catch {
+    // Kein JSON-Body
+  }
+  // Abgelaufenes JWT → beim nächsten Versand neu erzeugen
+  if (reason === "ExpiredProviderToken") {
+    cachedJwt = null;
+  }
+
+  return {
+    ok: false,
+    status: response.status,
+    reason,
+    invalidToken: response.status === 410 || INVALID_TOKEN_REASONS.includes(reason ?? ""),
+  };
+}
+
+// ============================================
+// Provider Token (ES256-JWT)
+// ============================================
+
+async function providerToken(config: ApnsConfig): Promise<string> {
+  if (cachedJwt && cachedJwt.keyId === config.keyId && Date.now() - cachedJwt.createdAt < TOKEN_LIFETIME_MS) {
+    return cachedJwt.value;
+  }
+
+  const key = await crypto.subtle.importKey(
+    "pkcs8",
+    pemToBuffer(config.privateKey),
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign"]
+  );
+
+  const header = base64UrlJson({ alg: "ES256", kid: config.keyId });
+  const claims = base64UrlJson({ iss: config.teamId, iat: Math.floor(Date.now() / 1000) });
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    key,
+    new TextEncoder().encode(`${header}.${claims}`)
+  );
+
+  const value = `${header}.${claims}.${base64Url(new Uint8Array(signature))}`;
+  cachedJwt = { value, keyId: config.keyId, createdAt: Date.now() };
+  return value;
+}
+
+function pemToBuffer(pem: string): ArrayBuffer {
+  const base64 = pem
+    .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, "")
+    .replace(/\\n/g, "")
+    .replace(/\s/g, "");
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+function base64UrlJson(value: unknown): string {
+  return base64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
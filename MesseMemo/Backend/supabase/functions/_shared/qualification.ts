@@ -0,0 +1,134 @@
+// ============================================
+// MesseMemo Lead-Qualifizierung
+// ============================================
+//
+// JSON-Schema und Validierung für qualify-lead: Zusammenfassung des
+// Gesprächs, Produktinteressen, BANT-Signale (Budget, Authority, Need,
+// Timeline), offene Fragen, Next Steps, Follow-up Datum und Lead-Score.
+
+import { normalizeFollowUpDate } from "./email-variants.ts";
+
+export const BANT_KEYS = ["budget", "authority", "need", "timeline"] as const;
+export const BANT_SIGNALS = ["positive", "neutral", "negative", "unknown"] as const;
+
+const MAX_LIST_ITEMS = 10;
+const MAX_ITEM_LENGTH = 300;
+const MAX_SUMMARY_LENGTH = 1500;
+
+export type BantKey = typeof BANT_KEYS[number];
+export type BantSignal = typeof BANT_SIGNALS[number];
+
+const BANT_ENTRY_SCHEMA = {
+  type: "object",
+  properties: {
+    signal: { type: "string", enum: [...BANT_SIGNALS] },
+    evidence: { type: "string" },
+  },
+  required: ["signal", "evidence"],
+  additionalProperties: false,
+};
+
+const STRING_LIST_SCHEMA = { type: "array", items: { type: "string" } };
+
+export const QUALIFICATION_SCHEMA = {
+  type: "object",
+  properties: {
+    summary: { type: "string" },
+    products_of_interest: STRING_LIST_SCHEMA,
+    bant: {
+      type: "object",
+      properties: Object.fromEntries(BANT_KEYS.map((key) => [key, BANT_ENTRY_SCHEMA])),
+      required: [...BANT_KEYS],
+      additionalProperties: false,
+    },
+    open_questions: STRING_LIST_SCHEMA,
+    next_steps: STRING_LIST_SCHEMA,
+    follow_up_date: { type: "string" },
+    score: { type: "integer" },
+    score_reasons: STRING_LIST_SCHEMA,
+  },
+  required: [
+    "summary", "products_of_interest", "bant", "open_questions",
+    "next_steps", "follow_up_date", "score", "score_reasons",
+  ],
+  additionalProperties: false,
+};
+
+export interface BantEntry {
+  signal: BantSignal;
+  /** Beleg aus dem Gespräch, leer bei "unknown" */
+  evidence: string;
+}
+
+export interface LeadQualification {
+  summary: string;
+  products_of_interest: string[];
+  bant: Record<BantKey, BantEntry>;
+  open_questions: string[];
+  next_steps: string[];
+  /** YYYY-MM-DD, null wenn ungültig oder in der Vergangenheit */
+  follow_up_date: string | null;
+  /** 0 (kalt) bis 100 (heiß) */
+  score: number;
+  score_reasons: string[];
+}
+
+export class QualificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QualificationError";
+  }
+}
+
+/**
+ * Prüft die Modell-Antwort. Listen werden gekürzt, unbekannte BANT-Signale
+ * zu "unknown"; wirft QualificationError ohne gültigen Score.
+ */
+export function validateQualification(
+  raw: unknown,
+  today: string = new Date().toISOString().slice(0, 10)
+): LeadQualification {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new QualificationError("Antwort ist kein JSON-Objekt");
+  }
+  const entry = raw as Record<string, unknown>;
+
+  const score = typeof entry.score === "number"
+    ? entry.score
+    : typeof entry.score === "string" && entry.score.trim() ? Number(entry.score) : NaN;
+  if (!Number.isFinite(score)) {
+    throw new QualificationError("Antwort enthält keinen gültigen 'score'");
+  }
+
+  const rawBant = (entry.bant && typeof entry.bant === "object" ? entry.bant : {}) as Record<string, unknown>;
+  const bant = Object.fromEntries(BANT_KEYS.map((key) => {
+    const item = (rawBant[key] ?? {}) as Record<string, unknown>;
+    const signal = BANT_SIGNALS.includes(item.signal as BantSignal) ? item.signal as BantSignal : "unknown";
+    return [key, { signal, evidence: text(item.evidence).substring(0, MAX_ITEM_LENGTH) }];
+  })) as Record<BantKey, BantEntry>;
+
+  return {
+    summary: text(entry.summary).substring(0, MAX_SUMMARY_LENGTH),
+    products_of_interest: list(entry.products_of_interest),
+    bant,
+    open_questions: list(entry.open_questions),
+    next_steps: list(entry.next_steps),
+    follow_up_date: normalizeFollowUpDate(entry.follow_up_date, today),
+    score: Math.min(100, Math.max(0, Math.round(score))),
+    score_reasons: list(entry.score_reasons),
+  };
+}
+
+function list(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .map((item) => text(item).substring(0, MAX_ITEM_LENGTH))
+    .filter(Boolean)
+    .slice(0, MAX_LIST_ITEMS);
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
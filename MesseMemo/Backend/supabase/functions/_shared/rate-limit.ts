@@ -0,0 +1,122 @@
+// ============================================
+// MesseMemo Rate Limiting
+// ============================================
+//
+// Token Bucket pro User, pro IP und global (je Edge Function), gespeichert
+// in Postgres (siehe migrations/010_rate_limits.sql). Aufruf vor jedem
+// KI-Call – kostenlose Pfade (Heuristik, Vorlagen) zählen nicht.
+//
+// Fällt die Prüfung selbst aus (RPC-Fehler), wird der Request durchgelassen:
+// ein DB-Problem soll die KI-Funktionen nicht zusätzlich lahmlegen.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { errorResponse } from "./cors.ts";
+
+export type RateLimitScope = "free" | "premium" | "ip" | "global";
+
+export interface BucketState {
+  capacity: number;
+  refill_per_minute: number;
+  remaining: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Knappster Bucket, wenn `allowed = false` */
+  scope: RateLimitScope | null;
+  retryAfterSeconds: number;
+  limits: Partial<Record<RateLimitScope, BucketState>>;
+}
+
+export interface RateLimitOptions {
+  userId: string;
+  functionName: string;
+  ip: string | null;
+  /** Tokens für diesen Request (Batch: Anzahl Karten) */
+  cost?: number;
+}
+
+/**
+ * Client-IP aus den Proxy-Headern. Den Anfang von X-Forwarded-For bestimmt
+ * der Client selbst – vertrauenswürdig ist nur, was der Proxy setzt:
+ * X-Real-IP bzw. der letzte, vom Proxy angehängte Eintrag.
+ */
+export function clientIp(req: Request): string | null {
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",").at(-1)?.trim();
+  const ip = req.headers.get("x-real-ip")?.trim() || forwarded;
+  return ip ? ip.slice(0, 64) : null;
+}
+
+/**
+ * Verbraucht Tokens für den Request
+ */
+export async function consumeRateLimit(
+  supabaseAdmin: SupabaseClient,
+  options: RateLimitOptions
+): Promise<RateLimitResult> {
+  const { data, error } = await supabaseAdmin.rpc("consume_rate_limit", {
+    p_user_id: options.userId,
+    p_function_name: options.functionName,
+    p_ip: options.ip,
+    p_cost: options.cost ?? 1,
+  });
+
+  const row = data?.[0];
+  if (error || !row) {
+    console.error("Rate Limit RPC Error:", JSON.stringify(error));
+    return { allowed: true, scope: null, retryAfterSeconds: 0, limits: {} };
+  }
+
+  return {
+    allowed: row.allowed,
+    scope: row.limited_scope,
+    retryAfterSeconds: Math.max(1, row.retry_after_seconds ?? 1),
+    limits: row.limits ?? {},
+  };
+}
+
+/**
+ * 429-Antwort mit Retry-After und den aktuellen Limits
+ */
+export function rateLimitResponse(result: RateLimitResult): Response {
+  const bucket = result.scope ? result.limits[result.scope] : undefined;
+  const message = result.scope === "global"
+    ? "Der Dienst ist gerade stark ausgelastet. Bitte später erneut versuchen."
+    : "Zu viele Anfragen. Bitte kurz warten.";
+
+  return errorResponse(
+    429,
+    message,
+    {
+      limited_by: result.scope,
+      retry_after: result.retryAfterSeconds,
+      limits: result.limits,
+    },
+    {
+      "Retry-After": String(result.retryAfterSeconds),
+      ...(bucket
+        ? {
+          "RateLimit-Limit": String(bucket.capacity),
+          "RateLimit-Remaining": String(bucket.remaining),
+        }
+        : {}),
+    }
+  );
+}
+
+/**
+ * Prüft das Limit und gibt bei Überschreitung direkt die 429-Antwort zurück
+ */
+export async function enforceRateLimit(
+  supabaseAdmin: SupabaseClient,
+  options: RateLimitOptions
+): Promise<Response | null> {
+  const result = await consumeRateLimit(supabaseAdmin, options);
+  if (result.allowed) {
+    return null;
+  }
+  console.warn(
+    `Rate limit hit (${result.scope}) for ${options.functionName}, user ${options.userId}, retry in ${result.retryAfterSeconds}s`
+  );
+  return rateLimitResponse(result);
+}
@@ -0,0 +1,149 @@
+// ============================================
+// MesseMemo Result Cache
+// ============================================
+//
+// Gleiche Eingabe → gleiche Antwort, ohne KI-Call und ohne Credit
+// (z.B. dieselbe Karte zweimal gescannt). Der Schlüssel ist ein SHA-256
+// über die normalisierte Eingabe, die Prompt-Version der Function sowie
+// Provider und Modelle aus _shared/llm.ts – ändert sich eines davon,
+// wird neu generiert. Gespeichert in migrations/011_result_cache.sql.
+//
+// Der Cache ist eine Optimierung: Fehler beim Lesen oder Schreiben werden
+// geloggt und als Cache-Miss behandelt.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadLlmConfig } from "./llm.ts";
+
+/** Standard-TTL: 7 Tage (RESULT_CACHE_TTL_SECONDS=0 schaltet den Cache ab) */
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface CacheKeyOptions {
+  functionName: string;
+  /** Bei jeder Prompt-Änderung erhöhen, damit alte Ergebnisse nicht mehr passen */
+  promptVersion: string;
+  /** Normalisierte Eingabe (nur JSON-Werte) */
+  input: unknown;
+}
+
+export function resultCacheTtlSeconds(): number {
+  const raw = Deno.env.get("RESULT_CACHE_TTL_SECONDS");
+  if (raw === undefined || raw.trim() === "") {
+    return DEFAULT_TTL_SECONDS;
+  }
+  const ttl = Number(raw);
+  return Number.isFinite(ttl) && ttl > 0 ? Math.floor(ttl) : 0;
+}
+
+/**
+ * Client-Flag `force_refresh: true` → Cache ignorieren und neu generieren
+ */
+export function wantsFreshResult(requestBody: Record<string, unknown>): boolean {
+  return requestBody.force_refresh === true;
+}
+
+/**
+ * Text für den Schlüssel vereinheitlichen (Leerzeichen, Zeilenumbrüche)
+ */
+export function normalizeCacheText(value: unknown): string {
+  return typeof value === "string" ? value.replace(/\s+/g, " ").trim() : "";
+}
+
+/**
+ * SHA-256 (hex) über Eingabe, Prompt-Version und LLM-Konfiguration
+ */
+export async function resultCacheKey(options: CacheKeyOptions): Promise<string> {
+  const config = loadLlmConfig();
+  return await sha256Hex(canonicalJson({
+    function_name: options.functionName,
+    prompt_version: options.promptVersion,
+    provider: config.provider,
+    models: config.models.map((m) => m.model),
+    input: options.input,
+  }));
+}
+
+/**
+ * Gespeicherte Antwort oder null (Miss, abgelaufen, Cache aus, Fehler)
+ */
+export async function lookupCachedResult<T = Record<string, unknown>>(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  functionName: string,
+  inputHash: string
+): Promise<T | null> {
+  if (resultCacheTtlSeconds() === 0) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin.rpc("lookup_ai_result_cache", {
+    p_user_id: userId,
+    p_function_name: functionName,
+    p_input_hash: inputHash,
+  });
+
+  if (error) {
+    console.error("Result Cache Lookup Error:", JSON.stringify(error));
+    return null;
+  }
+  if (data) {
+    console.log(`Result cache hit for ${functionName} (${inputHash.slice(0, 12)})`);
+  }
+  return (data as T) ?? null;
+}
+
+/**
+ * Speichert eine (abgerechnete) Antwort; überschreibt einen älteren Eintrag
+ */
+export async function storeCachedResult(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  functionName: string,
+  inputHash: string,
+  body: unknown
+): Promise<void> {
+  const ttlSeconds = resultCacheTtlSeconds();
+  if (ttlSeconds === 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const { error } = await supabaseAdmin
+    .from("ai_result_cache")
+    .upsert({
+      user_id: userId,
+      function_name: functionName,
+      input_hash: inputHash,
+      response_body: body,
+      hit_count: 0,
+      last_hit_at: null,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + ttlSeconds * 1000).toISOString(),
+    }, { onConflict: "user_id,function_name,input_hash" });
+
+  if (error) {
+    console.error("Result Cache Store Error:", JSON.stringify(error));
+  }
+}
+
+export async function sha256Hex(value: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof value === "string" ? new TextEncoder().encode(value) : value;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * JSON mit sortierten Keys, damit die Reihenfolge im Request egal ist
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
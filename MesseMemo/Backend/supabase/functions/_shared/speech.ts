@@ -0,0 +1,204 @@
+// ============================================
+// MesseMemo Speech-to-Text
+// ============================================
+//
+// Transkription über eine Whisper-kompatible HTTP-API
+// (POST {base}/audio/transcriptions, multipart, response_format=verbose_json).
+// Das ist die OpenAI-API; selbst gehostete Server (faster-whisper,
+// whisper.cpp) oder ein lokaler Stub sprechen dasselbe Format.
+//
+// Konfiguration über Supabase Secrets:
+//   STT_PROVIDER    openai (Default) | whisper (selbst gehostet, ohne Key)
+//   STT_BASE_URL    Basis-URL (z.B. http://localhost:8000/v1)
+//   STT_MODEL       Modell (Default whisper-1)
+//   STT_API_KEY     API-Key (Fallback: OPENAI_API_KEY)
+//   STT_TIMEOUT_MS  Timeout pro Datei (120000)
+
+export type SpeechProviderName = "openai" | "whisper";
+
+export interface SpeechConfig {
+  provider: SpeechProviderName;
+  baseUrl: string;
+  model: string;
+  apiKey: string | undefined;
+  timeoutMs: number;
+}
+
+export interface TranscriptSegment {
+  /** Sekunden ab Beginn der Aufnahme */
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcription {
+  text: string;
+  /** ISO-639-1 (z.B. "de"), null wenn der Provider keine Sprache liefert */
+  language: string | null;
+  durationSeconds: number | null;
+  segments: TranscriptSegment[];
+  provider: SpeechProviderName;
+  model: string;
+}
+
+export interface TranscribeOptions {
+  filename: string;
+  /** Sprach-Hinweis (ISO-639-1); ohne Hinweis erkennt das Modell die Sprache */
+  language?: string;
+}
+
+/**
+ * Provider-Fehler (HTTP-Fehler, Timeout, unbrauchbare Antwort)
+ */
+export class SpeechError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = "SpeechError";
+  }
+}
+
+/** Upload-Limit der Whisper-API */
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+const DEFAULT_BASE_URLS: Record<SpeechProviderName, string> = {
+  openai: "https://api.openai.com/v1",
+  whisper: "http://localhost:8000/v1",
+};
+
+// verbose_json liefert die Sprache als englischen Namen ("german")
+const LANGUAGE_CODES: Record<string, string> = {
+  arabic: "ar", chinese: "zh", czech: "cs", danish: "da", dutch: "nl",
+  english: "en", finnish: "fi", french: "fr", german: "de", greek: "el",
+  hungarian: "hu", italian: "it", japanese: "ja", korean: "ko", norwegian: "no",
+  polish: "pl", portuguese: "pt", romanian: "ro", russian: "ru", spanish: "es",
+  swedish: "sv", turkish: "tr", ukrainian: "uk",
+};
+
+// ============================================
+// Konfiguration
+// ============================================
+
+export function loadSpeechConfig(): SpeechConfig {
+  const rawProvider = (Deno.env.get("STT_PROVIDER") || "openai").toLowerCase();
+  const provider: SpeechProviderName = rawProvider === "whisper" ? "whisper" : "openai";
+
+  return {
+    provider,
+    baseUrl: (Deno.env.get("STT_BASE_URL") || DEFAULT_BASE_URLS[provider]).replace(/\/+$/, ""),
+    model: Deno.env.get("STT_MODEL")?.trim() || "whisper-1",
+    apiKey: Deno.env.get("STT_API_KEY")?.trim() ||
+      (provider === "openai" ? Deno.env.get("OPENAI_API_KEY")?.trim() : undefined) ||
+      undefined,
+    timeoutMs: Number(Deno.env.get("STT_TIMEOUT_MS")) || 120000,
+  };
+}
+
+/**
+ * Fehlermeldung, wenn die Konfiguration unvollständig ist, sonst null
+ */
+export function checkSpeechConfig(config: SpeechConfig): string | null {
+  if (config.provider === "openai" && !config.apiKey) {
+    return "Spracherkennung nicht konfiguriert (STT_API_KEY fehlt)";
+  }
+  return null;
+}
+
+// ============================================
+// Transkription
+// ============================================
+
+export async function transcribeAudio(
+  audio: Blob,
+  options: TranscribeOptions,
+  config: SpeechConfig = loadSpeechConfig()
+): Promise<Transcription> {
+  // Größere Dateien lehnt die API ab – gar nicht erst hochladen
+  if (audio.size > MAX_AUDIO_BYTES) {
+    throw new SpeechError(`Datei zu groß (max. ${MAX_AUDIO_BYTES / 1024 / 1024} MB)`, 413);
+  }
+
+  const form = new FormData();
+  form.append("file", audio, options.filename);
+  form.append("model", config.model);
+  form.append("response_format", "verbose_json");
+  form.append("timestamp_granularities[]", "segment");
+  if (options.language) {
+    form.append("language", options.language);
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+  console.log(`Transcribing ${options.filename} via ${config.provider} (${config.model})`);
+
+  let data: Record<string, unknown>;
+  try {
+    const response = await fetch(`${config.baseUrl}/audio/transcriptions`, {
+      method: "POST",
+      headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+      body: form,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new SpeechError(`HTTP ${response.status}: ${errorText.substring(0, 200)}`, response.status);
+    }
+    data = await response.json();
+  } catch (error) {
+    if (error instanceof SpeechError) {
+      throw error;
+    }
+    if (controller.signal.aborted) {
+      throw new SpeechError(`Timeout nach ${config.timeoutMs}ms`);
+    }
+    if (error instanceof SyntaxError) {
+      throw new SpeechError("Ungültige Antwort der Spracherkennung");
+    }
+    throw new SpeechError(error instanceof Error ? error.message : String(error));
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (typeof data?.text !== "string") {
+    throw new SpeechError("Antwort der Spracherkennung enthält keinen Text");
+  }
+
+  return {
+    text: data.text.trim(),
+    language: normalizeLanguage(data.language) ?? options.language ?? null,
+    durationSeconds: typeof data.duration === "number" && data.duration >= 0 ? data.duration : null,
+    segments: parseSegments(data.segments),
+    provider: config.provider,
+    model: config.model,
+  };
+}
+
+function parseSegments(raw: unknown): TranscriptSegment[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw
+    .filter((s) => typeof s?.start === "number" && typeof s?.end === "number" && typeof s?.text === "string")
+    .map((s) => ({
+      start: Math.round(s.start * 100) / 100,
+      end: Math.round(s.end * 100) / 100,
+      text: s.text.trim(),
+    }))
+    .filter((s) => s.text);
+}
+
+/**
+ * "german" / "de" / "de-DE" → "de"
+ */
+function normalizeLanguage(raw: unknown): string | null {
+  if (typeof raw !== "string" || !raw.trim()) {
+    return null;
+  }
+  const value = raw.trim().toLowerCase();
+  if (LANGUAGE_CODES[value]) {
+    return LANGUAGE_CODES[value];
+  }
+  const code = value.match(/^([a-z]{2})(?:[-_][a-z]{2})?$/)?.[1];
+  return code ?? value;
+}
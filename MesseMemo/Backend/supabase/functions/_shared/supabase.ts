@@ -0,0 +1,110 @@
+// ============================================
+// MesseMemo Supabase Clients & Auth
+// ============================================
+//
+// Gemeinsamer Einstieg für Edge Functions: Env-Check, JWT prüfen,
+// User-Client (RLS) und Service-Client (RPCs, SECURITY DEFINER) erzeugen.
+
+import { createClient, SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import { errorResponse } from "./cors.ts";
+
+export interface AuthContext {
+  user: User;
+  /** Client mit User-Token – unterliegt RLS */
+  supabaseClient: SupabaseClient;
+  /** Service-Role Client – nur serverseitig verwenden */
+  supabaseAdmin: SupabaseClient;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Prüft den Authorization Header. Gibt bei Fehlern direkt die
+ * passende Fehler-Antwort (401/500) zurück.
+ */
+export async function authenticate(req: Request): Promise<AuthContext | Response> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceKey) {
+    console.error("Missing environment variables:", {
+      hasUrl: !!supabaseUrl,
+      hasAnonKey: !!supabaseAnonKey,
+      hasServiceKey: !!supabaseServiceKey,
+    });
+    return errorResponse(500, "Server-Konfiguration fehlerhaft");
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    return errorResponse(401, "Nicht authentifiziert");
+  }
+
+  const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: { Authorization: authHeader },
+    },
+  });
+
+  const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+  if (authError || !user) {
+    return errorResponse(401, "Ungültiger Token");
+  }
+
+  const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+  return { user, supabaseClient, supabaseAdmin };
+}
+
+/**
+ * Service-Role Client für Aufrufe ohne User-Token (z.B. Webhooks von Apple)
+ */
+export function createAdminClient(): SupabaseClient | null {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error("Missing environment variables:", {
+      hasUrl: !!supabaseUrl,
+      hasServiceKey: !!supabaseServiceKey,
+    });
+    return null;
+  }
+  return createClient(supabaseUrl, supabaseServiceKey);
+}
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_PATTERN.test(value);
+}
+
+/**
+ * Prüft den Bearer-Token von Cron-Aufrufen (pg_cron/pg_net) gegen das
+ * Secret CRON_SECRET. Gibt bei Fehlern die Fehler-Antwort (401/500) zurück.
+ */
+export function authorizeCron(req: Request): Response | null {
+  const secret = Deno.env.get("CRON_SECRET");
+  if (!secret) {
+    console.error("Missing environment variable: CRON_SECRET");
+    return errorResponse(500, "Server-Konfiguration fehlerhaft");
+  }
+
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  if (!constantTimeEqual(token, secret)) {
+    return errorResponse(401, "Nicht authentifiziert");
+  }
+  return null;
+}
+
+/**
+ * Vergleich in konstanter Zeit (Secrets, Signaturen)
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,150 @@
+// ============================================
+// MesseMemo E-Mail-Vorlagen
+// ============================================
+//
+// Platzhalter-Rendering für email_templates (siehe
+// migrations/005_email_templates.sql). Rendering ist deterministisch und
+// braucht kein LLM: nicht füllbare Platzhalter bleiben im Text stehen und
+// werden als `missing` gemeldet.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/** Platzhalter, die generate-email füllen kann */
+export const TEMPLATE_PLACEHOLDERS = [
+  "name",
+  "first_name",
+  "last_name",
+  "company",
+  "transcript_summary",
+  "sender_name",
+  "signature",
+  "event_name",
+] as const;
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  product_line: string;
+  language: string | null;
+  subject_template: string;
+  body_template: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RenderedTemplate {
+  subject: string;
+  body: string;
+  /** Platzhalter ohne Wert (unbekannt oder leer), in Reihenfolge des Auftretens */
+  missing: string[];
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_]+)\s*\}\}/g;
+const MAX_SUMMARY_LENGTH = 240;
+
+/**
+ * Alle Platzhalter-Namen im Text (ohne Duplikate)
+ */
+export function extractPlaceholders(text: string): string[] {
+  const names = [...text.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1].toLowerCase());
+  return [...new Set(names)];
+}
+
+/**
+ * Ersetzt {{platzhalter}} durch Werte. Leere oder unbekannte Platzhalter
+ * bleiben unverändert im Text und landen in `missing`.
+ */
+export function renderTemplateText(
+  text: string,
+  values: Partial<Record<TemplatePlaceholder, string>>,
+  missing: string[] = []
+): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, rawName: string) => {
+    const name = rawName.toLowerCase();
+    const value = (values as Record<string, string | undefined>)[name]?.trim();
+    if (!value) {
+      if (!missing.includes(name)) missing.push(name);
+      return placeholder;
+    }
+    return value;
+  });
+}
+
+export function renderTemplate(
+  template: Pick<EmailTemplate, "subject_template" | "body_template">,
+  values: Partial<Record<TemplatePlaceholder, string>>
+): RenderedTemplate {
+  const missing: string[] = [];
+  const subject = renderTemplateText(template.subject_template, values, missing);
+  const body = renderTemplateText(template.body_template, values, missing);
+  return { subject, body, missing };
+}
+
+/**
+ * Werte für die Platzhalter aus den Request-Daten
+ */
+export function buildTemplateValues(input: {
+  name?: string;
+  company?: string;
+  transcript?: string;
+  senderName?: string;
+  signature?: string;
+  eventName?: string;
+}): Partial<Record<TemplatePlaceholder, string>> {
+  const name = (input.name ?? "").trim();
+  const parts = name.split(/\s+/).filter(Boolean);
+
+  return {
+    name,
+    // Bei nur einem Wort ist unklar, ob Vor- oder Nachname → leer lassen
+    first_name: parts.length >= 2 ? parts[0] : "",
+    last_name: parts.length >= 2 ? parts[parts.length - 1] : "",
+    company: input.company ?? "",
+    transcript_summary: summarizeTranscript(input.transcript ?? ""),
+    sender_name: input.senderName ?? "",
+    signature: input.signature ?? "",
+    event_name: input.eventName ?? "",
+  };
+}
+
+/**
+ * Kurzfassung ohne LLM: die ersten Sätze bis max. 240 Zeichen
+ */
+export function summarizeTranscript(transcript: string): string {
+  const text = transcript.replace(/\s+/g, " ").trim();
+  if (text.length <= MAX_SUMMARY_LENGTH) {
+    return text;
+  }
+
+  const sentences = text.match(/[^.!?]+[.!?]+/g) ?? [];
+  let summary = "";
+  for (const sentence of sentences) {
+    if ((summary + sentence).length > MAX_SUMMARY_LENGTH) break;
+    summary += sentence;
+  }
+
+  // Erster Satz schon zu lang → hart kürzen
+  return summary.trim() || `${text.slice(0, MAX_SUMMARY_LENGTH - 1).trimEnd()}…`;
+}
+
+/**
+ * Lädt eine Vorlage mit dem User-Client (RLS: nur eigene Vorlagen)
+ */
+export async function loadTemplate(
+  supabase: SupabaseClient,
+  templateId: string
+): Promise<EmailTemplate | null> {
+  const { data, error } = await supabase
+    .from("email_templates")
+    .select("*")
+    .eq("id", templateId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Template Load Error:", JSON.stringify(error));
+    return null;
+  }
+  return data as EmailTemplate | null;
+}
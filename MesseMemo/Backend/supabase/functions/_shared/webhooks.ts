@@ -0,0 +1,442 @@
+// ============================================
+// MesseMemo CRM Webhooks
+// ============================================
+//
+// Signierte HTTP-Zustellung an die Endpoints aus webhook_endpoints (siehe
+// migrations/018_crm_webhooks.sql). Jeder Request trägt
+//
+//   X-MesseMemo-Signature: t=<Unix-Sekunden>,v1=<hex HMAC-SHA256>
+//
+// über "<t>.<Body>" mit dem Secret des Endpoints – wie bei Stripe. Empfänger
+// prüfen mit verifyWebhookSignature() und verwerfen alte Zeitstempel.
+//
+// Die Warteschlange (webhook_deliveries) arbeitet processWebhookDeliveries()
+// ab: Fehler werden mit Backoff wiederholt, dauerhafte Fehler und der letzte
+// Versuch landen in webhook_dead_letters.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { CrmFormat, LeadSnapshot, mapLead } from "./crm.ts";
+import { constantTimeEqual } from "./supabase.ts";
+
+export const WEBHOOK_EVENT_TYPES = ["lead.created", "lead.updated", "email.generated"] as const;
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Backoff: 30 s, 1 min, 2 min, … höchstens 1 h zwischen zwei Versuchen
+const RETRY_BASE_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 3600;
+
+// Versuche insgesamt, dazwischen exponentieller Backoff (≈ 3 h bis zum Dead Letter)
+export const MAX_DELIVERY_ATTEMPTS = 10;
+// Zugestellte Einträge so lange als Historie behalten
+const DELIVERY_RETENTION_DAYS = 30;
+
+export interface WebhookRequest {
+  url: string;
+  secret: string;
+  deliveryId: string;
+  eventType: string;
+  /** Fertig serialisierter JSON-Body (wird so signiert) */
+  body: string;
+}
+
+export interface WebhookResult {
+  ok: boolean;
+  statusCode: number | null;
+  error?: string;
+  /** Erneuter Versuch sinnlos (4xx außer 408/429) */
+  permanent: boolean;
+  /** Endpoint existiert nicht mehr (HTTP 410) → abschalten */
+  gone: boolean;
+  /** Aus dem Retry-After Header (429/503) */
+  retryAfterSeconds?: number;
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  user_id: string;
+  url: string;
+  event_types: string[];
+  format: CrmFormat;
+  secret: string;
+  enabled: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  user_id: string;
+  event_type: string;
+  lead_id: string | null;
+  lead: LeadSnapshot | null;
+  data: Record<string, unknown>;
+  occurred_at: string;
+  attempts: number;
+}
+
+export type DeliveryOutcome = "delivered" | "retrying" | "dead";
+
+export interface DeliveryRun {
+  processed: number;
+  counts: Record<DeliveryOutcome, number>;
+}
+
+/**
+ * Meldet ein Ereignis an die Webhooks des Users. Fehler werden nur
+ * geloggt – der eigentliche Request soll daran nicht scheitern.
+ */
+export async function publishWebhookEvent(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  eventType: WebhookEventType,
+  leadId: string | null,
+  data: Record<string, unknown> = {}
+): Promise<void> {
+  const { error } = await supabaseAdmin.rpc("enqueue_webhook_event", {
+    p_user_id: userId,
+    p_event_type: eventType,
+    p_lead_id: leadId,
+    p_data: data,
+  });
+  if (error) {
+    console.error("Webhook Enqueue Error:", JSON.stringify(error));
+  }
+}
+
+/**
+ * Neues Secret für einen Endpoint ("whsec_" + 32 Zufallsbytes, Base64url)
+ */
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return "whsec_" + btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Prüft eine Ziel-URL. HTTPS und öffentliche Hosts sind Pflicht, außer
+ * WEBHOOK_ALLOW_LOCAL=true (lokale Entwicklung mit eigenem Empfänger).
+ */
+export function checkWebhookUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Ungültige URL";
+  }
+  if (url.username || url.password) {
+    return "Zugangsdaten in der URL sind nicht erlaubt";
+  }
+
+  if (Deno.env.get("WEBHOOK_ALLOW_LOCAL") === "true") {
+    return url.protocol === "https:" || url.protocol === "http:" ? null : "Nur HTTP(S)-URLs erlaubt";
+  }
+  if (url.protocol !== "https:") {
+    return "Nur HTTPS-URLs erlaubt";
+  }
+  if (isPrivateHost(url.hostname)) {
+    return "Lokale und private Adressen sind nicht erlaubt";
+  }
+  return null;
+}
+
+/**
+ * Grobe Sperre gegen Requests ins interne Netz (SSRF). Hostnamen, die
+ * erst per DNS auf private Adressen zeigen, erkennt sie nicht.
+ */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal")) {
+    return true;
+  }
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+  }
+
+  // IPv6: Loopback, Unique Local, Link-Local, IPv4-mapped
+  return host === "::1" || host === "::" || /^f[cd]/.test(host) || host.startsWith("fe80:") || host.startsWith("::ffff:");
+}
+
+/**
+ * Signatur-Header für einen Body
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  return `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${body}`)}`;
+}
+
+/**
+ * Für Empfänger (und Tests): prüft Header und Alter des Zeitstempels
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  header: string | null,
+  body: string,
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS
+): Promise<boolean> {
+  if (!header) {
+    return false;
+  }
+  const parts = new Map(header.split(",").map((part) => {
+    const [key, ...rest] = part.trim().split("=");
+    return [key, rest.join("=")] as [string, string];
+  }));
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  return constantTimeEqual(signature, await hmacHex(secret, `${timestamp}.${body}`));
+}
+
+/**
+ * Verschickt einen signierten Webhook. Redirects werden nicht verfolgt
+ * (sonst ließe sich die URL-Prüfung umgehen).
+ */
+export async function postWebhook(request: WebhookRequest): Promise<WebhookResult> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  let response: Response;
+  try {
+    response = await fetch(request.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "MesseMemo-Webhook/1.0",
+        "X-MesseMemo-Event": request.eventType,
+        "X-MesseMemo-Delivery": request.deliveryId,
+        "X-MesseMemo-Signature": await signWebhookPayload(request.secret, timestamp, request.body),
+      },
+      body: request.body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+  } catch (error) {
+    return {
+      ok: false,
+      statusCode: null,
+      error: `Webhook nicht erreichbar: ${error instanceof Error ? error.message : String(error)}`,
+      permanent: false,
+      gone: false,
+    };
+  }
+  await response.body?.cancel();
+
+  const status = response.status;
+  if (status >= 200 && status < 300) {
+    return { ok: true, statusCode: status, permanent: false, gone: false };
+  }
+
+  const retryAfter = Number(response.headers.get("Retry-After"));
+  return {
+    ok: false,
+    statusCode: status,
+    error: status >= 300 && status < 400
+      ? `Webhook antwortete mit Redirect (HTTP ${status})`
+      : `Webhook antwortete mit HTTP ${status}`,
+    permanent: status >= 400 && status < 500 && status !== 408 && status !== 429,
+    gone: status === 410,
+    retryAfterSeconds: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined,
+  };
+}
+
+/**
+ * Pause vor dem nächsten Versuch nach `attempts` fehlgeschlagenen Versuchen:
+ * exponentiell mit ±20 % Jitter, Retry-After des Empfängers hat Vorrang
+ */
+export function retryDelaySeconds(attempts: number, retryAfterSeconds?: number): number {
+  const exponential = Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_SECONDS);
+  const jittered = Math.round(exponential * (0.8 + Math.random() * 0.4));
+  return Math.min(Math.max(jittered, retryAfterSeconds ?? 0), MAX_RETRY_DELAY_SECONDS);
+}
+
+// ============================================
+// Zustellung (Warteschlange)
+// ============================================
+
+/**
+ * Reserviert bis zu `batchSize` fällige Zustellungen und sendet sie.
+ * null, wenn die Warteschlange nicht gelesen werden konnte.
+ */
+export async function processWebhookDeliveries(
+  supabaseAdmin: SupabaseClient,
+  batchSize: number
+): Promise<DeliveryRun | null> {
+  const { data: claimed, error: claimError } = await supabaseAdmin.rpc("claim_webhook_deliveries", {
+    p_limit: batchSize,
+  });
+  if (claimError) {
+    console.error("Claim Deliveries Error:", JSON.stringify(claimError));
+    return null;
+  }
+
+  const deliveries = (claimed ?? []) as WebhookDelivery[];
+  const endpoints = await loadEndpoints(supabaseAdmin, [...new Set(deliveries.map((d) => d.endpoint_id))]);
+
+  const counts: Record<DeliveryOutcome, number> = { delivered: 0, retrying: 0, dead: 0 };
+  for (const delivery of deliveries) {
+    const endpoint = endpoints.get(delivery.endpoint_id);
+    const outcome = endpoint
+      ? await deliverWebhook(supabaseAdmin, endpoint, delivery)
+      : await deadLetter(supabaseAdmin, delivery, null, "Webhook nicht gefunden");
+    counts[outcome]++;
+  }
+
+  // Historie aufräumen
+  const cutoff = new Date(Date.now() - DELIVERY_RETENTION_DAYS * 86400 * 1000).toISOString();
+  const { error: purgeError } = await supabaseAdmin
+    .from("webhook_deliveries")
+    .delete()
+    .eq("status", "delivered")
+    .lt("delivered_at", cutoff);
+  if (purgeError) {
+    console.error("Delivery Purge Error:", JSON.stringify(purgeError));
+  }
+
+  if (deliveries.length > 0) {
+    console.log(`🔗 Webhooks: ${counts.delivered} zugestellt, ${counts.retrying} erneut eingereiht, ${counts.dead} Dead Letters`);
+  }
+
+  return { processed: deliveries.length, counts };
+}
+
+async function loadEndpoints(supabaseAdmin: SupabaseClient, ids: string[]): Promise<Map<string, WebhookEndpoint>> {
+  if (ids.length === 0) {
+    return new Map();
+  }
+  const { data, error } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .select("id, user_id, url, event_types, format, secret, enabled")
+    .in("id", ids);
+
+  if (error) {
+    // Ohne Endpoints kein Versand – die Zustellungen gehen nach 15 Minuten erneut raus
+    throw new Error(`Webhooks konnten nicht geladen werden: ${error.message}`);
+  }
+  return new Map((data as WebhookEndpoint[]).map((row) => [row.id, row]));
+}
+
+/**
+ * Sendet eine reservierte Zustellung und schreibt das Ergebnis. Dauerhafte
+ * Fehler und der letzte Versuch landen in webhook_dead_letters.
+ */
+export async function deliverWebhook(
+  supabaseAdmin: SupabaseClient,
+  endpoint: WebhookEndpoint,
+  delivery: WebhookDelivery
+): Promise<DeliveryOutcome> {
+  const urlError = checkWebhookUrl(endpoint.url);
+  const result: WebhookResult = urlError
+    ? { ok: false, statusCode: null, error: urlError, permanent: true, gone: false }
+    : await postWebhook({
+      url: endpoint.url,
+      secret: endpoint.secret,
+      deliveryId: delivery.id,
+      eventType: delivery.event_type,
+      body: JSON.stringify(buildWebhookPayload(endpoint, delivery)),
+    });
+
+  const now = new Date().toISOString();
+
+  if (result.ok) {
+    await Promise.all([
+      supabaseAdmin
+        .from("webhook_deliveries")
+        .update({ status: "delivered", delivered_at: now, last_status_code: result.statusCode, last_error: null })
+        .eq("id", delivery.id),
+      supabaseAdmin
+        .from("webhook_endpoints")
+        .update({ last_success_at: now })
+        .eq("id", endpoint.id),
+    ]);
+    return "delivered";
+  }
+
+  const message = (result.error ?? "Unbekannter Fehler").substring(0, 500);
+  console.warn(`Webhook ${delivery.id} Versuch ${delivery.attempts} fehlgeschlagen: ${message}`);
+
+  await supabaseAdmin
+    .from("webhook_endpoints")
+    .update({
+      last_failure_at: now,
+      last_error: message,
+      // 410 Gone: Empfänger gibt es nicht mehr → keine weiteren Zustellungen
+      ...(result.gone ? { enabled: false, disabled_reason: "Empfänger antwortete mit HTTP 410 (Gone)" } : {}),
+    })
+    .eq("id", endpoint.id);
+
+  if (result.permanent || delivery.attempts >= MAX_DELIVERY_ATTEMPTS) {
+    return await deadLetter(supabaseAdmin, delivery, result.statusCode, message);
+  }
+
+  const delaySeconds = retryDelaySeconds(delivery.attempts, result.retryAfterSeconds);
+  const { error } = await supabaseAdmin
+    .from("webhook_deliveries")
+    .update({
+      status: "queued",
+      last_status_code: result.statusCode,
+      last_error: message,
+      next_attempt_at: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+    })
+    .eq("id", delivery.id);
+
+  if (error) {
+    console.error("Delivery Update Error:", JSON.stringify(error));
+  }
+  return "retrying";
+}
+
+async function deadLetter(
+  supabaseAdmin: SupabaseClient,
+  delivery: WebhookDelivery,
+  statusCode: number | null,
+  message: string
+): Promise<"dead"> {
+  const { error } = await supabaseAdmin.rpc("dead_letter_webhook_delivery", {
+    p_delivery_id: delivery.id,
+    p_status_code: statusCode,
+    p_error: message,
+  });
+  if (error) {
+    console.error("Dead Letter Error:", JSON.stringify(error));
+  }
+  return "dead";
+}
+
+/**
+ * Body eines Webhooks; `lead` im Format des Endpoints
+ */
+export function buildWebhookPayload(endpoint: WebhookEndpoint, delivery: WebhookDelivery): Record<string, unknown> {
+  return {
+    id: delivery.id,
+    event: delivery.event_type,
+    occurred_at: delivery.occurred_at,
+    format: endpoint.format,
+    user_id: delivery.user_id,
+    lead_id: delivery.lead_id,
+    lead: delivery.lead ? mapLead(endpoint.format, delivery.lead) : null,
+    data: delivery.data,
+  };
+}
+
+// ============================================
+// Helper
+// ============================================
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
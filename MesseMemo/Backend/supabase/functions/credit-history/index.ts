@@ -0,0 +1,148 @@
+// ============================================
+// MesseMemo Credit History Edge Function
+// Version: 1.0 (Ledger-Historie & Abgleich)
+// ============================================
+//
+// GET ?limit=50&cursor=<id> → eigene Buchungen, neueste zuerst
+//
+// Jede Antwort enthält zusätzlich den Abgleich zwischen gecachtem
+// Guthaben (profiles.ai_credits_balance) und der Summe des Ledgers
+// (siehe migrations/008_credit_ledger.sql).
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { authenticate } from "../_shared/supabase.ts";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const TRANSACTION_COLUMNS = [
+  "id", "amount", "balance_after", "reason", "function_name",
+  "request_id", "purchase_reference", "metadata", "created_at",
+].join(", ");
+
+interface TransactionRow {
+  id: number;
+  amount: number;
+  balance_after: number;
+  reason: string;
+  function_name: string | null;
+  request_id: string | null;
+  purchase_reference: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+interface ReconciliationRow {
+  cached_balance: number;
+  ledger_balance: number;
+  difference: number;
+  last_transaction_at: string | null;
+}
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET") {
+    return errorResponse(405, "Methode nicht erlaubt");
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (auth instanceof Response) {
+      return auth;
+    }
+    const { user, supabaseClient, supabaseAdmin } = auth;
+
+    // ========================================
+    // 1. Parameter
+    // ========================================
+
+    const params = new URL(req.url).searchParams;
+
+    const limit = params.has("limit") ? Number(params.get("limit")) : DEFAULT_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return errorResponse(400, `'limit' muss eine Zahl von 1 bis ${MAX_LIMIT} sein`);
+    }
+
+    // Cursor = ID der letzten Buchung der vorherigen Seite
+    const cursor = params.has("cursor") ? Number(params.get("cursor")) : null;
+    if (cursor !== null && (!Number.isSafeInteger(cursor) || cursor < 1)) {
+      return errorResponse(400, "Ungültiger Cursor");
+    }
+
+    // ========================================
+    // 2. Buchungen laden (RLS: nur eigene)
+    // ========================================
+
+    let query = supabaseClient
+      .from("credit_transactions")
+      .select(TRANSACTION_COLUMNS)
+      .order("id", { ascending: false })
+      .limit(limit + 1);
+
+    if (cursor !== null) {
+      query = query.lt("id", cursor);
+    }
+
+    const { data: rows, error: historyError } = await query;
+    if (historyError) {
+      console.error("Credit History Error:", JSON.stringify(historyError));
+      return errorResponse(500, "Buchungen konnten nicht geladen werden");
+    }
+
+    const transactions = ((rows ?? []) as unknown as TransactionRow[]).slice(0, limit);
+    const hasMore = (rows ?? []).length > limit;
+
+    // ========================================
+    // 3. Abgleich gecachter Stand ↔ Ledger
+    // ========================================
+
+    const { data: reconciliation, error: reconcileError } = await supabaseAdmin.rpc(
+      "reconcile_credit_balances",
+      { p_user_id: user.id, p_only_mismatches: false }
+    );
+
+    if (reconcileError) {
+      console.error("Reconcile RPC Error:", JSON.stringify(reconcileError));
+      return errorResponse(500, "Guthaben konnte nicht abgeglichen werden");
+    }
+
+    const balance = (reconciliation?.[0] ?? null) as ReconciliationRow | null;
+    if (balance && balance.difference !== 0) {
+      console.warn(
+        `Credit mismatch for ${user.id}: cached ${balance.cached_balance}, ledger ${balance.ledger_balance}`
+      );
+    }
+
+    return jsonResponse({
+      success: true,
+      balance: balance?.cached_balance ?? 0,
+      transactions: transactions.map((transaction) => ({
+        ...transaction,
+        // BIGINT als String, wie der Cursor
+        id: String(transaction.id),
+      })),
+      next_cursor: hasMore ? String(transactions[transactions.length - 1].id) : null,
+      reconciliation: {
+        cached_balance: balance?.cached_balance ?? 0,
+        ledger_balance: balance?.ledger_balance ?? 0,
+        difference: balance?.difference ?? 0,
+        consistent: (balance?.difference ?? 0) === 0,
+        last_transaction_at: balance?.last_transaction_at ?? null,
+      },
+    });
+
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
@@ -0,0 +1,603 @@
+// ============================================
+// MesseMemo CRM Export Edge Function
+// Version: 1.0 (Webhooks, HubSpot/Salesforce, vCard, CSV)
+// ============================================
+//
+// App (mit User-JWT):
+//   GET    /endpoints          → eigene Webhooks (ohne Secret)
+//   POST   /endpoints          → Webhook anlegen { url, event_types, format?, description? }
+//                                (Antwort enthält einmalig das Secret)
+//   PATCH  /endpoints?id=      → ändern { url?, event_types?, format?, description?,
+//                                enabled?, rotate_secret? }
+//   DELETE /endpoints?id=      → Webhook löschen
+//   POST   /test?id=           → signierten "ping" sofort senden (Ergebnis direkt)
+//   GET    /deliveries         → letzte Zustellungen (?endpoint_id=)
+//   GET    /dead-letters       → endgültig fehlgeschlagene Zustellungen
+//   POST   /replay?id=         → Dead Letter erneut einreihen
+//   GET    /export?format=     → csv, vcard, hubspot, salesforce, json
+//                                (?event_id=, ?since=, ?time_zone= für CSV)
+//
+// Server (ohne JWT):
+//   POST /process              → fällige Zustellungen senden
+//                                (pg_cron, "Authorization: Bearer <CRON_SECRET>")
+//
+// Tabellen und RPCs: migrations/018_crm_webhooks.sql, Zustellung:
+// _shared/webhooks.ts. Deploy mit
+// --no-verify-jwt, damit der Cron-Pfad erreichbar ist; die App-Pfade
+// prüfen das JWT selbst.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { CRM_FORMATS, CrmFormat, LeadSnapshot, mapLeadBatch, toCsv, toVCards } from "../_shared/crm.ts";
+import { clientIp, enforceRateLimit } from "../_shared/rate-limit.ts";
+import { authenticate, authorizeCron, createAdminClient, isUuid } from "../_shared/supabase.ts";
+import {
+  checkWebhookUrl,
+  generateWebhookSecret,
+  postWebhook,
+  processWebhookDeliveries,
+  WEBHOOK_EVENT_TYPES,
+} from "../_shared/webhooks.ts";
+
+const FUNCTION_NAME = "crm-export";
+
+const MAX_ENDPOINTS = 10;
+const MAX_DESCRIPTION_LENGTH = 200;
+const MAX_URL_LENGTH = 2000;
+
+const DEFAULT_BATCH_SIZE = 50;
+
+const MAX_EXPORT_LEADS = 5000;
+const EXPORT_FORMATS = ["csv", "vcard", "json", "hubspot", "salesforce"] as const;
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/** Spalten, die an die App gehen (ohne Secret) */
+const ENDPOINT_COLUMNS = [
+  "id", "url", "description", "event_types", "format", "enabled", "disabled_reason",
+  "last_success_at", "last_failure_at", "last_error", "created_at", "updated_at",
+].join(", ");
+
+const DELIVERY_COLUMNS = [
+  "id", "endpoint_id", "event_type", "lead_id", "occurred_at", "status", "attempts",
+  "next_attempt_at", "last_status_code", "last_error", "delivered_at",
+].join(", ");
+
+const DEAD_LETTER_COLUMNS = [
+  "id", "delivery_id", "endpoint_id", "event_type", "lead_id", "occurred_at", "attempts",
+  "last_status_code", "last_error", "failed_at", "replayed_at", "replay_delivery_id",
+].join(", ");
+
+const EXPORT_LEAD_COLUMNS = [
+  "id", "name", "company", "email", "phone", "notes", "transcript", "qualification",
+  "lead_score", "follow_up_date", "event_id", "audio_url", "created_at", "updated_at",
+  "events(name)",
+].join(", ");
+
+type EndpointFields = Partial<{
+  url: string;
+  description: string | null;
+  event_types: string[];
+  format: CrmFormat;
+  enabled: boolean;
+}>;
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const route = url.pathname.split("/").filter(Boolean).pop();
+    const params = url.searchParams;
+
+    // ========================================
+    // Server-Pfad (ohne User-JWT)
+    // ========================================
+
+    if (route === "process") {
+      if (req.method !== "POST") {
+        return errorResponse(405, "Methode nicht erlaubt");
+      }
+      const unauthorized = authorizeCron(req);
+      if (unauthorized) {
+        return unauthorized;
+      }
+      const supabaseAdmin = createAdminClient();
+      if (!supabaseAdmin) {
+        return errorResponse(500, "Server-Konfiguration fehlerhaft");
+      }
+      return await processDeliveries(supabaseAdmin);
+    }
+
+    // ========================================
+    // App-Pfade
+    // ========================================
+
+    const auth = await authenticate(req);
+    if (auth instanceof Response) {
+      return auth;
+    }
+    const { user, supabaseClient, supabaseAdmin } = auth;
+
+    const id = params.get("id");
+    if (id !== null && !isUuid(id)) {
+      return errorResponse(400, "Parameter 'id' ist keine UUID");
+    }
+
+    switch (`${req.method} ${route}`) {
+      case "GET endpoints":
+        return await listEndpoints(supabaseAdmin, user.id);
+      case "POST endpoints":
+        return await createEndpoint(req, supabaseAdmin, user.id);
+      case "PATCH endpoints":
+        if (!id) return errorResponse(400, "Parameter 'id' erforderlich");
+        return await updateEndpoint(req, supabaseAdmin, user.id, id);
+      case "DELETE endpoints":
+        if (!id) return errorResponse(400, "Parameter 'id' erforderlich");
+        return await deleteEndpoint(supabaseAdmin, user.id, id);
+      case "POST test": {
+        if (!id) return errorResponse(400, "Parameter 'id' erforderlich");
+        const limited = await enforceRateLimit(supabaseAdmin, {
+          userId: user.id,
+          functionName: FUNCTION_NAME,
+          ip: clientIp(req),
+        });
+        return limited ?? await testEndpoint(supabaseAdmin, user.id, id);
+      }
+      case "GET deliveries": {
+        const endpointId = params.get("endpoint_id");
+        if (endpointId !== null && !isUuid(endpointId)) {
+          return errorResponse(400, "Parameter 'endpoint_id' ist keine UUID");
+        }
+        return await listDeliveries(supabaseClient, endpointId);
+      }
+      case "GET dead-letters":
+        return await listDeadLetters(supabaseClient);
+      case "POST replay":
+        if (!id) return errorResponse(400, "Parameter 'id' erforderlich");
+        return await replayDeadLetter(supabaseAdmin, user.id, id);
+      case "GET export": {
+        const limited = await enforceRateLimit(supabaseAdmin, {
+          userId: user.id,
+          functionName: FUNCTION_NAME,
+          ip: clientIp(req),
+        });
+        return limited ?? await exportLeads(supabaseClient, params);
+      }
+      default:
+        return errorResponse(405, "Methode nicht erlaubt");
+    }
+
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
+
+// ============================================
+// App: Webhooks verwalten
+// ============================================
+// webhook_endpoints hat keine RLS-Policies (Secret) → Service-Client,
+// jede Abfrage filtert auf user_id.
+
+async function listEndpoints(supabaseAdmin: SupabaseClient, userId: string): Promise<Response> {
+  const { data, error } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .select(ENDPOINT_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Endpoint List Error:", JSON.stringify(error));
+    return errorResponse(500, "Webhooks konnten nicht geladen werden");
+  }
+
+  return jsonResponse({ success: true, endpoints: data ?? [] });
+}
+
+async function createEndpoint(req: Request, supabaseAdmin: SupabaseClient, userId: string): Promise<Response> {
+  const body = await readBody(req);
+  if (!body) {
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+
+  const result = validateEndpointFields(body, false);
+  if ("error" in result) {
+    return errorResponse(400, result.error);
+  }
+
+  const { count, error: countError } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+
+  if (countError) {
+    console.error("Endpoint Count Error:", JSON.stringify(countError));
+    return errorResponse(500, "Webhooks konnten nicht geladen werden");
+  }
+  if ((count ?? 0) >= MAX_ENDPOINTS) {
+    return errorResponse(409, `Maximal ${MAX_ENDPOINTS} Webhooks pro Account`);
+  }
+
+  const secret = generateWebhookSecret();
+  const { data, error } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .insert({ ...result.fields, user_id: userId, secret })
+    .select(ENDPOINT_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("Endpoint Insert Error:", JSON.stringify(error));
+    return errorResponse(500, "Webhook konnte nicht gespeichert werden");
+  }
+
+  // Secret nur hier und beim Rotieren – danach nicht mehr abrufbar
+  return jsonResponse({ success: true, endpoint: data, secret }, 201);
+}
+
+async function updateEndpoint(
+  req: Request,
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  id: string
+): Promise<Response> {
+  const body = await readBody(req);
+  if (!body) {
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+
+  const result = validateEndpointFields(body, true);
+  if ("error" in result) {
+    return errorResponse(400, result.error);
+  }
+  if (body.rotate_secret !== undefined && typeof body.rotate_secret !== "boolean") {
+    return errorResponse(400, "'rotate_secret' muss true oder false sein");
+  }
+
+  const update: Record<string, unknown> = { ...result.fields };
+  const secret = body.rotate_secret === true ? generateWebhookSecret() : null;
+  if (secret) {
+    update.secret = secret;
+  }
+  // Manuelles Einschalten setzt die automatische Abschaltung zurück
+  if (result.fields.enabled === true) {
+    update.disabled_reason = null;
+  }
+  if (Object.keys(update).length === 0) {
+    return errorResponse(400, "Keine Felder zum Aktualisieren");
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .update(update)
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select(ENDPOINT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Endpoint Update Error:", JSON.stringify(error));
+    return errorResponse(500, "Webhook konnte nicht gespeichert werden");
+  }
+  if (!data) {
+    return errorResponse(404, "Webhook nicht gefunden");
+  }
+
+  return jsonResponse(secret ? { success: true, endpoint: data, secret } : { success: true, endpoint: data });
+}
+
+async function deleteEndpoint(supabaseAdmin: SupabaseClient, userId: string, id: string): Promise<Response> {
+  // Offene Zustellungen und Dead Letters werden per CASCADE mitgelöscht
+  const { data, error } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select("id");
+
+  if (error) {
+    console.error("Endpoint Delete Error:", JSON.stringify(error));
+    return errorResponse(500, "Webhook konnte nicht gelöscht werden");
+  }
+  if (!data || data.length === 0) {
+    return errorResponse(404, "Webhook nicht gefunden");
+  }
+
+  return jsonResponse({ success: true, id });
+}
+
+/**
+ * Schickt einen signierten "ping" an den Endpoint – ohne Warteschlange,
+ * zum Prüfen von URL und Signatur (auch für abgeschaltete Endpoints)
+ */
+async function testEndpoint(supabaseAdmin: SupabaseClient, userId: string, id: string): Promise<Response> {
+  const { data: endpoint, error } = await supabaseAdmin
+    .from("webhook_endpoints")
+    .select("id, user_id, url, event_types, format, secret, enabled")
+    .eq("id", id)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Endpoint Load Error:", JSON.stringify(error));
+    return errorResponse(500, "Webhook konnte nicht geladen werden");
+  }
+  if (!endpoint) {
+    return errorResponse(404, "Webhook nicht gefunden");
+  }
+
+  const urlError = checkWebhookUrl(endpoint.url);
+  if (urlError) {
+    return errorResponse(422, urlError);
+  }
+
+  const deliveryId = crypto.randomUUID();
+  const startedAt = Date.now();
+  const result = await postWebhook({
+    url: endpoint.url,
+    secret: endpoint.secret,
+    deliveryId,
+    eventType: "ping",
+    body: JSON.stringify({
+      id: deliveryId,
+      event: "ping",
+      occurred_at: new Date().toISOString(),
+      format: endpoint.format,
+      user_id: userId,
+      data: { event_types: endpoint.event_types },
+    }),
+  });
+
+  return jsonResponse({
+    success: result.ok,
+    delivery_id: deliveryId,
+    status_code: result.statusCode,
+    duration_ms: Date.now() - startedAt,
+    ...(result.error ? { error: result.error } : {}),
+  });
+}
+
+// ============================================
+// App: Historie & Dead Letters (RLS)
+// ============================================
+
+async function listDeliveries(supabaseClient: SupabaseClient, endpointId: string | null): Promise<Response> {
+  let query = supabaseClient
+    .from("webhook_deliveries")
+    .select(DELIVERY_COLUMNS)
+    .order("created_at", { ascending: false })
+    .limit(100);
+  if (endpointId) {
+    query = query.eq("endpoint_id", endpointId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Delivery List Error:", JSON.stringify(error));
+    return errorResponse(500, "Zustellungen konnten nicht geladen werden");
+  }
+
+  return jsonResponse({ success: true, deliveries: data ?? [] });
+}
+
+async function listDeadLetters(supabaseClient: SupabaseClient): Promise<Response> {
+  const { data, error } = await supabaseClient
+    .from("webhook_dead_letters")
+    .select(DEAD_LETTER_COLUMNS)
+    .order("failed_at", { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error("Dead Letter List Error:", JSON.stringify(error));
+    return errorResponse(500, "Dead Letters konnten nicht geladen werden");
+  }
+
+  return jsonResponse({ success: true, dead_letters: data ?? [] });
+}
+
+async function replayDeadLetter(supabaseAdmin: SupabaseClient, userId: string, id: string): Promise<Response> {
+  const { data: deliveryId, error } = await supabaseAdmin.rpc("replay_webhook_dead_letter", {
+    p_user_id: userId,
+    p_dead_letter_id: id,
+  });
+
+  if (error) {
+    console.error("Replay Error:", JSON.stringify(error));
+    return errorResponse(500, "Zustellung konnte nicht erneut eingereiht werden");
+  }
+  if (!deliveryId) {
+    return errorResponse(404, "Dead Letter nicht gefunden oder bereits erneut eingereiht");
+  }
+
+  return jsonResponse({ success: true, delivery_id: deliveryId }, 202);
+}
+
+// ============================================
+// App: Export
+// ============================================
+
+async function exportLeads(supabaseClient: SupabaseClient, params: URLSearchParams): Promise<Response> {
+  const format = (params.get("format") ?? "csv") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return errorResponse(400, `Ungültiges Format. Erlaubt: ${EXPORT_FORMATS.join(", ")}`);
+  }
+
+  const eventId = params.get("event_id");
+  if (eventId !== null && !isUuid(eventId)) {
+    return errorResponse(400, "Parameter 'event_id' ist keine UUID");
+  }
+  const since = params.get("since");
+  if (since !== null && isNaN(Date.parse(since))) {
+    return errorResponse(400, "Parameter 'since' ist kein ISO-8601 Zeitstempel");
+  }
+  const timeZone = params.get("time_zone") ?? "Europe/Berlin";
+  if (!isTimeZone(timeZone)) {
+    return errorResponse(400, "Parameter 'time_zone' ist keine IANA-Zeitzone");
+  }
+
+  // Eigene Leads und die der Organisation (RLS)
+  let query = supabaseClient
+    .from("leads")
+    .select(EXPORT_LEAD_COLUMNS)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: true })
+    .limit(MAX_EXPORT_LEADS + 1);
+  if (eventId) {
+    query = query.eq("event_id", eventId);
+  }
+  if (since) {
+    query = query.gte("updated_at", new Date(since).toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Export Load Error:", JSON.stringify(error));
+    return errorResponse(500, "Leads konnten nicht geladen werden");
+  }
+  if ((data?.length ?? 0) > MAX_EXPORT_LEADS) {
+    return errorResponse(413, `Mehr als ${MAX_EXPORT_LEADS} Leads – bitte mit 'event_id' oder 'since' eingrenzen`);
+  }
+
+  const leads = ((data ?? []) as unknown as Record<string, unknown>[]).map(toLeadSnapshot);
+  const fileDate = new Date().toISOString().slice(0, 10);
+
+  switch (format) {
+    case "csv":
+      return fileResponse(toCsv(leads, timeZone), "text/csv; charset=utf-8", `MesseMemo_Export_${fileDate}.csv`);
+    case "vcard":
+      return fileResponse(toVCards(leads), "text/vcard; charset=utf-8", `MesseMemo_Export_${fileDate}.vcf`);
+    case "json":
+      return jsonResponse({ success: true, ...mapLeadBatch("messememo", leads) });
+    default:
+      return jsonResponse({ success: true, ...mapLeadBatch(format, leads) });
+  }
+}
+
+function toLeadSnapshot(row: Record<string, unknown>): LeadSnapshot {
+  const { audio_url, events, ...lead } = row as Record<string, unknown> & { events: { name: string } | null };
+  return {
+    ...(lead as unknown as Omit<LeadSnapshot, "event_name" | "has_audio">),
+    name: (lead.name as string | null) ?? "",
+    company: (lead.company as string | null) ?? "",
+    email: (lead.email as string | null) ?? "",
+    phone: (lead.phone as string | null) ?? "",
+    notes: (lead.notes as string | null) ?? "",
+    event_name: events?.name ?? null,
+    has_audio: audio_url !== null && audio_url !== undefined,
+  };
+}
+
+function fileResponse(content: string, contentType: string, fileName: string): Response {
+  return new Response(content, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+    },
+  });
+}
+
+// ============================================
+// Zustellung (Cron)
+// ============================================
+
+async function processDeliveries(supabaseAdmin: SupabaseClient): Promise<Response> {
+  const configured = Number(Deno.env.get("WEBHOOK_BATCH_SIZE"));
+  const batchSize = Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_BATCH_SIZE;
+
+  const run = await processWebhookDeliveries(supabaseAdmin, batchSize);
+  if (!run) {
+    return errorResponse(500, "Zustellungen konnten nicht geladen werden");
+  }
+  return jsonResponse({ success: true, processed: run.processed, ...run.counts });
+}
+
+// ============================================
+// Validierung
+// ============================================
+
+async function readBody(req: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await req.json();
+    return body && typeof body === "object" && !Array.isArray(body) ? body : null;
+  } catch (parseError) {
+    console.error("JSON Parse Error:", parseError);
+    return null;
+  }
+}
+
+/**
+ * Prüft die Felder. Bei `partial` (PATCH) sind alle Felder optional.
+ */
+function validateEndpointFields(
+  body: Record<string, unknown>,
+  partial: boolean
+): { fields: EndpointFields } | { error: string } {
+  const fields: EndpointFields = {};
+
+  if (body.url !== undefined || !partial) {
+    if (typeof body.url !== "string" || !body.url.trim() || body.url.length > MAX_URL_LENGTH) {
+      return { error: "Feld 'url' fehlt oder ist ungültig" };
+    }
+    const urlError = checkWebhookUrl(body.url.trim());
+    if (urlError) {
+      return { error: urlError };
+    }
+    fields.url = body.url.trim();
+  }
+
+  if (body.event_types !== undefined || !partial) {
+    const eventTypes = body.event_types;
+    if (
+      !Array.isArray(eventTypes) || eventTypes.length === 0 ||
+      eventTypes.some((type) => !(WEBHOOK_EVENT_TYPES as readonly unknown[]).includes(type))
+    ) {
+      return { error: `Feld 'event_types' muss eine Liste aus ${WEBHOOK_EVENT_TYPES.join(", ")} sein` };
+    }
+    fields.event_types = [...new Set(eventTypes as string[])];
+  }
+
+  if (body.format !== undefined) {
+    if (!(CRM_FORMATS as readonly unknown[]).includes(body.format)) {
+      return { error: `Ungültiges Format. Erlaubt: ${CRM_FORMATS.join(", ")}` };
+    }
+    fields.format = body.format as CrmFormat;
+  }
+
+  if (body.description !== undefined) {
+    if (body.description === null || body.description === "") {
+      fields.description = null;
+    } else if (typeof body.description !== "string" || body.description.length > MAX_DESCRIPTION_LENGTH) {
+      return { error: `Feld 'description' darf max. ${MAX_DESCRIPTION_LENGTH} Zeichen lang sein` };
+    } else {
+      fields.description = body.description.trim();
+    }
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== "boolean") {
+      return { error: "Feld 'enabled' muss true oder false sein" };
+    }
+    fields.enabled = body.enabled;
+  }
+
+  return { fields };
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,256 @@
+// ============================================
+// MesseMemo Email Templates Edge Function
+// Version: 1.0 (CRUD für email_templates)
+// ============================================
+//
+// GET                → alle eigenen Vorlagen
+// GET    ?id=<uuid>  → eine Vorlage
+// POST               → Vorlage anlegen
+// PATCH  ?id=<uuid>  → Vorlage teilweise ändern
+// DELETE ?id=<uuid>  → Vorlage löschen
+//
+// Alle Zugriffe laufen über den User-Client, RLS sorgt für die Trennung.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { LANGUAGE_NAMES } from "../_shared/email-options.ts";
+import { authenticate, isUuid } from "../_shared/supabase.ts";
+import { extractPlaceholders, TEMPLATE_PLACEHOLDERS } from "../_shared/templates.ts";
+
+const MAX_NAME_LENGTH = 100;
+const MAX_PRODUCT_LINE_LENGTH = 100;
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_BODY_LENGTH = 5000;
+
+type TemplateFields = Partial<{
+  name: string;
+  product_line: string;
+  language: string | null;
+  subject_template: string;
+  body_template: string;
+}>;
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (auth instanceof Response) {
+      return auth;
+    }
+    const { user, supabaseClient } = auth;
+
+    const id = new URL(req.url).searchParams.get("id");
+    if (id !== null && !isUuid(id)) {
+      return errorResponse(400, "Ungültige Vorlagen-ID");
+    }
+
+    switch (req.method) {
+      case "GET":
+        return id ? await getTemplate(supabaseClient, id) : await listTemplates(supabaseClient);
+      case "POST":
+        return await createTemplate(supabaseClient, user.id, req);
+      case "PATCH":
+        if (!id) return errorResponse(400, "Parameter 'id' erforderlich");
+        return await updateTemplate(supabaseClient, id, req);
+      case "DELETE":
+        if (!id) return errorResponse(400, "Parameter 'id' erforderlich");
+        return await deleteTemplate(supabaseClient, id);
+      default:
+        return errorResponse(405, "Methode nicht erlaubt");
+    }
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
+
+// ============================================
+// CRUD
+// ============================================
+
+async function listTemplates(supabase: SupabaseClient): Promise<Response> {
+  const { data, error } = await supabase
+    .from("email_templates")
+    .select("*")
+    .order("updated_at", { ascending: false });
+
+  if (error) {
+    console.error("Template List Error:", JSON.stringify(error));
+    return errorResponse(500, "Vorlagen konnten nicht geladen werden");
+  }
+
+  return jsonResponse({ success: true, templates: data ?? [] });
+}
+
+async function getTemplate(supabase: SupabaseClient, id: string): Promise<Response> {
+  const { data, error } = await supabase
+    .from("email_templates")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Template Load Error:", JSON.stringify(error));
+    return errorResponse(500, "Vorlage konnte nicht geladen werden");
+  }
+  if (!data) {
+    return errorResponse(404, "Vorlage nicht gefunden");
+  }
+
+  return jsonResponse({ success: true, template: data });
+}
+
+async function createTemplate(supabase: SupabaseClient, userId: string, req: Request): Promise<Response> {
+  const body = await readBody(req);
+  if (!body) {
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+
+  const result = validateTemplateFields(body, false);
+  if ("error" in result) {
+    return errorResponse(400, result.error);
+  }
+
+  const { data, error } = await supabase
+    .from("email_templates")
+    .insert({ ...result.fields, user_id: userId })
+    .select("*")
+    .single();
+
+  if (error) {
+    console.error("Template Insert Error:", JSON.stringify(error));
+    return errorResponse(500, "Vorlage konnte nicht gespeichert werden");
+  }
+
+  return jsonResponse({ success: true, template: data }, 201);
+}
+
+async function updateTemplate(supabase: SupabaseClient, id: string, req: Request): Promise<Response> {
+  const body = await readBody(req);
+  if (!body) {
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+
+  const result = validateTemplateFields(body, true);
+  if ("error" in result) {
+    return errorResponse(400, result.error);
+  }
+  if (Object.keys(result.fields).length === 0) {
+    return errorResponse(400, "Keine Felder zum Aktualisieren");
+  }
+
+  const { data, error } = await supabase
+    .from("email_templates")
+    .update(result.fields)
+    .eq("id", id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Template Update Error:", JSON.stringify(error));
+    return errorResponse(500, "Vorlage konnte nicht gespeichert werden");
+  }
+  if (!data) {
+    return errorResponse(404, "Vorlage nicht gefunden");
+  }
+
+  return jsonResponse({ success: true, template: data });
+}
+
+async function deleteTemplate(supabase: SupabaseClient, id: string): Promise<Response> {
+  const { data, error } = await supabase
+    .from("email_templates")
+    .delete()
+    .eq("id", id)
+    .select("id");
+
+  if (error) {
+    console.error("Template Delete Error:", JSON.stringify(error));
+    return errorResponse(500, "Vorlage konnte nicht gelöscht werden");
+  }
+  if (!data || data.length === 0) {
+    return errorResponse(404, "Vorlage nicht gefunden");
+  }
+
+  return jsonResponse({ success: true, id });
+}
+
+// ============================================
+// Validierung
+// ============================================
+
+async function readBody(req: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await req.json();
+    return body && typeof body === "object" && !Array.isArray(body) ? body : null;
+  } catch (parseError) {
+    console.error("JSON Parse Error:", parseError);
+    return null;
+  }
+}
+
+/**
+ * Prüft die Felder. Bei `partial` (PATCH) sind alle Felder optional.
+ */
+function validateTemplateFields(
+  body: Record<string, unknown>,
+  partial: boolean
+): { fields: TemplateFields } | { error: string } {
+  const fields: TemplateFields = {};
+
+  const text = (key: keyof TemplateFields, maxLength: number, required: boolean): string | null => {
+    const value = body[key];
+    if (value === undefined) {
+      return required && !partial ? `Feld '${key}' erforderlich` : null;
+    }
+    if (typeof value !== "string" || (required && !value.trim())) {
+      return `Feld '${key}' muss ein nicht-leerer Text sein`;
+    }
+    if (value.length > maxLength) {
+      return `Feld '${key}' darf max. ${maxLength} Zeichen lang sein`;
+    }
+    (fields as Record<string, string>)[key] = key === "name" ? value.trim() : value;
+    return null;
+  };
+
+  const error =
+    text("name", MAX_NAME_LENGTH, true) ??
+    text("subject_template", MAX_SUBJECT_LENGTH, true) ??
+    text("body_template", MAX_BODY_LENGTH, true) ??
+    text("product_line", MAX_PRODUCT_LINE_LENGTH, false);
+  if (error) {
+    return { error };
+  }
+
+  if (body.language !== undefined) {
+    if (body.language === null || body.language === "") {
+      fields.language = null;
+    } else if (typeof body.language !== "string" || !LANGUAGE_NAMES[body.language.toLowerCase()]) {
+      return { error: `Ungültige Sprache. Erlaubt: ${Object.keys(LANGUAGE_NAMES).join(", ")}` };
+    } else {
+      fields.language = body.language.toLowerCase();
+    }
+  }
+
+  // Unbekannte Platzhalter früh melden statt beim Rendern
+  const unknown = extractPlaceholders(`${fields.subject_template ?? ""}\n${fields.body_template ?? ""}`)
+    .filter((name) => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    return {
+      error: `Unbekannte Platzhalter: ${unknown.map((n) => `{{${n}}}`).join(", ")}. ` +
+        `Erlaubt: ${TEMPLATE_PLACEHOLDERS.map((n) => `{{${n}}}`).join(", ")}`,
+    };
+  }
+
+  return { fields };
+}
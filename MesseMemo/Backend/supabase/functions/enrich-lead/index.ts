@@ -0,0 +1,161 @@
+// ============================================
+// MesseMemo Lead Enrichment Edge Function
+// Version: 1.0 (Offline-Anreicherung mit Herkunft je Feld)
+// ============================================
+//
+// Leitet aus E-Mail-Domain, Website, Telefonnummer und Name Zusatzfelder ab
+// (Freemail vs. Firma, Firmenname, Land, Sprache für generate-email,
+// Anrede) – ohne KI und ohne externe Dienste, daher ohne Credits.
+// Regeln: enrichment_rules (migrations/019_lead_enrichment.sql).
+//
+// POST { lead_id, website? }                    → Lead anreichern, Ergebnis
+//                                                  in leads.enrichment
+// POST { name?, company?, email?, phone?, website? } → nur berechnen
+//                                                  (z.B. direkt nach process-card)
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { EnrichmentInput, enrichContact, loadEnrichmentRules } from "../_shared/enrichment.ts";
+import { authenticate, isUuid } from "../_shared/supabase.ts";
+
+const MAX_FIELD_LENGTH = 500;
+const INPUT_FIELDS = ["name", "company", "email", "phone", "website"] as const;
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse(405, "Methode nicht erlaubt");
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (auth instanceof Response) {
+      return auth;
+    }
+    const { supabaseClient, supabaseAdmin } = auth;
+
+    // ========================================
+    // 1. Request Body parsen
+    // ========================================
+
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (parseError) {
+      console.error("JSON Parse Error:", parseError);
+      return errorResponse(400, "Ungültiger Request-Body");
+    }
+    if (!requestBody || typeof requestBody !== "object" || Array.isArray(requestBody)) {
+      return errorResponse(400, "Ungültiger Request-Body");
+    }
+
+    for (const key of INPUT_FIELDS) {
+      const value = requestBody[key];
+      if (value !== undefined && value !== null && typeof value !== "string") {
+        return errorResponse(400, `'${key}' muss ein String sein`);
+      }
+      if (typeof value === "string" && value.length > MAX_FIELD_LENGTH) {
+        return errorResponse(400, `'${key}' ist zu lang (max. ${MAX_FIELD_LENGTH} Zeichen)`);
+      }
+    }
+    const text = (key: typeof INPUT_FIELDS[number]): string =>
+      typeof requestBody[key] === "string" ? requestBody[key] : "";
+
+    // ========================================
+    // 2. Eingabe: Lead (RLS) oder Felder aus dem Request
+    // ========================================
+
+    let leadId: string | null = null;
+    let input: EnrichmentInput;
+
+    if (requestBody.lead_id !== undefined) {
+      if (!isUuid(requestBody.lead_id)) {
+        return errorResponse(400, "'lead_id' ist keine UUID");
+      }
+
+      const { data: lead, error: leadError } = await supabaseClient
+        .from("leads")
+        .select("id, name, company, email, phone")
+        .eq("id", requestBody.lead_id)
+        .is("deleted_at", null)
+        .maybeSingle();
+
+      if (leadError) {
+        console.error("Lead Lookup Error:", JSON.stringify(leadError));
+        return errorResponse(500, "Lead konnte nicht geladen werden");
+      }
+      if (!lead) {
+        return errorResponse(404, "Lead nicht gefunden");
+      }
+
+      // Die Website steht nicht am Lead – nur aus dem Request
+      leadId = lead.id;
+      input = {
+        name: lead.name ?? "",
+        company: lead.company ?? "",
+        email: lead.email ?? "",
+        phone: lead.phone ?? "",
+        website: text("website"),
+      };
+    } else {
+      input = {
+        name: text("name"),
+        company: text("company"),
+        email: text("email"),
+        phone: text("phone"),
+        website: text("website"),
+      };
+    }
+
+    if (!input.name.trim() && !input.email.trim() && !input.phone.trim() && !input.website.trim()) {
+      return errorResponse(400, "Weder Name, E-Mail, Telefon noch Website angegeben");
+    }
+
+    // ========================================
+    // 3. Regeln anwenden
+    // ========================================
+
+    const rules = await loadEnrichmentRules(supabaseAdmin);
+    if (!rules) {
+      return errorResponse(500, "Anreicherungsregeln konnten nicht geladen werden");
+    }
+    const enrichment = enrichContact(input, rules);
+
+    // ========================================
+    // 4. Am Lead speichern
+    // ========================================
+    // Nur leads.enrichment – die erfassten Felder bleiben unangetastet.
+    // updated_at setzt der Trigger, sync-leads verteilt die Änderung.
+
+    if (leadId) {
+      const { error: updateError } = await supabaseClient
+        .from("leads")
+        .update({ enrichment, enriched_at: enrichment.enriched_at })
+        .eq("id", leadId);
+
+      if (updateError) {
+        console.error("Lead Update Error:", JSON.stringify(updateError));
+        return errorResponse(500, "Anreicherung konnte nicht gespeichert werden");
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      lead_id: leadId,
+      ...enrichment,
+    });
+
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
@@ -0,0 +1,396 @@
+// ============================================
+// MesseMemo Events Edge Function
+// Version: 1.0 (Messen: CRUD und Kennzahlen)
+// ============================================
+//
+// GET                     → eigene Messen und die der Organisation
+//                           (+ active_event_id: die gerade laufende)
+// GET    ?id=<uuid>       → eine Messe
+// GET    /stats?id=<uuid> → Leads pro Tag, Qualifizierung, Follow-up-Quote
+// POST                    → Messe anlegen
+// PATCH  ?id=<uuid>       → Messe teilweise ändern
+// DELETE ?id=<uuid>       → Messe löschen (Leads bleiben, ohne Messe)
+//
+// Alle Zugriffe laufen über den User-Client, RLS sorgt für die Trennung
+// (migrations/017_events.sql).
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { authenticate, isUuid } from "../_shared/supabase.ts";
+
+const MAX_NAME_LENGTH = 200;
+const MAX_TEXT_LENGTH = 200;
+const MAX_NOTES_LENGTH = 2000;
+const MAX_PRODUCTS = 50;
+const MAX_PRODUCT_LENGTH = 100;
+// Messen dauern Tage, nicht Monate
+const MAX_EVENT_DAYS = 31;
+
+const EVENT_SELECT = "id, user_id, organization_id, name, venue, city, country, starts_on, ends_on, " +
+  "time_zone, booth, products, notes, created_at, updated_at";
+
+type EventFields = Partial<{
+  name: string;
+  venue: string | null;
+  city: string | null;
+  country: string | null;
+  starts_on: string;
+  ends_on: string;
+  time_zone: string;
+  booth: string | null;
+  products: string[];
+  notes: string | null;
+}>;
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (auth instanceof Response) {
+      return auth;
+    }
+    const { user, supabaseClient } = auth;
+
+    const url = new URL(req.url);
+    const id = url.searchParams.get("id");
+    if (id !== null && !isUuid(id)) {
+      return errorResponse(400, "Ungültige Messe-ID");
+    }
+
+    if (url.pathname.split("/").filter(Boolean).pop() === "stats") {
+      if (req.method !== "GET") return errorResponse(405, "Methode nicht erlaubt");
+      if (!id) return errorResponse(400, "Parameter 'id' erforderlich");
+      return await getEventStats(supabaseClient, id);
+    }
+
+    switch (req.method) {
+      case "GET":
+        return id ? await getEvent(supabaseClient, id) : await listEvents(supabaseClient);
+      case "POST":
+        return await createEvent(supabaseClient, user.id, req);
+      case "PATCH":
+        if (!id) return errorResponse(400, "Parameter 'id' erforderlich");
+        return await updateEvent(supabaseClient, id, req);
+      case "DELETE":
+        if (!id) return errorResponse(400, "Parameter 'id' erforderlich");
+        return await deleteEvent(supabaseClient, id);
+      default:
+        return errorResponse(405, "Methode nicht erlaubt");
+    }
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
+
+// ============================================
+// CRUD
+// ============================================
+
+async function listEvents(supabase: SupabaseClient): Promise<Response> {
+  const [events, active] = await Promise.all([
+    supabase
+      .from("events")
+      .select(EVENT_SELECT)
+      .order("starts_on", { ascending: false }),
+    supabase.rpc("current_event_id"),
+  ]);
+
+  if (events.error) {
+    console.error("Event List Error:", JSON.stringify(events.error));
+    return errorResponse(500, "Messen konnten nicht geladen werden");
+  }
+  if (active.error) {
+    console.error("Active Event Lookup Error:", JSON.stringify(active.error));
+  }
+
+  return jsonResponse({
+    success: true,
+    events: events.data ?? [],
+    active_event_id: active.data ?? null,
+  });
+}
+
+async function getEvent(supabase: SupabaseClient, id: string): Promise<Response> {
+  const { data, error } = await supabase
+    .from("events")
+    .select(EVENT_SELECT)
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Event Load Error:", JSON.stringify(error));
+    return errorResponse(500, "Messe konnte nicht geladen werden");
+  }
+  if (!data) {
+    return errorResponse(404, "Messe nicht gefunden");
+  }
+
+  return jsonResponse({ success: true, event: data });
+}
+
+async function createEvent(supabase: SupabaseClient, userId: string, req: Request): Promise<Response> {
+  const body = await readBody(req);
+  if (!body) {
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+
+  const result = validateEventFields(body, false);
+  if ("error" in result) {
+    return errorResponse(400, result.error);
+  }
+  const rangeError = checkDateRange(result.fields.starts_on!, result.fields.ends_on!);
+  if (rangeError) {
+    return errorResponse(400, rangeError);
+  }
+
+  // organization_id setzt der Trigger aus der Mitgliedschaft
+  const { data, error } = await supabase
+    .from("events")
+    .insert({ ...result.fields, user_id: userId })
+    .select(EVENT_SELECT)
+    .single();
+
+  if (error) {
+    console.error("Event Insert Error:", JSON.stringify(error));
+    return errorResponse(500, "Messe konnte nicht gespeichert werden");
+  }
+
+  return jsonResponse({ success: true, event: data }, 201);
+}
+
+async function updateEvent(supabase: SupabaseClient, id: string, req: Request): Promise<Response> {
+  const body = await readBody(req);
+  if (!body) {
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+
+  const result = validateEventFields(body, true);
+  if ("error" in result) {
+    return errorResponse(400, result.error);
+  }
+  if (Object.keys(result.fields).length === 0) {
+    return errorResponse(400, "Keine Felder zum Aktualisieren");
+  }
+
+  // Zeitraum gegen die gespeicherten Daten prüfen, wenn nur ein Datum kommt
+  if (result.fields.starts_on || result.fields.ends_on) {
+    const { data: current } = await supabase
+      .from("events")
+      .select("starts_on, ends_on")
+      .eq("id", id)
+      .maybeSingle();
+    if (!current) {
+      return errorResponse(404, "Messe nicht gefunden");
+    }
+    const rangeError = checkDateRange(
+      result.fields.starts_on ?? current.starts_on,
+      result.fields.ends_on ?? current.ends_on
+    );
+    if (rangeError) {
+      return errorResponse(400, rangeError);
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("events")
+    .update(result.fields)
+    .eq("id", id)
+    .select(EVENT_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Event Update Error:", JSON.stringify(error));
+    return errorResponse(500, "Messe konnte nicht gespeichert werden");
+  }
+  if (!data) {
+    return errorResponse(404, "Messe nicht gefunden");
+  }
+
+  return jsonResponse({ success: true, event: data });
+}
+
+async function deleteEvent(supabase: SupabaseClient, id: string): Promise<Response> {
+  const { data, error } = await supabase
+    .from("events")
+    .delete()
+    .eq("id", id)
+    .select("id");
+
+  if (error) {
+    console.error("Event Delete Error:", JSON.stringify(error));
+    return errorResponse(500, "Messe konnte nicht gelöscht werden");
+  }
+  if (!data || data.length === 0) {
+    return errorResponse(404, "Messe nicht gefunden");
+  }
+
+  return jsonResponse({ success: true, id });
+}
+
+// ============================================
+// Kennzahlen
+// ============================================
+
+async function getEventStats(supabase: SupabaseClient, id: string): Promise<Response> {
+  const [event, stats] = await Promise.all([
+    supabase
+      .from("events")
+      .select("id, name, starts_on, ends_on, time_zone")
+      .eq("id", id)
+      .maybeSingle(),
+    supabase.rpc("event_stats", { p_event_id: id }),
+  ]);
+
+  const failed = event.error ?? stats.error;
+  if (failed) {
+    console.error("Event Stats Error:", JSON.stringify(failed));
+    return errorResponse(500, "Kennzahlen konnten nicht geladen werden");
+  }
+  if (!event.data || !stats.data) {
+    return errorResponse(404, "Messe nicht gefunden");
+  }
+
+  return jsonResponse({ success: true, event: event.data, stats: stats.data });
+}
+
+// ============================================
+// Validierung
+// ============================================
+
+async function readBody(req: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await req.json();
+    return body && typeof body === "object" && !Array.isArray(body) ? body : null;
+  } catch (parseError) {
+    console.error("JSON Parse Error:", parseError);
+    return null;
+  }
+}
+
+/**
+ * Prüft die Felder. Bei `partial` (PATCH) sind alle Felder optional.
+ */
+function validateEventFields(
+  body: Record<string, unknown>,
+  partial: boolean
+): { fields: EventFields } | { error: string } {
+  const fields: EventFields = {};
+
+  const text = (key: keyof EventFields, maxLength: number, required: boolean): string | null => {
+    const value = body[key];
+    if (value === undefined) {
+      return required && !partial ? `Feld '${key}' erforderlich` : null;
+    }
+    if (value === null || value === "") {
+      if (required) {
+        return `Feld '${key}' muss ein nicht-leerer Text sein`;
+      }
+      (fields as Record<string, null>)[key] = null;
+      return null;
+    }
+    if (typeof value !== "string" || !value.trim()) {
+      return `Feld '${key}' muss ein nicht-leerer Text sein`;
+    }
+    if (value.length > maxLength) {
+      return `Feld '${key}' darf max. ${maxLength} Zeichen lang sein`;
+    }
+    (fields as Record<string, string>)[key] = value.trim();
+    return null;
+  };
+
+  const date = (key: "starts_on" | "ends_on"): string | null => {
+    const value = body[key];
+    if (value === undefined) {
+      return partial ? null : `Feld '${key}' erforderlich`;
+    }
+    if (typeof value !== "string" || !isIsoDate(value)) {
+      return `Feld '${key}' muss ein Datum (YYYY-MM-DD) sein`;
+    }
+    fields[key] = value;
+    return null;
+  };
+
+  const error =
+    text("name", MAX_NAME_LENGTH, true) ??
+    text("venue", MAX_TEXT_LENGTH, false) ??
+    text("city", MAX_TEXT_LENGTH, false) ??
+    text("booth", MAX_TEXT_LENGTH, false) ??
+    text("notes", MAX_NOTES_LENGTH, false) ??
+    date("starts_on") ??
+    date("ends_on");
+  if (error) {
+    return { error };
+  }
+
+  if (body.country !== undefined) {
+    if (body.country === null || body.country === "") {
+      fields.country = null;
+    } else if (typeof body.country !== "string" || !/^[A-Za-z]{2}$/.test(body.country)) {
+      return { error: "Feld 'country' muss ein ISO-Ländercode sein (z.B. DE)" };
+    } else {
+      fields.country = body.country.toUpperCase();
+    }
+  }
+
+  if (body.time_zone !== undefined) {
+    if (typeof body.time_zone !== "string" || !isTimeZone(body.time_zone)) {
+      return { error: "Feld 'time_zone' muss eine IANA-Zeitzone sein (z.B. Europe/Berlin)" };
+    }
+    fields.time_zone = body.time_zone;
+  }
+
+  if (body.products !== undefined) {
+    const products = body.products ?? [];
+    if (
+      !Array.isArray(products) || products.length > MAX_PRODUCTS ||
+      products.some((p) => typeof p !== "string" || !p.trim() || p.length > MAX_PRODUCT_LENGTH)
+    ) {
+      return {
+        error: `Feld 'products' muss eine Liste von max. ${MAX_PRODUCTS} Texten ` +
+          `(je max. ${MAX_PRODUCT_LENGTH} Zeichen) sein`,
+      };
+    }
+    fields.products = [...new Set((products as string[]).map((p) => p.trim()))];
+  }
+
+  return { fields };
+}
+
+function checkDateRange(startsOn: string, endsOn: string): string | null {
+  const days = (Date.parse(endsOn) - Date.parse(startsOn)) / 86400000;
+  if (days < 0) {
+    return "'ends_on' liegt vor 'starts_on'";
+  }
+  if (days >= MAX_EVENT_DAYS) {
+    return `Eine Messe dauert höchstens ${MAX_EVENT_DAYS} Tage`;
+  }
+  return null;
+}
+
+function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return !isNaN(time) && new Date(time).toISOString().startsWith(value);
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,210 @@
+// ============================================
+// MesseMemo Follow-up Digest Edge Function
+// Version: 1.0 (Tägliche Follow-up-Erinnerung per E-Mail, Webhook oder Push)
+// ============================================
+//
+// Wird stündlich per pg_cron aufgerufen (schedule_follow_up_digest, siehe
+// migrations/014_follow_up_digest.sql) und schickt jedem User, dessen
+// Versandstunde erreicht ist, eine Übersicht der Leads, bei denen ein
+// Follow-up fällig ist. Kanal, Uhrzeit und Ruhezeit kommen aus
+// user_settings; pro User und lokalem Tag geht höchstens ein Digest raus.
+//
+// Server (pg_cron, "Authorization: Bearer <CRON_SECRET>"):
+//   POST /                → fällige Digests senden { user_id?, force? }
+//
+// App (mit User-JWT):
+//   PUT    /webhook       → Webhook-URL für den Kanal "webhook" speichern
+//                           { url, rotate_secret? } (Antwort enthält das Secret
+//                           beim ersten Speichern und beim Rotieren)
+//   DELETE /webhook       → Webhook-URL entfernen
+//
+// Deploy mit --no-verify-jwt, damit der Cron-Pfad erreichbar ist; der
+// App-Pfad prüft das JWT selbst.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { processDigests } from "../_shared/digest.ts";
+import { authenticate, authorizeCron, createAdminClient, isUuid } from "../_shared/supabase.ts";
+import { checkWebhookUrl, generateWebhookSecret } from "../_shared/webhooks.ts";
+
+// Digests pro Aufruf (Laufzeit-Limit der Edge Function)
+const DEFAULT_BATCH_SIZE = 50;
+const MAX_BATCH_SIZE = 200;
+
+const MAX_URL_LENGTH = 2000;
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const route = new URL(req.url).pathname.split("/").filter(Boolean).pop();
+    if (route === "webhook") {
+      return await handleWebhookSettings(req);
+    }
+
+    if (req.method !== "POST") {
+      return errorResponse(405, "Methode nicht erlaubt");
+    }
+
+    const unauthorized = authorizeCron(req);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const supabaseAdmin = createAdminClient();
+    if (!supabaseAdmin) {
+      return errorResponse(500, "Server-Konfiguration fehlerhaft");
+    }
+
+    // ========================================
+    // 1. Request Body parsen (optional)
+    // ========================================
+    // { user_id?, force? } – für manuelle Testläufe
+
+    let requestBody: Record<string, unknown> = {};
+    const rawBody = await req.text();
+    if (rawBody.trim()) {
+      try {
+        requestBody = JSON.parse(rawBody);
+      } catch (parseError) {
+        console.error("JSON Parse Error:", parseError);
+        return errorResponse(400, "Ungültiger Request-Body");
+      }
+      if (!requestBody || typeof requestBody !== "object" || Array.isArray(requestBody)) {
+        return errorResponse(400, "Ungültiger Request-Body");
+      }
+    }
+
+    if (requestBody.user_id !== undefined && !isUuid(requestBody.user_id)) {
+      return errorResponse(400, "'user_id' ist keine UUID");
+    }
+
+    // ========================================
+    // 2. Fällige Digests reservieren & versenden
+    // ========================================
+
+    const results = await processDigests(supabaseAdmin, {
+      batchSize: batchSize(),
+      userId: requestBody.user_id as string | undefined,
+      force: requestBody.force === true,
+    });
+    if (!results) {
+      return errorResponse(500, "Digests konnten nicht geladen werden");
+    }
+
+    const sent = results.filter((result) => result.status === "sent").length;
+
+    return jsonResponse({
+      success: true,
+      processed: results.length,
+      sent,
+      failed: results.length - sent,
+      results,
+    });
+
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function batchSize(): number {
+  const configured = Number(Deno.env.get("DIGEST_BATCH_SIZE"));
+  return Number.isInteger(configured) && configured > 0
+    ? Math.min(configured, MAX_BATCH_SIZE)
+    : DEFAULT_BATCH_SIZE;
+}
+
+// ============================================
+// Webhook-URL (App)
+// ============================================
+// Clients können digest_webhook_url nicht direkt schreiben (Trigger
+// user_settings_digest_webhook): erst hier wird geprüft, dass die URL auf
+// einen öffentlichen HTTPS-Host zeigt.
+
+async function handleWebhookSettings(req: Request): Promise<Response> {
+  const auth = await authenticate(req);
+  if (auth instanceof Response) {
+    return auth;
+  }
+  const { user, supabaseAdmin } = auth;
+
+  if (req.method === "DELETE") {
+    const { error } = await supabaseAdmin
+      .from("user_settings")
+      .update({ digest_webhook_url: null, digest_webhook_secret: null })
+      .eq("user_id", user.id);
+    if (error) {
+      console.error("Digest Webhook Delete Error:", JSON.stringify(error));
+      return errorResponse(500, "Webhook konnte nicht entfernt werden");
+    }
+    return jsonResponse({ success: true });
+  }
+
+  if (req.method !== "PUT") {
+    return errorResponse(405, "Methode nicht erlaubt");
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch (parseError) {
+    console.error("JSON Parse Error:", parseError);
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+  if (typeof body.url !== "string" || !body.url.trim() || body.url.length > MAX_URL_LENGTH) {
+    return errorResponse(400, "Feld 'url' fehlt oder ist ungültig");
+  }
+  const url = body.url.trim();
+  const urlError = checkWebhookUrl(url);
+  if (urlError) {
+    return errorResponse(400, urlError);
+  }
+  if (body.rotate_secret !== undefined && typeof body.rotate_secret !== "boolean") {
+    return errorResponse(400, "'rotate_secret' muss true oder false sein");
+  }
+
+  const { data: settings, error: loadError } = await supabaseAdmin
+    .from("user_settings")
+    .select("digest_webhook_secret")
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (loadError) {
+    console.error("Digest Webhook Load Error:", JSON.stringify(loadError));
+    return errorResponse(500, "Einstellungen konnten nicht geladen werden");
+  }
+
+  // Secret bleibt beim Ändern der URL, neu nur beim ersten Mal oder auf Wunsch
+  const secret = settings?.digest_webhook_secret && body.rotate_secret !== true
+    ? null
+    : generateWebhookSecret();
+
+  const { error } = await supabaseAdmin
+    .from("user_settings")
+    .upsert({
+      user_id: user.id,
+      digest_webhook_url: url,
+      ...(secret ? { digest_webhook_secret: secret } : {}),
+    }, { onConflict: "user_id" });
+  if (error) {
+    console.error("Digest Webhook Save Error:", JSON.stringify(error));
+    return errorResponse(500, "Webhook konnte nicht gespeichert werden");
+  }
+
+  return jsonResponse(secret ? { success: true, webhook_url: url, secret } : { success: true, webhook_url: url });
+}
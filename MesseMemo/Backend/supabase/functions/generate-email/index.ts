@@ -1,21 +1,84 @@
 // ============================================
 // MesseMemo AI Email Generation Edge Function
-// Version: 3.0 (Google Gemini 1.5 Flash)
+// Version: 4.3 (Strukturierte JSON-Antwort mit Varianten + Result Cache + Messe-Kontext + CRM-Webhooks)
 // ============================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-// CORS Headers
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
-// Google Gemini Configuration
-const GOOGLE_API_KEY = Deno.env.get("GOOGLE_API_KEY");
-// Hinweis: Die Edge Function verwendet eine Fallback-Strategie und versucht
-// automatisch verschiedene Modellnamen und API-Versionen, falls das erste Modell nicht verfügbar ist.
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import {
+  COMMIT_FAILED_MESSAGE,
+  commitCredit,
+  getIdempotencyKey,
+  loadCreditsRemaining,
+  releaseCredit,
+  reserveCredit,
+  ReservationOptions,
+  withCreditReservation,
+} from "../_shared/credits.ts";
+import {
+  appendSignature,
+  describeEmailStyle,
+  EmailOptions,
+  EmailOptionsError,
+  fallbackSubject,
+  LENGTH_PRESETS,
+  loadEmailDefaults,
+  resolveEmailOptions,
+} from "../_shared/email-options.ts";
+import {
+  EMAIL_VARIANTS_SCHEMA,
+  EmailVariant,
+  EmailVariantsError,
+  MAX_VARIANTS,
+  validateEmailVariants,
+} from "../_shared/email-variants.ts";
+import { describeEventForPrompt, eventCacheInfo, resolveEvent, TradeFairEvent } from "../_shared/events.ts";
+import {
+  checkLlmConfig,
+  generateJson,
+  LlmError,
+  LlmRequest,
+  loadLlmConfig,
+  openTextStream,
+} from "../_shared/llm.ts";
+import { clientIp, enforceRateLimit } from "../_shared/rate-limit.ts";
+import {
+  lookupCachedResult,
+  normalizeCacheText,
+  resultCacheKey,
+  storeCachedResult,
+  wantsFreshResult,
+} from "../_shared/result-cache.ts";
+import { isUuid } from "../_shared/supabase.ts";
+import {
+  buildTemplateValues,
+  loadTemplate,
+  RenderedTemplate,
+  renderTemplate,
+} from "../_shared/templates.ts";
+import { publishWebhookEvent } from "../_shared/webhooks.ts";
+
+// Solange noch keine Betreff-Zeile erkannt wurde, werden höchstens so viele
+// Zeichen zurückgehalten – danach wird ohne Betreff weitergestreamt
+const MAX_SUBJECT_BUFFER = 300;
+const SUBJECT_LINE_PATTERN = /^\s*(?:BETREFF|Betreff|Subject):\s*(.+)$/i;
+
+// Bei jeder Änderung am Prompt erhöhen (Result Cache)
+const PROMPT_VERSION = "email-4.2";
+
+interface EmailInput {
+  name: string;
+  company: string;
+  transcript: string;
+  options: EmailOptions;
+  /** Anzahl alternativer Varianten (nur JSON-Antwort) */
+  variants: number;
+  /** Vorlage als Stilvorgabe (template_mode "guide") */
+  template?: { id: string; rendered: RenderedTemplate };
+  /** Messe, auf der das Gespräch stattfand */
+  event: TradeFairEvent | null;
+}
 
 // ============================================
 // Main Handler
@@ -73,37 +136,7 @@ serve(async (req) => {
     }
 
     // ========================================
-    // 2. Credit Check & Abzug (atomar)
-    // ========================================
-    
-    // Service Client für RPC Call (SECURITY DEFINER)
-    const supabaseAdmin = createClient(
-      supabaseUrl,
-      supabaseServiceKey
-    );
-
-    // Versuche 1 Credit abzuziehen
-    const { data: creditResult, error: creditError } = await supabaseAdmin
-      .rpc("use_ai_credit", { user_id: user.id });
-
-    if (creditError) {
-      console.error("Credit RPC Error:", JSON.stringify(creditError, null, 2));
-      return errorResponse(500, `Fehler beim Credit-Check: ${creditError.message || JSON.stringify(creditError)}`);
-    }
-
-    // Prüfe Ergebnis
-    const creditData = creditResult?.[0];
-    
-    if (!creditData?.success) {
-      return errorResponse(403, creditData?.error_message || "Kein Guthaben mehr", {
-        credits_remaining: 0,
-      });
-    }
-
-    const creditsRemaining = creditData.credits_remaining;
-
-    // ========================================
-    // 3. Request Body parsen
+    // 2. Request Body parsen
     // ========================================
     
     let requestBody;
@@ -116,194 +149,169 @@ serve(async (req) => {
     
     const { name, company, transcript } = requestBody;
 
+    // Streaming ist opt-in (ältere App-Versionen erwarten JSON)
+    const wantsStream = requestBody.stream === true ||
+      (req.headers.get("Accept") ?? "").includes("text/event-stream");
+
     if (!name && !company && !transcript) {
-      // Credit zurückgeben bei ungültigem Request
-      await supabaseAdmin.rpc("add_ai_credits", { 
-        user_id: user.id, 
-        amount: 1 
-      });
       return errorResponse(400, "Name, Firma oder Kontext erforderlich");
     }
 
-    // ========================================
-    // 4. Google Gemini API Call
-    // ========================================
-    
-    if (!GOOGLE_API_KEY) {
-      console.error("❌ GOOGLE_API_KEY environment variable is missing");
-      // Credit zurückgeben bei Konfigurationsfehler
-      await supabaseAdmin.rpc("add_ai_credits", { 
-        user_id: user.id, 
-        amount: 1 
-      });
-      return errorResponse(500, "Google API Key nicht konfiguriert. Bitte GOOGLE_API_KEY in Supabase Edge Function Secrets setzen.");
+    // Mehrere Varianten in einem Call (kostet trotzdem nur 1 Credit)
+    const variantCount = requestBody.variants ?? 1;
+    if (!Number.isInteger(variantCount) || variantCount < 1 || variantCount > MAX_VARIANTS) {
+      return errorResponse(400, `'variants' muss eine Zahl von 1 bis ${MAX_VARIANTS} sein`);
     }
-
-    // Validiere API-Key Format (sollte nicht leer sein)
-    if (GOOGLE_API_KEY.trim().length === 0) {
-      console.error("❌ GOOGLE_API_KEY is empty");
-      await supabaseAdmin.rpc("add_ai_credits", { 
-        user_id: user.id, 
-        amount: 1 
-      });
-      return errorResponse(500, "Google API Key ist leer. Bitte GOOGLE_API_KEY in Supabase Edge Function Secrets setzen.");
+    if (wantsStream && variantCount > 1) {
+      return errorResponse(400, "Streaming unterstützt nur eine Variante");
     }
 
-    const prompt = buildGeminiPrompt(name, company, transcript);
-
-    // Versuche verschiedene Modellnamen und API-Versionen (Fallback-Strategie)
-    // Priorität: Neueste/zuverlässigste Modelle zuerst
-    const modelOptions = [
-      { model: "gemini-1.5-flash-latest", apiVersion: "v1beta" },
-      { model: "gemini-1.5-pro-latest", apiVersion: "v1beta" },
-      { model: "gemini-1.5-flash-002", apiVersion: "v1beta" },
-      { model: "gemini-1.5-flash", apiVersion: "v1" },
-      { model: "gemini-1.5-flash-latest", apiVersion: "v1" },
-      { model: "gemini-2.0-flash-exp", apiVersion: "v1beta" },
-      { model: "gemini-pro", apiVersion: "v1beta" },
-    ];
-    
-    let geminiResponse: Response | null = null;
-    let lastError: string = "";
-    
-    for (const { model, apiVersion } of modelOptions) {
-      const endpoint = `https://generativelanguage.googleapis.com/${apiVersion}/models/${model}:generateContent`;
-      const fullUrl = `${endpoint}?key=${GOOGLE_API_KEY}`;
-      
-      console.log(`Trying model: ${model} (${apiVersion})`);
-      
-      try {
-        geminiResponse = await fetch(fullUrl, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            contents: [
-              {
-                parts: [
-                  {
-                    text: prompt
-                  }
-                ]
-              }
-            ],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 500,
-              topP: 0.9,
-              topK: 40
-            },
-            safetySettings: [
-              {
-                category: "HARM_CATEGORY_HARASSMENT",
-                threshold: "BLOCK_NONE"
-              },
-              {
-                category: "HARM_CATEGORY_HATE_SPEECH",
-                threshold: "BLOCK_NONE"
-              },
-              {
-                category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-                threshold: "BLOCK_NONE"
-              },
-              {
-                category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-                threshold: "BLOCK_NONE"
-              }
-            ]
-          }),
-        });
-        
-        if (geminiResponse.ok) {
-          console.log(`✅ Successfully used model: ${model} (${apiVersion})`);
-          break; // Erfolgreich, beende Schleife
-        } else {
-          const errorData = await geminiResponse.text();
-          const statusText = geminiResponse.statusText || `HTTP ${geminiResponse.status}`;
-          lastError = `Model ${model} (${apiVersion}): ${statusText} - ${errorData}`;
-          console.warn(`❌ Model ${model} (${apiVersion}) failed [${geminiResponse.status}]:`, errorData);
-          geminiResponse = null; // Reset für nächsten Versuch
-        }
-      } catch (fetchError) {
-        lastError = `Model ${model} (${apiVersion}): ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`;
-        console.warn(`Model ${model} (${apiVersion}) threw error:`, fetchError);
-        geminiResponse = null;
+    // Sprache, Ton, Länge, Signatur: Request > user_settings > Defaults
+    let emailOptions: EmailOptions;
+    try {
+      const defaults = await loadEmailDefaults(supabaseClient, user.id);
+      emailOptions = resolveEmailOptions(requestBody, defaults);
+    } catch (error) {
+      if (error instanceof EmailOptionsError) {
+        return errorResponse(400, error.message);
       }
+      throw error;
     }
 
-    if (!geminiResponse || !geminiResponse.ok) {
-      console.error("❌ All Gemini models failed. Last error:", lastError);
-      console.error("Tried models:", modelOptions.map(m => `${m.model} (${m.apiVersion})`).join(", "));
-      
-      // Credit zurückgeben bei Gemini Fehler
-      await supabaseAdmin.rpc("add_ai_credits", { 
-        user_id: user.id, 
-        amount: 1 
-      });
-      
-      // Benutzerfreundliche Fehlermeldung
-      let userMessage = "KI-Generierung fehlgeschlagen. ";
-      if (lastError.includes("404") || lastError.includes("not found")) {
-        userMessage += "Modell nicht verfügbar. Bitte API-Key und Modellverfügbarkeit prüfen.";
-      } else if (lastError.includes("401") || lastError.includes("403")) {
-        userMessage += "API-Key ungültig oder keine Berechtigung.";
-      } else if (lastError.includes("429")) {
-        userMessage += "API-Limit erreicht. Bitte später erneut versuchen.";
-      } else {
-        userMessage += `Technischer Fehler: ${lastError.substring(0, 200)}`;
-      }
-      
-      return errorResponse(500, userMessage);
+    // Messe aus 'event_id' oder die gerade laufende ('event_id: null' = ohne)
+    const resolvedEvent = await resolveEvent(supabaseClient, requestBody.event_id);
+    if ("error" in resolvedEvent) {
+      return errorResponse(resolvedEvent.status, resolvedEvent.error);
     }
 
-    const geminiData = await geminiResponse.json();
-    
-    // Gemini Response Format: candidates[0].content.parts[0].text
-    const generatedText = geminiData?.candidates?.[0]?.content?.parts?.[0]?.text || "";
-
-    if (!generatedText) {
-      console.error("Empty Gemini response:", JSON.stringify(geminiData));
-      
-      // Credit zurückgeben bei leerem Response
-      await supabaseAdmin.rpc("add_ai_credits", { 
-        user_id: user.id, 
-        amount: 1 
-      });
-      
-      return errorResponse(500, "Keine Antwort von der KI erhalten");
-    }
+    const input: EmailInput = {
+      name,
+      company,
+      transcript,
+      options: emailOptions,
+      variants: variantCount,
+      event: resolvedEvent.event,
+    };
 
     // ========================================
-    // 5. Response parsen
+    // 2b. Vorlage (optional)
     // ========================================
-    
-    const { subject, body } = parseEmailResponse(generatedText);
+    // "render": Platzhalter füllen, ohne KI und ohne Credit
+    // "guide":  Vorlage als Stilvorgabe für das Modell
 
-    if (!subject || !body) {
-      // Credit zurückgeben bei Parse-Fehler
-      await supabaseAdmin.rpc("add_ai_credits", { 
-        user_id: user.id, 
-        amount: 1 
-      });
-      return errorResponse(500, "E-Mail konnte nicht generiert werden");
+    if (requestBody.template_id !== undefined) {
+      const templateMode = requestBody.template_mode ?? "render";
+      if (!isUuid(requestBody.template_id)) {
+        return errorResponse(400, "Ungültige template_id");
+      }
+      if (templateMode !== "render" && templateMode !== "guide") {
+        return errorResponse(400, "Ungültiger template_mode. Erlaubt: render, guide");
+      }
+
+      const template = await loadTemplate(supabaseClient, requestBody.template_id);
+      if (!template) {
+        return errorResponse(404, "Vorlage nicht gefunden");
+      }
+
+      // Sprache der Vorlage, sofern der Request keine vorgibt
+      if (template.language && requestBody.language === undefined) {
+        emailOptions.language = template.language;
+      }
+
+      const rendered = renderTemplate(template, buildTemplateValues({
+        name,
+        company,
+        transcript,
+        senderName: emailOptions.senderName,
+        signature: emailOptions.signature,
+        eventName: input.event?.name,
+      }));
+
+      if (templateMode === "render") {
+        const responseBody = {
+          success: true,
+          subject: rendered.subject,
+          email: rendered.body,
+          source: "template",
+          template_id: template.id,
+          missing_placeholders: rendered.missing,
+          event_id: input.event?.id ?? null,
+        };
+        return wantsStream ? eventsResponse(responseBody) : jsonResponse(responseBody);
+      }
+
+      input.template = { id: template.id, rendered };
+    }
+
+    const configError = checkLlmConfig(loadLlmConfig());
+    if (configError) {
+      console.error("❌ LLM config invalid:", configError);
+      return errorResponse(500, configError);
+    }
+
+    const idempotencyKey = await getIdempotencyKey(req, requestBody);
+    if (!idempotencyKey) {
+      return errorResponse(400, "Ungültiger Idempotency-Key");
     }
 
     // ========================================
-    // 6. Erfolg zurückgeben
+    // 3. Credit reservieren (atomar)
     // ========================================
+    // Nicht-2xx Antworten und Exceptions geben den Credit automatisch zurück.
     
-    return new Response(
-      JSON.stringify({
-        success: true,
-        subject: subject,
-        email: body,
-        credits_remaining: creditsRemaining,
-      }),
-      {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 200,
+    // Service Client für RPC Calls (SECURITY DEFINER)
+    const supabaseAdmin = createClient(
+      supabaseUrl,
+      supabaseServiceKey
+    );
+
+    // Gleicher Kontakt, gleicher Kontext, gleiche Optionen → gespeicherte
+    // E-Mail ohne KI und ohne Credit ('force_refresh: true' generiert neu)
+    const cacheKey = await emailCacheKey(input, wantsStream);
+    if (!wantsFreshResult(requestBody)) {
+      const cached = await lookupCachedResult(supabaseAdmin, user.id, "generate-email", cacheKey);
+      if (cached) {
+        const responseBody = {
+          ...cached,
+          cached: true,
+          credits_remaining: await loadCreditsRemaining(supabaseAdmin, user.id),
+        };
+        return wantsStream ? eventsResponse(responseBody) : jsonResponse(responseBody);
       }
+    }
+    // Neues Ergebnis: cachen und an die CRM-Webhooks melden (email.generated)
+    const leadId = isUuid(requestBody.leadId) ? requestBody.leadId.toLowerCase() : null;
+    const onResult = async (body: Record<string, unknown>) => {
+      await storeCachedResult(supabaseAdmin, user.id, "generate-email", cacheKey, body);
+      await publishWebhookEvent(supabaseAdmin, user.id, "email.generated", leadId, {
+        subject: body.subject,
+        email: body.email,
+        language: emailOptions.language,
+        event_id: body.event_id,
+        template_id: body.template_id ?? null,
+      });
+    };
+
+    // Rate Limit vor dem KI-Call (429 + Retry-After)
+    const limited = await enforceRateLimit(supabaseAdmin, {
+      userId: user.id,
+      functionName: "generate-email",
+      ip: clientIp(req),
+    });
+    if (limited) {
+      return limited;
+    }
+
+    const reservationOptions = { userId: user.id, functionName: "generate-email", idempotencyKey };
+
+    if (wantsStream) {
+      return await streamEmail(supabaseAdmin, reservationOptions, input, onResult);
+    }
+
+    return await withCreditReservation(
+      supabaseAdmin,
+      reservationOptions,
+      (reservation) => generateEmail(input, reservation.creditsRemaining, onResult)
     );
 
   } catch (error) {
@@ -319,49 +327,388 @@ serve(async (req) => {
 // Helper Functions
 // ============================================
 
-function errorResponse(
-  status: number, 
-  message: string, 
-  extra: Record<string, unknown> = {}
-): Response {
+type ResultHook = (body: Record<string, unknown>) => Promise<void>;
+
+/**
+ * Ruft das LLM auf und baut die Erfolgs- bzw. Fehler-Antwort
+ */
+async function generateEmail(
+  input: EmailInput,
+  creditsRemaining: number,
+  onResult: ResultHook
+): Promise<Response> {
+  const { options } = input;
+
+  // ========================================
+  // 4. KI-Call (strukturiertes JSON)
+  // ========================================
+
+  // Provider, Modelle, Timeouts & Circuit Breaker: siehe _shared/llm.ts
+  let variants: EmailVariant[];
+  try {
+    const result = await generateJson({
+      ...buildEmailRequest(input, "json"),
+      jsonSchema: EMAIL_VARIANTS_SCHEMA,
+    });
+
+    // ========================================
+    // 5. Response validieren
+    // ========================================
+
+    variants = validateEmailVariants(result.json, input.variants);
+  } catch (error) {
+    if (error instanceof LlmError) {
+      console.error("❌ All models failed:", error.attempts.join(" | "));
+      return errorResponse(500, describeLlmError(error));
+    }
+    if (error instanceof SyntaxError || error instanceof EmailVariantsError) {
+      console.error("❌ Invalid email JSON:", error.message);
+      return errorResponse(500, "E-Mail konnte nicht generiert werden");
+    }
+    throw error;
+  }
+
+  // ========================================
+  // 6. Erfolg zurückgeben
+  // ========================================
+  // subject/email = erste Variante (kompatibel mit älteren App-Versionen)
+
+  const signed = variants.map((variant) => ({
+    label: variant.label,
+    subject: variant.subject,
+    email: appendSignature(variant.body, options.signature),
+    call_to_action: variant.call_to_action,
+    follow_up_date: variant.follow_up_date,
+  }));
+
+  const result = {
+    success: true,
+    subject: signed[0].subject,
+    email: signed[0].email,
+    variants: signed,
+    event_id: input.event?.id ?? null,
+    ...templateInfo(input),
+  };
+  await onResult(result);
+
   return new Response(
-    JSON.stringify({
-      success: false,
-      error: message,
-      ...extra,
-    }),
+    JSON.stringify({ ...result, credits_remaining: creditsRemaining }),
     {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
-      status: status,
+      status: 200,
     }
   );
 }
 
 /**
- * Baut den Prompt für Gemini 1.5 Flash
+ * Streaming-Variante: Antwort als Server-Sent Events.
+ *
+ * Events: `subject` (sobald bekannt), `delta` (Text-Stücke des Bodys),
+ * `done` (finales Ergebnis, identisch zur JSON-Antwort) oder `error`.
+ * Fehler vor dem ersten Chunk (Guthaben, alle Modelle down) kommen als
+ * normale JSON-Fehlerantwort. Der Credit wird erst nach `done` abgebucht,
+ * bei Fehlern oder Verbindungsabbruch des Clients wird er erstattet.
+ */
+async function streamEmail(
+  supabaseAdmin: SupabaseClient,
+  options: ReservationOptions,
+  input: EmailInput,
+  onResult: ResultHook
+): Promise<Response> {
+  const emailOptions = input.options;
+  const result = await reserveCredit(supabaseAdmin, options);
+
+  switch (result.kind) {
+    case "replayed":
+      console.log(`Idempotent replay for ${options.functionName} (${options.idempotencyKey})`);
+      return eventsResponse(result.body, { "Idempotent-Replayed": "true" });
+    case "in_progress":
+      return errorResponse(409, "Anfrage wird bereits verarbeitet. Bitte kurz warten.");
+    case "insufficient":
+      return errorResponse(403, result.message, { credits_remaining: 0 });
+    case "error":
+      return errorResponse(500, "Fehler beim Guthaben-Abzug");
+  }
+
+  const { reservation } = result;
+
+  // Verbindungsaufbau inkl. Modell-Fallback, bevor der Stream beginnt
+  let llmStream;
+  try {
+    llmStream = await openTextStream(buildEmailRequest(input, "text"));
+  } catch (error) {
+    await releaseCredit(supabaseAdmin, reservation);
+    if (!(error instanceof LlmError)) {
+      throw error;
+    }
+    console.error("❌ All models failed:", error.attempts.join(" | "));
+    return errorResponse(500, describeLlmError(error));
+  }
+
+  // Commit oder Release genau einmal
+  let settled = false;
+  const release = async () => {
+    if (settled) return;
+    settled = true;
+    await releaseCredit(supabaseAdmin, reservation);
+  };
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!settled) {
+          controller.enqueue(encoder.encode(formatEvent(event, data)));
+        }
+      };
+
+      let fullText = "";
+      let pending = "";
+      let headerDone = false;
+
+      try {
+        for await (const chunk of llmStream.chunks) {
+          if (settled) break;
+          fullText += chunk;
+
+          if (headerDone) {
+            send("delta", { text: chunk });
+            continue;
+          }
+
+          // Auf die erste vollständige, nicht-leere Zeile warten
+          pending += chunk;
+          const trimmed = pending.replace(/^\s+/, "");
+          const newline = trimmed.indexOf("\n");
+          if (newline === -1 && trimmed.length < MAX_SUBJECT_BUFFER) {
+            continue;
+          }
+
+          headerDone = true;
+          const firstLine = newline === -1 ? trimmed : trimmed.slice(0, newline);
+          const subjectMatch = firstLine.match(SUBJECT_LINE_PATTERN);
+          if (subjectMatch) {
+            send("subject", { subject: subjectMatch[1].trim() });
+            const rest = newline === -1 ? "" : trimmed.slice(newline + 1).replace(/^\s+/, "");
+            if (rest) send("delta", { text: rest });
+          } else {
+            // Kein Betreff-Format → Betreff kommt erst mit `done`
+            send("delta", { text: trimmed });
+          }
+        }
+
+        if (settled) return;
+
+        const { subject, body } = parseEmailResponse(fullText, fallbackSubject(emailOptions.language));
+        if (!subject || !body) {
+          await release();
+          controller.enqueue(encoder.encode(formatEvent("error", { success: false, error: "E-Mail konnte nicht generiert werden" })));
+          return;
+        }
+
+        // Falls der Text nie eine Zeile umbrochen hat, fehlt noch der Rest
+        if (!headerDone && pending) {
+          send("delta", { text: pending.trim() });
+        }
+        if (emailOptions.signature) {
+          send("delta", { text: `\n${emailOptions.signature}` });
+        }
+
+        const responseBody = {
+          success: true,
+          subject: subject,
+          email: appendSignature(body, emailOptions.signature),
+          credits_remaining: reservation.creditsRemaining,
+          event_id: input.event?.id ?? null,
+          ...templateInfo(input),
+        };
+        settled = true;
+        if (!await commitCredit(supabaseAdmin, reservation, 200, responseBody)) {
+          await releaseCredit(supabaseAdmin, reservation);
+          controller.enqueue(encoder.encode(formatEvent("error", { success: false, error: COMMIT_FAILED_MESSAGE })));
+          return;
+        }
+        const { credits_remaining: _, ...cacheable } = responseBody;
+        await onResult(cacheable);
+        controller.enqueue(encoder.encode(formatEvent("done", responseBody)));
+      } catch (error) {
+        const message = error instanceof LlmError
+          ? describeLlmError(error)
+          : `Interner Serverfehler: ${error instanceof Error ? error.message : String(error)}`;
+        console.error("❌ Stream failed:", message);
+        const wasSettled = settled;
+        await release();
+        if (!wasSettled) {
+          controller.enqueue(encoder.encode(formatEvent("error", { success: false, error: message })));
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Stream wurde bereits vom Client abgebrochen
+        }
+      }
+    },
+    async cancel() {
+      console.log("Client hat den Stream abgebrochen");
+      await release();
+    },
+  });
+
+  return new Response(stream, { headers: sseHeaders() });
+}
+
+/**
+ * Liefert eine fertige JSON-Antwort als SSE-Events (Replay, Vorlage)
+ */
+function eventsResponse(body: unknown, headers: Record<string, string> = {}): Response {
+  const stored = (body ?? {}) as { success?: boolean; subject?: string; email?: string; error?: string };
+  let text = "";
+
+  if (stored.success) {
+    text += formatEvent("subject", { subject: stored.subject ?? "" });
+    text += formatEvent("delta", { text: stored.email ?? "" });
+    text += formatEvent("done", stored);
+  } else {
+    text += formatEvent("error", { success: false, error: stored.error ?? "Unbekannter Fehler" });
+  }
+
+  return new Response(text, { headers: { ...sseHeaders(), ...headers } });
+}
+
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function sseHeaders(): Record<string, string> {
+  return {
+    ...corsHeaders,
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+  };
+}
+
+/**
+ * LLM-Parameter für die Follow-up E-Mail
+ */
+function buildEmailRequest(input: EmailInput, format: "text" | "json"): LlmRequest {
+  const { maxOutputTokens } = LENGTH_PRESETS[input.options.length];
+  return {
+    prompt: buildGeminiPrompt(input, format),
+    temperature: 0.7,
+    // JSON-Hülle und weitere Varianten brauchen Platz
+    maxOutputTokens: format === "json" ? maxOutputTokens * input.variants + 200 : maxOutputTokens,
+    topP: 0.9,
+    topK: 40,
+  };
+}
+
+/**
+ * Cache-Schlüssel der E-Mail. Stream und JSON liefern unterschiedliche
+ * Antworten; der JSON-Prompt enthält das heutige Datum (follow_up_date).
+ */
+async function emailCacheKey(input: EmailInput, stream: boolean): Promise<string> {
+  return await resultCacheKey({
+    functionName: "generate-email",
+    promptVersion: PROMPT_VERSION,
+    input: {
+      name: normalizeCacheText(input.name),
+      company: normalizeCacheText(input.company),
+      transcript: normalizeCacheText(input.transcript),
+      options: input.options,
+      variants: input.variants,
+      template: input.template
+        ? { id: input.template.id, subject: input.template.rendered.subject, body: input.template.rendered.body }
+        : null,
+      event: eventCacheInfo(input.event),
+      format: stream ? "stream" : "json",
+      date: stream ? undefined : new Date().toISOString().slice(0, 10),
+    },
+  });
+}
+
+/**
+ * Zusatzfelder der Antwort, wenn eine Vorlage als Stilvorgabe diente
+ */
+function templateInfo(input: EmailInput): Record<string, unknown> {
+  if (!input.template) {
+    return {};
+  }
+  return {
+    template_id: input.template.id,
+    missing_placeholders: input.template.rendered.missing,
+  };
+}
+
+/**
+ * Benutzerfreundliche Fehlermeldung aus dem letzten Modell-Fehler
+ */
+function describeLlmError(error: LlmError): string {
+  const lastError = error.message;
+
+  let userMessage = "KI-Generierung fehlgeschlagen. ";
+  if (lastError.includes("404") || lastError.includes("not found")) {
+    userMessage += "Modell nicht verfügbar. Bitte API-Key und Modellverfügbarkeit prüfen.";
+  } else if (lastError.includes("401") || lastError.includes("403")) {
+    userMessage += "API-Key ungültig oder keine Berechtigung.";
+  } else if (lastError.includes("429")) {
+    userMessage += "API-Limit erreicht. Bitte später erneut versuchen.";
+  } else {
+    userMessage += `Technischer Fehler: ${lastError.substring(0, 200)}`;
+  }
+  return userMessage;
+}
+
+/**
+ * Baut den Prompt für die Follow-up E-Mail
  * System-Instruktion ist direkt im Prompt enthalten
+ *
+ * "json": strukturierte Varianten (EMAIL_VARIANTS_SCHEMA)
+ * "text": BETREFF-Zeile + Text, damit der Betreff beim Streaming früh feststeht
  */
-function buildGeminiPrompt(name: string, company: string, transcript: string): string {
+function buildGeminiPrompt(input: EmailInput, format: "text" | "json"): string {
+  const { name, company, transcript, options, template, event } = input;
+  const styleRules = describeEmailStyle(options).map((rule) => `- ${rule}`).join("\n");
+
   // System-Instruktion direkt am Anfang
-  let prompt = `Du bist ein professioneller Business-Kommunikationsexperte, der freundliche, professionelle Follow-up E-Mails auf Deutsch verfasst.
+  let prompt = `Du bist ein professioneller Business-Kommunikationsexperte, der freundliche Follow-up E-Mails nach Messegesprächen verfasst.
 
 WICHTIGE REGELN:
-- Die E-Mail muss kurz und prägnant sein (max. 150 Wörter)
+${styleRules}
 - Schreibe einen klaren, professionellen Betreff
 - Die E-Mail soll persönlich wirken, aber professionell bleiben
 - Füge einen konkreten Call-to-Action hinzu
-- WICHTIG: Beginne IMMER mit "BETREFF:" gefolgt vom Betreff, dann eine Leerzeile, dann der E-Mail-Text
+`;
+
+  if (format === "json") {
+    const today = new Date().toISOString().slice(0, 10);
+    prompt += `
+ANTWORT-FORMAT (nur JSON, kein Markdown):
+{"variants": [{"label": "…", "subject": "…", "body": "…", "call_to_action": "…", "follow_up_date": "YYYY-MM-DD"}]}
+
+- Erstelle genau ${input.variants} ${input.variants === 1 ? "Variante" : "Varianten"}
+${input.variants > 1 ? "- Die Varianten unterscheiden sich deutlich, z.B. kurz & direkt vs. ausführlich; die erste hält die Längenvorgabe ein\n" : ""}- "label": kurze Beschreibung der Variante (2–4 Wörter, in der Sprache der E-Mail)
+- "subject": nur der Betreff, ohne "Betreff:"
+- "body": E-Mail-Text mit Anrede und Grußformel, ohne Betreff
+- "call_to_action": der vorgeschlagene nächste Schritt in einem Satz
+- "follow_up_date": wann nachgefasst werden sollte, ausgehend von heute (${today}), meist 3–10 Werktage später
+`;
+  } else {
+    prompt += `- WICHTIG: Beginne IMMER mit "BETREFF:" (dieses Wort nicht übersetzen) gefolgt vom Betreff, dann eine Leerzeile, dann der E-Mail-Text
 
 BEISPIEL-FORMAT:
-BETREFF: Schön Sie kennengelernt zu haben
+BETREFF: [Betreff]
 
-Sehr geehrte/r [Name],
+[Anrede],
 
 [E-Mail-Text hier]
 
-Mit freundlichen Grüßen
-[Absender]
+[Grußformel]
+`;
+  }
 
+  prompt += `
 ---
 
 AUFGABE: Erstelle eine Follow-up E-Mail für folgenden Kontakt:
@@ -377,16 +724,33 @@ AUFGABE: Erstelle eine Follow-up E-Mail für folgenden Kontakt:
   if (transcript) {
     prompt += `\nKontext aus dem Gespräch:\n${transcript}\n`;
   }
+  if (event) {
+    prompt += `\nKENNENGELERNT AUF (greife die Messe im Einstieg natürlich auf, z.B. "schön, Sie auf der ${event.name} getroffen zu haben"; erwähne gezeigte Produkte nur, wenn sie zum Gespräch passen):
+${describeEventForPrompt(event)}
+`;
+  }
   
-  prompt += "\nBitte erstelle jetzt die professionelle Follow-up E-Mail im oben beschriebenen Format.";
+  if (template) {
+    prompt += `\nVORLAGE (freigegebene Formulierungen – übernimm Aufbau, Wortwahl und Kernaussagen und passe sie an den Kontakt an; ersetze verbliebene {{platzhalter}} sinnvoll oder lasse sie weg):
+BETREFF: ${template.rendered.subject}
+
+${template.rendered.body}
+`;
+  }
+
+  prompt += "\nBitte erstelle jetzt die Follow-up E-Mail im oben beschriebenen Format.";
   
   return prompt;
 }
 
 /**
- * Parst die generierte E-Mail in Betreff und Body
+ * Parst die gestreamte E-Mail in Betreff und Body
+ * (Text-Format; die JSON-Antwort wird per validateEmailVariants geprüft)
  */
-function parseEmailResponse(text: string): { subject: string; body: string } {
+function parseEmailResponse(
+  text: string,
+  defaultSubject: string
+): { subject: string; body: string } {
   // Bereinige den Text
   const cleanText = text.trim();
   
@@ -430,7 +794,7 @@ function parseEmailResponse(text: string): { subject: string; body: string } {
   
   // Absoluter Fallback
   return {
-    subject: "Follow-up zu unserem Gespräch",
+    subject: defaultSubject,
     body: cleanText,
   };
 }
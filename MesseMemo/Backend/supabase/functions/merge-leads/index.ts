@@ -0,0 +1,288 @@
+// ============================================
+// MesseMemo Merge Leads Edge Function
+// Version: 1.0 (Dubletten zusammenführen)
+// ============================================
+//
+// Führt zwei Leads desselben Users zusammen:
+//   - Kontaktfelder: Wert des primären Leads, leere Felder aus dem sekundären
+//     (pro Feld per `prefer` überschreibbar)
+//   - Notizen & Transkripte werden aneinandergehängt
+//   - der sekundäre Lead wird per Tombstone gelöscht
+//
+// Jeder Merge wird mit beiden Ausgangsversionen in lead_merges protokolliert
+// (siehe migrations/007_lead_merges.sql).
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { authenticate, isUuid } from "../_shared/supabase.ts";
+
+/** Einzelwerte – es gewinnt eine Seite */
+const PICK_FIELDS = [
+  "name", "company", "email", "phone",
+  "generated_email", "original_image_filename", "audio_url", "audio_duration_seconds",
+] as const;
+
+/** Freitext – beide Seiten werden kombiniert */
+const COMBINE_FIELDS = ["notes", "transcript"] as const;
+
+const LEAD_COLUMNS = [
+  "id", ...PICK_FIELDS, ...COMBINE_FIELDS, "created_at", "updated_at",
+].join(", ");
+
+/** Audio-Felder gehören zusammen und werden gemeinsam übernommen */
+const AUDIO_FIELDS = ["audio_url", "audio_duration_seconds"] as const;
+
+type PickField = typeof PICK_FIELDS[number];
+type CombineField = typeof COMBINE_FIELDS[number];
+type FieldSource = "primary" | "secondary" | "combined";
+
+interface LeadRow {
+  id: string;
+  name: string;
+  company: string;
+  email: string;
+  phone: string;
+  notes: string;
+  transcript: string | null;
+  generated_email: string | null;
+  original_image_filename: string | null;
+  audio_url: string | null;
+  audio_duration_seconds: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+type MergedValues = Pick<LeadRow, PickField | CombineField>;
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse(405, "Methode nicht erlaubt");
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (auth instanceof Response) {
+      return auth;
+    }
+    const { user, supabaseClient, supabaseAdmin } = auth;
+
+    // ========================================
+    // 1. Request Body parsen
+    // ========================================
+
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (parseError) {
+      console.error("JSON Parse Error:", parseError);
+      return errorResponse(400, "Ungültiger Request-Body");
+    }
+
+    const { primary_id, secondary_id, prefer = {}, dry_run = false } = requestBody ?? {};
+
+    if (!isUuid(primary_id) || !isUuid(secondary_id)) {
+      return errorResponse(400, "'primary_id' und 'secondary_id' müssen gültige IDs sein");
+    }
+    if (primary_id.toLowerCase() === secondary_id.toLowerCase()) {
+      return errorResponse(400, "Ein Lead kann nicht mit sich selbst zusammengeführt werden");
+    }
+    if (typeof dry_run !== "boolean") {
+      return errorResponse(400, "'dry_run' muss true oder false sein");
+    }
+
+    const preferences = parsePreferences(prefer);
+    if (typeof preferences === "string") {
+      return errorResponse(400, preferences);
+    }
+
+    // ========================================
+    // 2. Beide Leads laden (RLS: nur eigene)
+    // ========================================
+
+    const { data: rows, error: loadError } = await supabaseClient
+      .from("leads")
+      .select(LEAD_COLUMNS)
+      .in("id", [primary_id, secondary_id])
+      .is("deleted_at", null);
+
+    if (loadError) {
+      console.error("Lead Load Error:", JSON.stringify(loadError));
+      return errorResponse(500, "Leads konnten nicht geladen werden");
+    }
+
+    const leads = (rows ?? []) as unknown as LeadRow[];
+    const primary = leads.find((lead) => lead.id === primary_id.toLowerCase());
+    const secondary = leads.find((lead) => lead.id === secondary_id.toLowerCase());
+    if (!primary || !secondary) {
+      return errorResponse(404, "Lead nicht gefunden");
+    }
+
+    // ========================================
+    // 3. Zusammenführen
+    // ========================================
+
+    const { merged, fieldSources } = mergeLeads(primary, secondary, preferences);
+
+    if (dry_run) {
+      return jsonResponse({
+        success: true,
+        dry_run: true,
+        lead: { ...primary, ...merged },
+        field_sources: fieldSources,
+      });
+    }
+
+    const { data: result, error: mergeError } = await supabaseAdmin.rpc("apply_lead_merge", {
+      p_user_id: user.id,
+      p_primary_id: primary.id,
+      p_secondary_id: secondary.id,
+      p_primary_updated_at: primary.updated_at,
+      p_secondary_updated_at: secondary.updated_at,
+      p_merged: merged,
+      p_field_sources: fieldSources,
+    });
+
+    if (mergeError) {
+      console.error("Merge RPC Error:", JSON.stringify(mergeError));
+      return errorResponse(500, "Leads konnten nicht zusammengeführt werden");
+    }
+
+    const mergeResult = result?.[0];
+    if (!mergeResult?.success) {
+      if (mergeResult?.error_code === "stale") {
+        return errorResponse(409, "Ein Lead wurde zwischenzeitlich geändert. Bitte erneut versuchen.");
+      }
+      return errorResponse(404, "Lead nicht gefunden");
+    }
+
+    const { data: updated } = await supabaseClient
+      .from("leads")
+      .select(LEAD_COLUMNS)
+      .eq("id", primary.id)
+      .single();
+
+    return jsonResponse({
+      success: true,
+      merge_id: mergeResult.merge_id,
+      lead: updated ?? { ...primary, ...merged },
+      deleted_lead_id: secondary.id,
+      field_sources: fieldSources,
+    });
+
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * `prefer`: { "<feld>": "primary" | "secondary" } für einzelne Kontaktfelder
+ */
+function parsePreferences(value: unknown): Partial<Record<PickField, "primary" | "secondary">> | string {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return "'prefer' muss ein Objekt sein";
+  }
+
+  const preferences: Partial<Record<PickField, "primary" | "secondary">> = {};
+  for (const [field, side] of Object.entries(value)) {
+    if (!(PICK_FIELDS as readonly string[]).includes(field)) {
+      return `Unbekanntes Feld in 'prefer': ${field}`;
+    }
+    if (side !== "primary" && side !== "secondary") {
+      return `'prefer.${field}' muss 'primary' oder 'secondary' sein`;
+    }
+    preferences[field as PickField] = side;
+  }
+  return preferences;
+}
+
+/**
+ * Feldweiser Merge. Ohne Präferenz gewinnt der primäre Lead, sofern das Feld gefüllt ist.
+ */
+function mergeLeads(
+  primary: LeadRow,
+  secondary: LeadRow,
+  preferences: Partial<Record<PickField, "primary" | "secondary">>
+): { merged: MergedValues; fieldSources: Record<string, FieldSource> } {
+  const merged = {} as Record<string, unknown>;
+  const fieldSources: Record<string, FieldSource> = {};
+
+  for (const field of PICK_FIELDS) {
+    if ((AUDIO_FIELDS as readonly string[]).includes(field)) {
+      continue;
+    }
+    const source = pickSource(field, primary, secondary, preferences[field]);
+    merged[field] = (source === "primary" ? primary : secondary)[field];
+    fieldSources[field] = source;
+  }
+
+  // Audio-URL und Dauer nur gemeinsam übernehmen
+  const audioSource = pickSource("audio_url", primary, secondary, preferences.audio_url ?? preferences.audio_duration_seconds);
+  for (const field of AUDIO_FIELDS) {
+    merged[field] = (audioSource === "primary" ? primary : secondary)[field];
+    fieldSources[field] = audioSource;
+  }
+
+  for (const field of COMBINE_FIELDS) {
+    const { value, source } = combineText(primary[field], secondary[field], secondary.created_at);
+    merged[field] = value;
+    fieldSources[field] = source;
+  }
+
+  // notes ist NOT NULL
+  merged.notes = merged.notes ?? "";
+
+  return { merged: merged as unknown as MergedValues, fieldSources };
+}
+
+function pickSource(
+  field: PickField,
+  primary: LeadRow,
+  secondary: LeadRow,
+  preference?: "primary" | "secondary"
+): "primary" | "secondary" {
+  if (preference) {
+    return preference;
+  }
+  return isEmpty(primary[field]) && !isEmpty(secondary[field]) ? "secondary" : "primary";
+}
+
+/**
+ * Hängt den Text des sekundären Leads mit Trenner an, doppelte Texte nur einmal
+ */
+function combineText(
+  primary: string | null,
+  secondary: string | null,
+  secondaryCreatedAt: string
+): { value: string | null; source: FieldSource } {
+  const a = primary?.trim() ?? "";
+  const b = secondary?.trim() ?? "";
+
+  if (!b || a.includes(b)) {
+    return { value: primary, source: "primary" };
+  }
+  if (!a) {
+    return { value: secondary, source: "secondary" };
+  }
+
+  const date = new Date(secondaryCreatedAt).toISOString().slice(0, 10);
+  return { value: `${a}\n\n--- Zusammengeführt (${date}) ---\n${b}`, source: "combined" };
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
@@ -0,0 +1,541 @@
+// ============================================
+// MesseMemo Organizations Edge Function
+// Version: 1.0 (Team-Workspaces, Einladungen, Credit-Pool)
+// ============================================
+//
+//   GET                     → eigene Organisation, Mitglieder (mit Verbrauch im
+//                             Monat), Pool und – für owner/admin – offene Einladungen
+//   POST                    → Organisation anlegen { name } (User wird owner)
+//   POST   /invitations     → einladen { email, role? } (owner/admin)
+//   DELETE /invitations?id= → Einladung zurückziehen (owner/admin)
+//   POST   /accept          → Einladung annehmen { token, share_leads? }
+//   PATCH  /members         → { user_id, role?, monthly_credit_cap? } (owner/admin)
+//   DELETE /members?user_id= → Mitglied entfernen; ohne user_id: austreten
+//   POST   /credits         → persönliche Credits in den Pool { amount }
+//
+// Tabellen, RLS und RPCs: migrations/016_organizations.sql
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { checkMailConfig, escapeHtml, isEmailAddress, sendMail } from "../_shared/mailer.ts";
+import { authenticate, isUuid } from "../_shared/supabase.ts";
+
+const MAX_NAME_LENGTH = 100;
+const INVITATION_TTL_DAYS = 7;
+
+type Role = "owner" | "admin" | "member";
+
+interface Membership {
+  organization_id: string;
+  role: Role;
+}
+
+// Status-Codes der RPCs → HTTP
+const RPC_ERRORS: Record<string, [number, string]> = {
+  not_found: [404, "Nicht gefunden"],
+  forbidden: [403, "Keine Berechtigung"],
+  already_member: [409, "Du bist bereits Mitglied einer Organisation"],
+  last_owner: [409, "Die Organisation braucht mindestens einen Owner"],
+  expired: [410, "Die Einladung ist abgelaufen"],
+  email_mismatch: [403, "Die Einladung gilt für eine andere E-Mail-Adresse"],
+  insufficient: [402, "Nicht genug Guthaben"],
+};
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (auth instanceof Response) {
+      return auth;
+    }
+    const { user, supabaseAdmin } = auth;
+
+    const route = new URL(req.url).pathname.split("/").filter(Boolean).pop();
+    const params = new URL(req.url).searchParams;
+
+    switch (`${req.method} ${route === "organizations" ? "" : route}`) {
+      case "GET ":
+        return await getOrganization(supabaseAdmin, user.id);
+      case "POST ":
+        return await createOrganization(req, supabaseAdmin, user.id);
+      case "POST invitations":
+        return await createInvitation(req, supabaseAdmin, user);
+      case "DELETE invitations": {
+        const id = params.get("id");
+        if (!isUuid(id)) {
+          return errorResponse(400, "Parameter 'id' fehlt oder ist keine UUID");
+        }
+        return await revokeInvitation(supabaseAdmin, user.id, id);
+      }
+      case "POST accept":
+        return await acceptInvitation(req, supabaseAdmin, user.id);
+      case "PATCH members":
+        return await updateMember(req, supabaseAdmin, user.id);
+      case "DELETE members": {
+        const userId = params.get("user_id") ?? user.id;
+        if (!isUuid(userId)) {
+          return errorResponse(400, "Parameter 'user_id' ist keine UUID");
+        }
+        return await removeMember(supabaseAdmin, user.id, userId);
+      }
+      case "POST credits":
+        return await transferCredits(req, supabaseAdmin, user.id);
+      default:
+        return errorResponse(405, "Methode nicht erlaubt");
+    }
+
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
+
+// ============================================
+// Organisation
+// ============================================
+
+async function getOrganization(supabaseAdmin: SupabaseClient, userId: string): Promise<Response> {
+  const membership = await loadMembership(supabaseAdmin, userId);
+  if (membership instanceof Response) {
+    return membership;
+  }
+  if (!membership) {
+    return jsonResponse({ success: true, organization: null });
+  }
+
+  const organizationId = membership.organization_id;
+  const isAdmin = membership.role !== "member";
+  const monthStart = new Date();
+  monthStart.setUTCDate(1);
+  monthStart.setUTCHours(0, 0, 0, 0);
+
+  const [organization, members, usage, invitations] = await Promise.all([
+    supabaseAdmin
+      .from("organizations")
+      .select("id, name, ai_credits_balance, created_at")
+      .eq("id", organizationId)
+      .single(),
+    supabaseAdmin
+      .from("memberships")
+      .select("user_id, role, monthly_credit_cap, created_at, profiles(email, display_name)")
+      .eq("organization_id", organizationId)
+      .order("created_at", { ascending: true }),
+    // Netto-Verbrauch im Monat, wie organization_member_usage()
+    supabaseAdmin
+      .from("organization_credit_transactions")
+      .select("user_id, amount")
+      .eq("organization_id", organizationId)
+      .in("reason", ["usage", "refund", "expired_refund"])
+      .gte("created_at", monthStart.toISOString()),
+    isAdmin
+      ? supabaseAdmin
+        .from("organization_invitations")
+        .select("id, email, role, expires_at, created_at")
+        .eq("organization_id", organizationId)
+        .is("accepted_at", null)
+        .is("revoked_at", null)
+        .order("created_at", { ascending: false })
+      : Promise.resolve({ data: null, error: null }),
+  ]);
+
+  const failed = organization.error ?? members.error ?? usage.error ?? invitations.error;
+  if (failed) {
+    console.error("Organization Load Error:", JSON.stringify(failed));
+    return errorResponse(500, "Organisation konnte nicht geladen werden");
+  }
+
+  const usedByMember = new Map<string, number>();
+  for (const row of usage.data ?? []) {
+    usedByMember.set(row.user_id, (usedByMember.get(row.user_id) ?? 0) - row.amount);
+  }
+
+  return jsonResponse({
+    success: true,
+    organization: organization.data,
+    role: membership.role,
+    members: (members.data ?? []).map((member) => {
+      const profile = member.profiles as unknown as { email: string | null; display_name: string | null } | null;
+      return {
+        user_id: member.user_id,
+        role: member.role,
+        email: profile?.email ?? null,
+        display_name: profile?.display_name ?? null,
+        monthly_credit_cap: member.monthly_credit_cap,
+        credits_used_this_month: usedByMember.get(member.user_id) ?? 0,
+        joined_at: member.created_at,
+      };
+    }),
+    ...(isAdmin ? { invitations: invitations.data ?? [] } : {}),
+  });
+}
+
+async function createOrganization(req: Request, supabaseAdmin: SupabaseClient, userId: string): Promise<Response> {
+  const body = await readBody(req);
+  if (body instanceof Response) {
+    return body;
+  }
+
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return errorResponse(400, `'name' fehlt oder ist länger als ${MAX_NAME_LENGTH} Zeichen`);
+  }
+
+  const { data, error } = await supabaseAdmin.rpc("create_organization", {
+    p_user_id: userId,
+    p_name: name,
+  });
+  if (error) {
+    console.error("Create Organization Error:", JSON.stringify(error));
+    return errorResponse(500, "Organisation konnte nicht angelegt werden");
+  }
+
+  const result = data?.[0] as { status: string; organization_id: string | null } | undefined;
+  if (result?.status !== "ok") {
+    return rpcError(result?.status);
+  }
+
+  return await getOrganization(supabaseAdmin, userId);
+}
+
+// ============================================
+// Einladungen
+// ============================================
+
+async function createInvitation(req: Request, supabaseAdmin: SupabaseClient, user: User): Promise<Response> {
+  const body = await readBody(req);
+  if (body instanceof Response) {
+    return body;
+  }
+
+  const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+  if (!isEmailAddress(email)) {
+    return errorResponse(400, "'email' fehlt oder ist ungültig");
+  }
+  const role = body.role ?? "member";
+  if (role !== "member" && role !== "admin") {
+    return errorResponse(400, "'role' muss 'member' oder 'admin' sein");
+  }
+
+  const membership = await requireAdmin(supabaseAdmin, user.id);
+  if (membership instanceof Response) {
+    return membership;
+  }
+
+  // Nur der Hash wird gespeichert; der Token geht einmalig an die App
+  const token = randomToken();
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 86400 * 1000).toISOString();
+
+  // Offene Einladung an dieselbe Adresse wird ersetzt
+  await supabaseAdmin
+    .from("organization_invitations")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("organization_id", membership.organization_id)
+    .eq("email", email)
+    .is("accepted_at", null)
+    .is("revoked_at", null);
+
+  const { data: invitation, error } = await supabaseAdmin
+    .from("organization_invitations")
+    .insert({
+      organization_id: membership.organization_id,
+      email,
+      role,
+      token_hash: await sha256Hex(token),
+      invited_by: user.id,
+      expires_at: expiresAt,
+    })
+    .select("id, email, role, expires_at, created_at")
+    .single();
+
+  if (error) {
+    console.error("Invitation Insert Error:", JSON.stringify(error));
+    return errorResponse(500, "Einladung konnte nicht angelegt werden");
+  }
+
+  const emailed = await sendInvitationMail(supabaseAdmin, membership.organization_id, email, token, user.email);
+
+  return jsonResponse({ success: true, invitation, token, emailed }, 201);
+}
+
+async function revokeInvitation(supabaseAdmin: SupabaseClient, userId: string, id: string): Promise<Response> {
+  const membership = await requireAdmin(supabaseAdmin, userId);
+  if (membership instanceof Response) {
+    return membership;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("organization_invitations")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("organization_id", membership.organization_id)
+    .is("accepted_at", null)
+    .is("revoked_at", null)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Invitation Revoke Error:", JSON.stringify(error));
+    return errorResponse(500, "Einladung konnte nicht zurückgezogen werden");
+  }
+  if (!data) {
+    return errorResponse(404, "Einladung nicht gefunden oder bereits angenommen");
+  }
+
+  return jsonResponse({ success: true });
+}
+
+async function acceptInvitation(req: Request, supabaseAdmin: SupabaseClient, userId: string): Promise<Response> {
+  const body = await readBody(req);
+  if (body instanceof Response) {
+    return body;
+  }
+
+  if (typeof body.token !== "string" || !body.token.trim() || body.token.length > 200) {
+    return errorResponse(400, "'token' fehlt oder ist ungültig");
+  }
+  if (body.share_leads !== undefined && typeof body.share_leads !== "boolean") {
+    return errorResponse(400, "'share_leads' muss ein Boolean sein");
+  }
+
+  const { data, error } = await supabaseAdmin.rpc("accept_organization_invitation", {
+    p_user_id: userId,
+    p_token_hash: await sha256Hex(body.token.trim()),
+    p_share_leads: body.share_leads === true,
+  });
+  if (error) {
+    console.error("Accept Invitation Error:", JSON.stringify(error));
+    return errorResponse(500, "Einladung konnte nicht angenommen werden");
+  }
+
+  const result = data?.[0] as { status: string; shared_leads: number } | undefined;
+  if (result?.status !== "ok") {
+    return result?.status === "not_found"
+      ? errorResponse(404, "Einladung nicht gefunden")
+      : rpcError(result?.status);
+  }
+
+  const overview = await getOrganization(supabaseAdmin, userId);
+  if (!overview.ok) {
+    return overview;
+  }
+  // Ältere Leads der Organisation liegen vor dem Cursor des Geräts
+  return jsonResponse({ ...(await overview.json()), shared_leads: result.shared_leads, resync: true });
+}
+
+// ============================================
+// Mitglieder
+// ============================================
+
+async function updateMember(req: Request, supabaseAdmin: SupabaseClient, actorId: string): Promise<Response> {
+  const body = await readBody(req);
+  if (body instanceof Response) {
+    return body;
+  }
+
+  if (!isUuid(body.user_id)) {
+    return errorResponse(400, "'user_id' fehlt oder ist keine UUID");
+  }
+  if (body.role !== undefined && !["owner", "admin", "member"].includes(body.role as string)) {
+    return errorResponse(400, "'role' muss 'owner', 'admin' oder 'member' sein");
+  }
+  // null entfernt das Limit
+  const cap = body.monthly_credit_cap;
+  if (cap !== undefined && cap !== null && !(Number.isInteger(cap) && (cap as number) >= 0)) {
+    return errorResponse(400, "'monthly_credit_cap' muss eine ganze Zahl ≥ 0 oder null sein");
+  }
+  if (body.role === undefined && cap === undefined) {
+    return errorResponse(400, "'role' oder 'monthly_credit_cap' fehlt");
+  }
+
+  const { data: status, error } = await supabaseAdmin.rpc("update_organization_member", {
+    p_actor_id: actorId,
+    p_user_id: body.user_id,
+    p_role: body.role ?? null,
+    p_monthly_credit_cap: cap ?? null,
+    p_clear_cap: cap === null,
+  });
+  if (error) {
+    console.error("Update Member Error:", JSON.stringify(error));
+    return errorResponse(500, "Mitglied konnte nicht geändert werden");
+  }
+  if (status !== "ok") {
+    return rpcError(status);
+  }
+
+  return await getOrganization(supabaseAdmin, actorId);
+}
+
+async function removeMember(supabaseAdmin: SupabaseClient, actorId: string, userId: string): Promise<Response> {
+  const { data: status, error } = await supabaseAdmin.rpc("remove_organization_member", {
+    p_actor_id: actorId,
+    p_user_id: userId,
+  });
+  if (error) {
+    console.error("Remove Member Error:", JSON.stringify(error));
+    return errorResponse(500, "Mitglied konnte nicht entfernt werden");
+  }
+  if (status !== "ok") {
+    return rpcError(status);
+  }
+
+  // Nach dem Austritt sind die Leads der Organisation nicht mehr sichtbar;
+  // die App synchronisiert dann komplett neu (cursor 0)
+  return actorId === userId
+    ? jsonResponse({ success: true, organization: null, resync: true })
+    : await getOrganization(supabaseAdmin, actorId);
+}
+
+// ============================================
+// Credit-Pool
+// ============================================
+
+async function transferCredits(req: Request, supabaseAdmin: SupabaseClient, userId: string): Promise<Response> {
+  const body = await readBody(req);
+  if (body instanceof Response) {
+    return body;
+  }
+
+  if (!Number.isInteger(body.amount) || (body.amount as number) < 1) {
+    return errorResponse(400, "'amount' muss eine ganze Zahl ≥ 1 sein");
+  }
+
+  const { data, error } = await supabaseAdmin.rpc("transfer_credits_to_organization", {
+    p_user_id: userId,
+    p_amount: body.amount,
+  });
+  if (error) {
+    console.error("Transfer Credits Error:", JSON.stringify(error));
+    return errorResponse(500, "Credits konnten nicht übertragen werden");
+  }
+
+  const result = data?.[0] as { status: string; credits_after: number | null; pool_after: number | null } | undefined;
+  if (result?.status !== "ok") {
+    return result?.status === "not_found"
+      ? errorResponse(404, "Du bist kein Mitglied einer Organisation")
+      : rpcError(result?.status, { credits_remaining: result?.credits_after ?? 0 });
+  }
+
+  return jsonResponse({
+    success: true,
+    credits_remaining: result.credits_after,
+    pool_balance: result.pool_after,
+  });
+}
+
+// ============================================
+// Hilfsfunktionen
+// ============================================
+
+async function loadMembership(supabaseAdmin: SupabaseClient, userId: string): Promise<Membership | null | Response> {
+  const { data, error } = await supabaseAdmin
+    .from("memberships")
+    .select("organization_id, role")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Membership Lookup Error:", JSON.stringify(error));
+    return errorResponse(500, "Mitgliedschaft konnte nicht geladen werden");
+  }
+  return data as Membership | null;
+}
+
+async function requireAdmin(supabaseAdmin: SupabaseClient, userId: string): Promise<Membership | Response> {
+  const membership = await loadMembership(supabaseAdmin, userId);
+  if (membership instanceof Response) {
+    return membership;
+  }
+  if (!membership) {
+    return errorResponse(404, "Du bist kein Mitglied einer Organisation");
+  }
+  if (membership.role === "member") {
+    return rpcError("forbidden");
+  }
+  return membership;
+}
+
+async function readBody(req: Request): Promise<Record<string, unknown> | Response> {
+  let body;
+  try {
+    body = await req.json();
+  } catch (parseError) {
+    console.error("JSON Parse Error:", parseError);
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+  return body;
+}
+
+function rpcError(status: string | undefined, extra: Record<string, unknown> = {}): Response {
+  const [httpStatus, message] = RPC_ERRORS[status ?? ""] ?? [500, "Unerwartete Antwort der Datenbank"];
+  return errorResponse(httpStatus, message, extra);
+}
+
+function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Schickt den Einladungs-Code per Mail, sofern der Versand konfiguriert
+ * ist. Fehler brechen die Einladung nicht ab – die App zeigt den Code an.
+ */
+async function sendInvitationMail(
+  supabaseAdmin: SupabaseClient,
+  organizationId: string,
+  email: string,
+  token: string,
+  invitedBy: string | undefined
+): Promise<boolean> {
+  if (checkMailConfig()) {
+    return false;
+  }
+
+  const { data: organization } = await supabaseAdmin
+    .from("organizations")
+    .select("name")
+    .eq("id", organizationId)
+    .single();
+  const name = organization?.name ?? "MesseMemo";
+
+  const text = [
+    `${invitedBy ?? "Ein Teammitglied"} lädt dich in das MesseMemo-Team "${name}" ein.`,
+    "",
+    "Öffne MesseMemo, gehe zu Einstellungen → Team und gib diesen Code ein:",
+    "",
+    token,
+    "",
+    `Die Einladung ist ${INVITATION_TTL_DAYS} Tage gültig.`,
+  ].join("\n");
+
+  try {
+    await sendMail({
+      to: email,
+      subject: `Einladung in das Team "${name}"`,
+      text,
+      html: `<p>${escapeHtml(text).replace(/\n/g, "<br>")}</p>`,
+      replyTo: invitedBy,
+    });
+    return true;
+  } catch (error) {
+    console.error("Invitation Mail Error:", error instanceof Error ? error.message : String(error));
+    return false;
+  }
+}
@@ -0,0 +1,544 @@
+// ============================================
+// MesseMemo Privacy Edge Function
+// Version: 1.0 (DSGVO: Export, Kontolöschung, Kontakt vergessen)
+// ============================================
+//
+// GET  /export?format=json|zip → alle Daten des Users (Art. 15/20 DSGVO):
+//                                Profil, Leads, Messen, Credits, Mails,
+//                                Webhooks, … und Sprachmemos (json: Download-
+//                                Links, zip: Dateien im Archiv)
+// POST /forget-lead            → einen Kontakt vergessen { lead_id, suppress_email? }
+//                                (Löschanfrage des Kontakts selbst)
+// POST /delete-account         → Kontolöschung beantragen { confirm_email }
+//                                → Bestätigungscode per E-Mail
+// POST /confirm-deletion       → { code } löscht Sprachmemos, alle Zeilen und
+//                                das Konto; Antwort ist der Löschnachweis
+// GET  /receipts               → Löschnachweise (vergessene Kontakte)
+//
+// Tabellen und RPCs: migrations/020_privacy.sql, Export-Tabellen: _shared/privacy.ts.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import { strToU8, Zippable, zipSync } from "https://esm.sh/fflate@0.8.2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { checkMailConfig, escapeHtml, sendMail } from "../_shared/mailer.ts";
+import { loadUserData } from "../_shared/privacy.ts";
+import { clientIp, enforceRateLimit } from "../_shared/rate-limit.ts";
+import { sha256Hex } from "../_shared/result-cache.ts";
+import { authenticate, isUuid } from "../_shared/supabase.ts";
+
+const FUNCTION_NAME = "privacy";
+const BUCKET = "voice-memos";
+
+const EXPORT_FORMATS = ["json", "zip"] as const;
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Download-Links im JSON-Export
+const SIGNED_URL_SECONDS = 3600;
+// Das ZIP entsteht im Speicher der Function
+const MAX_ZIP_AUDIO_BYTES = 100 * 1024 * 1024;
+// Storage API: Objekte pro remove()
+const STORAGE_REMOVE_CHUNK = 100;
+
+const DELETION_CODE_TTL_MINUTES = 15;
+
+// Status-Codes der RPCs → HTTP
+const RPC_ERRORS: Record<string, [number, string]> = {
+  not_found: [404, "Nicht gefunden"],
+  forbidden: [403, "Keine Berechtigung"],
+  last_owner: [409, "Du bist der letzte Owner deiner Organisation – übertrage die Rolle zuerst an ein anderes Mitglied"],
+  expired: [410, "Der Bestätigungscode ist abgelaufen – bitte einen neuen anfordern"],
+  invalid: [400, "Falscher Bestätigungscode"],
+  too_many_attempts: [429, "Zu viele Fehlversuche – bitte einen neuen Code anfordern"],
+  not_verified: [409, "Die Löschung wurde nicht bestätigt"],
+};
+
+interface StorageObject {
+  name: string;
+  size: number | null;
+  mime_type: string | null;
+  created_at: string;
+}
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (auth instanceof Response) {
+      return auth;
+    }
+    const { user, supabaseClient, supabaseAdmin } = auth;
+
+    const url = new URL(req.url);
+    const route = url.pathname.split("/").filter(Boolean).pop();
+
+    switch (`${req.method} ${route}`) {
+      case "GET export": {
+        const limited = await enforceRateLimit(supabaseAdmin, {
+          userId: user.id,
+          functionName: FUNCTION_NAME,
+          ip: clientIp(req),
+        });
+        return limited ?? await exportData(supabaseAdmin, user, url.searchParams);
+      }
+      case "POST forget-lead":
+        return await forgetLead(req, supabaseAdmin, user.id);
+      case "POST delete-account": {
+        const limited = await enforceRateLimit(supabaseAdmin, {
+          userId: user.id,
+          functionName: FUNCTION_NAME,
+          ip: clientIp(req),
+        });
+        return limited ?? await requestDeletion(req, supabaseAdmin, user);
+      }
+      case "POST confirm-deletion":
+        return await confirmDeletion(req, supabaseAdmin, user);
+      case "GET receipts":
+        return await listReceipts(supabaseClient);
+      default:
+        return errorResponse(405, "Methode nicht erlaubt");
+    }
+
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
+
+// ============================================
+// Export
+// ============================================
+// Zeilen lädt loadUserData (_shared/privacy.ts), hier kommen Konto,
+// Sprachmemos und das Format dazu.
+
+async function exportData(supabaseAdmin: SupabaseClient, user: User, params: URLSearchParams): Promise<Response> {
+  const format = (params.get("format") ?? "json") as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return errorResponse(400, `Ungültiges Format. Erlaubt: ${EXPORT_FORMATS.join(", ")}`);
+  }
+
+  const objects = await listStorageObjects(supabaseAdmin, user.id);
+  if (!objects) {
+    return errorResponse(500, "Sprachmemos konnten nicht geladen werden");
+  }
+  const audioBytes = objects.reduce((sum, object) => sum + (object.size ?? 0), 0);
+  if (format === "zip" && audioBytes > MAX_ZIP_AUDIO_BYTES) {
+    return errorResponse(
+      413,
+      `Sprachmemos größer als ${MAX_ZIP_AUDIO_BYTES / 1024 / 1024} MB – bitte format=json (Download-Links) verwenden`
+    );
+  }
+
+  const userData = await loadUserData(supabaseAdmin, user.id);
+  if ("error" in userData) {
+    return errorResponse(500, userData.error);
+  }
+  const { profile, organization, data } = userData;
+
+  const exportedAt = new Date().toISOString();
+  const document = {
+    format: "messememo-privacy-export",
+    version: 1,
+    exported_at: exportedAt,
+    account: {
+      id: user.id,
+      email: user.email ?? null,
+      created_at: user.created_at,
+      last_sign_in_at: user.last_sign_in_at ?? null,
+    },
+    profile,
+    organization,
+    data,
+    audio: objects.map((object) => ({ ...object, file: `${BUCKET}/${object.name}` })),
+  };
+  const fileName = `MesseMemo_Datenexport_${exportedAt.slice(0, 10)}`;
+
+  if (format === "json") {
+    const links = await signedUrls(supabaseAdmin, objects.map((object) => object.name));
+    if (!links) {
+      return errorResponse(500, "Download-Links konnten nicht erstellt werden");
+    }
+    return jsonResponse({
+      success: true,
+      ...document,
+      audio: objects.map((object) => ({
+        ...object,
+        download_url: links.get(object.name) ?? null,
+        download_expires_in: SIGNED_URL_SECONDS,
+      })),
+    }, 200, { "Content-Disposition": `attachment; filename="${fileName}.json"` });
+  }
+
+  // ZIP: export.json + Sprachmemos unkomprimiert (m4a ist schon komprimiert)
+  const files: Zippable = {
+    "export.json": strToU8(JSON.stringify(document, null, 2)),
+  };
+  for (const object of objects) {
+    const { data: blob, error } = await supabaseAdmin.storage.from(BUCKET).download(object.name);
+    if (error || !blob) {
+      console.error("Export Download Error:", object.name, error?.message);
+      return errorResponse(500, "Sprachmemo konnte nicht geladen werden");
+    }
+    files[`${BUCKET}/${object.name}`] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+  }
+
+  const archive = zipSync(files, { level: 6 });
+  return new Response(archive as BodyInit, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${fileName}.zip"`,
+    },
+  });
+}
+
+async function signedUrls(supabaseAdmin: SupabaseClient, paths: string[]): Promise<Map<string, string> | null> {
+  const links = new Map<string, string>();
+  if (paths.length === 0) {
+    return links;
+  }
+  const { data, error } = await supabaseAdmin.storage.from(BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS);
+  if (error) {
+    console.error("Signed URL Error:", error.message);
+    return null;
+  }
+  for (const entry of data ?? []) {
+    if (entry.path && entry.signedUrl) {
+      links.set(entry.path, entry.signedUrl);
+    }
+  }
+  return links;
+}
+
+// ============================================
+// Kontakt vergessen
+// ============================================
+
+async function forgetLead(req: Request, supabaseAdmin: SupabaseClient, userId: string): Promise<Response> {
+  const body = await readBody(req);
+  if (!body) {
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+  if (!isUuid(body.lead_id)) {
+    return errorResponse(400, "'lead_id' fehlt oder ist keine UUID");
+  }
+  if (body.suppress_email !== undefined && typeof body.suppress_email !== "boolean") {
+    return errorResponse(400, "'suppress_email' muss true oder false sein");
+  }
+
+  const { data, error } = await supabaseAdmin.rpc("forget_lead", {
+    p_user_id: userId,
+    p_lead_id: body.lead_id,
+    p_suppress_email: body.suppress_email === true,
+  });
+
+  if (error) {
+    console.error("Forget Lead RPC Error:", JSON.stringify(error));
+    return errorResponse(500, "Kontakt konnte nicht gelöscht werden");
+  }
+  const result = data?.[0] as
+    | {
+      status: string;
+      owner_id: string | null;
+      audio_url: string | null;
+      receipt_id: string | null;
+      removed: Record<string, number> | null;
+    }
+    | undefined;
+  if (result?.status !== "ok") {
+    return rpcError(result?.status);
+  }
+
+  // Sprachmemo erst nach dem RPC löschen; audio_url bleibt bis dahin am
+  // Tombstone, ein erneuter Aufruf räumt nach. audio_url kommt vom Gerät →
+  // nur im Ordner des Besitzers löschen (Service-Client umgeht die Storage Policies).
+  let storageObjects = 0;
+  const path = normalizeStoragePath(result.audio_url);
+  if (result.audio_url) {
+    if (path && path.split("/")[0] === result.owner_id) {
+      const { data: removed, error: removeError } = await supabaseAdmin.storage.from(BUCKET).remove([path]);
+      if (removeError) {
+        console.error("Forget Lead Storage Error:", removeError.message);
+        return errorResponse(500, "Sprachmemo konnte nicht gelöscht werden – bitte erneut versuchen");
+      }
+      storageObjects = removed?.length ?? 0;
+    }
+    // Quittung zählt nur, was der Storage wirklich gelöscht hat
+    const { error: clearError } = await supabaseAdmin.rpc("clear_forgotten_audio", {
+      p_lead_id: body.lead_id,
+      p_storage_objects: storageObjects,
+    });
+    if (clearError) {
+      console.error("Clear Audio RPC Error:", JSON.stringify(clearError));
+    }
+  }
+
+  return jsonResponse({
+    success: true,
+    lead_id: body.lead_id,
+    receipt_id: result.receipt_id,
+    removed: result.removed ?? {},
+    storage_objects: storageObjects,
+  });
+}
+
+// ============================================
+// Kontolöschung
+// ============================================
+// Zweistufig: Antrag mit der E-Mail-Adresse des Kontos, dann der Code aus
+// der Mail. Erst danach wird gelöscht – endgültig, ohne Wiederherstellung.
+
+async function requestDeletion(req: Request, supabaseAdmin: SupabaseClient, user: User): Promise<Response> {
+  const body = await readBody(req);
+  if (!body) {
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+  if (!user.email) {
+    return errorResponse(400, "Für das Konto ist keine E-Mail-Adresse hinterlegt");
+  }
+  if (typeof body.confirm_email !== "string" || body.confirm_email.trim().toLowerCase() !== user.email.toLowerCase()) {
+    return errorResponse(400, "'confirm_email' stimmt nicht mit der E-Mail-Adresse des Kontos überein");
+  }
+
+  const configError = checkMailConfig();
+  if (configError) {
+    return errorResponse(500, configError);
+  }
+
+  const code = generateDeletionCode();
+  const { data, error } = await supabaseAdmin.rpc("start_account_deletion", {
+    p_user_id: user.id,
+    p_code_hash: await deletionCodeHash(user.id, code),
+    p_ttl_minutes: DELETION_CODE_TTL_MINUTES,
+  });
+
+  if (error) {
+    console.error("Start Deletion RPC Error:", JSON.stringify(error));
+    return errorResponse(500, "Löschantrag konnte nicht gespeichert werden");
+  }
+  const result = data?.[0] as { status: string; expires_at: string | null; shared_leads: number | null } | undefined;
+  if (result?.status !== "ok") {
+    return rpcError(result?.status);
+  }
+
+  const text = [
+    "Hallo,",
+    "",
+    "du hast die Löschung deines MesseMemo-Kontos beantragt. Dein Bestätigungscode:",
+    "",
+    `    ${code}`,
+    "",
+    `Der Code ist ${DELETION_CODE_TTL_MINUTES} Minuten gültig. Mit der Bestätigung werden alle Leads,`,
+    "Sprachmemos, Credits und Einstellungen endgültig gelöscht.",
+    "",
+    "Falls du das nicht warst, ignoriere diese E-Mail und ändere dein Passwort.",
+  ].join("\n");
+
+  try {
+    await sendMail({
+      to: user.email,
+      subject: "Bestätigungscode für die Löschung deines MesseMemo-Kontos",
+      text,
+      html: `<p>${escapeHtml(text).replace(/\n/g, "<br>")}</p>`,
+    });
+  } catch (mailError) {
+    console.error("Deletion Code Mail Error:", mailError instanceof Error ? mailError.message : String(mailError));
+    return errorResponse(502, "Bestätigungscode konnte nicht gesendet werden");
+  }
+
+  return jsonResponse({
+    success: true,
+    verification: "email",
+    expires_at: result.expires_at,
+    // Diese Leads verliert auch das Team – die App weist darauf hin
+    shared_leads: result.shared_leads ?? 0,
+  }, 202);
+}
+
+async function confirmDeletion(req: Request, supabaseAdmin: SupabaseClient, user: User): Promise<Response> {
+  const body = await readBody(req);
+  if (!body) {
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+  if (typeof body.code !== "string" || !/^\d{6}$/.test(body.code.trim())) {
+    return errorResponse(400, "'code' muss der sechsstellige Code aus der E-Mail sein");
+  }
+
+  const { data: status, error: verifyError } = await supabaseAdmin.rpc("verify_account_deletion", {
+    p_user_id: user.id,
+    p_code_hash: await deletionCodeHash(user.id, body.code.trim()),
+  });
+
+  if (verifyError) {
+    console.error("Verify Deletion RPC Error:", JSON.stringify(verifyError));
+    return errorResponse(500, "Löschantrag konnte nicht geprüft werden");
+  }
+  if (status !== "ok") {
+    return rpcError(status);
+  }
+
+  // ========================================
+  // 1. Sprachmemos (Storage API – ein DELETE auf storage.objects ließe
+  //    die Dateien im Speicher zurück)
+  // ========================================
+
+  const objects = await listStorageObjects(supabaseAdmin, user.id);
+  if (!objects) {
+    return errorResponse(500, "Sprachmemos konnten nicht geladen werden");
+  }
+  for (let i = 0; i < objects.length; i += STORAGE_REMOVE_CHUNK) {
+    const paths = objects.slice(i, i + STORAGE_REMOVE_CHUNK).map((object) => object.name);
+    const { error } = await supabaseAdmin.storage.from(BUCKET).remove(paths);
+    if (error) {
+      // Bestätigung bleibt 15 Minuten gültig → derselbe Code löscht beim nächsten Versuch weiter
+      console.error("Delete Storage Error:", error.message);
+      return errorResponse(500, "Sprachmemos konnten nicht gelöscht werden – bitte erneut versuchen");
+    }
+  }
+
+  // ========================================
+  // 2. Zeilen und Auth-Konto (eine Transaktion)
+  // ========================================
+
+  const { data, error } = await supabaseAdmin.rpc("delete_account", {
+    p_user_id: user.id,
+    p_storage_objects: objects.length,
+  });
+
+  if (error) {
+    console.error("Delete Account RPC Error:", JSON.stringify(error));
+    return errorResponse(500, "Konto konnte nicht gelöscht werden – bitte erneut versuchen");
+  }
+  const result = data?.[0] as { status: string; receipt: Record<string, unknown> | null } | undefined;
+  if (result?.status !== "ok" || !result.receipt) {
+    return rpcError(result?.status);
+  }
+
+  console.log(`🗑️ Account deleted: receipt ${result.receipt.id}, ${objects.length} storage objects`);
+
+  if (user.email) {
+    await sendReceiptMail(user.email, result.receipt);
+  }
+
+  return jsonResponse({ success: true, receipt: result.receipt });
+}
+
+/**
+ * Löschnachweis an die (ehemalige) Adresse. Fehler nur loggen – das Konto
+ * ist bereits gelöscht.
+ */
+async function sendReceiptMail(email: string, receipt: Record<string, unknown>): Promise<void> {
+  const removed = Object.entries((receipt.removed ?? {}) as Record<string, number>)
+    .filter(([, count]) => count > 0)
+    .map(([table, count]) => `  - ${table}: ${count}`);
+
+  const text = [
+    "Hallo,",
+    "",
+    "dein MesseMemo-Konto wurde endgültig gelöscht.",
+    "",
+    `Löschnachweis: ${receipt.id}`,
+    `Beantragt: ${receipt.requested_at}`,
+    `Abgeschlossen: ${receipt.completed_at}`,
+    `Gelöschte Sprachmemos: ${receipt.storage_objects}`,
+    "Gelöschte Datensätze:",
+    ...removed,
+    "",
+    "Bitte bewahre diese E-Mail auf, falls du die Löschung später nachweisen möchtest.",
+  ].join("\n");
+
+  try {
+    await sendMail({
+      to: email,
+      subject: "Dein MesseMemo-Konto wurde gelöscht",
+      text,
+      html: `<p>${escapeHtml(text).replace(/\n/g, "<br>")}</p>`,
+    });
+  } catch (error) {
+    console.error("Receipt Mail Error:", error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function listReceipts(supabaseClient: SupabaseClient): Promise<Response> {
+  const { data, error } = await supabaseClient
+    .from("deletion_receipts")
+    .select("id, kind, lead_id, removed, storage_objects, requested_at, completed_at")
+    .order("completed_at", { ascending: false })
+    .limit(100);
+
+  if (error) {
+    console.error("Receipt List Error:", JSON.stringify(error));
+    return errorResponse(500, "Löschnachweise konnten nicht geladen werden");
+  }
+
+  return jsonResponse({ success: true, receipts: data ?? [] });
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+async function listStorageObjects(supabaseAdmin: SupabaseClient, userId: string): Promise<StorageObject[] | null> {
+  const { data, error } = await supabaseAdmin.rpc("user_storage_objects", { p_user_id: userId });
+  if (error) {
+    console.error("Storage Objects RPC Error:", JSON.stringify(error));
+    return null;
+  }
+  return (data ?? []) as StorageObject[];
+}
+
+/**
+ * Sechsstelliger Zufallscode (ohne Modulo-Verzerrung)
+ */
+function generateDeletionCode(): string {
+  const limit = Math.floor(0x100000000 / 1000000) * 1000000;
+  for (;;) {
+    const [value] = crypto.getRandomValues(new Uint32Array(1));
+    if (value < limit) {
+      return (value % 1000000).toString().padStart(6, "0");
+    }
+  }
+}
+
+/** Mit der User-ID gesalzen, damit gleiche Codes verschiedene Hashes ergeben */
+async function deletionCodeHash(userId: string, code: string): Promise<string> {
+  return await sha256Hex(`${userId}:${code}`);
+}
+
+/**
+ * Wie in transcribe-memo: Pfad im Bucket, optional mit "voice-memos/" davor
+ */
+function normalizeStoragePath(raw: unknown): string | null {
+  if (typeof raw !== "string") {
+    return null;
+  }
+  const path = raw.trim().replace(/^\/+/, "").replace(new RegExp(`^${BUCKET}/`), "");
+  if (!path || path.length > 500 || path.split("/").some((part) => !part || part === "." || part === "..")) {
+    return null;
+  }
+  return path;
+}
+
+function rpcError(status: string | null | undefined): Response {
+  const [code, message] = RPC_ERRORS[status ?? ""] ?? [500, "Unerwarteter Fehler"];
+  return errorResponse(code, message);
+}
+
+async function readBody(req: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await req.json();
+    return body && typeof body === "object" && !Array.isArray(body) ? body : null;
+  } catch (parseError) {
+    console.error("JSON Parse Error:", parseError);
+    return null;
+  }
+}
@@ -1,19 +1,51 @@
 // ============================================
 // MesseMemo AI Contact Extraction Edge Function
-// Version: 1.0 (Google Gemini)
+// Version: 1.8 (LLM + Bilder + Batch + regelbasierter Fallback + Dubletten + Result Cache + Messe-Kontext)
 // ============================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import {
+    COMMIT_FAILED_MESSAGE,
+    commitCredit,
+    creditsAfterRelease,
+    getIdempotencyKey,
+    loadCreditsRemaining,
+    releaseCredit,
+    reserveCredit,
+    withCreditReservation,
+} from "../_shared/credits.ts";
+import { checkLlmConfig, generateJson, LlmError, LlmImage, loadLlmConfig } from "../_shared/llm.ts";
+import {
+    CARD_IMAGE_SCHEMA,
+    CardFeatures,
+    CONTACT_SCHEMA,
+    ContactValidationError,
+    mergeContacts,
+    readCardFeatures,
+    resolveDefaultRegion,
+    validateContact,
+    ValidatedContact,
+} from "../_shared/contact.ts";
+import { describeEventForPrompt, eventCacheInfo, resolveEvent, TradeFairEvent } from "../_shared/events.ts";
+import { extractHeuristically } from "../_shared/heuristics.ts";
+import { clientIp, enforceRateLimit } from "../_shared/rate-limit.ts";
+import {
+    lookupCachedResult,
+    normalizeCacheText,
+    resultCacheKey,
+    sha256Hex,
+    storeCachedResult,
+    wantsFreshResult,
+} from "../_shared/result-cache.ts";
+import {
+    DuplicateCandidate,
+    ExistingLead,
+    findDuplicateCandidates,
+    loadLeadsForMatching,
+} from "../_shared/duplicates.ts";
 
-// CORS Headers
-const corsHeaders = {
-    "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
-// Google Gemini Configuration
-const GOOGLE_API_KEY = Deno.env.get("GOOGLE_API_KEY");
 
 // ============================================
 // Main Handler
@@ -64,69 +96,344 @@ serve(async (req) => {
         }
 
         // ========================================
-        // 2. Credit Check & Abzug
+        // 2. Request Body parsen
         // ========================================
-        // Wir nutzen denselben Credit-Mechanismus wie bei generate-email
 
+        let requestBody;
+        try {
+            requestBody = await req.json();
+        } catch (parseError) {
+            return errorResponse(400, "Ungültiger Request-Body");
+        }
+
+        if (!requestBody || typeof requestBody !== "object") {
+            return errorResponse(400, "Ungültiger Request-Body");
+        }
+
+        // Service Client für RPC Calls (SECURITY DEFINER)
         const supabaseAdmin = createClient(
             supabaseUrl,
             supabaseServiceKey
         );
 
-        const { data: creditResult, error: creditError } = await supabaseAdmin
-            .rpc("use_ai_credit", { user_id: user.id });
-
-        if (creditError) {
-            console.error("Credit RPC Error:", creditError);
-            return errorResponse(500, "Fehler beim Guthaben-Abzug");
+        // Messe aus 'event_id' oder die gerade laufende ('event_id: null' = ohne)
+        const resolvedEvent = await resolveEvent(supabaseClient, requestBody.event_id);
+        if ("error" in resolvedEvent) {
+            return errorResponse(resolvedEvent.status, resolvedEvent.error);
         }
+        const event = resolvedEvent.event;
 
-        const creditData = creditResult?.[0];
-        if (!creditData?.success) {
-            return errorResponse(403, creditData?.error_message || "Kein Guthaben mehr", {
-                credits_remaining: 0,
-            });
+        // 'items' → Batch-Modus (siehe processBatch)
+        if (Array.isArray(requestBody.items)) {
+            const configError = checkLlmConfig(loadLlmConfig());
+            if (configError && requestBody.mode !== "heuristic") {
+                return errorResponse(500, configError);
+            }
+
+            const batchKey = await getIdempotencyKey(req, requestBody);
+            if (!batchKey) {
+                return errorResponse(400, "Ungültiger Idempotency-Key");
+            }
+
+            // Eine Karte = ein Token
+            if (requestBody.mode !== "heuristic") {
+                const limited = await enforceRateLimit(supabaseAdmin, {
+                    userId: user.id,
+                    functionName: "process-card",
+                    ip: clientIp(req),
+                    cost: requestBody.items.length,
+                });
+                if (limited) {
+                    return limited;
+                }
+            }
+
+            return await processBatch(
+                supabaseAdmin,
+                user.id,
+                requestBody.items,
+                batchKey,
+                requestBody.mode,
+                requestBody.check_duplicates !== false,
+                wantsFreshResult(requestBody),
+                event
+            );
         }
 
-        const creditsRemaining = creditData.credits_remaining;
+        // Erwarte 'text' als Array von Strings (OCR Zeilen) oder als einzelner String
+        // Optional: 'region' (ISO-Code) für Telefonnummern ohne Ländervorwahl
+        // Optional: 'mode: "heuristic"' für reine Regel-Extraktion ohne KI
+        // Optional: 'images' (Base64, z.B. Vorder- und Rückseite) für bildfähige Modelle
+        const payload = parseCardPayload(requestBody, event);
+
+        if ("error" in payload) {
+            return errorResponse(400, payload.error);
+        }
 
         // ========================================
-        // 3. Request Body parsen
+        // 3. Regelbasierte Vorerkennung (offline)
         // ========================================
+        // Dient als Hinweis für das LLM und als kostenloser Fallback.
+
+        const heuristic = runHeuristic(payload);
+
+        // Bestehende Leads für die Dubletten-Suche ('check_duplicates: false' schaltet sie ab)
+        const existingLeads = requestBody.check_duplicates === false
+            ? null
+            : loadLeadsForMatching(supabaseAdmin, user.id);
+
+        // mode: "heuristic" → nur Regeln, ohne KI und ohne Credit
+        if (requestBody.mode === "heuristic") {
+            const body = successBody(heuristic, "heuristic");
+            return jsonResponse({
+                ...body,
+                ...duplicateInfo(body.data, await existingLeads, payload.defaultRegion),
+                event_id: event?.id ?? null,
+            });
+        }
 
-        let requestBody;
-        try {
-            requestBody = await req.json();
-        } catch (parseError) {
-            return errorResponse(400, "Ungültiger Request-Body");
+        const configError = checkLlmConfig(loadLlmConfig());
+        if (configError) {
+            return errorResponse(500, configError);
         }
 
-        // Erwarte 'text' als Array von Strings (OCR Zeilen) oder als einzelner String
-        const { text, context } = requestBody;
+        const idempotencyKey = await getIdempotencyKey(req, requestBody);
+        if (!idempotencyKey) {
+            return errorResponse(400, "Ungültiger Idempotency-Key");
+        }
 
-        if (!text || (Array.isArray(text) && text.length === 0)) {
-            // Credit zurückgeben
-            await supabaseAdmin.rpc("add_ai_credits", { user_id: user.id, amount: 1 });
-            return errorResponse(400, "Kein Text zur Analyse übergeben");
+        // ========================================
+        // 3b. Result Cache
+        // ========================================
+        // Dieselbe Karte schon einmal ausgewertet → gespeichertes Ergebnis
+        // ohne KI und ohne Credit. 'force_refresh: true' erzwingt einen neuen Lauf.
+
+        const cacheKey = await cardCacheKey(payload);
+        if (!wantsFreshResult(requestBody)) {
+            const cached = await lookupCachedResult<CardBody>(supabaseAdmin, user.id, "process-card", cacheKey);
+            if (cached) {
+                return jsonResponse({
+                    ...cached,
+                    ...duplicateInfo(cached.data, await existingLeads, payload.defaultRegion),
+                    event_id: event?.id ?? null,
+                    cached: true,
+                    credits_remaining: await loadCreditsRemaining(supabaseAdmin, user.id),
+                });
+            }
         }
 
-        const textToAnalyze = Array.isArray(text) ? text.join("\n") : text;
+        const limited = await enforceRateLimit(supabaseAdmin, {
+            userId: user.id,
+            functionName: "process-card",
+            ip: clientIp(req),
+        });
+        if (limited) {
+            return limited;
+        }
 
         // ========================================
-        // 4. Google Gemini API Call
+        // 4. Credit reservieren
         // ========================================
+        // Jede Antwort außer 2xx (und jede Exception) gibt den Credit
+        // automatisch zurück – kein manuelles add_ai_credits mehr nötig.
+
+        return await withCreditReservation(
+            supabaseAdmin,
+            { userId: user.id, functionName: "process-card", idempotencyKey },
+            async (reservation) => {
+                const result = await extractCard(payload, heuristic);
+                if (!result.ok) {
+                    return errorResponse(500, result.error);
+                }
+                // Regel-Fallback ist kostenlos (und wird nicht gecacht)
+                reservation.charge = result.charged;
+                if (result.charged) {
+                    await storeCachedResult(supabaseAdmin, user.id, "process-card", cacheKey, result.body);
+                }
+                return jsonResponse({
+                    ...result.body,
+                    ...duplicateInfo(result.body.data, await existingLeads, payload.defaultRegion),
+                    event_id: event?.id ?? null,
+                    credits_remaining: result.charged
+                        ? reservation.creditsRemaining
+                        : creditsAfterRelease(reservation),
+                });
+            }
+        );
+
+    } catch (error) {
+        console.error("Fatal Error:", error);
+        return errorResponse(500, "Interner Serverfehler");
+    }
+});
+
+// ============================================
+// Kontakt-Extraktion
+// ============================================
+
+const MAX_IMAGES = 4;
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_MIME_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic"];
+
+// Bei jeder Änderung am Prompt oder an der Nachbearbeitung erhöhen (Result Cache)
+const PROMPT_VERSION = "card-1.8";
+
+interface CardImage extends LlmImage {
+    /** z.B. "front" oder "back" */
+    side: string;
+}
+
+interface CardInput {
+    lines: string[];
+    textToAnalyze: string;
+    context?: string;
+    defaultRegion: string;
+    images: CardImage[];
+    /** Messe, auf der die Karte erfasst wurde */
+    event: TradeFairEvent | null;
+}
+
+type ExtractionSource = "heuristic" | "llm" | "merged";
+
+type CardBody = ReturnType<typeof successBody>;
+
+type CardExtraction =
+    | { ok: true; body: CardBody; charged: boolean }
+    | { ok: false; error: string };
+
+/**
+ * Liest eine Karte aus dem Request (Einzel-Request oder Batch-Item)
+ */
+function parseCardPayload(
+    payload: Record<string, unknown>,
+    event: TradeFairEvent | null
+): CardInput | { error: string } {
+    const { text, context, region } = payload;
+
+    const hasText = !!text && !(Array.isArray(text) && text.length === 0);
+    const parsedImages = parseCardImages(payload.images);
+
+    if ("error" in parsedImages) {
+        return parsedImages;
+    }
+    if (!hasText && parsedImages.images.length === 0) {
+        return { error: "Kein Text zur Analyse übergeben" };
+    }
+
+    const lines: string[] = !hasText ? [] : Array.isArray(text) ? text.map(String) : String(text).split("\n");
+    return {
+        lines,
+        textToAnalyze: lines.join("\n"),
+        context: typeof context === "string" ? context : undefined,
+        defaultRegion: resolveDefaultRegion(region),
+        images: parsedImages.images,
+        event,
+    };
+}
+
+/**
+ * Cache-Schlüssel der Karte: OCR-Zeilen ohne Leerzeichen-Unterschiede,
+ * Kontext, Region, Messe und Hashes der Bilder
+ */
+async function cardCacheKey(input: CardInput): Promise<string> {
+    const images = await Promise.all(input.images.map(async (image) => ({
+        side: image.side,
+        mime_type: image.mimeType,
+        sha256: await sha256Hex(image.data),
+    })));
+
+    return await resultCacheKey({
+        functionName: "process-card",
+        promptVersion: PROMPT_VERSION,
+        input: {
+            lines: input.lines.map(normalizeCacheText).filter(Boolean),
+            context: normalizeCacheText(input.context),
+            region: input.defaultRegion,
+            event: eventCacheInfo(input.event),
+            images,
+        },
+    });
+}
+
+function runHeuristic(input: CardInput): ValidatedContact {
+    return validateContact(extractHeuristically(input.lines), {
+        defaultRegion: input.defaultRegion,
+        sourceText: input.textToAnalyze,
+    });
+}
+
+/**
+ * Liest 'images' aus dem Request: Base64-Strings (auch als data:-URL)
+ * oder Objekte { data, mime_type, side }
+ */
+function parseCardImages(raw: unknown): { images: CardImage[] } | { error: string } {
+    if (raw === undefined || raw === null) {
+        return { images: [] };
+    }
+    if (!Array.isArray(raw)) {
+        return { error: "'images' muss ein Array sein" };
+    }
+    if (raw.length > MAX_IMAGES) {
+        return { error: `Maximal ${MAX_IMAGES} Bilder pro Karte` };
+    }
 
-        if (!GOOGLE_API_KEY) {
-            await supabaseAdmin.rpc("add_ai_credits", { user_id: user.id, amount: 1 });
-            return errorResponse(500, "Google API Key nicht konfiguriert");
+    const images: CardImage[] = [];
+    for (const [index, entry] of raw.entries()) {
+        const item = typeof entry === "string" ? { data: entry } : entry;
+        if (!item || typeof item.data !== "string" || !item.data) {
+            return { error: `Bild ${index + 1}: 'data' fehlt` };
         }
 
-        // Prompt bauen
-        const prompt = `
+        // data:image/jpeg;base64,.... → MIME-Type und Daten trennen
+        const dataUrl = item.data.match(/^data:([\w/+.-]+);base64,(.*)$/s);
+        const mimeType = String(dataUrl?.[1] ?? item.mime_type ?? "image/jpeg").toLowerCase();
+        const data = (dataUrl?.[2] ?? item.data).replace(/\s/g, "");
+
+        if (!IMAGE_MIME_TYPES.includes(mimeType)) {
+            return { error: `Bild ${index + 1}: Format ${mimeType} nicht unterstützt` };
+        }
+        if (!/^[A-Za-z0-9+/]+={0,2}$/.test(data)) {
+            return { error: `Bild ${index + 1}: Ungültiges Base64` };
+        }
+        if (data.length * 0.75 > MAX_IMAGE_BYTES) {
+            return { error: `Bild ${index + 1}: Maximal ${MAX_IMAGE_BYTES / 1024 / 1024} MB` };
+        }
+
+        const side = typeof item.side === "string" && item.side
+            ? item.side
+            : index === 0 ? "front" : index === 1 ? "back" : `image_${index + 1}`;
+        images.push({ mimeType, data, side });
+    }
+
+    return { images };
+}
+
+/**
+ * KI-Extraktion einer Karte inkl. Merge mit der Vorerkennung.
+ * `charged = false`, wenn nur das (kostenlose) Regel-Ergebnis geliefert wird.
+ */
+async function extractCard(input: CardInput, heuristic: ValidatedContact): Promise<CardExtraction> {
+    const { textToAnalyze, context, defaultRegion, images, event } = input;
+
+    // ========================================
+    // 5. Prompt bauen
+    // ========================================
+
+    const { address_components: _, ...hints } = heuristic.data;
+
+    const imageInstructions = images.length === 0 ? "" : `
+Zusätzlich bekommst du ${images.length} Foto(s) der Karte (${images.map((i) => i.side).join(", ")}).
+Lies den Text direkt aus den Bildern; sie haben Vorrang vor dem OCR-Text.
+Führe die Angaben von Vorder- und Rückseite zu EINEM Kontakt zusammen.
+Beschreibe erkannte Logos unter "logos" und QR-Codes unter "qr_codes"
+(Inhalt, falls lesbar, sonst kind "unreadable"). Gibt es keine, liefere leere Arrays.
+`;
+
+    const prompt = `
 Du bist ein intelligenter Assistent für die Erfassung von Visitenkarten.
 Extrahiere strukturierte Kontaktdaten aus dem folgenden OCR-Text.
 Der Text kann Fehler enthalten oder unformatiert sein.
-
+${imageInstructions}
 Gib das Ergebnis NUR als valides JSON zurück, ohne Markdown-Formatierung, ohne Code-Blöcke.
 JSON Struktur:
 {
@@ -136,128 +443,293 @@ JSON Struktur:
   "phone": "Telefonnummer (bevorzugt Mobil)",
   "job_title": "Jobtitel / Rolle",
   "website": "Webseite (URL)",
-  "address": "Adresse (Straße, PLZ, Stadt)"
+  "address": {
+    "street": "Straße und Hausnummer",
+    "postal_code": "PLZ",
+    "city": "Stadt",
+    "country": "Land als ISO-Code (z.B. DE), nur wenn erkennbar"
+  },
+  "confidence": {
+    "name": 0.0, "company": 0.0, "email": 0.0, "phone": 0.0, "job_title": 0.0,
+    "website": 0.0, "street": 0.0, "postal_code": 0.0, "city": 0.0, "country": 0.0
+  }
 }
 
 Falls ein Feld nicht gefunden wird, lasse es leer ("").
 Korrigiere offensichtliche OCR-Fehler bei E-Mail oder Telefonnummern.
+Gib unter "confidence" für jedes Feld an, wie sicher du dir bist (0.0 bis 1.0).
 
 OCR-Text:
-${textToAnalyze}
+${textToAnalyze || "(kein OCR-Text, nur Bilder)"}
+
+Regelbasierte Vorerkennung (kann Fehler enthalten, nur als Hinweis nutzen):
+${JSON.stringify(hints)}
 
 ${context ? `Zusätzlicher Kontext: ${context}` : ""}
+${event ? `Die Karte wurde auf dieser Messe erfasst (nur zur Einordnung, z.B. Land oder Branche;
+übernimm keine Messe-Angaben in die Kontaktdaten):
+${describeEventForPrompt(event)}` : ""}
 `;
 
-        // Modell-Optionen (Fallback Strategie)
-        // HINWEIS: Wir nutzen v1beta für Gemini 1.5 Modelle (JSON Mode).
-        // Fallback auf gemini-pro (v1) ohne JSON Mode (nur Prompt-basiert).
-        const modelOptions = [
-            { model: "gemini-1.5-flash-latest", apiVersion: "v1beta" },
-            { model: "gemini-1.5-pro-latest", apiVersion: "v1beta" },
-            { model: "gemini-1.5-flash-002", apiVersion: "v1beta" },
-            { model: "gemini-1.5-flash", apiVersion: "v1" },
-            { model: "gemini-1.5-flash-latest", apiVersion: "v1" },
-            { model: "gemini-2.0-flash-exp", apiVersion: "v1beta" },
-            { model: "gemini-pro", apiVersion: "v1beta" },
-        ];
-
-        let geminiData = null;
-        let lastError = "";
-
-        console.log("Analyzing text with models:", modelOptions.map(m => m.model));
-
-        for (const { model, apiVersion, useJsonMode } of modelOptions) {
-            try {
-                const url = `https://generativelanguage.googleapis.com/${apiVersion}/models/${model}:generateContent?key=${GOOGLE_API_KEY}`;
-
-                const payload: any = {
-                    contents: [{ parts: [{ text: prompt }] }]
-                };
-
-                if (useJsonMode) {
-                    payload.generationConfig = {
-                        responseMimeType: "application/json"
-                    };
-                }
+    // ========================================
+    // 6. KI-Call & Response parsen
+    // ========================================
+    // Provider, Modelle und Timeouts kommen aus _shared/llm.ts (Env/Secrets).
+    // Structured Output erzwingt die JSON-Struktur, wo der Provider es kann.
+    // Scheitert die KI, liefern wir kostenlos das regelbasierte Ergebnis.
 
-                const response = await fetch(url, {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify(payload),
-                });
+    let contact: ValidatedContact;
+    let cardFeatures: CardFeatures | undefined;
+    try {
+        const result = await generateJson({
+            prompt,
+            jsonSchema: images.length > 0 ? CARD_IMAGE_SCHEMA : CONTACT_SCHEMA,
+            images,
+        });
+        contact = validateContact(result.json, { defaultRegion, sourceText: textToAnalyze });
+        cardFeatures = images.length > 0 ? readCardFeatures(result.json) : undefined;
+    } catch (e) {
+        if (e instanceof LlmError) {
+            console.warn("KI-Analyse fehlgeschlagen, nutze Heuristik:", e.message);
+        } else if (e instanceof SyntaxError || e instanceof ContactValidationError) {
+            console.warn("KI-Antwort unbrauchbar, nutze Heuristik:", e.message);
+        } else {
+            throw e;
+        }
 
-                if (response.ok) {
-                    geminiData = await response.json();
-                    break;
-                } else {
-                    lastError = await response.text();
-                    console.warn(`Model ${model} failed: ${lastError}`);
-                }
-            } catch (e) {
-                lastError = String(e);
-                console.warn(`Model ${model} error: ${e}`);
-            }
+        // Ohne OCR-Text findet auch die Heuristik nichts
+        if (!Object.values(heuristic.fields).some((field) => field.value)) {
+            return { ok: false, error: "KI-Analyse fehlgeschlagen" + (e instanceof Error ? `: ${e.message}` : "") };
         }
 
-        if (!geminiData) {
-            await supabaseAdmin.rpc("add_ai_credits", { user_id: user.id, amount: 1 });
-            return errorResponse(500, "KI-Analyse fehlgeschlagen: " + lastError);
+        return { ok: true, body: successBody(heuristic, "heuristic"), charged: false };
+    }
+
+    if (contact.issues.length > 0) {
+        console.warn("Contact validation issues:", contact.issues);
+    }
+
+    // ========================================
+    // 7. Mit Vorerkennung zusammenführen
+    // ========================================
+    // `data` bleibt flach (kompatibel mit älteren App-Versionen),
+    // `fields` enthält Confidence-Scores pro Feld.
+
+    const { contact: merged, mergedFields } = mergeContacts(contact, heuristic);
+    const source: ExtractionSource = mergedFields.length > 0 ? "merged" : "llm";
+
+    return {
+        ok: true,
+        body: successBody(merged, source, mergedFields, cardFeatures),
+        charged: true,
+    };
+}
+
+/**
+ * Mögliche Dubletten für die Antwort (nichts, wenn die Suche abgeschaltet ist)
+ */
+function duplicateInfo(
+    contact: { name: string; company: string; email: string; phone: string },
+    leads: ExistingLead[] | null,
+    defaultRegion: string
+): { duplicates?: DuplicateCandidate[] } {
+    if (!leads) {
+        return {};
+    }
+    return { duplicates: findDuplicateCandidates(contact, leads, { defaultRegion }) };
+}
+
+function successBody(
+    contact: ValidatedContact,
+    source: ExtractionSource,
+    mergedFields: string[] = [],
+    cardFeatures?: CardFeatures
+) {
+    return {
+        success: true,
+        source,
+        data: contact.data,
+        fields: contact.fields,
+        issues: contact.issues,
+        merged_fields: mergedFields,
+        card_features: cardFeatures,
+    };
+}
+
+// ============================================
+// Batch-Verarbeitung
+// ============================================
+// Nach einem Messetag kommen oft 80+ offline gescannte Karten auf einmal.
+// Jedes Item bekommt eine eigene Reservierung mit dem Key
+// "{Idempotency-Key}:{client_id}" – ein Retry des ganzen Batches bucht
+// bereits erfolgreiche Items nicht erneut ab. Geht das Guthaben aus,
+// werden die restlichen Items als "not_processed" gemeldet.
+// Bereits ausgewertete Karten kommen kostenlos aus dem Result Cache.
+// Die Messe ('event_id' auf Batch-Ebene) gilt für alle Karten; wer erst
+// nach der Messe verarbeitet, muss sie explizit mitschicken.
+
+const MAX_BATCH_ITEMS = 100;
+const MAX_CLIENT_ID_LENGTH = 100;
+const BATCH_CONCURRENCY = Number(Deno.env.get("BATCH_CONCURRENCY")) || 4;
+
+type BatchItemResult = {
+    client_id: string;
+    status: "success" | "failed" | "not_processed";
+    charged: boolean;
+    replayed?: boolean;
+    cached?: boolean;
+    error?: string;
+    duplicates?: DuplicateCandidate[];
+} & Partial<ReturnType<typeof successBody>>;
+
+async function processBatch(
+    supabaseAdmin: SupabaseClient,
+    userId: string,
+    rawItems: unknown[],
+    batchKey: string,
+    mode: unknown,
+    checkDuplicates: boolean,
+    forceRefresh: boolean,
+    event: TradeFairEvent | null
+): Promise<Response> {
+    if (rawItems.length === 0 || rawItems.length > MAX_BATCH_ITEMS) {
+        return errorResponse(400, `'items' muss 1 bis ${MAX_BATCH_ITEMS} Karten enthalten`);
+    }
+
+    // client_ids prüfen (Pflicht, eindeutig)
+    const seen = new Set<string>();
+    for (const item of rawItems) {
+        const clientId = (item as Record<string, unknown> | null)?.client_id;
+        if (typeof clientId !== "string" || !clientId || clientId.length > MAX_CLIENT_ID_LENGTH) {
+            return errorResponse(400, "Jedes Item braucht eine 'client_id' (max. 100 Zeichen)");
         }
+        if (seen.has(clientId)) {
+            return errorResponse(400, `Doppelte client_id: ${clientId}`);
+        }
+        seen.add(clientId);
+    }
 
-        // ========================================
-        // 5. Response parsen
-        // ========================================
+    const items = rawItems as Record<string, unknown>[];
+    const results: BatchItemResult[] = new Array(items.length);
+    // Einmal laden, für jede Karte vergleichen
+    const existingLeads = checkDuplicates ? await loadLeadsForMatching(supabaseAdmin, userId) : null;
+    let outOfCredits = false;
+    let next = 0;
+
+    const processItem = async (item: Record<string, unknown>): Promise<BatchItemResult> => {
+        const clientId = item.client_id as string;
+        const input = parseCardPayload(item, event);
+        if ("error" in input) {
+            return { client_id: clientId, status: "failed", charged: false, error: input.error };
+        }
 
-        const generatedContent = geminiData?.candidates?.[0]?.content?.parts?.[0]?.text;
+        const heuristic = runHeuristic(input);
+        if (mode === "heuristic") {
+            const body = successBody(heuristic, "heuristic");
+            return {
+                client_id: clientId,
+                status: "success",
+                charged: false,
+                ...body,
+                ...duplicateInfo(body.data, existingLeads, input.defaultRegion),
+            };
+        }
 
-        if (!generatedContent) {
-            await supabaseAdmin.rpc("add_ai_credits", { user_id: user.id, amount: 1 });
-            return errorResponse(500, "Keine Antwort von KI erhalten");
+        const cacheKey = await cardCacheKey(input);
+        const cached = forceRefresh
+            ? null
+            : await lookupCachedResult<CardBody>(supabaseAdmin, userId, "process-card", cacheKey);
+        if (cached) {
+            return {
+                client_id: clientId,
+                status: "success",
+                charged: false,
+                cached: true,
+                ...cached,
+                ...duplicateInfo(cached.data, existingLeads, input.defaultRegion),
+            };
         }
 
-        let parsedContact;
-        try {
-            // Versuche JSON zu parsen (manchmal ist Markdown drumherum, auch mit responseMimeType safety)
-            let cleanJson = generatedContent.trim();
-            // Entferne Markdown Code Blocks falls vorhanden ```json ... ```
-            cleanJson = cleanJson.replace(/^```json\s*/, "").replace(/\s*```$/, "");
-            parsedContact = JSON.parse(cleanJson);
-        } catch (e) {
-            console.error("JSON Parse Error:", e, generatedContent);
-            // Fallback: Versuche simple Extraktion, falls JSON kaputt, oder Fail
-            // Hier geben wir einfach einen Fehler zurück, da wir strukturiertes JSON brauchen
-            await supabaseAdmin.rpc("add_ai_credits", { user_id: user.id, amount: 1 });
-            return errorResponse(500, "Konnte KI-Antwort nicht lesen (JSON Error)");
+        if (outOfCredits) {
+            return { client_id: clientId, status: "not_processed", charged: false, error: "Kein Guthaben mehr" };
         }
 
-        // ========================================
-        // 6. Success Response
-        // ========================================
+        const reserved = await reserveCredit(supabaseAdmin, {
+            userId,
+            functionName: "process-card",
+            idempotencyKey: `${batchKey}:${clientId}`,
+        });
+
+        switch (reserved.kind) {
+            case "replayed":
+                return { ...(reserved.body as BatchItemResult), replayed: true, charged: false };
+            case "in_progress":
+                return { client_id: clientId, status: "failed", charged: false, error: "Wird bereits verarbeitet" };
+            case "insufficient":
+                outOfCredits = true;
+                return { client_id: clientId, status: "not_processed", charged: false, error: reserved.message };
+            case "error":
+                return { client_id: clientId, status: "failed", charged: false, error: "Fehler beim Guthaben-Abzug" };
+        }
 
-        return new Response(
-            JSON.stringify({
-                success: true,
-                data: parsedContact,
-                credits_remaining: creditsRemaining
-            }),
-            {
-                headers: { ...corsHeaders, "Content-Type": "application/json" },
-                status: 200,
+        const { reservation } = reserved;
+        try {
+            const result = await extractCard(input, heuristic);
+            if (!result.ok) {
+                await releaseCredit(supabaseAdmin, reservation);
+                return { client_id: clientId, status: "failed", charged: false, error: result.error };
             }
-        );
 
-    } catch (error) {
-        console.error("Fatal Error:", error);
-        return errorResponse(500, "Interner Serverfehler");
-    }
-});
+            const itemResult: BatchItemResult = {
+                client_id: clientId,
+                status: "success",
+                charged: result.charged,
+                ...result.body,
+                ...duplicateInfo(result.body.data, existingLeads, input.defaultRegion),
+            };
+            if (result.charged) {
+                if (!await commitCredit(supabaseAdmin, reservation, 200, itemResult)) {
+                    await releaseCredit(supabaseAdmin, reservation);
+                    return { client_id: clientId, status: "failed", charged: false, error: COMMIT_FAILED_MESSAGE };
+                }
+                await storeCachedResult(supabaseAdmin, userId, "process-card", cacheKey, result.body);
+            } else {
+                await releaseCredit(supabaseAdmin, reservation);
+            }
+            return itemResult;
+        } catch (error) {
+            await releaseCredit(supabaseAdmin, reservation);
+            console.error(`Batch item ${clientId} failed:`, error);
+            return { client_id: clientId, status: "failed", charged: false, error: "Interner Serverfehler" };
+        }
+    };
 
-function errorResponse(status: number, message: string, extra = {}) {
-    return new Response(
-        JSON.stringify({ success: false, error: message, ...extra }),
-        {
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-            status: status,
+    // Worker-Pool mit begrenzter Parallelität (Reihenfolge bleibt erhalten)
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await processItem(items[index]);
         }
+    };
+    await Promise.all(
+        Array.from({ length: Math.min(BATCH_CONCURRENCY, items.length) }, worker)
     );
+
+    const count = (status: BatchItemResult["status"]) => results.filter((r) => r.status === status).length;
+
+    return jsonResponse({
+        success: true,
+        results,
+        summary: {
+            total: results.length,
+            succeeded: count("success"),
+            failed: count("failed"),
+            not_processed: count("not_processed"),
+            charged: results.filter((r) => r.charged).length,
+            cached: results.filter((r) => r.cached).length,
+        },
+        not_processed: results.filter((r) => r.status === "not_processed").map((r) => r.client_id),
+        event_id: event?.id ?? null,
+        credits_remaining: await loadCreditsRemaining(supabaseAdmin, userId),
+    });
 }
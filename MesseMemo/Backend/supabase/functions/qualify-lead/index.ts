@@ -0,0 +1,296 @@
+// ============================================
+// MesseMemo Lead Qualification Edge Function
+// Version: 1.0 (Gesprächs-Zusammenfassung, BANT, Lead-Score)
+// ============================================
+//
+// Wertet Notizen und Transkript eines Leads aus und speichert das Ergebnis
+// am Lead (qualification, lead_score, follow_up_date – siehe
+// migrations/013_lead_qualification.sql). Kostet 1 Credit; unveränderte
+// Leads kommen aus dem Result Cache.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { getIdempotencyKey, loadCreditsRemaining, withCreditReservation } from "../_shared/credits.ts";
+import { checkLlmConfig, generateJson, LlmError, loadLlmConfig } from "../_shared/llm.ts";
+import {
+  LeadQualification,
+  QUALIFICATION_SCHEMA,
+  QualificationError,
+  validateQualification,
+} from "../_shared/qualification.ts";
+import { clientIp, enforceRateLimit } from "../_shared/rate-limit.ts";
+import {
+  lookupCachedResult,
+  normalizeCacheText,
+  resultCacheKey,
+  storeCachedResult,
+  wantsFreshResult,
+} from "../_shared/result-cache.ts";
+import { authenticate, isUuid } from "../_shared/supabase.ts";
+
+const FUNCTION_NAME = "qualify-lead";
+
+// Bei jeder Änderung am Prompt erhöhen (Result Cache)
+const PROMPT_VERSION = "qualify-1.0";
+
+// Sehr lange Transkripte kürzen (Tokens)
+const MAX_INPUT_CHARS = 20000;
+
+interface LeadInput {
+  id: string;
+  name: string | null;
+  company: string | null;
+  notes: string | null;
+  transcript: string | null;
+}
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse(405, "Methode nicht erlaubt");
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (auth instanceof Response) {
+      return auth;
+    }
+    const { user, supabaseClient, supabaseAdmin } = auth;
+
+    // ========================================
+    // 1. Request Body parsen
+    // ========================================
+    // { lead_id, force_refresh? }
+
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (parseError) {
+      console.error("JSON Parse Error:", parseError);
+      return errorResponse(400, "Ungültiger Request-Body");
+    }
+    if (!requestBody || typeof requestBody !== "object" || Array.isArray(requestBody)) {
+      return errorResponse(400, "Ungültiger Request-Body");
+    }
+
+    if (!isUuid(requestBody.lead_id)) {
+      return errorResponse(400, "'lead_id' fehlt oder ist keine UUID");
+    }
+
+    // ========================================
+    // 2. Lead laden (RLS)
+    // ========================================
+
+    const { data: lead, error: leadError } = await supabaseClient
+      .from("leads")
+      .select("id, name, company, notes, transcript")
+      .eq("id", requestBody.lead_id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (leadError) {
+      console.error("Lead Lookup Error:", JSON.stringify(leadError));
+      return errorResponse(500, "Lead konnte nicht geladen werden");
+    }
+    if (!lead) {
+      return errorResponse(404, "Lead nicht gefunden");
+    }
+    if (!lead.notes?.trim() && !lead.transcript?.trim()) {
+      return errorResponse(400, "Lead hat weder Notizen noch Transkript");
+    }
+
+    const configError = checkLlmConfig(loadLlmConfig());
+    if (configError) {
+      return errorResponse(500, configError);
+    }
+
+    const idempotencyKey = await getIdempotencyKey(req, { request: requestBody, lead });
+    if (!idempotencyKey) {
+      return errorResponse(400, "Ungültiger Idempotency-Key");
+    }
+
+    // ========================================
+    // 3. Result Cache
+    // ========================================
+    // Das Follow-up Datum hängt vom heutigen Tag ab → Teil des Schlüssels
+
+    const today = new Date().toISOString().slice(0, 10);
+    const cacheKey = await resultCacheKey({
+      functionName: FUNCTION_NAME,
+      promptVersion: PROMPT_VERSION,
+      input: {
+        name: normalizeCacheText(lead.name),
+        company: normalizeCacheText(lead.company),
+        notes: normalizeCacheText(lead.notes),
+        transcript: normalizeCacheText(lead.transcript),
+        date: today,
+      },
+    });
+
+    if (!wantsFreshResult(requestBody)) {
+      const cached = await lookupCachedResult<LeadQualification>(supabaseAdmin, user.id, FUNCTION_NAME, cacheKey);
+      if (cached) {
+        const saveError = await saveQualification(supabaseClient, lead.id, cached);
+        if (saveError) {
+          return saveError;
+        }
+        return jsonResponse({
+          ...qualificationBody(lead.id, cached),
+          cached: true,
+          credits_remaining: await loadCreditsRemaining(supabaseAdmin, user.id),
+        });
+      }
+    }
+
+    const limited = await enforceRateLimit(supabaseAdmin, {
+      userId: user.id,
+      functionName: FUNCTION_NAME,
+      ip: clientIp(req),
+    });
+    if (limited) {
+      return limited;
+    }
+
+    // ========================================
+    // 4. Credit reservieren & KI-Call
+    // ========================================
+
+    return await withCreditReservation(
+      supabaseAdmin,
+      { userId: user.id, functionName: FUNCTION_NAME, idempotencyKey },
+      async (reservation) => {
+        let qualification: LeadQualification;
+        try {
+          const result = await generateJson({
+            prompt: buildPrompt(lead, today),
+            jsonSchema: QUALIFICATION_SCHEMA,
+            temperature: 0.2,
+            maxOutputTokens: 1500,
+          });
+          qualification = validateQualification(result.json, today);
+        } catch (error) {
+          if (error instanceof LlmError) {
+            console.error("❌ All models failed:", error.attempts.join(" | "));
+            return errorResponse(500, `KI-Analyse fehlgeschlagen: ${error.message.substring(0, 200)}`);
+          }
+          if (error instanceof SyntaxError || error instanceof QualificationError) {
+            console.error("❌ Invalid qualification JSON:", error.message);
+            return errorResponse(500, "Lead konnte nicht ausgewertet werden");
+          }
+          throw error;
+        }
+
+        // Nicht-2xx gibt den Credit zurück
+        const saveError = await saveQualification(supabaseClient, lead.id, qualification);
+        if (saveError) {
+          return saveError;
+        }
+        await storeCachedResult(supabaseAdmin, user.id, FUNCTION_NAME, cacheKey, qualification);
+
+        return jsonResponse({
+          ...qualificationBody(lead.id, qualification),
+          credits_remaining: reservation.creditsRemaining,
+        });
+      }
+    );
+
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
+
+// ============================================
+// Helper Functions
+// ============================================
+
+/**
+ * Schreibt das Ergebnis an den Lead. updated_at setzt der Trigger,
+ * damit sync-leads die Änderung an alle Geräte verteilt.
+ */
+async function saveQualification(
+  supabaseClient: SupabaseClient,
+  leadId: string,
+  qualification: LeadQualification
+): Promise<Response | null> {
+  const { error } = await supabaseClient
+    .from("leads")
+    .update({
+      qualification,
+      lead_score: qualification.score,
+      follow_up_date: qualification.follow_up_date,
+      qualified_at: new Date().toISOString(),
+    })
+    .eq("id", leadId);
+
+  if (error) {
+    console.error("Lead Update Error:", JSON.stringify(error));
+    return errorResponse(500, "Auswertung konnte nicht gespeichert werden");
+  }
+  return null;
+}
+
+function qualificationBody(leadId: string, qualification: LeadQualification) {
+  return {
+    success: true,
+    lead_id: leadId,
+    lead_score: qualification.score,
+    follow_up_date: qualification.follow_up_date,
+    qualification,
+  };
+}
+
+function buildPrompt(lead: LeadInput, today: string): string {
+  const notes = (lead.notes ?? "").trim().substring(0, MAX_INPUT_CHARS);
+  const transcript = (lead.transcript ?? "").trim().substring(0, MAX_INPUT_CHARS);
+
+  return `Du bist ein erfahrener B2B-Vertriebsanalyst. Werte das folgende Messegespräch aus
+und qualifiziere den Lead.
+
+Gib NUR valides JSON zurück, ohne Markdown:
+{
+  "summary": "Zusammenfassung des Gesprächs in 2–4 Sätzen",
+  "products_of_interest": ["Produkte/Leistungen, für die sich der Kontakt interessiert"],
+  "bant": {
+    "budget":    { "signal": "positive|neutral|negative|unknown", "evidence": "Beleg aus dem Gespräch" },
+    "authority": { "signal": "…", "evidence": "…" },
+    "need":      { "signal": "…", "evidence": "…" },
+    "timeline":  { "signal": "…", "evidence": "…" }
+  },
+  "open_questions": ["Fragen, die noch offen sind"],
+  "next_steps": ["Vereinbarte nächste Schritte"],
+  "follow_up_date": "YYYY-MM-DD",
+  "score": 0,
+  "score_reasons": ["Gründe für den Score"]
+}
+
+REGELN:
+- Nutze nur Informationen aus Notizen und Transkript, erfinde nichts
+- BANT: "unknown" mit leerem "evidence", wenn das Gespräch nichts dazu hergibt
+- "next_steps" nur, wenn im Gespräch tatsächlich vereinbart
+- "follow_up_date": sinnvoller Termin zum Nachfassen ab heute (${today}); wurde ein Termin vereinbart, diesen nehmen
+- "score": 0 (kein Interesse) bis 100 (kaufbereit, Budget und Entscheider bestätigt, kurzfristig)
+- "score_reasons": 2–5 kurze Begründungen
+- Schreibe in der Sprache des Gesprächs
+
+---
+
+Kontakt: ${lead.name || "(unbekannt)"}${lead.company ? `, ${lead.company}` : ""}
+
+Notizen:
+${notes || "(keine)"}
+
+Transkript:
+${transcript || "(keins)"}
+`;
+}
@@ -0,0 +1,508 @@
+// ============================================
+// MesseMemo Send Email Edge Function
+// Version: 1.0 (Versand über SMTP/Resend, Planung, Status, Opt-out)
+// ============================================
+//
+// App (mit User-JWT):
+//   POST                → Mail an einen Lead senden oder planen (send_at)
+//   GET  ?lead_id=<uuid> → Versandhistorie (ohne lead_id: die letzten 50)
+//   DELETE ?id=<uuid>   → geplante Mail stornieren
+//
+// Server (ohne JWT):
+//   POST /process       → fällige und zu wiederholende Mails verschicken
+//                         (pg_cron, "Authorization: Bearer <CRON_SECRET>")
+//   POST /events        → Resend-Webhook (Bounces, Beschwerden)
+//   GET|POST /unsubscribe?u=&e=&t= → Abmelde-Link aus der Mail
+//
+// Outbox, Sperrliste und Lead-Status: migrations/015_email_outbox.sql,
+// Versand und Wiederholungen: _shared/email-outbox.ts.
+// Deploy mit --no-verify-jwt, damit Cron, Resend und Kontakte die
+// Server-Pfade erreichen; die App-Pfade prüfen das JWT selbst.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { deliverEmail, OutboxStatus, processOutbox } from "../_shared/email-outbox.ts";
+import { escapeHtml, isEmailAddress, verifyResendWebhook } from "../_shared/mailer.ts";
+import { addOptOut, isOptedOut, unsubscribeUrl, verifyUnsubscribeToken } from "../_shared/opt-out.ts";
+import { clientIp, enforceRateLimit } from "../_shared/rate-limit.ts";
+import { authenticate, authorizeCron, createAdminClient, isUuid } from "../_shared/supabase.ts";
+
+const FUNCTION_NAME = "send-email";
+
+const MAX_SUBJECT_LENGTH = 300;
+const MAX_BODY_LENGTH = 15000;
+// Planung höchstens 30 Tage im Voraus
+const MAX_SCHEDULE_DAYS = 30;
+
+const DEFAULT_BATCH_SIZE = 50;
+
+/** Spalten, die an die App gehen */
+const OUTBOX_COLUMNS = [
+  "id", "lead_id", "to_email", "subject", "status", "scheduled_at", "attempts",
+  "last_error", "sent_at", "bounced_at", "created_at",
+].join(", ");
+
+interface ResendEvent {
+  type?: string;
+  data?: { email_id?: string; to?: string[] };
+}
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const route = new URL(req.url).pathname.split("/").filter(Boolean).pop();
+
+    // ========================================
+    // Server-Pfade (ohne User-JWT)
+    // ========================================
+
+    if (route === "process" || route === "events" || route === "unsubscribe") {
+      const supabaseAdmin = createAdminClient();
+      if (!supabaseAdmin) {
+        return errorResponse(500, "Server-Konfiguration fehlerhaft");
+      }
+
+      if (route === "unsubscribe") {
+        if (req.method !== "GET" && req.method !== "POST") {
+          return errorResponse(405, "Methode nicht erlaubt");
+        }
+        return await handleUnsubscribe(supabaseAdmin, req);
+      }
+
+      if (req.method !== "POST") {
+        return errorResponse(405, "Methode nicht erlaubt");
+      }
+      if (route === "events") {
+        return await handleProviderEvent(supabaseAdmin, req);
+      }
+
+      const unauthorized = authorizeCron(req);
+      if (unauthorized) {
+        return unauthorized;
+      }
+      return await processOutboxRequest(supabaseAdmin);
+    }
+
+    // ========================================
+    // App-Pfade
+    // ========================================
+
+    const auth = await authenticate(req);
+    if (auth instanceof Response) {
+      return auth;
+    }
+    const { user, supabaseClient, supabaseAdmin } = auth;
+    const params = new URL(req.url).searchParams;
+
+    switch (req.method) {
+      case "GET": {
+        const leadId = params.get("lead_id");
+        if (leadId !== null && !isUuid(leadId)) {
+          return errorResponse(400, "Ungültige Lead-ID");
+        }
+        return await listEmails(supabaseClient, leadId);
+      }
+      case "POST":
+        return await queueEmail(req, user, supabaseClient, supabaseAdmin);
+      case "DELETE": {
+        const id = params.get("id");
+        if (!isUuid(id)) {
+          return errorResponse(400, "Parameter 'id' fehlt oder ist keine UUID");
+        }
+        return await cancelEmail(supabaseAdmin, user.id, id);
+      }
+      default:
+        return errorResponse(405, "Methode nicht erlaubt");
+    }
+
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
+
+// ============================================
+// App: Senden / Planen
+// ============================================
+
+async function queueEmail(
+  req: Request,
+  user: User,
+  supabaseClient: SupabaseClient,
+  supabaseAdmin: SupabaseClient
+): Promise<Response> {
+  // { lead_id, subject, body?, html?, to?, send_at? }
+  let requestBody;
+  try {
+    requestBody = await req.json();
+  } catch (parseError) {
+    console.error("JSON Parse Error:", parseError);
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+  if (!requestBody || typeof requestBody !== "object" || Array.isArray(requestBody)) {
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+
+  if (!isUuid(requestBody.lead_id)) {
+    return errorResponse(400, "'lead_id' fehlt oder ist keine UUID");
+  }
+  const subject = typeof requestBody.subject === "string" ? requestBody.subject.trim() : "";
+  if (!subject || subject.length > MAX_SUBJECT_LENGTH) {
+    return errorResponse(400, `'subject' fehlt oder ist länger als ${MAX_SUBJECT_LENGTH} Zeichen`);
+  }
+  if (requestBody.body !== undefined && typeof requestBody.body !== "string") {
+    return errorResponse(400, "'body' muss ein String sein");
+  }
+  if (requestBody.html !== undefined && typeof requestBody.html !== "string") {
+    return errorResponse(400, "'html' muss ein String sein");
+  }
+
+  const scheduledAt = parseSendAt(requestBody.send_at);
+  if (scheduledAt === "invalid") {
+    return errorResponse(400, `'send_at' muss ein ISO-Zeitpunkt in den nächsten ${MAX_SCHEDULE_DAYS} Tagen sein`);
+  }
+
+  const idempotencyKey = req.headers.get("Idempotency-Key")?.trim() || null;
+  if (idempotencyKey && idempotencyKey.length > 200) {
+    return errorResponse(400, "Ungültiger Idempotency-Key");
+  }
+
+  // Wiederholter Request: bestehende Mail zurückgeben statt erneut zu senden
+  if (idempotencyKey) {
+    const { data: existing } = await supabaseClient
+      .from("email_outbox")
+      .select(OUTBOX_COLUMNS)
+      .eq("idempotency_key", idempotencyKey)
+      .maybeSingle();
+    if (existing) {
+      return jsonResponse({ success: true, email: existing }, 200, { "Idempotent-Replayed": "true" });
+    }
+  }
+
+  // ========================================
+  // Lead & Empfänger (RLS)
+  // ========================================
+
+  const { data: lead, error: leadError } = await supabaseClient
+    .from("leads")
+    .select("id, email, generated_email")
+    .eq("id", requestBody.lead_id)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (leadError) {
+    console.error("Lead Lookup Error:", JSON.stringify(leadError));
+    return errorResponse(500, "Lead konnte nicht geladen werden");
+  }
+  if (!lead) {
+    return errorResponse(404, "Lead nicht gefunden");
+  }
+
+  const to = (typeof requestBody.to === "string" ? requestBody.to : lead.email ?? "").trim();
+  if (!isEmailAddress(to)) {
+    return errorResponse(400, "Lead hat keine gültige E-Mail-Adresse");
+  }
+
+  // Ohne body: die zuletzt generierte Mail des Leads
+  const body = (typeof requestBody.body === "string" ? requestBody.body : lead.generated_email ?? "").trim();
+  if (!body || body.length > MAX_BODY_LENGTH) {
+    return errorResponse(400, `'body' fehlt oder ist länger als ${MAX_BODY_LENGTH} Zeichen`);
+  }
+
+  if (await isOptedOut(supabaseAdmin, user.id, to)) {
+    return errorResponse(409, "Der Kontakt hat weiteren E-Mails widersprochen", { opted_out: true });
+  }
+
+  const limited = await enforceRateLimit(supabaseAdmin, {
+    userId: user.id,
+    functionName: FUNCTION_NAME,
+    ip: clientIp(req),
+  });
+  if (limited) {
+    return limited;
+  }
+
+  // ========================================
+  // In die Outbox schreiben
+  // ========================================
+
+  const language = await loadEmailLanguage(supabaseClient);
+  const unsubscribe = await unsubscribeUrl(user.id, to);
+
+  const { data: row, error: insertError } = await supabaseAdmin
+    .from("email_outbox")
+    .insert({
+      user_id: user.id,
+      lead_id: lead.id,
+      to_email: to,
+      // Antworten gehen an den Aussteller, nicht an die Absender-Adresse
+      reply_to: user.email ?? null,
+      subject,
+      body_text: withTextFooter(body, unsubscribe, language),
+      body_html: typeof requestBody.html === "string" && requestBody.html.trim()
+        ? withHtmlFooter(requestBody.html, unsubscribe, language)
+        : null,
+      scheduled_at: scheduledAt ?? new Date().toISOString(),
+      idempotency_key: idempotencyKey,
+    })
+    .select("id")
+    .single();
+
+  if (insertError) {
+    // Paralleler Request mit gleichem Idempotency-Key
+    if (insertError.code === "23505") {
+      return errorResponse(409, "Die Mail wird bereits verarbeitet");
+    }
+    console.error("Outbox Insert Error:", JSON.stringify(insertError));
+    return errorResponse(500, "E-Mail konnte nicht gespeichert werden");
+  }
+
+  // Sofortversand über denselben Weg wie der Cron-Lauf
+  if (!scheduledAt) {
+    const { data: claimed, error: claimError } = await supabaseAdmin.rpc("claim_email_outbox", {
+      p_limit: 1,
+      p_id: row.id,
+    });
+    if (claimError) {
+      console.error("Claim Outbox Error:", JSON.stringify(claimError));
+    } else if (claimed?.[0]) {
+      await deliverEmail(supabaseAdmin, claimed[0]);
+    }
+  }
+
+  const { data: email, error: loadError } = await supabaseClient
+    .from("email_outbox")
+    .select(OUTBOX_COLUMNS)
+    .eq("id", row.id)
+    .single();
+
+  if (loadError) {
+    console.error("Outbox Load Error:", JSON.stringify(loadError));
+    return errorResponse(500, "Versandstatus konnte nicht geladen werden");
+  }
+
+  const status = (email as unknown as { status: OutboxStatus }).status;
+  if (status === "failed" || status === "cancelled") {
+    return errorResponse(422, "E-Mail konnte nicht verschickt werden", { email });
+  }
+  // 202: geplant oder nach vorübergehendem Fehler erneut eingereiht
+  return jsonResponse({ success: true, email }, status === "sent" ? 200 : 202);
+}
+
+/**
+ * null = sofort, "invalid" bei ungültigem oder zu fernem Zeitpunkt
+ */
+function parseSendAt(value: unknown): string | null | "invalid" {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== "string") {
+    return "invalid";
+  }
+  const time = Date.parse(value);
+  if (!Number.isFinite(time) || time > Date.now() + MAX_SCHEDULE_DAYS * 86400 * 1000) {
+    return "invalid";
+  }
+  // Vergangenheit oder die nächste Minute: sofort senden
+  return time <= Date.now() + 60 * 1000 ? null : new Date(time).toISOString();
+}
+
+async function loadEmailLanguage(supabaseClient: SupabaseClient): Promise<string> {
+  const { data } = await supabaseClient
+    .from("user_settings")
+    .select("email_language")
+    .maybeSingle();
+  return data?.email_language === "en" ? "en" : "de";
+}
+
+const FOOTERS: Record<string, { text: string; link: string }> = {
+  de: {
+    text: "Sie möchten keine weiteren E-Mails von mir erhalten? Hier abmelden:",
+    link: "Abmelden",
+  },
+  en: {
+    text: "Don't want to receive further emails from me? Unsubscribe here:",
+    link: "Unsubscribe",
+  },
+};
+
+function withTextFooter(body: string, unsubscribe: string | null, language: string): string {
+  return unsubscribe ? `${body}\n\n--\n${FOOTERS[language].text}\n${unsubscribe}` : body;
+}
+
+function withHtmlFooter(html: string, unsubscribe: string | null, language: string): string {
+  if (!unsubscribe) {
+    return html;
+  }
+  const footer = `<p style="color: #6e6e73; font-size: 12px;">${escapeHtml(FOOTERS[language].text)} `
+    + `<a href="${escapeHtml(unsubscribe)}">${escapeHtml(FOOTERS[language].link)}</a></p>`;
+  return html.includes("</body>") ? html.replace("</body>", `${footer}</body>`) : html + footer;
+}
+
+// ============================================
+// App: Historie & Stornieren
+// ============================================
+
+async function listEmails(supabaseClient: SupabaseClient, leadId: string | null): Promise<Response> {
+  let query = supabaseClient
+    .from("email_outbox")
+    .select(OUTBOX_COLUMNS)
+    .order("created_at", { ascending: false })
+    .limit(50);
+  if (leadId) {
+    query = query.eq("lead_id", leadId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Outbox List Error:", JSON.stringify(error));
+    return errorResponse(500, "Versandhistorie konnte nicht geladen werden");
+  }
+
+  return jsonResponse({ success: true, emails: data ?? [] });
+}
+
+async function cancelEmail(supabaseAdmin: SupabaseClient, userId: string, id: string): Promise<Response> {
+  // Nur Mails, die noch nicht in Arbeit sind
+  const { data, error } = await supabaseAdmin
+    .from("email_outbox")
+    .update({ status: "cancelled" })
+    .eq("id", id)
+    .eq("user_id", userId)
+    .eq("status", "queued")
+    .select(OUTBOX_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Outbox Cancel Error:", JSON.stringify(error));
+    return errorResponse(500, "E-Mail konnte nicht storniert werden");
+  }
+  if (!data) {
+    return errorResponse(409, "E-Mail nicht gefunden oder bereits verschickt");
+  }
+
+  return jsonResponse({ success: true, email: data });
+}
+
+// ============================================
+// Versand (Sofortversand und Cron)
+// ============================================
+
+async function processOutboxRequest(supabaseAdmin: SupabaseClient): Promise<Response> {
+  const configured = Number(Deno.env.get("EMAIL_BATCH_SIZE"));
+  const batchSize = Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_BATCH_SIZE;
+
+  const run = await processOutbox(supabaseAdmin, batchSize);
+  if (!run) {
+    return errorResponse(500, "Outbox konnte nicht geladen werden");
+  }
+  return jsonResponse({ success: true, processed: run.processed, ...run.counts });
+}
+
+// ============================================
+// Resend-Webhook (Bounces, Beschwerden)
+// ============================================
+
+async function handleProviderEvent(supabaseAdmin: SupabaseClient, req: Request): Promise<Response> {
+  const rawBody = await req.text();
+  if (!(await verifyResendWebhook(req.headers, rawBody))) {
+    return errorResponse(401, "Ungültige Signatur");
+  }
+
+  let event: ResendEvent;
+  try {
+    event = JSON.parse(rawBody);
+  } catch {
+    return errorResponse(400, "Ungültiger Request-Body");
+  }
+
+  const messageId = event.data?.email_id;
+  if (!messageId || (event.type !== "email.bounced" && event.type !== "email.complained")) {
+    // Andere Ereignisse (delivered, opened, …) werden nicht ausgewertet
+    return jsonResponse({ success: true, ignored: true });
+  }
+
+  const { data: row, error } = await supabaseAdmin
+    .from("email_outbox")
+    .select("id, user_id, to_email")
+    .eq("provider_message_id", messageId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Outbox Lookup Error:", JSON.stringify(error));
+    return errorResponse(500, "Mail konnte nicht geladen werden");
+  }
+  if (!row) {
+    return jsonResponse({ success: true, ignored: true });
+  }
+
+  if (event.type === "email.bounced") {
+    await supabaseAdmin
+      .from("email_outbox")
+      .update({ status: "bounced", bounced_at: new Date().toISOString() })
+      .eq("id", row.id);
+    // Adresse existiert nicht → nicht erneut versuchen
+    await addOptOut(supabaseAdmin, row.user_id, row.to_email, "bounce");
+  } else {
+    // Spam-Beschwerde gilt als Widerspruch
+    await addOptOut(supabaseAdmin, row.user_id, row.to_email, "unsubscribe", "Spam-Beschwerde");
+  }
+
+  console.log(`📭 ${event.type} für Mail ${row.id}`);
+  return jsonResponse({ success: true });
+}
+
+// ============================================
+// Abmelde-Link
+// ============================================
+// GET (Klick auf den Link) und POST (One-Click nach RFC 8058) tragen den
+// Kontakt direkt ein. Antwort als Klartext, weil Supabase HTML-Antworten
+// von Edge Functions nicht rendert.
+
+async function handleUnsubscribe(supabaseAdmin: SupabaseClient, req: Request): Promise<Response> {
+  const params = new URL(req.url).searchParams;
+  const userId = params.get("u") ?? "";
+  const email = params.get("e") ?? "";
+  const token = params.get("t") ?? "";
+
+  const textHeaders = { ...corsHeaders, "Content-Type": "text/plain; charset=utf-8" };
+
+  if (!isUuid(userId) || !isEmailAddress(email) || !(await verifyUnsubscribeToken(userId, email, token))) {
+    return new Response(
+      "Ungültiger oder abgelaufener Abmelde-Link.\nInvalid or expired unsubscribe link.",
+      { status: 400, headers: textHeaders }
+    );
+  }
+
+  if (!(await addOptOut(supabaseAdmin, userId, email, "unsubscribe"))) {
+    return new Response(
+      "Abmeldung fehlgeschlagen, bitte später erneut versuchen.\nUnsubscribe failed, please try again later.",
+      { status: 500, headers: textHeaders }
+    );
+  }
+
+  // Bereits geplante Mails an den Kontakt stornieren
+  await supabaseAdmin
+    .from("email_outbox")
+    .update({ status: "cancelled", last_error: "Kontakt hat sich abgemeldet" })
+    .eq("user_id", userId)
+    // Groß-/Kleinschreibung egal, Platzhalter in der Adresse escapen
+    .ilike("to_email", email.replace(/[\\%_]/g, "\\$&"))
+    .eq("status", "queued");
+
+  return new Response(
+    `${email} wurde abgemeldet und erhält keine weiteren E-Mails.\n`
+      + `${email} has been unsubscribed and will not receive further emails.`,
+    { status: 200, headers: textHeaders }
+  );
+}
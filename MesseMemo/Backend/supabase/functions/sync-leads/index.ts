@@ -0,0 +1,413 @@
+// ============================================
+// MesseMemo Lead Sync Edge Function
+// Version: 1.0 (Delta-Sync mit Last-Writer-Wins)
+// ============================================
+//
+// Ein Request = Push + Pull:
+//   1. `changes` (lokale Änderungen inkl. Tombstones) werden per
+//      sync_upsert_leads übernommen – neuerer updated_at gewinnt; Felder,
+//      die das Gerät weglässt, bleiben unverändert
+//   2. alle Server-Änderungen seit `cursor` werden zurückgegeben
+//
+// Der Cursor ist "<sync_xid>:<sync_seq>" der zuletzt gelieferten Zeile
+// (siehe migrations/006_leads_sync.sql): unabhängig von Geräteuhren und
+// sicher gegen Transaktionen, die in anderer Reihenfolge committen.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { authenticate, isUuid } from "../_shared/supabase.ts";
+
+const MAX_CHANGES = 200;
+const DEFAULT_PULL_LIMIT = 200;
+const MAX_PULL_LIMIT = 500;
+
+const TEXT_FIELDS = ["name", "company", "email", "phone", "notes"] as const;
+const NULLABLE_TEXT_FIELDS = ["transcript", "generated_email", "original_image_filename", "audio_url"] as const;
+
+/** Nur serverseitig geschrieben (transcribe-memo, qualify-lead), werden nur ausgeliefert */
+const SERVER_FIELDS = [
+  "transcript_language", "transcript_segments", "transcribed_at",
+  "qualification", "lead_score", "follow_up_date", "qualified_at", "follow_up_sent_at",
+  "email_status", "email_status_at", "enrichment", "enriched_at", "forgotten_at", "user_id", "organization_id",
+] as const;
+
+/** Spalten, die an Geräte ausgeliefert werden */
+const LEAD_COLUMNS = [
+  "id", ...TEXT_FIELDS, ...NULLABLE_TEXT_FIELDS, ...SERVER_FIELDS,
+  "audio_duration_seconds", "event_id", "created_at", "updated_at", "deleted_at", "sync_xid", "sync_seq",
+].join(", ");
+
+/** Felder fehlen, wenn der Client sie nicht schickt – der Server-Wert bleibt dann */
+interface LeadChange {
+  id: string;
+  name?: string;
+  company?: string;
+  email?: string;
+  phone?: string;
+  notes?: string;
+  transcript?: string | null;
+  generated_email?: string | null;
+  original_image_filename?: string | null;
+  audio_url?: string | null;
+  audio_duration_seconds?: number | null;
+  event_id?: string | null;
+  created_at?: string | null;
+  updated_at: string;
+  deleted_at?: string | null;
+}
+
+interface SyncCursor {
+  /** Transaktions-ID (xid8) als Text */
+  xid: string;
+  seq: number;
+}
+
+interface LeadRow extends Required<Omit<LeadChange, "created_at">> {
+  created_at: string;
+  sync_xid: string;
+  sync_seq: number;
+  transcript_language: string | null;
+  transcript_segments: unknown[] | null;
+  transcribed_at: string | null;
+  qualification: Record<string, unknown> | null;
+  lead_score: number | null;
+  follow_up_date: string | null;
+  qualified_at: string | null;
+  follow_up_sent_at: string | null;
+  email_status: string | null;
+  email_status_at: string | null;
+  enrichment: Record<string, unknown> | null;
+  enriched_at: string | null;
+  forgotten_at: string | null;
+  user_id: string;
+  organization_id: string | null;
+}
+
+interface UpsertResult {
+  lead_id: string;
+  status: "applied" | "unchanged" | "conflict" | "forbidden";
+  server_updated_at: string | null;
+}
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse(405, "Methode nicht erlaubt");
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (auth instanceof Response) {
+      return auth;
+    }
+    const { user, supabaseClient, supabaseAdmin } = auth;
+
+    // ========================================
+    // 1. Request Body parsen
+    // ========================================
+
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (parseError) {
+      console.error("JSON Parse Error:", parseError);
+      return errorResponse(400, "Ungültiger Request-Body");
+    }
+    if (!requestBody || typeof requestBody !== "object" || Array.isArray(requestBody)) {
+      return errorResponse(400, "Ungültiger Request-Body");
+    }
+
+    const cursor = parseCursor(requestBody.cursor);
+    if (cursor === null) {
+      return errorResponse(400, "Ungültiger Cursor");
+    }
+
+    const limit = requestBody.limit ?? DEFAULT_PULL_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PULL_LIMIT) {
+      return errorResponse(400, `'limit' muss eine Zahl von 1 bis ${MAX_PULL_LIMIT} sein`);
+    }
+
+    const rawChanges = requestBody.changes ?? [];
+    if (!Array.isArray(rawChanges)) {
+      return errorResponse(400, "'changes' muss ein Array sein");
+    }
+    if (rawChanges.length > MAX_CHANGES) {
+      return errorResponse(400, `Maximal ${MAX_CHANGES} Änderungen pro Request`);
+    }
+
+    const changes: LeadChange[] = [];
+    const rejected: { id: unknown; error: string }[] = [];
+    const seenIds = new Set<string>();
+    for (const raw of rawChanges) {
+      const result = parseLeadChange(raw);
+      if ("error" in result) {
+        rejected.push({ id: (raw as Record<string, unknown>)?.id ?? null, error: result.error });
+      } else if (seenIds.has(result.lead.id)) {
+        rejected.push({ id: result.lead.id, error: "Doppelte ID im Request" });
+      } else {
+        seenIds.add(result.lead.id);
+        changes.push(result.lead);
+      }
+    }
+
+    // ========================================
+    // 2. Push: lokale Änderungen übernehmen
+    // ========================================
+
+    let upsertResults: UpsertResult[] = [];
+    if (changes.length > 0) {
+      const { data, error } = await supabaseAdmin.rpc("sync_upsert_leads", {
+        p_user_id: user.id,
+        p_leads: changes,
+      });
+
+      if (error) {
+        console.error("Sync Upsert RPC Error:", JSON.stringify(error));
+        return errorResponse(500, "Änderungen konnten nicht gespeichert werden");
+      }
+      upsertResults = data ?? [];
+    }
+
+    // ========================================
+    // 3. Konflikt-Report (Server-Version gewinnt)
+    // ========================================
+
+    const conflictIds = upsertResults.filter((r) => r.status === "conflict").map((r) => r.lead_id);
+    const serverVersions = await loadLeads(supabaseClient, conflictIds);
+    const clientVersions = new Map(changes.map((lead) => [lead.id, lead]));
+
+    const conflicts = conflictIds.map((id) => ({
+      id,
+      resolution: "server_wins",
+      client_updated_at: clientVersions.get(id)?.updated_at ?? null,
+      server_updated_at: serverVersions.get(id)?.updated_at ?? null,
+      changed_fields: diffFields(clientVersions.get(id), serverVersions.get(id)),
+      server: serverVersions.get(id) ?? null,
+    }));
+
+    // ========================================
+    // 4. Pull: Änderungen seit Cursor
+    // ========================================
+    // Eben übernommene Leads nicht zurückschicken – das Gerät hat sie schon.
+    // Mit User-Client, damit RLS gilt.
+
+    const { data: rows, error: pullError } = await supabaseClient
+      .rpc("sync_pull_leads", {
+        p_after_xid: cursor.xid,
+        p_after_seq: cursor.seq,
+        p_limit: limit + 1,
+      })
+      .select(LEAD_COLUMNS);
+
+    if (pullError) {
+      console.error("Sync Pull Error:", JSON.stringify(pullError));
+      return errorResponse(500, "Änderungen konnten nicht geladen werden");
+    }
+
+    const page = ((rows ?? []) as unknown as LeadRow[]).slice(0, limit);
+    const hasMore = (rows ?? []).length > limit;
+    const applied = new Set(upsertResults.filter((r) => r.status === "applied").map((r) => r.lead_id));
+    const last = page[page.length - 1];
+    const nextCursor = last ? formatCursor({ xid: String(last.sync_xid), seq: last.sync_seq }) : formatCursor(cursor);
+    const outgoing = page.filter((lead) => !applied.has(lead.id));
+
+    return jsonResponse({
+      success: true,
+      cursor: nextCursor,
+      has_more: hasMore,
+      leads: outgoing.filter((lead) => !lead.deleted_at).map(stripSyncSeq),
+      deleted: outgoing
+        .filter((lead) => lead.deleted_at)
+        .map((lead) => ({ id: lead.id, deleted_at: lead.deleted_at })),
+      results: [
+        ...upsertResults.map((r) => ({ id: r.lead_id, status: r.status })),
+        ...rejected.map((r) => ({ id: r.id, status: "invalid", error: r.error })),
+      ],
+      conflicts,
+    });
+
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
+
+// ============================================
+// Helper Functions
+// ============================================
+
+const START_CURSOR: SyncCursor = { xid: "0", seq: 0 };
+
+/**
+ * Cursor "<xid>:<seq>", fehlend = Anfang. Eine einzelne Zahl (Cursor vor
+ * sync_xid) startet ebenfalls von vorn – das Gerät bekommt den Bestand neu.
+ */
+function parseCursor(value: unknown): SyncCursor | null {
+  if (value === undefined || value === null || value === "") {
+    return START_CURSOR;
+  }
+  if (typeof value === "number") {
+    return Number.isSafeInteger(value) && value >= 0 ? START_CURSOR : null;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  if (/^\d{1,19}$/.test(value)) {
+    return START_CURSOR;
+  }
+  const match = value.match(/^(\d{1,20}):(\d{1,19})$/);
+  if (!match) {
+    return null;
+  }
+  const seq = Number(match[2]);
+  return Number.isSafeInteger(seq) ? { xid: match[1], seq } : null;
+}
+
+function formatCursor(cursor: SyncCursor): string {
+  return `${cursor.xid}:${cursor.seq}`;
+}
+
+/**
+ * Prüft einen Lead aus `changes`. Pflicht: id (UUID) und updated_at (ISO-8601).
+ */
+function parseLeadChange(raw: unknown): { lead: LeadChange } | { error: string } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { error: "Lead muss ein Objekt sein" };
+  }
+  const item = raw as Record<string, unknown>;
+
+  if (!isUuid(item.id)) {
+    return { error: "Ungültige ID" };
+  }
+
+  const updatedAt = parseTimestamp(item.updated_at);
+  if (!updatedAt) {
+    return { error: "'updated_at' fehlt oder ist kein ISO-8601 Zeitstempel" };
+  }
+  // Uhren mit großem Vorlauf würden jeden Konflikt gewinnen
+  if (Date.parse(updatedAt) > Date.now() + 5 * 60 * 1000) {
+    return { error: "'updated_at' liegt in der Zukunft" };
+  }
+
+  // Nur mitgeschickte Felder übernehmen: fehlt ein Feld, bleibt der
+  // Server-Wert (sync_upsert_leads prüft, ob der Key existiert)
+  const lead: LeadChange = {
+    id: item.id.toLowerCase(),
+    updated_at: updatedAt,
+  };
+
+  for (const field of TEXT_FIELDS) {
+    const value = item[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (value !== null && typeof value !== "string") {
+      return { error: `'${field}' muss ein Text sein` };
+    }
+    lead[field] = value ?? "";
+  }
+
+  for (const field of NULLABLE_TEXT_FIELDS) {
+    const value = item[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (value !== null && typeof value !== "string") {
+      return { error: `'${field}' muss ein Text oder null sein` };
+    }
+    lead[field] = value;
+  }
+
+  if (item.audio_duration_seconds !== undefined) {
+    if (
+      item.audio_duration_seconds !== null &&
+      (!Number.isInteger(item.audio_duration_seconds) || (item.audio_duration_seconds as number) < 0)
+    ) {
+      return { error: "'audio_duration_seconds' muss eine positive Ganzzahl sein" };
+    }
+    lead.audio_duration_seconds = item.audio_duration_seconds as number | null;
+  }
+
+  if (item.event_id !== undefined) {
+    if (item.event_id !== null && !isUuid(item.event_id)) {
+      return { error: "'event_id' muss eine UUID oder null sein" };
+    }
+    lead.event_id = item.event_id === null ? null : item.event_id.toLowerCase();
+  }
+
+  for (const field of ["created_at", "deleted_at"] as const) {
+    if (item[field] === undefined) {
+      continue;
+    }
+    if (item[field] === null) {
+      lead[field] = null;
+      continue;
+    }
+    const timestamp = parseTimestamp(item[field]);
+    if (!timestamp) {
+      return { error: `'${field}' ist kein ISO-8601 Zeitstempel` };
+    }
+    lead[field] = timestamp;
+  }
+
+  return { lead };
+}
+
+function parseTimestamp(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+async function loadLeads(supabase: SupabaseClient, ids: string[]): Promise<Map<string, LeadRow>> {
+  if (ids.length === 0) {
+    return new Map();
+  }
+
+  const { data, error } = await supabase.from("leads").select(LEAD_COLUMNS).in("id", ids);
+  if (error) {
+    console.error("Conflict Load Error:", JSON.stringify(error));
+    return new Map();
+  }
+
+  const rows = (data ?? []) as unknown as LeadRow[];
+  return new Map(rows.map((row) => [row.id, stripSyncSeq(row)]));
+}
+
+/**
+ * Mitgeschickte Felder, in denen sich Geräte- und Server-Version unterscheiden
+ */
+function diffFields(client?: LeadChange, server?: LeadRow): string[] {
+  if (!client || !server) {
+    return [];
+  }
+  const fields = [...TEXT_FIELDS, ...NULLABLE_TEXT_FIELDS, "audio_duration_seconds", "deleted_at"] as const;
+  return fields.filter((field) => {
+    if (!(field in client)) {
+      return false;
+    }
+    const clientValue = client[field] ?? null;
+    const serverValue = server[field] ?? null;
+    if (field === "deleted_at") {
+      return (clientValue === null) !== (serverValue === null);
+    }
+    return clientValue !== serverValue;
+  });
+}
+
+function stripSyncSeq<T extends { sync_xid?: string; sync_seq?: number }>(row: T): T {
+  const { sync_xid: _syncXid, sync_seq: _syncSeq, ...lead } = row;
+  return lead as T;
+}
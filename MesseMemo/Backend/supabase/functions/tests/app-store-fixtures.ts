@@ -0,0 +1,138 @@
+// ============================================
+// Lokale Apple-Zertifikatskette für Tests
+// ============================================
+// Root → Intermediate → Leaf (ES256) mit denselben Marker-OIDs wie bei
+// Apple, damit _shared/app-store.ts ohne echte Apple-Zertifikate prüfbar ist.
+
+import * as x509 from "https://esm.sh/@peculiar/x509@1";
+import { AppStoreConfig, DEFAULT_PRODUCTS } from "../_shared/app-store.ts";
+
+const LEAF_OID = "1.2.840.113635.100.6.11.1";
+const INTERMEDIATE_OID = "1.2.840.113635.100.6.2.1";
+/** DER-kodiertes ASN.1 NULL – Apple setzt die Marker-Extensions so */
+const ASN1_NULL = new Uint8Array([0x05, 0x00]);
+
+const ALGORITHM = { name: "ECDSA", namedCurve: "P-256", hash: "SHA-256" };
+const DAY = 24 * 60 * 60 * 1000;
+
+export const BUNDLE_ID = "Jarno.MesseMemo";
+
+export interface SigningChain {
+  root: x509.X509Certificate;
+  intermediate: x509.X509Certificate;
+  leaf: x509.X509Certificate;
+  leafKey: CryptoKey;
+}
+
+interface ChainOptions {
+  /** Gültigkeit des Leaf-Zertifikats */
+  leafNotBefore?: Date;
+  leafNotAfter?: Date;
+  /** Kurve des Leaf-Schlüssels (Apple: P-256) */
+  leafCurve?: string;
+}
+
+export async function createChain(options: ChainOptions = {}): Promise<SigningChain> {
+  const now = Date.now();
+  const rootKeys = await generateKeys();
+  const intermediateKeys = await generateKeys();
+  const leafKeys = await generateKeys(options.leafCurve);
+
+  const root = await x509.X509CertificateGenerator.createSelfSigned({
+    serialNumber: "01",
+    name: "CN=Test Root CA",
+    notBefore: new Date(now - 365 * DAY),
+    notAfter: new Date(now + 365 * DAY),
+    signingAlgorithm: ALGORITHM,
+    keys: rootKeys,
+    extensions: [new x509.BasicConstraintsExtension(true, undefined, true)],
+  });
+
+  const intermediate = await x509.X509CertificateGenerator.create({
+    serialNumber: "02",
+    subject: "CN=Test WWDR",
+    issuer: root.subject,
+    notBefore: new Date(now - 365 * DAY),
+    notAfter: new Date(now + 365 * DAY),
+    signingAlgorithm: ALGORITHM,
+    publicKey: intermediateKeys.publicKey,
+    signingKey: rootKeys.privateKey,
+    extensions: [
+      new x509.BasicConstraintsExtension(true, 0, true),
+      new x509.Extension(INTERMEDIATE_OID, false, ASN1_NULL),
+    ],
+  });
+
+  const leaf = await x509.X509CertificateGenerator.create({
+    serialNumber: "03",
+    subject: "CN=Test App Store Receipt Signing",
+    issuer: intermediate.subject,
+    notBefore: options.leafNotBefore ?? new Date(now - 30 * DAY),
+    notAfter: options.leafNotAfter ?? new Date(now + 30 * DAY),
+    signingAlgorithm: ALGORITHM,
+    publicKey: leafKeys.publicKey,
+    signingKey: intermediateKeys.privateKey,
+    extensions: [new x509.Extension(LEAF_OID, false, ASN1_NULL)],
+  });
+
+  return { root, intermediate, leaf, leafKey: leafKeys.privateKey };
+}
+
+export function configFor(chain: SigningChain, overrides: Partial<AppStoreConfig> = {}): AppStoreConfig {
+  return {
+    bundleId: BUNDLE_ID,
+    rootCertificates: [new Uint8Array(chain.root.rawData)],
+    allowSandbox: true,
+    products: DEFAULT_PRODUCTS,
+    ...overrides,
+  };
+}
+
+/** Signiert den Payload als Apple-JWS (ES256, x5c = Leaf, Intermediate, Root) */
+export async function signJws(chain: SigningChain, payload: unknown): Promise<string> {
+  const header = {
+    alg: "ES256",
+    x5c: [chain.leaf, chain.intermediate, chain.root].map((cert) => bytesToBase64(new Uint8Array(cert.rawData))),
+  };
+  const signingInput = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(payload))}`;
+  const signature = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    chain.leafKey,
+    new TextEncoder().encode(signingInput)
+  );
+  return `${signingInput}.${toBase64Url(bytesToBase64(new Uint8Array(signature)))}`;
+}
+
+export function transactionPayload(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const now = Date.now();
+  return {
+    transactionId: "2000000000000001",
+    originalTransactionId: "2000000000000001",
+    bundleId: BUNDLE_ID,
+    productId: "com.messememo.credits.10",
+    purchaseDate: now - 60_000,
+    appAccountToken: "11111111-1111-4111-8111-111111111111",
+    environment: "Sandbox",
+    type: "Consumable",
+    signedDate: now,
+    ...overrides,
+  };
+}
+
+async function generateKeys(namedCurve = "P-256"): Promise<CryptoKeyPair> {
+  return await crypto.subtle.generateKey({ ...ALGORITHM, namedCurve }, true, ["sign", "verify"]) as CryptoKeyPair;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function base64Url(value: string): string {
+  return toBase64Url(bytesToBase64(new TextEncoder().encode(value)));
+}
+
+function toBase64Url(base64: string): string {
+  return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
@@ -0,0 +1,260 @@
+// Tests für _shared/app-store.ts: JWS-Prüfung gegen eine lokale
+// Zertifikatskette und Buchung von Käufen bzw. Server Notifications.
+
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  AppStoreVerificationError,
+  applyTransaction,
+  processNotification,
+  verifyJws,
+  verifyNotification,
+  verifySignedTransaction,
+} from "../_shared/app-store.ts";
+import { BUNDLE_ID, configFor, createChain, signJws, transactionPayload } from "./app-store-fixtures.ts";
+import { FakeSupabase } from "./fake-supabase.ts";
+
+const DAY = 24 * 60 * 60 * 1000;
+const USER_ID = "11111111-1111-4111-8111-111111111111";
+
+const chain = await createChain();
+const config = configFor(chain);
+
+// ============================================
+// Verifikation
+// ============================================
+
+Deno.test("verifySignedTransaction akzeptiert eine gültige Kette", async () => {
+  const jws = await signJws(chain, transactionPayload());
+  const transaction = await verifySignedTransaction(jws, config);
+
+  assertEquals(transaction.transactionId, "2000000000000001");
+  assertEquals(transaction.bundleId, BUNDLE_ID);
+  assertEquals(transaction.appAccountToken, USER_ID);
+});
+
+Deno.test("verifySignedTransaction lehnt eine fremde Root ab", async () => {
+  const otherChain = await createChain();
+  const jws = await signJws(otherChain, transactionPayload());
+
+  await assertRejects(
+    () => verifySignedTransaction(jws, config),
+    AppStoreVerificationError,
+    "Root-Zertifikat nicht vertrauenswürdig"
+  );
+});
+
+Deno.test("verifySignedTransaction lehnt eine fremde Bundle-ID ab", async () => {
+  const jws = await signJws(chain, transactionPayload({ bundleId: "com.example.other" }));
+
+  await assertRejects(
+    () => verifySignedTransaction(jws, config),
+    AppStoreVerificationError,
+    "Transaktion gehört zu einer anderen App"
+  );
+});
+
+Deno.test("verifySignedTransaction lehnt ein zum Signaturzeitpunkt abgelaufenes Leaf ab", async () => {
+  const now = Date.now();
+  const expiredChain = await createChain({
+    leafNotBefore: new Date(now - 60 * DAY),
+    leafNotAfter: new Date(now - 30 * DAY),
+  });
+  const jws = await signJws(expiredChain, transactionPayload());
+
+  await assertRejects(
+    () => verifySignedTransaction(jws, configFor(expiredChain)),
+    AppStoreVerificationError,
+    "Zertifikatskette ungültig"
+  );
+});
+
+Deno.test("verifySignedTransaction akzeptiert alte Transaktionen, solange das Leaf beim Signieren gültig war", async () => {
+  const now = Date.now();
+  const oldChain = await createChain({
+    leafNotBefore: new Date(now - 60 * DAY),
+    leafNotAfter: new Date(now - 30 * DAY),
+  });
+  const jws = await signJws(oldChain, transactionPayload({ signedDate: now - 45 * DAY }));
+
+  const transaction = await verifySignedTransaction(jws, configFor(oldChain));
+  assertEquals(transaction.transactionId, "2000000000000001");
+});
+
+Deno.test("verifySignedTransaction lehnt einen manipulierten Payload ab", async () => {
+  const jws = await signJws(chain, transactionPayload());
+  const [header, , signature] = jws.split(".");
+  const forged = btoa(JSON.stringify(transactionPayload({ productId: "com.messememo.credits.200" })))
+    .replace(/=+$/, "");
+
+  await assertRejects(
+    () => verifySignedTransaction(`${header}.${forged}.${signature}`, config),
+    AppStoreVerificationError,
+    "Ungültige Signatur"
+  );
+});
+
+Deno.test("verifyJws wirft bei kaputter Eingabe nur AppStoreVerificationError", async () => {
+  const jws = await signJws(chain, transactionPayload());
+  const [header, payload, signature] = jws.split(".");
+  const encode = (value: unknown) => btoa(JSON.stringify(value)).replace(/=+$/, "");
+
+  const malformed = [
+    "kein-jws",
+    `${header}.${payload}`,
+    `%%%.${payload}.${signature}`,
+    `${header}.${payload}.%%%`,
+    `${encode({ alg: "ES256", x5c: [1, 2, 3] })}.${payload}.${signature}`,
+    `${encode({ alg: "ES256", x5c: ["%%%", "%%%", "%%%"] })}.${payload}.${signature}`,
+    `${encode({ alg: "ES256", x5c: ["AAAA", "AAAA", "AAAA"] })}.${payload}.${signature}`,
+    `${encode({ alg: "HS256", x5c: [] })}.${payload}.${signature}`,
+  ];
+
+  for (const input of malformed) {
+    await assertRejects(() => verifyJws(input, config.rootCertificates), AppStoreVerificationError);
+  }
+});
+
+Deno.test("verifyJws lehnt Leaf-Schlüssel außerhalb von P-256 als Verifikationsfehler ab", async () => {
+  const p384Chain = await createChain({ leafCurve: "P-384" });
+  const jws = await signJws(p384Chain, transactionPayload());
+
+  await assertRejects(
+    () => verifySignedTransaction(jws, configFor(p384Chain)),
+    AppStoreVerificationError,
+    "Signatur nicht prüfbar"
+  );
+});
+
+Deno.test("verifyNotification lehnt Sandbox ab, wenn nicht erlaubt", async () => {
+  const jws = await signJws(chain, notificationPayload("SUBSCRIBED", null));
+
+  await assertRejects(
+    () => verifyNotification(jws, configFor(chain, { allowSandbox: false })),
+    AppStoreVerificationError,
+    "Umgebung nicht erlaubt: Sandbox"
+  );
+});
+
+// ============================================
+// Buchung
+// ============================================
+
+Deno.test("applyTransaction übergibt die Transaktion an die RPC", async () => {
+  const db = new FakeSupabase().onRpc("apply_app_store_transaction", () => [
+    { status: "granted", credits_remaining: 13, is_premium: false, premium_expires_at: null },
+  ]);
+  const transaction = await verifySignedTransaction(await signJws(chain, transactionPayload()), config);
+
+  const result = await applyTransaction(db.client, USER_ID, transaction, config, "verify-purchase");
+
+  assertEquals(result.status, "granted");
+  const [args] = db.rpcCallsFor("apply_app_store_transaction");
+  assertEquals(args.p_user_id, USER_ID);
+  assertEquals(args.p_transaction_id, "2000000000000001");
+  assertEquals(args.p_product_kind, "credits");
+  assertEquals(args.p_credits, 10);
+  assertEquals(args.p_function_name, "verify-purchase");
+});
+
+Deno.test("processNotification bucht eine Notification nur einmal", async () => {
+  const db = new FakeSupabase().onRpc("apply_app_store_transaction", () => [
+    { status: "granted", credits_remaining: 10, is_premium: false, premium_expires_at: null },
+  ]);
+  const { notification, transaction } = await verifiedNotification("ONE_TIME_CHARGE");
+
+  const first = await processNotification(db.client, config, notification, transaction, "verify-purchase");
+  const replay = await processNotification(db.client, config, notification, transaction, "verify-purchase");
+
+  assertEquals(first, { duplicate: false, outcome: "granted" });
+  assertEquals(replay, { duplicate: true, outcome: "duplicate" });
+  assertEquals(db.rpcCallsFor("apply_app_store_transaction").length, 1);
+  assertEquals(db.table("app_store_notifications").length, 1);
+});
+
+Deno.test("processNotification meldet bereits verbuchte Transaktionen als duplicate", async () => {
+  const db = new FakeSupabase().onRpc("apply_app_store_transaction", () => [
+    { status: "duplicate", credits_remaining: 10, is_premium: false, premium_expires_at: null },
+  ]);
+  const { notification, transaction } = await verifiedNotification("ONE_TIME_CHARGE");
+
+  const result = await processNotification(db.client, config, notification, transaction, "verify-purchase");
+
+  assertEquals(result, { duplicate: false, outcome: "duplicate" });
+});
+
+Deno.test("processNotification widerruft erstattete Transaktionen", async () => {
+  const revokedAt = Date.now() - 1000;
+  const db = new FakeSupabase().onRpc("revoke_app_store_transaction", () => [{ status: "revoked" }]);
+  const { notification, transaction } = await verifiedNotification("REFUND", {
+    revocationDate: revokedAt,
+    revocationReason: 1,
+  });
+
+  const result = await processNotification(db.client, config, notification, transaction, "verify-purchase");
+
+  assertEquals(result, { duplicate: false, outcome: "revoked" });
+  assertEquals(db.rpcCallsFor("revoke_app_store_transaction"), [{
+    p_transaction_id: "2000000000000001",
+    p_revocation_date: new Date(revokedAt).toISOString(),
+    p_revocation_reason: 1,
+  }]);
+  assertEquals(db.rpcCallsFor("apply_app_store_transaction").length, 0);
+});
+
+Deno.test("processNotification beendet abgelaufene Abos", async () => {
+  const db = new FakeSupabase().onRpc("expire_app_store_subscription", () => null);
+  const { notification, transaction } = await verifiedNotification("EXPIRED", {
+    transactionId: "2000000000000005",
+    originalTransactionId: "2000000000000002",
+    productId: "com.messememo.pro.monthly",
+    type: "Auto-Renewable Subscription",
+    expiresDate: Date.now() - 1000,
+  });
+
+  const result = await processNotification(db.client, config, notification, transaction, "verify-purchase");
+
+  assertEquals(result, { duplicate: false, outcome: "expired" });
+  assertEquals(db.rpcCallsFor("expire_app_store_subscription"), [{
+    p_original_transaction_id: "2000000000000002",
+  }]);
+});
+
+Deno.test("processNotification meldet RPC-Fehler, damit Apple wiederholt", async () => {
+  const db = new FakeSupabase().failNext("revoke_app_store_transaction");
+  const { notification, transaction } = await verifiedNotification("REFUND", { revocationDate: Date.now() });
+
+  const result = await processNotification(db.client, config, notification, transaction, "verify-purchase");
+
+  assertEquals(result, { error: "Erstattung konnte nicht verbucht werden" });
+  // Nicht als verarbeitet markiert – der nächste Versuch bucht erneut
+  assertEquals(db.table("app_store_notifications").length, 0);
+});
+
+// ============================================
+// Helper
+// ============================================
+
+function notificationPayload(type: string, signedTransactionInfo: string | null) {
+  return {
+    notificationType: type,
+    notificationUUID: crypto.randomUUID(),
+    signedDate: Date.now(),
+    data: {
+      bundleId: BUNDLE_ID,
+      environment: "Sandbox",
+      ...(signedTransactionInfo ? { signedTransactionInfo } : {}),
+    },
+  };
+}
+
+async function verifiedNotification(type: string, transactionOverrides: Record<string, unknown> = {}) {
+  const signedTransactionInfo = await signJws(chain, transactionPayload(transactionOverrides));
+  const signedPayload = await signJws(chain, notificationPayload(type, signedTransactionInfo));
+
+  const notification = await verifyNotification(signedPayload, config);
+  const transaction = await verifySignedTransaction(notification.data!.signedTransactionInfo!, config);
+  return { notification, transaction };
+}
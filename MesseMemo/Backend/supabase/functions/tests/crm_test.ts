@@ -0,0 +1,143 @@
+// Tests für die Exportformate aus _shared/crm.ts (vCard 4.0, CSV wie die App)
+
+import {
+  assert,
+  assertEquals,
+  assertStringIncludes,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { LeadSnapshot, toCsv, toVCards } from "../_shared/crm.ts";
+
+function lead(overrides: Partial<LeadSnapshot> = {}): LeadSnapshot {
+  return {
+    id: "44444444-4444-4444-8444-444444444444",
+    name: "Anna Berger",
+    company: "Berger Maschinenbau GmbH",
+    email: "anna.berger@example.com",
+    phone: "+49 (89) 123-4567",
+    notes: "Interesse an Modell X",
+    transcript: null,
+    qualification: null,
+    lead_score: 75,
+    follow_up_date: "2026-11-02",
+    event_id: null,
+    event_name: "Hannover Messe",
+    has_audio: true,
+    created_at: "2026-10-19T22:30:00Z",
+    updated_at: "2026-10-20T09:15:42.123Z",
+    ...overrides,
+  };
+}
+
+/** Gefaltete Zeilen wieder zusammensetzen (RFC 6350, 3.2) */
+const unfold = (vcard: string) => vcard.replace(/\r\n /g, "");
+
+// ============================================
+// vCard
+// ============================================
+
+Deno.test("toVCards schreibt eine vCard 4.0 mit CRLF", () => {
+  const vcard = toVCards([lead()]);
+
+  assertEquals(vcard.split("\r\n"), [
+    "BEGIN:VCARD",
+    "VERSION:4.0",
+    "UID:urn:uuid:44444444-4444-4444-8444-444444444444",
+    "FN:Anna Berger",
+    "N:Berger;Anna;;;",
+    "ORG:Berger Maschinenbau GmbH",
+    "EMAIL;TYPE=work:anna.berger@example.com",
+    "TEL;VALUE=uri;TYPE=work,voice:tel:+49891234567",
+    "NOTE:Interesse an Modell X",
+    "CATEGORIES:MesseMemo,Hannover Messe",
+    "REV:20261020T091542Z",
+    "END:VCARD",
+    "",
+  ]);
+  // Keine einzelnen LF
+  assertEquals(vcard.replace(/\r\n/g, "").includes("\n"), false);
+});
+
+Deno.test("toVCards escapet Sonderzeichen und lässt leere Felder weg", () => {
+  const vcard = unfold(toVCards([lead({
+    name: "Müller",
+    company: "",
+    email: "",
+    phone: "Zentrale, Durchwahl 12",
+    notes: "Preis; Lieferzeit, Service\nRückruf C:\\Angebote",
+    event_name: null,
+    qualification: { summary: "Budget freigegeben" },
+  })]));
+
+  assertStringIncludes(vcard, "\r\nN:Müller;;;;\r\n");
+  assertStringIncludes(vcard, "\r\nTEL;TYPE=work,voice:Zentrale\\, Durchwahl 12\r\n");
+  assertStringIncludes(vcard, "\r\nNOTE:Preis\\; Lieferzeit\\, Service\\nRückruf C:\\\\Angebote\\n\\nBudget freigegeben\r\n");
+  assertStringIncludes(vcard, "\r\nCATEGORIES:MesseMemo\r\n");
+  assertEquals(vcard.includes("ORG:"), false);
+  assertEquals(vcard.includes("EMAIL"), false);
+});
+
+Deno.test("toVCards faltet lange Zeilen bei 75 Oktetten ohne UTF-8-Zeichen zu trennen", () => {
+  const notes = "Gespräch über Förderanlagen für die Großküche ".repeat(6).trim();
+  const vcard = toVCards([lead({ notes })]);
+
+  const encoder = new TextEncoder();
+  for (const line of vcard.split("\r\n")) {
+    assert(encoder.encode(line).length <= 75, `Zeile zu lang: ${line}`);
+  }
+  assert(vcard.includes("\r\n "));
+  assertStringIncludes(unfold(vcard), `\r\nNOTE:${notes}\r\n`);
+  assertEquals(vcard.includes("\uFFFD"), false);
+});
+
+Deno.test("toVCards hängt mehrere Karten aneinander", () => {
+  const vcard = toVCards([lead(), lead({ id: "55555555-5555-4555-8555-555555555555", name: "Jonas" })]);
+
+  assertEquals(vcard.match(/BEGIN:VCARD\r\n/g)?.length, 2);
+  assertEquals(vcard.match(/END:VCARD\r\n/g)?.length, 2);
+  assertStringIncludes(vcard, "END:VCARD\r\nBEGIN:VCARD\r\n");
+  assertStringIncludes(vcard, "\r\nN:Jonas;;;;\r\n");
+});
+
+// ============================================
+// CSV
+// ============================================
+
+Deno.test("toCsv schreibt BOM, Kopfzeile und Semikolon-getrennte Zeilen", () => {
+  const csv = toCsv([lead()], "Europe/Berlin");
+
+  assert(csv.startsWith("\uFEFF"));
+  assertEquals(csv.slice(1).split("\n"), [
+    "Name;Firma;E-Mail;Telefon;Notizen;Hat Audio-Notiz;Erfasst am;Messe;Lead-Score;Follow-up;ID",
+    // 22:30 UTC = 00:30 Uhr am nächsten Tag in Berlin (Sommerzeit)
+    "Anna Berger;Berger Maschinenbau GmbH;anna.berger@example.com;+49 (89) 123-4567;Interesse an Modell X;Ja;" +
+    "20.10.2026 00:30;Hannover Messe;75;02.11.2026;44444444-4444-4444-8444-444444444444",
+    "",
+  ]);
+});
+
+Deno.test("toCsv rechnet Zeitstempel in die Zeitzone des Nutzers um", () => {
+  const row = (timeZone: string) => toCsv([lead()], timeZone).split("\n")[1].split(";")[6];
+
+  assertEquals(row("Europe/Berlin"), "20.10.2026 00:30");
+  assertEquals(row("UTC"), "19.10.2026 22:30");
+  assertEquals(row("America/New_York"), "19.10.2026 18:30");
+});
+
+Deno.test("toCsv quotet Trennzeichen und Anführungszeichen wie die App", () => {
+  const csv = toCsv([lead({
+    name: 'Anna "Anni" Berger',
+    company: "Berger, Söhne & Co.",
+    notes: "Preis; Lieferzeit\nRückruf\r\nMontag",
+    event_name: null,
+    lead_score: null,
+    follow_up_date: null,
+    has_audio: false,
+  })], "Europe/Berlin");
+
+  const [, row] = csv.split("\n");
+  assertEquals(
+    row,
+    '"Anna ""Anni"" Berger";"Berger, Söhne & Co.";anna.berger@example.com;+49 (89) 123-4567;' +
+      '"Preis; Lieferzeit Rückruf  Montag";Nein;20.10.2026 00:30;;;;44444444-4444-4444-8444-444444444444'
+  );
+});
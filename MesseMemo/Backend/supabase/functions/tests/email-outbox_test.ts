@@ -0,0 +1,230 @@
+// Tests für _shared/email-outbox.ts: Versand der Outbox über einen lokalen
+// SMTP-Catch-All – Einreihen, Senden, Wiederholen mit Backoff, endgültig
+// fehlgeschlagene Mails.
+
+import {
+  assert,
+  assertEquals,
+  assertStringIncludes,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { MAX_ATTEMPTS, processOutbox, RETRY_DELAYS_MINUTES } from "../_shared/email-outbox.ts";
+import { FakeSupabase, Row } from "./fake-supabase.ts";
+import { startSmtpCatchAll } from "./smtp-catch-all.ts";
+
+const USER_ID = "22222222-2222-4222-8222-222222222222";
+const MINUTE = 60 * 1000;
+
+const smtp = startSmtpCatchAll();
+Deno.env.set("MAIL_PROVIDER", "smtp");
+Deno.env.set("MAIL_FROM", "MesseMemo <noreply@messememo.test>");
+Deno.env.set("SMTP_HOST", smtp.host);
+Deno.env.set("SMTP_PORT", String(smtp.port));
+Deno.env.set("SMTP_SECURITY", "none");
+Deno.env.set("SUPABASE_URL", "https://project.supabase.co");
+Deno.env.set("EMAIL_UNSUBSCRIBE_SECRET", "test-secret");
+
+// ============================================
+// Fake-Datenbank
+// ============================================
+
+/** Wie claim_email_outbox (migrations/015_email_outbox.sql) */
+function claimEmailOutbox(args: Record<string, unknown>, db: FakeSupabase): Row[] {
+  const now = Date.now();
+  return db.table("email_outbox")
+    .filter((row) => args.p_id == null || row.id === args.p_id)
+    .filter((row) =>
+      row.status === "queued" &&
+      Date.parse(row.scheduled_at as string) <= now &&
+      Date.parse(row.next_attempt_at as string) <= now
+    )
+    .sort((a, b) => Date.parse(a.next_attempt_at as string) - Date.parse(b.next_attempt_at as string))
+    .slice(0, Math.max(1, Math.min(Number(args.p_limit ?? 50), 500)))
+    .map((row) => {
+      row.status = "sending";
+      row.attempts = (row.attempts as number) + 1;
+      return { ...row };
+    });
+}
+
+function outboxDb(rows: Row[], optOuts: Row[] = []): FakeSupabase {
+  return new FakeSupabase({ email_outbox: rows, email_opt_outs: optOuts })
+    .onRpc("claim_email_outbox", claimEmailOutbox);
+}
+
+/** Eine Zeile wie sie queueEmail in send-email schreibt */
+function queuedEmail(overrides: Row = {}): Row {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    user_id: USER_ID,
+    lead_id: crypto.randomUUID(),
+    to_email: "kunde@example.com",
+    reply_to: "aussteller@example.com",
+    subject: "Unser Gespraech auf der Messe",
+    body_text: "Hallo Frau Berger,\n\nvielen Dank fuer das Gespraech.\n.\nViele Gruesse",
+    body_html: null,
+    status: "queued",
+    scheduled_at: now,
+    next_attempt_at: now,
+    attempts: 0,
+    last_error: null,
+    ...overrides,
+  };
+}
+
+/** Backoff überspringen, als wäre die Wartezeit vorbei */
+function makeDue(db: FakeSupabase, id: unknown): void {
+  const row = db.table("email_outbox").find((r) => r.id === id)!;
+  row.next_attempt_at = new Date(Date.now() - 1000).toISOString();
+}
+
+function reset(): void {
+  smtp.mails.length = 0;
+  smtp.rejectRecipient = () => null;
+}
+
+// ============================================
+// Tests
+// ============================================
+
+Deno.test("Outbox verschickt fällige Mails über SMTP", async () => {
+  reset();
+  const email = queuedEmail();
+  const db = outboxDb([email]);
+
+  const run = await processOutbox(db.client, 50);
+
+  assertEquals(run?.processed, 1);
+  assertEquals(run?.counts.sent, 1);
+  assertEquals(smtp.mails.length, 1);
+
+  const [mail] = smtp.mails;
+  assertEquals(mail.from, "noreply@messememo.test");
+  assertEquals(mail.to, ["kunde@example.com"]);
+  assertStringIncludes(mail.data, "Subject: Unser Gespraech auf der Messe");
+  assertStringIncludes(mail.data, "aussteller@example.com");
+  assertStringIncludes(mail.data, "List-Unsubscribe: <https://project.supabase.co/functions/v1/send-email/unsubscribe?");
+  assertStringIncludes(mail.data, "vielen Dank fuer das Gespraech.");
+
+  const [row] = db.table("email_outbox");
+  assertEquals(row.status, "sent");
+  assertEquals(row.attempts, 1);
+  assertEquals(row.provider, "smtp");
+  assertEquals(row.last_error, null);
+  assert(row.sent_at);
+});
+
+Deno.test("Outbox verschickt geplante Mails erst zum geplanten Zeitpunkt", async () => {
+  reset();
+  const scheduled = queuedEmail({ scheduled_at: new Date(Date.now() + 60 * MINUTE).toISOString() });
+  const db = outboxDb([scheduled]);
+
+  assertEquals((await processOutbox(db.client, 50))?.processed, 0);
+  assertEquals(smtp.mails.length, 0);
+  assertEquals(db.table("email_outbox")[0].status, "queued");
+
+  db.table("email_outbox")[0].scheduled_at = new Date(Date.now() - 1000).toISOString();
+  assertEquals((await processOutbox(db.client, 50))?.counts.sent, 1);
+  assertEquals(smtp.mails.length, 1);
+});
+
+Deno.test("Outbox wiederholt vorübergehende Fehler mit Backoff", async () => {
+  reset();
+  const email = queuedEmail();
+  const db = outboxDb([email]);
+  smtp.rejectRecipient = () => "451 4.3.0 Mailbox temporarily unavailable";
+
+  const before = Date.now();
+  const first = await processOutbox(db.client, 50);
+
+  assertEquals(first?.counts.queued, 1);
+  const row = db.table("email_outbox")[0];
+  assertEquals(row.status, "queued");
+  assertEquals(row.attempts, 1);
+  assertStringIncludes(row.last_error as string, "451");
+  const delay = Date.parse(row.next_attempt_at as string) - before;
+  assert(delay >= RETRY_DELAYS_MINUTES[0] * MINUTE && delay < RETRY_DELAYS_MINUTES[0] * MINUTE + 5000);
+
+  // Vor Ablauf des Backoffs passiert nichts
+  assertEquals((await processOutbox(db.client, 50))?.processed, 0);
+
+  // Server nimmt wieder an → zweiter Versuch geht raus
+  smtp.rejectRecipient = () => null;
+  makeDue(db, email.id);
+  const second = await processOutbox(db.client, 50);
+
+  assertEquals(second?.counts.sent, 1);
+  assertEquals(row.status, "sent");
+  assertEquals(row.attempts, 2);
+  assertEquals(smtp.mails.length, 1);
+});
+
+Deno.test("Outbox gibt nach MAX_ATTEMPTS Versuchen auf", async () => {
+  reset();
+  const email = queuedEmail();
+  const db = outboxDb([email]);
+  smtp.rejectRecipient = () => "421 4.7.0 Try again later";
+
+  const delays: number[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const before = Date.now();
+    await processOutbox(db.client, 50);
+    const row = db.table("email_outbox")[0];
+    assertEquals(row.attempts, attempt);
+    if (row.status === "queued") {
+      delays.push(Math.round((Date.parse(row.next_attempt_at as string) - before) / MINUTE));
+      makeDue(db, email.id);
+    }
+  }
+
+  const row = db.table("email_outbox")[0];
+  assertEquals(row.status, "failed");
+  assertStringIncludes(row.last_error as string, "421");
+  assertEquals(delays, RETRY_DELAYS_MINUTES);
+  assertEquals(smtp.mails.length, 0);
+
+  // Endgültig fehlgeschlagen – wird nicht mehr reserviert
+  makeDue(db, email.id);
+  assertEquals((await processOutbox(db.client, 50))?.processed, 0);
+});
+
+Deno.test("Outbox wiederholt endgültige Ablehnungen nicht", async () => {
+  reset();
+  const db = outboxDb([queuedEmail({ to_email: "unbekannt@example.com" })]);
+  smtp.rejectRecipient = (address) => address === "unbekannt@example.com" ? "550 5.1.1 User unknown" : null;
+
+  const run = await processOutbox(db.client, 50);
+
+  assertEquals(run?.counts.failed, 1);
+  const row = db.table("email_outbox")[0];
+  assertEquals(row.status, "failed");
+  assertEquals(row.attempts, 1);
+  assertStringIncludes(row.last_error as string, "550");
+});
+
+Deno.test("Outbox storniert Mails an Kontakte mit Widerspruch", async () => {
+  reset();
+  const db = outboxDb(
+    [queuedEmail({ to_email: "Kunde@Example.com" })],
+    [{ user_id: USER_ID, email: "kunde@example.com", source: "link" }]
+  );
+
+  const run = await processOutbox(db.client, 50);
+
+  assertEquals(run?.counts.cancelled, 1);
+  assertEquals(db.table("email_outbox")[0].status, "cancelled");
+  assertEquals(smtp.mails.length, 0);
+});
+
+Deno.test("Outbox meldet, wenn nicht reserviert werden kann", async () => {
+  const db = outboxDb([queuedEmail()]).failNext("claim_email_outbox");
+  assertEquals(await processOutbox(db.client, 50), null);
+});
+
+// Catch-All nach allen Tests beenden
+Deno.test({
+  name: "SMTP-Catch-All beenden",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: () => smtp.close(),
+});
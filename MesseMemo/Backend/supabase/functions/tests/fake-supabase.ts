@@ -0,0 +1,332 @@
+// ============================================
+// In-Memory-Supabase für Tests
+// ============================================
+// Bildet die von den Edge Functions genutzte Teilmenge von supabase-js ab:
+//   - from(table) mit select/insert/upsert/update/delete und den Filtern
+//     eq/neq/is/in/gt/gte/lt/lte, order/range/limit, single/maybeSingle
+//   - rpc(name, args) über registrierte Handler
+//   - optional die Spalten einer Tabelle (withColumns): unbekannte Spalten in
+//     select, Filtern und order schlagen wie bei PostgREST fehl
+// Alle Aufrufe werden protokolliert, damit Tests sie prüfen können.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type Row = Record<string, unknown>;
+
+export interface FakeError {
+  code: string;
+  message: string;
+}
+
+export interface FakeResult {
+  data: unknown;
+  error: FakeError | null;
+}
+
+export type RpcHandler = (args: Record<string, unknown>, db: FakeSupabase) => unknown;
+
+export interface RpcCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export class FakeSupabase {
+  readonly tables: Record<string, Row[]> = {};
+  readonly rpcCalls: RpcCall[] = [];
+  private readonly rpcHandlers: Record<string, RpcHandler> = {};
+  private readonly schemas: Record<string, string[]> = {};
+  private readonly failures: Record<string, FakeError> = {};
+
+  constructor(tables: Record<string, Row[]> = {}) {
+    for (const [name, rows] of Object.entries(tables)) {
+      this.tables[name] = rows.map((row) => ({ ...row }));
+    }
+  }
+
+  /** Typisiert als SupabaseClient an die Funktionen übergeben */
+  get client(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+
+  table(name: string): Row[] {
+    return this.tables[name] ??= [];
+  }
+
+  onRpc(name: string, handler: RpcHandler): this {
+    this.rpcHandlers[name] = handler;
+    return this;
+  }
+
+  withColumns(table: string, columns: string[]): this {
+    this.schemas[table] = columns;
+    return this;
+  }
+
+  columnsOf(table: string): string[] | undefined {
+    return this.schemas[table];
+  }
+
+  /** Nächste Operation auf der Tabelle bzw. dem RPC schlägt mit diesem Fehler fehl */
+  failNext(target: string, message = "simulated failure"): this {
+    this.failures[target] = { code: "XX000", message };
+    return this;
+  }
+
+  rpcCallsFor(name: string): Record<string, unknown>[] {
+    return this.rpcCalls.filter((call) => call.name === name).map((call) => call.args);
+  }
+
+  rpc(name: string, args: Record<string, unknown> = {}): Promise<FakeResult> {
+    this.rpcCalls.push({ name, args });
+    const failure = this.takeFailure(name);
+    if (failure) {
+      return Promise.resolve({ data: null, error: failure });
+    }
+    const handler = this.rpcHandlers[name];
+    if (!handler) {
+      return Promise.resolve({
+        data: null,
+        error: { code: "PGRST202", message: `Could not find the function public.${name}` },
+      });
+    }
+    try {
+      return Promise.resolve({ data: handler(args, this) ?? null, error: null });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return Promise.resolve({ data: null, error: { code: "P0001", message } });
+    }
+  }
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  takeFailure(target: string): FakeError | undefined {
+    const failure = this.failures[target];
+    delete this.failures[target];
+    return failure;
+  }
+}
+
+type Operation =
+  | { kind: "select" }
+  | { kind: "insert"; rows: Row[] }
+  | { kind: "upsert"; rows: Row[]; onConflict: string[]; ignoreDuplicates: boolean }
+  | { kind: "update"; values: Row }
+  | { kind: "delete" };
+
+type Filter = (row: Row) => boolean;
+
+class FakeQuery implements PromiseLike<FakeResult> {
+  private operation: Operation = { kind: "select" };
+  private returning = false;
+  private readonly filters: Filter[] = [];
+  private readonly referenced: string[] = [];
+  private projection: string[] | null = null;
+  private readonly orderings: { column: string; ascending: boolean }[] = [];
+  private window: { from: number; to: number } | null = null;
+  private cardinality: "many" | "single" | "maybeSingle" = "many";
+
+  constructor(private readonly db: FakeSupabase, private readonly tableName: string) {}
+
+  select(columns = "*"): this {
+    if (columns.trim() !== "*") {
+      this.projection = columns.split(",").map((column) => column.trim());
+    }
+    if (this.operation.kind !== "select") {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(rows: Row | Row[]): this {
+    this.operation = { kind: "insert", rows: toRows(rows) };
+    return this;
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.operation = {
+      kind: "upsert",
+      rows: toRows(rows),
+      onConflict: (options.onConflict ?? "id").split(",").map((column) => column.trim()),
+      ignoreDuplicates: options.ignoreDuplicates ?? false,
+    };
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = { kind: "update", values };
+    return this;
+  }
+
+  delete(): this {
+    this.operation = { kind: "delete" };
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.where(column, (row) => row[column] === value);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where(column, (row) => row[column] !== value);
+  }
+
+  is(column: string, value: null | boolean): this {
+    return this.where(column, (row) => (row[column] ?? null) === value);
+  }
+
+  in(column: string, values: unknown[]): this {
+    return this.where(column, (row) => values.includes(row[column]));
+  }
+
+  gt(column: string, value: unknown): this {
+    return this.where(column, (row) => compare(row[column], value) > 0);
+  }
+
+  gte(column: string, value: unknown): this {
+    return this.where(column, (row) => compare(row[column], value) >= 0);
+  }
+
+  lt(column: string, value: unknown): this {
+    return this.where(column, (row) => compare(row[column], value) < 0);
+  }
+
+  lte(column: string, value: unknown): this {
+    return this.where(column, (row) => compare(row[column], value) <= 0);
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.referenced.push(column);
+    this.orderings.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.window = { from, to };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.window = { from: this.window?.from ?? 0, to: (this.window?.from ?? 0) + count - 1 };
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = "single";
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = FakeResult, TResult2 = never>(
+    onfulfilled?: ((value: FakeResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private where(column: string, filter: Filter): this {
+    this.referenced.push(column);
+    this.filters.push(filter);
+    return this;
+  }
+
+  private execute(): FakeResult {
+    const failure = this.db.takeFailure(this.tableName);
+    if (failure) {
+      return { data: null, error: failure };
+    }
+    const known = this.db.columnsOf(this.tableName);
+    const unknown = [...this.referenced, ...(this.projection ?? [])].find((column) => known && !known.includes(column));
+    if (unknown) {
+      return {
+        data: null,
+        error: { code: "42703", message: `column ${this.tableName}.${unknown} does not exist` },
+      };
+    }
+
+    const table = this.db.table(this.tableName);
+    const matches = () => table.filter((row) => this.filters.every((filter) => filter(row)));
+    let rows: Row[];
+
+    switch (this.operation.kind) {
+      case "select":
+        rows = this.sortAndSlice(matches());
+        break;
+      case "insert":
+        rows = this.operation.rows.map((row) => ({ ...row }));
+        table.push(...rows);
+        break;
+      case "upsert": {
+        const { onConflict, ignoreDuplicates } = this.operation;
+        rows = [];
+        for (const row of this.operation.rows) {
+          const existing = table.find((current) => onConflict.every((column) => current[column] === row[column]));
+          if (!existing) {
+            const inserted = { ...row };
+            table.push(inserted);
+            rows.push(inserted);
+          } else if (!ignoreDuplicates) {
+            Object.assign(existing, row);
+            rows.push(existing);
+          }
+        }
+        break;
+      }
+      case "update":
+        rows = matches();
+        for (const row of rows) Object.assign(row, this.operation.values);
+        break;
+      case "delete":
+        rows = matches();
+        this.db.tables[this.tableName] = table.filter((row) => !rows.includes(row));
+        break;
+    }
+
+    const data = this.operation.kind === "select" || this.returning ? rows.map((row) => this.project(row)) : null;
+
+    if (this.cardinality === "many") {
+      return { data, error: null };
+    }
+    if (rows.length > 1 || (this.cardinality === "single" && rows.length === 0)) {
+      return {
+        data: null,
+        error: { code: "PGRST116", message: "JSON object requested, multiple (or no) rows returned" },
+      };
+    }
+    return { data: data?.[0] ?? null, error: null };
+  }
+
+  private project(row: Row): Row {
+    if (!this.projection) {
+      return { ...row };
+    }
+    return Object.fromEntries(this.projection.map((column) => [column, row[column] ?? null]));
+  }
+
+  private sortAndSlice(rows: Row[]): Row[] {
+    const sorted = [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.orderings) {
+        const result = compare(a[column], b[column]);
+        if (result !== 0) return ascending ? result : -result;
+      }
+      return 0;
+    });
+    return this.window ? sorted.slice(this.window.from, this.window.to + 1) : sorted;
+  }
+}
+
+function toRows(rows: Row | Row[]): Row[] {
+  return Array.isArray(rows) ? rows : [rows];
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+}
@@ -0,0 +1,457 @@
+// Tests für den Follow-up Digest: Inhalt (_shared/digest.ts), Versand über
+// E-Mail und Webhook (_shared/notify.ts) gegen lokale Empfänger und die
+// Auswahl in claim_follow_up_digests (migrations/014_follow_up_digest.sql).
+//
+// Die SQL-Tests brauchen eine Datenbank mit Schema und allen Migrationen
+// (TEST_DATABASE_URL) und laufen sonst nicht. Jeder Test arbeitet in einer
+// Transaktion, die am Ende zurückgerollt wird.
+
+import {
+  assert,
+  assertEquals,
+  assertStringIncludes,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import postgres from "https://deno.land/x/postgresjs@v3.4.4/mod.js";
+import { buildDigest, ClaimedDigest, DigestLead, processDigests } from "../_shared/digest.ts";
+import { deliverNotification, NotificationChannel } from "../_shared/notify.ts";
+import { verifyWebhookSignature } from "../_shared/webhooks.ts";
+import { FakeSupabase } from "./fake-supabase.ts";
+import { HttpStub, startStub } from "./http-stub.ts";
+import { startSmtpCatchAll } from "./smtp-catch-all.ts";
+
+const USER_ID = "88888888-8888-4888-8888-888888888888";
+const DIGEST_ID = "99999999-9999-4999-8999-999999999999";
+const SECRET = "whsec_digest-secret";
+
+const DATABASE_URL = Deno.env.get("TEST_DATABASE_URL");
+const DAY = 24 * 60 * 60 * 1000;
+
+const smtp = startSmtpCatchAll();
+
+/** SMTP-Env erst im Test setzen – email-outbox_test nutzt einen eigenen Catch-All */
+function useSmtp(): void {
+  Deno.env.set("MAIL_PROVIDER", "smtp");
+  Deno.env.set("MAIL_FROM", "MesseMemo <noreply@messememo.test>");
+  Deno.env.set("SMTP_HOST", smtp.host);
+  Deno.env.set("SMTP_PORT", String(smtp.port));
+  Deno.env.set("SMTP_SECURITY", "none");
+  smtp.mails.length = 0;
+  smtp.rejectRecipient = () => null;
+}
+
+/** Läuft mit WEBHOOK_ALLOW_LOCAL=value und stellt den alten Wert wieder her */
+async function withAllowLocal(value: string | null, fn: () => Promise<void>): Promise<void> {
+  const previous = Deno.env.get("WEBHOOK_ALLOW_LOCAL");
+  value === null ? Deno.env.delete("WEBHOOK_ALLOW_LOCAL") : Deno.env.set("WEBHOOK_ALLOW_LOCAL", value);
+  try {
+    await fn();
+  } finally {
+    previous === undefined ? Deno.env.delete("WEBHOOK_ALLOW_LOCAL") : Deno.env.set("WEBHOOK_ALLOW_LOCAL", previous);
+  }
+}
+
+async function withReceiver(status: number, fn: (stub: HttpStub) => Promise<void>): Promise<void> {
+  const stub = startStub(() => new Response(null, { status }));
+  try {
+    await withAllowLocal("true", () => fn(stub));
+  } finally {
+    await stub.close();
+  }
+}
+
+function lead(overrides: Partial<DigestLead> = {}): DigestLead {
+  return {
+    id: crypto.randomUUID(),
+    name: "Anna Berger",
+    company: "Berger Maschinenbau GmbH",
+    email: "anna.berger@example.com",
+    lead_score: 80,
+    follow_up_date: "2026-10-19",
+    created_at: "2026-10-12T09:00:00Z",
+    reason: "follow_up_date",
+    ...overrides,
+  };
+}
+
+function claimedDigest(overrides: Partial<ClaimedDigest> = {}): ClaimedDigest {
+  const leads = overrides.leads ?? [
+    lead(),
+    lead({ name: "Jonas Weber", company: null, lead_score: null, follow_up_date: "2026-10-15", email: null }),
+    lead({ name: null, company: "Kraft AG", email: null, follow_up_date: null, reason: "no_follow_up", lead_score: 40 }),
+  ];
+  return {
+    digest_id: DIGEST_ID,
+    user_id: USER_ID,
+    digest_date: "2026-10-19",
+    channel: "email",
+    email: "aussteller@example.com",
+    webhook_url: null,
+    webhook_secret: null,
+    display_name: "Jarno",
+    language: "de",
+    leads,
+    total_leads: leads.length,
+    ...overrides,
+  };
+}
+
+/** claim_follow_up_digests liefert die übergebenen Digests (Auswahl siehe SQL-Tests) */
+function digestDb(digests: ClaimedDigest[]): FakeSupabase {
+  return new FakeSupabase({
+    follow_up_digests: digests.map((digest) => ({
+      id: digest.digest_id,
+      user_id: digest.user_id,
+      digest_date: digest.digest_date,
+      channel: digest.channel,
+      status: "sending",
+      attempts: 1,
+      error: null,
+      lead_ids: [],
+      sent_at: null,
+    })),
+    push_devices: [],
+  }).onRpc("claim_follow_up_digests", () => digests);
+}
+
+const text = (body: ArrayBuffer) => new TextDecoder().decode(body);
+
+// ============================================
+// Inhalt
+// ============================================
+
+Deno.test("buildDigest listet fällige Leads mit Status und Score", () => {
+  const notification = buildDigest(claimedDigest());
+
+  assertEquals(notification.id, DIGEST_ID);
+  assertEquals(notification.event, "follow_up_digest");
+  assertEquals(notification.subject, "3 Leads warten auf dein Follow-up");
+  assertEquals(notification.text.split("\n").slice(0, 7), [
+    "Hallo Jarno,",
+    "",
+    "bei diesen Kontakten ist ein Follow-up fällig:",
+    "",
+    "• Anna Berger – Berger Maschinenbau GmbH (heute fällig · Score 80) <anna.berger@example.com>",
+    "• Jonas Weber (fällig seit 2026-10-15)",
+    "• (ohne Namen) – Kraft AG (erfasst am 2026-10-12, noch kein Follow-up · Score 40)",
+  ]);
+  assertEquals(notification.pushBody, "Anna Berger – Berger Maschinenbau GmbH, Jonas Weber, (ohne Namen) – Kraft AG");
+  assertEquals(notification.data.total_leads, 3);
+  assertEquals(notification.data.digest_date, "2026-10-19");
+});
+
+Deno.test("buildDigest schreibt Englisch und verweist auf weitere Leads in der App", () => {
+  const leads = [lead({ name: "Anna <Berger>" }), lead({ name: "Jonas" }), lead({ name: "Mia" }), lead({ name: "Tom" })];
+  const notification = buildDigest(claimedDigest({ language: "en", display_name: null, leads, total_leads: 25 }));
+
+  assertEquals(notification.subject, "25 leads are waiting for your follow-up");
+  assert(notification.text.startsWith("Hi,\n"));
+  assertStringIncludes(notification.text, "… and 21 more in the app.");
+  assertStringIncludes(notification.html!, "Anna &lt;Berger&gt;");
+  assertEquals(notification.html!.includes("<Berger>"), false);
+  // Push: die ersten drei Namen und der Rest als Zahl
+  assertEquals(notification.pushBody?.endsWith(", Mia – Berger Maschinenbau GmbH +22"), true);
+  assertEquals(buildDigest(claimedDigest({ leads: [lead()], total_leads: 1 })).subject, "1 Lead wartet auf dein Follow-up");
+});
+
+// ============================================
+// Versand
+// ============================================
+
+Deno.test("Digest geht per E-Mail raus und wird als gesendet markiert", async () => {
+  useSmtp();
+  const digest = claimedDigest();
+  const db = digestDb([digest]);
+
+  const results = await processDigests(db.client, { batchSize: 50 });
+
+  assertEquals(results, [{ digest_id: DIGEST_ID, user_id: USER_ID, channel: "email", leads: 3, status: "sent" }]);
+  assertEquals(db.rpcCallsFor("claim_follow_up_digests")[0], { p_limit: 50, p_user_id: null, p_force: false });
+
+  const [mail] = smtp.mails;
+  assertEquals(mail.to, ["aussteller@example.com"]);
+  assertStringIncludes(mail.data, "Anna Berger");
+
+  const [row] = db.table("follow_up_digests");
+  assertEquals(row.status, "sent");
+  assertEquals(row.error, null);
+  assertEquals(row.lead_ids, digest.leads.map((l) => l.id));
+  assert(row.sent_at);
+});
+
+Deno.test("Fehlgeschlagener Digest wird mit Fehler gespeichert", async () => {
+  useSmtp();
+  smtp.rejectRecipient = () => "550 5.1.1 User unknown";
+  const db = digestDb([claimedDigest()]);
+
+  const [result] = (await processDigests(db.client, { batchSize: 50, userId: USER_ID, force: true }))!;
+
+  assertEquals(result.status, "failed");
+  assertStringIncludes(result.error!, "550");
+  assertEquals(db.rpcCallsFor("claim_follow_up_digests")[0], { p_limit: 50, p_user_id: USER_ID, p_force: true });
+
+  const [row] = db.table("follow_up_digests");
+  assertEquals(row.status, "failed");
+  assertStringIncludes(row.error as string, "550");
+  assertEquals(row.sent_at, null);
+  assertEquals(smtp.mails.length, 0);
+});
+
+Deno.test("Digest-Webhook ist signiert und trägt die Digest-ID", async () => {
+  await withReceiver(204, async (stub) => {
+    const db = digestDb([claimedDigest({ channel: "webhook", webhook_url: `${stub.url}/digest`, webhook_secret: SECRET })]);
+
+    const [result] = (await processDigests(db.client, { batchSize: 50 }))!;
+    assertEquals(result.status, "sent");
+
+    const [request] = stub.requests;
+    const body = text(request.body);
+    assertEquals(request.path, "/digest");
+    assertEquals(request.headers.get("x-messememo-event"), "follow_up_digest");
+    assertEquals(request.headers.get("x-messememo-delivery"), DIGEST_ID);
+    assert(await verifyWebhookSignature(SECRET, request.headers.get("x-messememo-signature"), body));
+    assertEquals(await verifyWebhookSignature("whsec_other", request.headers.get("x-messememo-signature"), body), false);
+
+    const payload = JSON.parse(body);
+    assertEquals(payload.id, DIGEST_ID);
+    assertEquals(payload.user_id, USER_ID);
+    assertEquals(payload.subject, "3 Leads warten auf dein Follow-up");
+    assertEquals(payload.data.leads.length, 3);
+  });
+});
+
+Deno.test("Digest-Webhook meldet HTTP-Fehler des Empfängers", async () => {
+  await withReceiver(500, async (stub) => {
+    const db = digestDb([claimedDigest({ channel: "webhook", webhook_url: stub.url, webhook_secret: SECRET })]);
+
+    const [result] = (await processDigests(db.client, { batchSize: 50 }))!;
+
+    assertEquals(result.status, "failed");
+    assertEquals(result.error, "Webhook antwortete mit HTTP 500");
+    assertEquals(db.table("follow_up_digests")[0].status, "failed");
+  });
+});
+
+Deno.test("Digest-Webhook an interne Adressen wird vor dem Senden abgelehnt", async () => {
+  const stub = startStub(() => new Response(null, { status: 204 }));
+  try {
+    await withAllowLocal(null, async () => {
+      for (const url of [stub.url, "https://127.0.0.1/hook", "https://169.254.169.254/latest/meta-data", "https://localhost/hook"]) {
+        const result = await deliverNotification(
+          new FakeSupabase({}).client,
+          "webhook",
+          { userId: USER_ID, webhookUrl: url, webhookSecret: SECRET },
+          buildDigest(claimedDigest())
+        );
+        assertEquals(result.ok, false, url);
+        assertStringIncludes(result.error!, "Webhook-URL abgelehnt");
+      }
+    });
+    assertEquals(stub.requests.length, 0);
+  } finally {
+    await stub.close();
+  }
+});
+
+Deno.test("deliverNotification meldet fehlende Empfänger und Konfiguration", async () => {
+  useSmtp();
+  const client = new FakeSupabase({ push_devices: [] }).client;
+  const notification = buildDigest(claimedDigest());
+  const send = (channel: string, recipient = {}) =>
+    deliverNotification(client, channel as NotificationChannel, { userId: USER_ID, ...recipient }, notification);
+
+  assertEquals(await send("sms"), { ok: false, error: "Unbekannter Kanal: sms" });
+  assertEquals(await send("email"), { ok: false, error: "Keine E-Mail-Adresse hinterlegt" });
+  assertEquals(await send("webhook", { webhookUrl: "https://hooks.example.com/digest" }), {
+    ok: false,
+    error: "Keine gültige Webhook-URL hinterlegt",
+  });
+  assertStringIncludes((await send("push")).error!, "Push nicht konfiguriert");
+  assertEquals(smtp.mails.length, 0);
+});
+
+Deno.test("processDigests meldet, wenn nicht reserviert werden kann", async () => {
+  const db = digestDb([claimedDigest()]).failNext("claim_follow_up_digests");
+  assertEquals(await processDigests(db.client, { batchSize: 50 }), null);
+});
+
+// ============================================
+// claim_follow_up_digests (Datenbank)
+// ============================================
+
+type Sql = postgres.TransactionSql;
+
+class Rollback extends Error {}
+
+/** Führt `fn` in einer Transaktion aus und rollt sie danach zurück */
+async function inRollback(fn: (sql: Sql) => Promise<void>): Promise<void> {
+  const sql = postgres(DATABASE_URL!, { max: 1, onnotice: () => {} });
+  try {
+    await sql.begin(async (tx) => {
+      await fn(tx);
+      throw new Rollback();
+    });
+  } catch (error) {
+    if (!(error instanceof Rollback)) {
+      throw error;
+    }
+  } finally {
+    await sql.end();
+  }
+}
+
+/**
+ * Zeitzone, in der es (zum Transaktionszeitpunkt) gerade `hour` Uhr ist.
+ * NOW() bleibt innerhalb der Transaktion gleich.
+ */
+async function zoneAtHour(sql: Sql, hour: number): Promise<string> {
+  const [{ utc_hour }] = await sql`SELECT EXTRACT(HOUR FROM NOW() AT TIME ZONE 'UTC')::INTEGER AS utc_hour`;
+  const diff = (hour - utc_hour + 24) % 24;
+  const offset = diff <= 14 ? diff : diff - 24;
+  // Etc/GMT-2 ist UTC+2 (umgekehrtes Vorzeichen)
+  return offset === 0 ? "UTC" : offset > 0 ? `Etc/GMT-${offset}` : `Etc/GMT+${-offset}`;
+}
+
+async function createUser(sql: Sql, settings: Record<string, unknown>): Promise<string> {
+  const id = crypto.randomUUID();
+  await sql`INSERT INTO auth.users (id, email) VALUES (${id}, ${`digest-${id}@example.com`})`;
+  await sql`INSERT INTO public.user_settings ${sql({ user_id: id, digest_hour: 0, ...settings })}`;
+  return id;
+}
+
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY).toISOString();
+
+async function createLead(sql: Sql, userId: string, lead: Record<string, unknown>): Promise<string> {
+  const [{ id }] = await sql`INSERT INTO public.leads ${sql({ user_id: userId, ...lead })} RETURNING id`;
+  return id;
+}
+
+/** Ein fälliger Lead (Follow-up gestern in der Zeitzone des Users) */
+async function createDueLead(sql: Sql, userId: string, timezone: string, name = "Anna Berger"): Promise<string> {
+  const [{ yesterday }] = await sql`SELECT ((NOW() AT TIME ZONE ${timezone})::DATE - 1)::TEXT AS yesterday`;
+  return await createLead(sql, userId, { name, follow_up_date: yesterday });
+}
+
+async function claim(sql: Sql, userId: string, force = false): Promise<ClaimedDigest[]> {
+  const rows = await sql`SELECT * FROM public.claim_follow_up_digests(50, ${userId}, ${force})`;
+  return [...rows] as unknown as ClaimedDigest[];
+}
+
+const dbTest = (name: string, fn: (sql: Sql) => Promise<void>) =>
+  Deno.test({ name, ignore: !DATABASE_URL, fn: () => inRollback(fn) });
+
+dbTest("claim_follow_up_digests wartet auf die Versandstunde in der Zeitzone des Users", async (sql) => {
+  const zone = await zoneAtHour(sql, 9);
+  const early = await createUser(sql, { timezone: await zoneAtHour(sql, 7), digest_hour: 8 });
+  const due = await createUser(sql, { timezone: zone, digest_hour: 8 });
+  await createDueLead(sql, early, await zoneAtHour(sql, 7));
+  await createDueLead(sql, due, zone);
+
+  assertEquals(await claim(sql, early), []);
+
+  const [digest] = await claim(sql, due);
+  assertEquals(digest.channel, "email");
+  assertEquals(digest.email, `digest-${due}@example.com`);
+  assertEquals(digest.total_leads, 1);
+  const [{ local_date }] = await sql`SELECT (NOW() AT TIME ZONE ${zone})::DATE::TEXT AS local_date`;
+  assertEquals(String((await sql`SELECT digest_date::TEXT FROM follow_up_digests WHERE id = ${digest.digest_id}`)[0].digest_date), local_date);
+});
+
+dbTest("claim_follow_up_digests beachtet Ruhezeiten über Mitternacht", async (sql) => {
+  const quiet = { quiet_hours_start: 22, quiet_hours_end: 7 };
+  const lateEvening = await createUser(sql, { timezone: await zoneAtHour(sql, 23), ...quiet });
+  const earlyMorning = await createUser(sql, { timezone: await zoneAtHour(sql, 6), ...quiet });
+  const endOfQuiet = await createUser(sql, { timezone: await zoneAtHour(sql, 7), ...quiet });
+  // Gleicher Start und Ende: keine Ruhezeit
+  const noQuiet = await createUser(sql, { timezone: await zoneAtHour(sql, 23), quiet_hours_start: 5, quiet_hours_end: 5 });
+  for (const userId of [lateEvening, earlyMorning, endOfQuiet, noQuiet]) {
+    await createDueLead(sql, userId, "UTC");
+  }
+
+  assertEquals(await claim(sql, lateEvening), []);
+  assertEquals(await claim(sql, earlyMorning), []);
+  assertEquals((await claim(sql, endOfQuiet)).length, 1);
+  assertEquals((await claim(sql, noQuiet)).length, 1);
+});
+
+dbTest("claim_follow_up_digests schickt höchstens einen Digest pro Tag und wiederholt Fehler bis zu 3x", async (sql) => {
+  const userId = await createUser(sql, { timezone: await zoneAtHour(sql, 12), digest_channel: "webhook" });
+  await sql`UPDATE public.user_settings SET digest_webhook_url = 'https://hooks.example.com/digest',
+    digest_webhook_secret = ${SECRET} WHERE user_id = ${userId}`;
+  await createDueLead(sql, userId, "UTC");
+
+  const [first] = await claim(sql, userId);
+  assertEquals(first.webhook_url, "https://hooks.example.com/digest");
+  assertEquals(first.webhook_secret, SECRET);
+  // Noch in Arbeit → kein zweiter Digest
+  assertEquals(await claim(sql, userId), []);
+
+  for (let attempt = 2; attempt <= 3; attempt++) {
+    await sql`UPDATE follow_up_digests SET status = 'failed' WHERE id = ${first.digest_id}`;
+    const [retry] = await claim(sql, userId);
+    assertEquals(retry.digest_id, first.digest_id);
+    const [row] = await sql`SELECT status, attempts FROM follow_up_digests WHERE id = ${first.digest_id}`;
+    assertEquals([row.status, row.attempts], ["sending", attempt]);
+  }
+
+  // Dritter Versuch fehlgeschlagen → aufgeben
+  await sql`UPDATE follow_up_digests SET status = 'failed' WHERE id = ${first.digest_id}`;
+  assertEquals(await claim(sql, userId), []);
+
+  // Gesendet → auch mit force nicht noch einmal am selben Tag
+  await sql`UPDATE follow_up_digests SET status = 'sent' WHERE id = ${first.digest_id}`;
+  assertEquals(await claim(sql, userId, true), []);
+});
+
+dbTest("claim_follow_up_digests wählt fällige Leads, heißeste zuerst", async (sql) => {
+  const zone = await zoneAtHour(sql, 10);
+  const userId = await createUser(sql, { timezone: zone, follow_up_after_days: 3 });
+  const [{ today, tomorrow }] = await sql`SELECT (NOW() AT TIME ZONE ${zone})::DATE::TEXT AS today,
+    ((NOW() AT TIME ZONE ${zone})::DATE + 1)::TEXT AS tomorrow`;
+
+  const warm = await createLead(sql, userId, { name: "Warm", follow_up_date: today, lead_score: 50 });
+  const hot = await createDueLead(sql, userId, zone, "Hot");
+  await sql`UPDATE public.leads SET lead_score = 90 WHERE id = ${hot}`;
+  const old = await createLead(sql, userId, { name: "Ohne Termin", created_at: daysAgo(4) });
+  await createLead(sql, userId, { name: "Zu neu", created_at: daysAgo(2) });
+  await createLead(sql, userId, { name: "Morgen", follow_up_date: tomorrow, lead_score: 100 });
+  await createLead(sql, userId, { name: "Erledigt", follow_up_date: today, follow_up_sent_at: daysAgo(0) });
+  await createLead(sql, userId, { name: "Gelöscht", follow_up_date: today, deleted_at: daysAgo(0) });
+
+  const [digest] = await claim(sql, userId);
+
+  assertEquals(digest.total_leads, 3);
+  assertEquals(digest.leads.map((l) => l.id), [hot, warm, old]);
+  assertEquals(digest.leads.map((l) => l.reason), ["follow_up_date", "follow_up_date", "no_follow_up"]);
+});
+
+dbTest("claim_follow_up_digests überspringt User ohne fällige Leads oder mit abgeschaltetem Digest", async (sql) => {
+  const zone = await zoneAtHour(sql, 10);
+  const nothingDue = await createUser(sql, { timezone: zone });
+  const disabled = await createUser(sql, { timezone: zone, digest_enabled: false });
+  await createDueLead(sql, disabled, zone);
+
+  assertEquals(await claim(sql, nothingDue), []);
+  assertEquals(await claim(sql, disabled, true), []);
+  assertEquals((await sql`SELECT count(*)::INTEGER AS n FROM follow_up_digests WHERE user_id IN (${nothingDue}, ${disabled})`)[0].n, 0);
+});
+
+dbTest("claim_follow_up_digests mit force ignoriert Versandstunde und Ruhezeit", async (sql) => {
+  const userId = await createUser(sql, {
+    timezone: await zoneAtHour(sql, 3),
+    digest_hour: 8,
+    quiet_hours_start: 22,
+    quiet_hours_end: 7,
+  });
+  await createDueLead(sql, userId, "UTC");
+
+  assertEquals(await claim(sql, userId), []);
+  assertEquals((await claim(sql, userId, true)).length, 1);
+});
+
+// Catch-All nach allen Tests beenden
+Deno.test({
+  name: "SMTP-Catch-All beenden",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: () => smtp.close(),
+});
@@ -0,0 +1,47 @@
+// ============================================
+// Lokaler HTTP-Server für Tests
+// ============================================
+// Ersetzt externe Endpunkte (Whisper, CRM-Webhooks) durch einen Server auf
+// 127.0.0.1 mit zufälligem Port. Alle Requests werden mitgeschnitten.
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: Headers;
+  body: ArrayBuffer;
+  receivedAt: number;
+}
+
+export type StubHandler = (req: Request, body: ArrayBuffer, index: number) => Response | Promise<Response>;
+
+export interface HttpStub {
+  url: string;
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+export function startStub(handler: StubHandler): HttpStub {
+  const requests: RecordedRequest[] = [];
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, async (req) => {
+    const body = await req.arrayBuffer();
+    requests.push({
+      method: req.method,
+      path: new URL(req.url).pathname,
+      headers: req.headers,
+      body,
+      receivedAt: Date.now(),
+    });
+    return await handler(req, body, requests.length - 1);
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.addr.port}`,
+    requests,
+    close: () => server.shutdown(),
+  };
+}
+
+/** Antwortet erst nach `ms` Millisekunden (für Timeout-Tests) */
+export function delayed(ms: number, response: () => Response = () => new Response(null, { status: 504 })): Promise<Response> {
+  return new Promise((resolve) => setTimeout(() => resolve(response()), ms));
+}
@@ -0,0 +1,99 @@
+// Tests für den Datenexport aus _shared/privacy.ts
+
+import {
+  assert,
+  assertEquals,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { EXPORT_TABLES, loadUserData, UserData } from "../_shared/privacy.ts";
+import { FakeSupabase } from "./fake-supabase.ts";
+
+const USER_ID = "55555555-5555-4555-8555-555555555555";
+const OTHER_USER_ID = "66666666-6666-4666-8666-666666666666";
+const ORGANIZATION_ID = "77777777-7777-4777-8777-777777777777";
+
+// Spalten wie in migrations/009_app_store_purchases.sql (Primärschlüssel transaction_id)
+const APP_STORE_TRANSACTION_COLUMNS = [
+  "transaction_id", "original_transaction_id", "user_id", "product_id", "product_kind", "credits",
+  "environment", "purchase_date", "expires_date", "status", "revocation_date", "revocation_reason",
+  "created_at", "updated_at",
+];
+
+function purchase(transactionId: string, userId = USER_ID) {
+  return {
+    transaction_id: transactionId,
+    original_transaction_id: transactionId,
+    user_id: userId,
+    product_id: "Jarno.MesseMemo.credits.50",
+    product_kind: "credits",
+    credits: 50,
+    environment: "Production",
+    purchase_date: "2026-10-01T10:00:00Z",
+    expires_date: null,
+    status: "active",
+    revocation_date: null,
+    revocation_reason: null,
+    created_at: "2026-10-01T10:00:05Z",
+    updated_at: "2026-10-01T10:00:05Z",
+  };
+}
+
+function exportDb(): FakeSupabase {
+  return new FakeSupabase({
+    profiles: [{ id: USER_ID, ai_credits_balance: 60, is_premium: false }],
+    leads: [
+      { id: "l-2", user_id: USER_ID, name: "Jonas Weber" },
+      { id: "l-1", user_id: USER_ID, name: "Anna Berger" },
+      { id: "l-3", user_id: OTHER_USER_ID, name: "Fremder Lead" },
+    ],
+    app_store_transactions: [
+      purchase("2000000222222222"),
+      purchase("2000000111111111"),
+      purchase("2000000333333333", OTHER_USER_ID),
+    ],
+    memberships: [{ organization_id: ORGANIZATION_ID, user_id: USER_ID, role: "member" }],
+    organizations: [{ id: ORGANIZATION_ID, name: "Berger GmbH", created_at: "2026-09-01T00:00:00Z", created_by: OTHER_USER_ID }],
+    webhook_endpoints: [{
+      id: "w-1",
+      user_id: USER_ID,
+      url: "https://crm.example.com/hooks",
+      secret: "whsec_geheim",
+      format: "hubspot",
+      enabled: true,
+    }],
+  }).withColumns("app_store_transactions", APP_STORE_TRANSACTION_COLUMNS);
+}
+
+Deno.test("loadUserData exportiert die Käufe des Users", async () => {
+  const result = await loadUserData(exportDb().client, USER_ID);
+
+  assert(!("error" in result), JSON.stringify(result));
+  const { data } = result as UserData;
+  assertEquals(
+    (data.app_store_transactions as { transaction_id: string }[]).map((row) => row.transaction_id),
+    ["2000000111111111", "2000000222222222"]
+  );
+  assertEquals(data.app_store_transactions[0], purchase("2000000111111111"));
+});
+
+Deno.test("loadUserData exportiert nur eigene Zeilen, Profil und Organisation", async () => {
+  const result = await loadUserData(exportDb().client, USER_ID) as UserData;
+
+  assertEquals(Object.keys(result.data), EXPORT_TABLES.map((spec) => spec.table));
+  assertEquals((result.data.leads as { id: string }[]).map((lead) => lead.id), ["l-1", "l-2"]);
+  assertEquals(result.profile?.ai_credits_balance, 60);
+  assertEquals(result.organization, { id: ORGANIZATION_ID, name: "Berger GmbH", created_at: "2026-09-01T00:00:00Z" });
+  assertEquals(result.data.credit_transactions, []);
+});
+
+Deno.test("loadUserData exportiert Webhook-Endpoints ohne Secret", async () => {
+  const result = await loadUserData(exportDb().client, USER_ID) as UserData;
+
+  const [endpoint] = result.data.webhook_endpoints as Record<string, unknown>[];
+  assertEquals(endpoint.url, "https://crm.example.com/hooks");
+  assertEquals("secret" in endpoint, false);
+});
+
+Deno.test("loadUserData bricht ab, wenn eine Tabelle nicht geladen werden kann", async () => {
+  const db = exportDb().failNext("app_store_transactions");
+  assertEquals(await loadUserData(db.client, USER_ID), { error: "Export fehlgeschlagen (app_store_transactions)" });
+});
@@ -0,0 +1,30 @@
+// Tests für _shared/rate-limit.ts: Client-IP aus den Proxy-Headern.
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { clientIp } from "../_shared/rate-limit.ts";
+
+function request(headers: Record<string, string>): Request {
+  return new Request("https://example.supabase.co/functions/v1/process-card", { headers });
+}
+
+Deno.test("clientIp nimmt den vom Proxy angehängten Eintrag aus X-Forwarded-For", () => {
+  // Der Client schickt selbst "1.2.3.4", der Proxy hängt die echte Adresse an
+  assertEquals(clientIp(request({ "x-forwarded-for": "1.2.3.4, 203.0.113.7" })), "203.0.113.7");
+  assertEquals(clientIp(request({ "x-forwarded-for": "203.0.113.7" })), "203.0.113.7");
+});
+
+Deno.test("clientIp bevorzugt X-Real-IP", () => {
+  assertEquals(
+    clientIp(request({ "x-forwarded-for": "1.2.3.4, 198.51.100.2", "x-real-ip": "203.0.113.7" })),
+    "203.0.113.7"
+  );
+});
+
+Deno.test("clientIp ignoriert von Clients gesetzte Cloudflare-Header", () => {
+  assertEquals(clientIp(request({ "cf-connecting-ip": "1.2.3.4" })), null);
+});
+
+Deno.test("clientIp ohne Proxy-Header", () => {
+  assertEquals(clientIp(request({})), null);
+  assertEquals(clientIp(request({ "x-forwarded-for": " " })), null);
+});
@@ -0,0 +1,151 @@
+// ============================================
+// Lokaler SMTP-Catch-All für Tests
+// ============================================
+// Nimmt auf 127.0.0.1 (zufälliger Port, ohne TLS) jede Mail an – wie Mailpit
+// oder MailHog. Über `rejectRecipient` lassen sich vorübergehende (4xx) und
+// endgültige (5xx) Ablehnungen pro Empfänger simulieren.
+
+export interface CaughtMail {
+  from: string;
+  to: string[];
+  /** Rohdaten nach DATA (Header + Body, ohne Dot-Stuffing) */
+  data: string;
+}
+
+/** SMTP-Antwort für RCPT TO, z.B. "451 4.3.0 Try again later"; null = annehmen */
+export type RecipientPolicy = (address: string) => string | null;
+
+export interface SmtpCatchAll {
+  host: string;
+  port: number;
+  mails: CaughtMail[];
+  rejectRecipient: RecipientPolicy;
+  close(): Promise<void>;
+}
+
+export function startSmtpCatchAll(): SmtpCatchAll {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const connections = new Set<Deno.Conn>();
+  const sessions: Promise<void>[] = [];
+
+  const server: SmtpCatchAll = {
+    host: "127.0.0.1",
+    port: (listener.addr as Deno.NetAddr).port,
+    mails: [],
+    rejectRecipient: () => null,
+    close: async () => {
+      listener.close();
+      for (const conn of connections) {
+        try {
+          conn.close();
+        } catch {
+          // bereits geschlossen
+        }
+      }
+      await accepting;
+      await Promise.allSettled(sessions);
+    },
+  };
+
+  const accepting = (async () => {
+    try {
+      for await (const conn of listener) {
+        connections.add(conn);
+        sessions.push(handleSession(conn, server).finally(() => connections.delete(conn)));
+      }
+    } catch {
+      // Listener geschlossen
+    }
+  })();
+
+  return server;
+}
+
+async function handleSession(conn: Deno.Conn, server: SmtpCatchAll): Promise<void> {
+  const lines = new LineReader(conn);
+  const reply = (text: string) => conn.write(new TextEncoder().encode(`${text}\r\n`));
+
+  let from = "";
+  let to: string[] = [];
+
+  try {
+    await reply("220 catch-all ESMTP");
+    for (let line = await lines.next(); line !== null; line = await lines.next()) {
+      const command = line.slice(0, 4).toUpperCase();
+
+      if (command === "EHLO") {
+        await reply("250-catch-all");
+        await reply("250-8BITMIME");
+        await reply("250 AUTH PLAIN LOGIN");
+      } else if (command === "HELO" || command === "NOOP") {
+        await reply("250 OK");
+      } else if (command === "AUTH") {
+        await reply("235 2.7.0 Authentication successful");
+      } else if (command === "MAIL") {
+        from = extractAddress(line);
+        to = [];
+        await reply("250 OK");
+      } else if (command === "RCPT") {
+        const address = extractAddress(line);
+        const rejection = server.rejectRecipient(address);
+        if (rejection) {
+          await reply(rejection);
+        } else {
+          to.push(address);
+          await reply("250 OK");
+        }
+      } else if (command === "DATA") {
+        await reply("354 End data with <CR><LF>.<CR><LF>");
+        const data: string[] = [];
+        for (let dataLine = await lines.next(); dataLine !== null && dataLine !== "."; dataLine = await lines.next()) {
+          data.push(dataLine.startsWith("..") ? dataLine.slice(1) : dataLine);
+        }
+        server.mails.push({ from, to, data: data.join("\r\n") });
+        await reply("250 OK queued");
+      } else if (command === "RSET") {
+        from = "";
+        to = [];
+        await reply("250 OK");
+      } else if (command === "QUIT") {
+        await reply("221 Bye");
+        break;
+      } else {
+        await reply("502 Command not implemented");
+      }
+    }
+  } catch {
+    // Client hat die Verbindung getrennt
+  } finally {
+    try {
+      conn.close();
+    } catch {
+      // bereits geschlossen
+    }
+  }
+}
+
+function extractAddress(line: string): string {
+  return line.match(/<([^>]*)>/)?.[1] ?? line.split(":").slice(1).join(":").trim();
+}
+
+class LineReader {
+  private buffer = "";
+  private readonly decoder = new TextDecoder();
+
+  constructor(private readonly conn: Deno.Conn) {}
+
+  async next(): Promise<string | null> {
+    while (!this.buffer.includes("\r\n")) {
+      const chunk = new Uint8Array(4096);
+      const read = await this.conn.read(chunk);
+      if (read === null) {
+        return null;
+      }
+      this.buffer += this.decoder.decode(chunk.subarray(0, read), { stream: true });
+    }
+    const index = this.buffer.indexOf("\r\n");
+    const line = this.buffer.slice(0, index);
+    this.buffer = this.buffer.slice(index + 2);
+    return line;
+  }
+}
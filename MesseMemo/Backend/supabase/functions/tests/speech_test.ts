@@ -0,0 +1,127 @@
+// Tests für _shared/speech.ts gegen einen lokalen Whisper-Stub
+// (POST /v1/audio/transcriptions, verbose_json).
+
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { MAX_AUDIO_BYTES, SpeechConfig, SpeechError, transcribeAudio } from "../_shared/speech.ts";
+import { delayed, startStub } from "./http-stub.ts";
+
+function configFor(baseUrl: string, overrides: Partial<SpeechConfig> = {}): SpeechConfig {
+  return {
+    provider: "whisper",
+    baseUrl: `${baseUrl}/v1`,
+    model: "whisper-1",
+    apiKey: "test-key",
+    timeoutMs: 2000,
+    ...overrides,
+  };
+}
+
+const memo = () => new Blob([new Uint8Array(1024)], { type: "audio/m4a" });
+
+Deno.test("transcribeAudio liest verbose_json des Whisper-Servers", async () => {
+  const stub = startStub(() =>
+    Response.json({
+      text: " Hallo, wir sprechen nächste Woche über das Angebot. ",
+      language: "german",
+      duration: 12.345,
+      segments: [
+        { start: 0, end: 4.567, text: " Hallo," },
+        { start: 4.567, end: 12.345, text: " wir sprechen nächste Woche über das Angebot." },
+        { start: 12.345, end: 12.4, text: "  " },
+      ],
+    })
+  );
+
+  try {
+    const result = await transcribeAudio(memo(), { filename: "memo.m4a", language: "de" }, configFor(stub.url));
+
+    assertEquals(result.text, "Hallo, wir sprechen nächste Woche über das Angebot.");
+    assertEquals(result.language, "de");
+    assertEquals(result.durationSeconds, 12.345);
+    assertEquals(result.segments, [
+      { start: 0, end: 4.57, text: "Hallo," },
+      { start: 4.57, end: 12.35, text: "wir sprechen nächste Woche über das Angebot." },
+    ]);
+
+    const [request] = stub.requests;
+    assertEquals(request.method, "POST");
+    assertEquals(request.path, "/v1/audio/transcriptions");
+    assertEquals(request.headers.get("authorization"), "Bearer test-key");
+
+    const form = await new Request("http://stub", {
+      method: "POST",
+      headers: { "content-type": request.headers.get("content-type")! },
+      body: request.body,
+    }).formData();
+    assertEquals(form.get("model"), "whisper-1");
+    assertEquals(form.get("response_format"), "verbose_json");
+    assertEquals(form.get("language"), "de");
+    assertEquals((form.get("file") as File).name, "memo.m4a");
+    assertEquals((form.get("file") as File).size, 1024);
+  } finally {
+    await stub.close();
+  }
+});
+
+Deno.test("transcribeAudio bricht nach dem Timeout ab", async () => {
+  const stub = startStub(() => delayed(500, () => Response.json({ text: "zu spät" })));
+
+  try {
+    await assertRejects(
+      () => transcribeAudio(memo(), { filename: "memo.m4a" }, configFor(stub.url, { timeoutMs: 100 })),
+      SpeechError,
+      "Timeout nach 100ms"
+    );
+  } finally {
+    await stub.close();
+  }
+});
+
+Deno.test("transcribeAudio lädt zu große Dateien nicht hoch", async () => {
+  const stub = startStub(() => Response.json({ text: "unerwartet" }));
+
+  try {
+    const error = await assertRejects(
+      () => transcribeAudio(new Blob([new Uint8Array(MAX_AUDIO_BYTES + 1)]), { filename: "memo.m4a" }, configFor(stub.url)),
+      SpeechError,
+      "Datei zu groß (max. 25 MB)"
+    );
+    assertEquals((error as SpeechError).status, 413);
+    assertEquals(stub.requests.length, 0);
+  } finally {
+    await stub.close();
+  }
+});
+
+Deno.test("transcribeAudio meldet 413 des Servers mit Status", async () => {
+  // Selbst gehostete Server haben oft ein kleineres Limit
+  const stub = startStub(() => new Response("Request Entity Too Large", { status: 413 }));
+
+  try {
+    const error = await assertRejects(
+      () => transcribeAudio(memo(), { filename: "memo.m4a" }, configFor(stub.url)),
+      SpeechError,
+      "HTTP 413"
+    );
+    assertEquals((error as SpeechError).status, 413);
+  } finally {
+    await stub.close();
+  }
+});
+
+Deno.test("transcribeAudio lehnt Antworten ohne Text ab", async () => {
+  const stub = startStub(() => Response.json({ language: "german" }));
+
+  try {
+    await assertRejects(
+      () => transcribeAudio(memo(), { filename: "memo.m4a" }, configFor(stub.url)),
+      SpeechError,
+      "Antwort der Spracherkennung enthält keinen Text"
+    );
+  } finally {
+    await stub.close();
+  }
+});
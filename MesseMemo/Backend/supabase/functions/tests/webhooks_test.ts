@@ -0,0 +1,306 @@
+// Tests für _shared/webhooks.ts gegen einen lokalen Empfänger: Signatur,
+// Backoff, Dead Letters nach MAX_DELIVERY_ATTEMPTS.
+
+import {
+  assert,
+  assertEquals,
+  assertMatch,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  processWebhookDeliveries,
+  retryDelaySeconds,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WebhookEndpoint,
+} from "../_shared/webhooks.ts";
+import { LeadSnapshot } from "../_shared/crm.ts";
+import { FakeSupabase, Row } from "./fake-supabase.ts";
+import { HttpStub, startStub } from "./http-stub.ts";
+
+// Empfänger läuft auf 127.0.0.1 über HTTP
+Deno.env.set("WEBHOOK_ALLOW_LOCAL", "true");
+
+const USER_ID = "33333333-3333-4333-8333-333333333333";
+const SECRET = "whsec_test-secret";
+
+const LEAD: LeadSnapshot = {
+  id: "44444444-4444-4444-8444-444444444444",
+  name: "Anna Berger",
+  company: "Berger Maschinenbau GmbH",
+  email: "anna.berger@example.com",
+  phone: "+49 89 1234567",
+  notes: "Interesse an Modell X",
+  transcript: null,
+  qualification: null,
+  lead_score: 75,
+  follow_up_date: "2026-11-02",
+  event_id: null,
+  event_name: "Hannover Messe",
+  has_audio: false,
+  created_at: "2026-10-19T08:30:00Z",
+  updated_at: "2026-10-19T09:00:00Z",
+};
+
+// ============================================
+// Fake-Datenbank
+// ============================================
+
+/** Wie claim_webhook_deliveries (migrations/018_crm_webhooks.sql) */
+function claimWebhookDeliveries(args: Record<string, unknown>, db: FakeSupabase): Row[] {
+  const now = Date.now();
+  const enabled = new Set(db.table("webhook_endpoints").filter((e) => e.enabled).map((e) => e.id));
+  return db.table("webhook_deliveries")
+    .filter((d) => enabled.has(d.endpoint_id) && d.status === "queued" && Date.parse(d.next_attempt_at as string) <= now)
+    .slice(0, Number(args.p_limit ?? 50))
+    .map((d) => {
+      d.status = "sending";
+      d.attempts = (d.attempts as number) + 1;
+      return { ...d };
+    });
+}
+
+/** Wie dead_letter_webhook_delivery: verschiebt die Zustellung */
+function deadLetterWebhookDelivery(args: Record<string, unknown>, db: FakeSupabase): string | null {
+  const delivery = db.table("webhook_deliveries").find((d) => d.id === args.p_delivery_id);
+  if (!delivery) return null;
+  db.tables.webhook_deliveries = db.table("webhook_deliveries").filter((d) => d !== delivery);
+  const id = crypto.randomUUID();
+  db.table("webhook_dead_letters").push({
+    id,
+    delivery_id: delivery.id,
+    endpoint_id: delivery.endpoint_id,
+    event_type: delivery.event_type,
+    attempts: delivery.attempts,
+    last_status_code: args.p_status_code,
+    last_error: args.p_error,
+  });
+  return id;
+}
+
+function webhookDb(url: string, endpoint: Partial<WebhookEndpoint> = {}): { db: FakeSupabase; deliveryId: string } {
+  const endpointId = crypto.randomUUID();
+  const deliveryId = crypto.randomUUID();
+  const db = new FakeSupabase({
+    webhook_endpoints: [{
+      id: endpointId,
+      user_id: USER_ID,
+      url,
+      event_types: ["lead.created"],
+      format: "messememo",
+      secret: SECRET,
+      enabled: true,
+      ...endpoint,
+    }],
+    webhook_deliveries: [{
+      id: deliveryId,
+      endpoint_id: endpointId,
+      user_id: USER_ID,
+      event_type: "lead.created",
+      lead_id: LEAD.id,
+      lead: LEAD,
+      data: {},
+      occurred_at: "2026-10-19T09:00:00Z",
+      status: "queued",
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+    }],
+    webhook_dead_letters: [],
+  })
+    .onRpc("claim_webhook_deliveries", claimWebhookDeliveries)
+    .onRpc("dead_letter_webhook_delivery", deadLetterWebhookDelivery);
+  return { db, deliveryId };
+}
+
+function makeDue(db: FakeSupabase): void {
+  for (const delivery of db.table("webhook_deliveries")) {
+    delivery.next_attempt_at = new Date(Date.now() - 1000).toISOString();
+  }
+}
+
+async function withReceiver(handler: (index: number) => Response, fn: (stub: HttpStub) => Promise<void>) {
+  const stub = startStub((_req, _body, index) => handler(index));
+  try {
+    await fn(stub);
+  } finally {
+    await stub.close();
+  }
+}
+
+const text = (body: ArrayBuffer) => new TextDecoder().decode(body);
+
+// ============================================
+// Signatur
+// ============================================
+
+Deno.test("Webhook trägt eine gültige HMAC-Signatur über Zeitstempel und Body", async () => {
+  await withReceiver(() => new Response(null, { status: 204 }), async (stub) => {
+    const { db, deliveryId } = webhookDb(`${stub.url}/hooks/messememo`);
+
+    const run = await processWebhookDeliveries(db.client, 50);
+    assertEquals(run?.counts.delivered, 1);
+
+    const [request] = stub.requests;
+    const body = text(request.body);
+    const header = request.headers.get("x-messememo-signature")!;
+
+    assertEquals(request.path, "/hooks/messememo");
+    assertEquals(request.headers.get("content-type"), "application/json");
+    assertEquals(request.headers.get("x-messememo-event"), "lead.created");
+    assertEquals(request.headers.get("x-messememo-delivery"), deliveryId);
+    assertMatch(header, /^t=\d+,v1=[0-9a-f]{64}$/);
+
+    // Unabhängig nachgerechnet: HMAC-SHA256("<t>.<Body>")
+    const timestamp = Number(header.match(/t=(\d+)/)![1]);
+    assert(Math.abs(Date.now() / 1000 - timestamp) < 5);
+    const key = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(SECRET),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"]
+    );
+    const mac = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${timestamp}.${body}`));
+    const hex = Array.from(new Uint8Array(mac), (b) => b.toString(16).padStart(2, "0")).join("");
+    assertEquals(header, `t=${timestamp},v1=${hex}`);
+
+    assert(await verifyWebhookSignature(SECRET, header, body));
+    assertEquals(await verifyWebhookSignature("whsec_other", header, body), false);
+    assertEquals(await verifyWebhookSignature(SECRET, header, body.replace("Anna", "Anne")), false);
+
+    const payload = JSON.parse(body);
+    assertEquals(payload.id, deliveryId);
+    assertEquals(payload.event, "lead.created");
+    assertEquals(payload.format, "messememo");
+    assertEquals(payload.lead.email, "anna.berger@example.com");
+
+    const [delivery] = db.table("webhook_deliveries");
+    assertEquals(delivery.status, "delivered");
+    assertEquals(delivery.last_status_code, 204);
+  });
+});
+
+Deno.test("verifyWebhookSignature verwirft alte Zeitstempel", async () => {
+  const body = JSON.stringify({ id: "1" });
+  const old = Math.floor(Date.now() / 1000) - 301;
+
+  assertEquals(await verifyWebhookSignature(SECRET, await signWebhookPayload(SECRET, old, body), body), false);
+  assertEquals(await verifyWebhookSignature(SECRET, "v1=abc", body), false);
+  assertEquals(await verifyWebhookSignature(SECRET, null, body), false);
+});
+
+Deno.test("Webhook sendet den Lead im Format des Endpoints", async () => {
+  await withReceiver(() => new Response("ok"), async (stub) => {
+    const { db } = webhookDb(stub.url, { format: "hubspot" });
+
+    await processWebhookDeliveries(db.client, 50);
+
+    const payload = JSON.parse(text(stub.requests[0].body));
+    assertEquals(payload.format, "hubspot");
+    assertEquals(payload.lead.properties.firstname, "Anna");
+    assertEquals(payload.lead.properties.lastname, "Berger");
+    assertEquals(payload.lead.properties.messememo_lead_score, "75");
+  });
+});
+
+// ============================================
+// Backoff & Dead Letters
+// ============================================
+
+Deno.test("Webhook wiederholt mit exponentiellem Backoff und landet nach MAX_DELIVERY_ATTEMPTS im Dead Letter", async () => {
+  await withReceiver(() => new Response("boom", { status: 500 }), async (stub) => {
+    const { db, deliveryId } = webhookDb(stub.url);
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= MAX_DELIVERY_ATTEMPTS; attempt++) {
+      const before = Date.now();
+      const run = await processWebhookDeliveries(db.client, 50);
+      assertEquals(run?.processed, 1);
+
+      const [delivery] = db.table("webhook_deliveries");
+      if (attempt < MAX_DELIVERY_ATTEMPTS) {
+        assertEquals(run?.counts.retrying, 1);
+        assertEquals(delivery.status, "queued");
+        assertEquals(delivery.last_status_code, 500);
+        delays.push((Date.parse(delivery.next_attempt_at as string) - before) / 1000);
+        // Vor Ablauf des Backoffs wird nichts erneut gesendet
+        assertEquals((await processWebhookDeliveries(db.client, 50))?.processed, 0);
+        makeDue(db);
+      } else {
+        assertEquals(run?.counts.dead, 1);
+      }
+    }
+
+    // 30 s, 1 min, 2 min, … mit ±20 % Jitter, höchstens 1 h
+    delays.forEach((delay, i) => {
+      const expected = Math.min(30 * 2 ** i, 3600);
+      assert(
+        delay >= expected * 0.8 - 1 && delay <= Math.min(expected * 1.2, 3600) + 1,
+        `Versuch ${i + 1}: ${delay}s statt ~${expected}s`
+      );
+    });
+
+    assertEquals(stub.requests.length, MAX_DELIVERY_ATTEMPTS);
+    // Gleiche Delivery-ID über alle Versuche (Deduplizierung beim Empfänger)
+    assert(stub.requests.every((r) => r.headers.get("x-messememo-delivery") === deliveryId));
+
+    assertEquals(db.table("webhook_deliveries").length, 0);
+    const [letter] = db.table("webhook_dead_letters");
+    assertEquals(letter.delivery_id, deliveryId);
+    assertEquals(letter.attempts, MAX_DELIVERY_ATTEMPTS);
+    assertEquals(letter.last_status_code, 500);
+    assertEquals(letter.last_error, "Webhook antwortete mit HTTP 500");
+  });
+});
+
+Deno.test("Webhook beachtet Retry-After und stellt nach Erholung zu", async () => {
+  await withReceiver(
+    (index) => index === 0 ? new Response(null, { status: 429, headers: { "Retry-After": "600" } }) : new Response("ok"),
+    async (stub) => {
+      const { db } = webhookDb(stub.url);
+
+      const before = Date.now();
+      assertEquals((await processWebhookDeliveries(db.client, 50))?.counts.retrying, 1);
+      const delay = (Date.parse(db.table("webhook_deliveries")[0].next_attempt_at as string) - before) / 1000;
+      assert(delay >= 600 && delay <= 601, `Pause ${delay}s statt 600s`);
+
+      makeDue(db);
+      assertEquals((await processWebhookDeliveries(db.client, 50))?.counts.delivered, 1);
+      assertEquals(db.table("webhook_deliveries")[0].attempts, 2);
+    }
+  );
+});
+
+Deno.test("Webhook gibt bei dauerhaften Fehlern sofort auf", async () => {
+  await withReceiver(() => new Response("bad request", { status: 400 }), async (stub) => {
+    const { db } = webhookDb(stub.url);
+
+    assertEquals((await processWebhookDeliveries(db.client, 50))?.counts.dead, 1);
+    assertEquals(stub.requests.length, 1);
+    assertEquals(db.table("webhook_dead_letters")[0].attempts, 1);
+  });
+});
+
+Deno.test("Webhook schaltet Endpoints nach HTTP 410 ab", async () => {
+  await withReceiver(() => new Response(null, { status: 410 }), async (stub) => {
+    const { db } = webhookDb(stub.url);
+
+    assertEquals((await processWebhookDeliveries(db.client, 50))?.counts.dead, 1);
+    const [endpoint] = db.table("webhook_endpoints");
+    assertEquals(endpoint.enabled, false);
+    assertEquals(endpoint.disabled_reason, "Empfänger antwortete mit HTTP 410 (Gone)");
+  });
+});
+
+Deno.test("retryDelaySeconds: exponentiell, Jitter ±20 %, Retry-After, Obergrenze", () => {
+  for (let i = 0; i < 50; i++) {
+    const first = retryDelaySeconds(1);
+    assert(first >= 24 && first <= 36);
+    const fourth = retryDelaySeconds(4);
+    assert(fourth >= 192 && fourth <= 288);
+    const late = retryDelaySeconds(20);
+    assert(late >= 2880 && late <= 3600);
+    assert(retryDelaySeconds(1, 900) >= 900);
+    assertEquals(retryDelaySeconds(1, 7200), 3600);
+  }
+});
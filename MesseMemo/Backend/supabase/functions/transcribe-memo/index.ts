@@ -0,0 +1,388 @@
+// ============================================
+// MesseMemo Voice Memo Transcription Edge Function
+// Version: 1.0 (Whisper-kompatible API, Abrechnung nach Audio-Dauer)
+// ============================================
+//
+// Transkribiert ein Sprachmemo aus dem Bucket `voice-memos` serverseitig
+// (bessere Qualität in lauten Messehallen, beliebige Sprachen) und speichert
+// Text, erkannte Sprache und Segmente mit Zeitstempeln am Lead.
+//
+// Abrechnung: 1 Credit pro angefangene TRANSCRIPTION_SECONDS_PER_CREDIT
+// (Default 60 s). Reserviert wird nach der angegebenen Dauer, abgerechnet
+// nach der vom Provider gemessenen (settle_ai_credit, migrations/012).
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import {
+  CreditReservation,
+  getIdempotencyKey,
+  loadCreditsRemaining,
+  releaseCredit,
+  reserveCredit,
+  settleCredit,
+} from "../_shared/credits.ts";
+import { clientIp, enforceRateLimit } from "../_shared/rate-limit.ts";
+import {
+  lookupCachedResult,
+  resultCacheKey,
+  sha256Hex,
+  storeCachedResult,
+  wantsFreshResult,
+} from "../_shared/result-cache.ts";
+import {
+  checkSpeechConfig,
+  loadSpeechConfig,
+  MAX_AUDIO_BYTES,
+  SpeechError,
+  transcribeAudio,
+  Transcription,
+} from "../_shared/speech.ts";
+import { authenticate, isUuid } from "../_shared/supabase.ts";
+
+const FUNCTION_NAME = "transcribe-memo";
+const BUCKET = "voice-memos";
+const PROMPT_VERSION = "stt-1.0";
+
+const MAX_AUDIO_SECONDS = 30 * 60;
+const SECONDS_PER_CREDIT = Number(Deno.env.get("TRANSCRIPTION_SECONDS_PER_CREDIT")) || 60;
+
+// Schätzung, wenn weder Request noch Lead eine Dauer kennen (AAC ~64 kbit/s)
+const ESTIMATED_BYTES_PER_SECOND = 8000;
+
+/** Ergebnis ohne user-spezifische Werte (wird gecacht) */
+interface TranscriptResult {
+  transcript: string;
+  language: string | null;
+  duration_seconds: number;
+  segments: Transcription["segments"];
+  provider: string;
+  model: string;
+}
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse(405, "Methode nicht erlaubt");
+  }
+
+  try {
+    const auth = await authenticate(req);
+    if (auth instanceof Response) {
+      return auth;
+    }
+    const { user, supabaseClient, supabaseAdmin } = auth;
+
+    // ========================================
+    // 1. Request Body parsen
+    // ========================================
+    // { lead_id, path?, language?, duration_seconds?, force_refresh? }
+    // Ohne 'path' wird lead.audio_url verwendet.
+
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (parseError) {
+      console.error("JSON Parse Error:", parseError);
+      return errorResponse(400, "Ungültiger Request-Body");
+    }
+    if (!requestBody || typeof requestBody !== "object" || Array.isArray(requestBody)) {
+      return errorResponse(400, "Ungültiger Request-Body");
+    }
+
+    if (!isUuid(requestBody.lead_id)) {
+      return errorResponse(400, "'lead_id' fehlt oder ist keine UUID");
+    }
+
+    const language = requestBody.language;
+    if (language !== undefined && (typeof language !== "string" || !/^[a-z]{2}$/.test(language))) {
+      return errorResponse(400, "'language' muss ein ISO-639-1 Code sein (z.B. \"de\")");
+    }
+
+    const declaredSeconds = requestBody.duration_seconds;
+    if (declaredSeconds !== undefined && (typeof declaredSeconds !== "number" || !(declaredSeconds > 0))) {
+      return errorResponse(400, "'duration_seconds' muss eine positive Zahl sein");
+    }
+
+    // ========================================
+    // 2. Lead & Datei prüfen
+    // ========================================
+
+    const { data: lead, error: leadError } = await supabaseClient
+      .from("leads")
+      .select("id, audio_url, audio_duration_seconds")
+      .eq("id", requestBody.lead_id)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (leadError) {
+      console.error("Lead Lookup Error:", JSON.stringify(leadError));
+      return errorResponse(500, "Lead konnte nicht geladen werden");
+    }
+    if (!lead) {
+      return errorResponse(404, "Lead nicht gefunden");
+    }
+
+    const path = normalizeStoragePath(requestBody.path ?? lead.audio_url);
+    if (!path) {
+      return errorResponse(400, "'path' fehlt oder ist ungültig");
+    }
+    // Storage-Policy: Dateien liegen unter {user_id}/...
+    if (path.split("/")[0] !== user.id) {
+      return errorResponse(403, "Sprachmemo liegt nicht in deinem Ordner");
+    }
+
+    const speechConfig = loadSpeechConfig();
+    const configError = checkSpeechConfig(speechConfig);
+    if (configError) {
+      console.error("❌ Speech config invalid:", configError);
+      return errorResponse(500, configError);
+    }
+
+    const idempotencyKey = await getIdempotencyKey(req, requestBody);
+    if (!idempotencyKey) {
+      return errorResponse(400, "Ungültiger Idempotency-Key");
+    }
+
+    // Download mit User-Token – die Storage-Policy greift zusätzlich
+    const { data: audio, error: downloadError } = await supabaseClient.storage
+      .from(BUCKET)
+      .download(path);
+
+    if (downloadError || !audio) {
+      console.warn("Voice memo download failed:", downloadError?.message);
+      return errorResponse(404, "Sprachmemo nicht gefunden");
+    }
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return errorResponse(413, `Sprachmemo zu groß (max. ${MAX_AUDIO_BYTES / 1024 / 1024} MB)`);
+    }
+
+    const estimatedSeconds = declaredSeconds ?? lead.audio_duration_seconds ??
+      audio.size / ESTIMATED_BYTES_PER_SECOND;
+    if (estimatedSeconds > MAX_AUDIO_SECONDS) {
+      return errorResponse(413, `Sprachmemo zu lang (max. ${MAX_AUDIO_SECONDS / 60} Minuten)`);
+    }
+
+    // ========================================
+    // 3. Result Cache
+    // ========================================
+    // Dieselbe Datei wurde schon transkribiert → kein Credit
+
+    const cacheKey = await resultCacheKey({
+      functionName: FUNCTION_NAME,
+      promptVersion: PROMPT_VERSION,
+      input: {
+        audio_sha256: await sha256Hex(await audio.arrayBuffer()),
+        language: language ?? null,
+        stt_provider: speechConfig.provider,
+        stt_model: speechConfig.model,
+      },
+    });
+
+    if (!wantsFreshResult(requestBody)) {
+      const cached = await lookupCachedResult<TranscriptResult>(supabaseAdmin, user.id, FUNCTION_NAME, cacheKey);
+      if (cached) {
+        const saveError = await saveTranscript(supabaseClient, lead, cached);
+        if (saveError) {
+          return saveError;
+        }
+        return jsonResponse({
+          success: true,
+          lead_id: lead.id,
+          ...cached,
+          cached: true,
+          credits_charged: 0,
+          credits_remaining: await loadCreditsRemaining(supabaseAdmin, user.id),
+        });
+      }
+    }
+
+    const limited = await enforceRateLimit(supabaseAdmin, {
+      userId: user.id,
+      functionName: FUNCTION_NAME,
+      ip: clientIp(req),
+    });
+    if (limited) {
+      return limited;
+    }
+
+    // ========================================
+    // 4. Credits reservieren
+    // ========================================
+
+    const reserved = await reserveCredit(supabaseAdmin, {
+      userId: user.id,
+      functionName: FUNCTION_NAME,
+      idempotencyKey,
+      amount: creditsForDuration(estimatedSeconds),
+      // Lange Aufnahmen brauchen länger als die Standard-TTL
+      ttlSeconds: Math.ceil(speechConfig.timeoutMs / 1000) + 60,
+    });
+
+    switch (reserved.kind) {
+      case "replayed":
+        console.log(`Idempotent replay for ${FUNCTION_NAME} (${idempotencyKey})`);
+        return jsonResponse(reserved.body, reserved.status, { "Idempotent-Replayed": "true" });
+      case "in_progress":
+        return errorResponse(409, "Anfrage wird bereits verarbeitet. Bitte kurz warten.");
+      case "insufficient":
+        return errorResponse(403, reserved.message, { credits_remaining: 0 });
+      case "error":
+        return errorResponse(500, "Fehler beim Guthaben-Abzug");
+    }
+
+    try {
+      return await transcribeAndSettle(
+        supabaseClient,
+        supabaseAdmin,
+        reserved.reservation,
+        { lead, path, audio, language, estimatedSeconds, cacheKey, userId: user.id }
+      );
+    } catch (error) {
+      await releaseCredit(supabaseAdmin, reserved.reservation);
+      throw error;
+    }
+
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
+
+// ============================================
+// Transkription & Abrechnung
+// ============================================
+
+interface TranscribeJob {
+  lead: LeadRef;
+  path: string;
+  audio: Blob;
+  language: string | undefined;
+  estimatedSeconds: number;
+  cacheKey: string;
+  userId: string;
+}
+
+interface LeadRef {
+  id: string;
+  audio_duration_seconds: number | null;
+}
+
+async function transcribeAndSettle(
+  supabaseClient: SupabaseClient,
+  supabaseAdmin: SupabaseClient,
+  reservation: CreditReservation,
+  job: TranscribeJob
+): Promise<Response> {
+  let transcription: Transcription;
+  try {
+    transcription = await transcribeAudio(job.audio, {
+      filename: job.path.split("/").pop() || "memo.m4a",
+      language: job.language,
+    });
+  } catch (error) {
+    if (!(error instanceof SpeechError)) {
+      throw error;
+    }
+    await releaseCredit(supabaseAdmin, reservation);
+    console.error("❌ Transcription failed:", error.message);
+    // Zu große Datei bleibt ein Client-Fehler, auch wenn erst der Provider sie ablehnt
+    return errorResponse(error.status === 413 ? 413 : 500, `Transkription fehlgeschlagen: ${error.message}`);
+  }
+
+  if (!transcription.text) {
+    await releaseCredit(supabaseAdmin, reservation);
+    return errorResponse(422, "Keine Sprache erkannt");
+  }
+
+  const result: TranscriptResult = {
+    transcript: transcription.text,
+    language: transcription.language,
+    duration_seconds: Math.round((transcription.durationSeconds ?? job.estimatedSeconds) * 10) / 10,
+    segments: transcription.segments,
+    provider: transcription.provider,
+    model: transcription.model,
+  };
+
+  const saveError = await saveTranscript(supabaseClient, job.lead, result);
+  if (saveError) {
+    await releaseCredit(supabaseAdmin, reservation);
+    return saveError;
+  }
+
+  // Abgerechnet wird die gemessene Dauer – auch wenn die Angabe abwich
+  const responseBody = { success: true, lead_id: job.lead.id, ...result };
+  const settled = await settleCredit(
+    supabaseAdmin,
+    reservation,
+    creditsForDuration(result.duration_seconds),
+    200,
+    responseBody
+  );
+  await storeCachedResult(supabaseAdmin, job.userId, FUNCTION_NAME, job.cacheKey, result);
+
+  return jsonResponse({
+    ...responseBody,
+    // Settle fehlgeschlagen → Reservierung verfällt und wird erstattet
+    credits_charged: settled?.charged ?? 0,
+    credits_remaining: settled?.creditsRemaining ?? await loadCreditsRemaining(supabaseAdmin, job.userId),
+  });
+}
+
+/**
+ * Schreibt Transkript, Sprache und Segmente an den Lead (RLS über User-Token).
+ * updated_at setzt der Trigger, damit sync-leads die Änderung verteilt.
+ */
+async function saveTranscript(
+  supabaseClient: SupabaseClient,
+  lead: LeadRef,
+  result: TranscriptResult
+): Promise<Response | null> {
+  const { error } = await supabaseClient
+    .from("leads")
+    .update({
+      transcript: result.transcript,
+      transcript_language: result.language,
+      transcript_segments: result.segments,
+      transcribed_at: new Date().toISOString(),
+      ...(lead.audio_duration_seconds ? {} : { audio_duration_seconds: Math.round(result.duration_seconds) }),
+    })
+    .eq("id", lead.id);
+
+  if (error) {
+    console.error("Lead Update Error:", JSON.stringify(error));
+    return errorResponse(500, "Transkript konnte nicht gespeichert werden");
+  }
+  return null;
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function creditsForDuration(seconds: number): number {
+  return Math.max(1, Math.ceil(seconds / SECONDS_PER_CREDIT));
+}
+
+/**
+ * Storage-Pfad im Bucket: "voice-memos/" davor ist erlaubt, ".." nicht
+ */
+function normalizeStoragePath(raw: unknown): string | null {
+  if (typeof raw !== "string") {
+    return null;
+  }
+  const path = raw.trim().replace(/^\/+/, "").replace(new RegExp(`^${BUCKET}/`), "");
+  if (!path || path.length > 500 || path.split("/").some((part) => !part || part === "." || part === "..")) {
+    return null;
+  }
+  return path;
+}
@@ -0,0 +1,192 @@
+// ============================================
+// MesseMemo Verify Purchase Edge Function
+// Version: 1.0 (StoreKit 2 + App Store Server Notifications V2)
+// ============================================
+//
+// Zwei Aufrufer, ein Endpoint:
+//   - App:   { signed_transaction }  (mit User-JWT) nach einem Kauf
+//   - Apple: { signedPayload }       (ohne JWT) als Server Notification V2
+//
+// Beide JWS werden gegen die konfigurierten Apple-Root-Zertifikate geprüft
+// und per RPC gebucht (_shared/app-store.ts, migrations/009_app_store_purchases.sql).
+// Deploy mit --no-verify-jwt, damit Apple den Endpoint erreicht.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { authenticate, createAdminClient } from "../_shared/supabase.ts";
+import {
+  AppStoreConfig,
+  AppStoreVerificationError,
+  applyTransaction,
+  loadAppStoreConfig,
+  NotificationPayload,
+  processNotification,
+  TransactionPayload,
+  verifyNotification,
+  verifySignedTransaction,
+} from "../_shared/app-store.ts";
+
+const FUNCTION_NAME = "verify-purchase";
+
+// ============================================
+// Main Handler
+// ============================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse(405, "Methode nicht erlaubt");
+  }
+
+  try {
+    let config: AppStoreConfig;
+    try {
+      config = loadAppStoreConfig();
+    } catch (configError) {
+      console.error("App Store Config Error:", configError);
+      return errorResponse(500, "App-Store-Prüfung nicht konfiguriert");
+    }
+
+    let requestBody;
+    try {
+      requestBody = await req.json();
+    } catch (parseError) {
+      console.error("JSON Parse Error:", parseError);
+      return errorResponse(400, "Ungültiger Request-Body");
+    }
+
+    // Server Notification V2 von Apple
+    if (typeof requestBody?.signedPayload === "string") {
+      const supabaseAdmin = createAdminClient();
+      if (!supabaseAdmin) {
+        return errorResponse(500, "Server-Konfiguration fehlerhaft");
+      }
+      return await handleNotification(supabaseAdmin, config, requestBody.signedPayload);
+    }
+
+    // Kauf aus der App
+    if (typeof requestBody?.signed_transaction !== "string") {
+      return errorResponse(400, "'signed_transaction' oder 'signedPayload' erforderlich");
+    }
+
+    const auth = await authenticate(req);
+    if (auth instanceof Response) {
+      return auth;
+    }
+
+    return await handlePurchase(auth.supabaseAdmin, auth.user.id, config, requestBody.signed_transaction);
+
+  } catch (error) {
+    console.error("Unhandled Error:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(500, `Interner Serverfehler: ${errorMessage}`);
+  }
+});
+
+// ============================================
+// Kauf aus der App
+// ============================================
+
+async function handlePurchase(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  config: AppStoreConfig,
+  signedTransaction: string
+): Promise<Response> {
+  let transaction: TransactionPayload;
+  try {
+    transaction = await verifySignedTransaction(signedTransaction, config);
+  } catch (error) {
+    return verificationError(error);
+  }
+
+  // appAccountToken setzt die App beim Kauf auf die User-ID
+  if (transaction.appAccountToken && transaction.appAccountToken.toLowerCase() !== userId.toLowerCase()) {
+    return errorResponse(403, "Kauf gehört zu einem anderen Konto");
+  }
+
+  const product = config.products[transaction.productId];
+  if (!product) {
+    return errorResponse(400, `Unbekanntes Produkt: ${transaction.productId}`);
+  }
+
+  const result = await applyTransaction(supabaseAdmin, userId, transaction, config, FUNCTION_NAME);
+
+  const state = {
+    status: result.status,
+    product_id: transaction.productId,
+    transaction_id: transaction.transactionId,
+    is_premium: result.is_premium,
+    premium_expires_at: result.premium_expires_at,
+    credits_remaining: result.credits_remaining,
+  };
+
+  switch (result.status) {
+    case "forbidden":
+      return errorResponse(403, "Kauf gehört zu einem anderen Konto");
+    case "duplicate":
+      // Die App kann die Transaktion trotzdem abschließen (Transaction.finish)
+      return errorResponse(409, "Kauf wurde bereits verbucht", state);
+    case "revoked":
+      return errorResponse(410, "Kauf wurde erstattet", state);
+  }
+
+  return jsonResponse({
+    success: true,
+    ...state,
+    credits_added: product.kind === "credits" ? product.credits : 0,
+  });
+}
+
+// ============================================
+// App Store Server Notifications V2
+// ============================================
+// Apple wiederholt eine Notification, bis sie mit 2xx beantwortet wird.
+// Fehler beim Buchen → 500, damit Apple es erneut versucht.
+
+async function handleNotification(
+  supabaseAdmin: SupabaseClient,
+  config: AppStoreConfig,
+  signedPayload: string
+): Promise<Response> {
+  let notification: NotificationPayload;
+  let transaction: TransactionPayload | null = null;
+  try {
+    notification = await verifyNotification(signedPayload, config);
+    if (notification.data?.signedTransactionInfo) {
+      transaction = await verifySignedTransaction(notification.data.signedTransactionInfo, config);
+    }
+  } catch (error) {
+    return verificationError(error);
+  }
+
+  const type = notification.notificationType;
+  console.log(`App Store Notification ${type}/${notification.subtype ?? "-"} (${notification.notificationUUID})`);
+
+  const result = await processNotification(supabaseAdmin, config, notification, transaction, FUNCTION_NAME);
+  if ("error" in result) {
+    return errorResponse(500, result.error);
+  }
+  if (result.duplicate) {
+    return jsonResponse({ success: true, duplicate: true });
+  }
+
+  return jsonResponse({ success: true, notification_type: type, outcome: result.outcome });
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function verificationError(error: unknown): Response {
+  if (error instanceof AppStoreVerificationError) {
+    console.warn("App Store Verification Failed:", error.message);
+    return errorResponse(400, `Kauf konnte nicht verifiziert werden: ${error.message}`);
+  }
+  throw error;
+}
@@ -149,8 +149,10 @@ final class SubscriptionManager: ObservableObject {
         // TODO: StoreKit 2 Implementation für Credit-Packs
         // 1. Produkt laden via StoreKit
         // 2. Kauf durchführen
-        // 3. Receipt validieren (serverseitig)
-        // 4. Credits in profiles Tabelle hinzufügen
+        //    (appAccountToken = User-ID, damit der Server den Kauf zuordnen kann)
+        // 3. transaction.jwsRepresentation an Edge Function verify-purchase schicken
+        //    → Server prüft die Signatur und schreibt die Credits gut
+        // 4. transaction.finish() (auch bei 409 = bereits verbucht)
         
         throw SubscriptionError.notImplemented
     }
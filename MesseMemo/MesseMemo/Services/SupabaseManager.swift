@@ -308,23 +308,26 @@ final class SupabaseManager: ObservableObject {
     // ============================================
     
     /// Generiert eine Follow-Up E-Mail via Edge Function
-    /// Verbraucht 1 Credit bei Erfolg
-    /// - Returns: Generierte E-Mail mit Betreff und Body, sowie verbleibende Credits
+    /// Verbraucht 1 Credit bei Erfolg (auch bei mehreren Varianten)
+    /// - Parameter variants: Anzahl alternativer Varianten (1–3)
+    /// - Returns: Generierte E-Mail mit Betreff und Body, alle Varianten sowie verbleibende Credits
     func generateEmail(
         name: String,
         company: String,
-        transcript: String
+        transcript: String,
+        variants: Int = 1
     ) async throws -> GeneratedEmailResult {
         guard isAuthenticated else {
             throw SupabaseError.notAuthenticated
         }
         
         // Request Body erstellen
-        let requestBody: [String: String] = [
-            "name": name,
-            "company": company,
-            "transcript": transcript
-        ]
+        let requestBody = GenerateEmailRequest(
+            name: name,
+            company: company,
+            transcript: transcript,
+            variants: variants
+        )
         
         // Edge Function aufrufen (prüft Credits serverseitig)
         let response: GenerateEmailResponse = try await client.functions.invoke(
@@ -353,8 +356,20 @@ final class SupabaseManager: ObservableObject {
             }
         }
         
+        let primary = GeneratedEmail(subject: subject, body: email)
+        let variantEmails = response.variants?.map { variant in
+            GeneratedEmail(
+                subject: variant.subject,
+                body: variant.email,
+                label: variant.label,
+                callToAction: variant.callToAction,
+                followUpDate: variant.followUpDate
+            )
+        } ?? []
+        
         return GeneratedEmailResult(
-            email: GeneratedEmail(subject: subject, body: email),
+            email: variantEmails.first ?? primary,
+            variants: variantEmails.isEmpty ? [primary] : variantEmails,
             creditsRemaining: response.creditsRemaining ?? (currentCredits - 1)
         )
     }
@@ -469,11 +484,20 @@ struct UserProfile: Codable {
     }
 }
 
+/// Request an generate-email Edge Function
+struct GenerateEmailRequest: Encodable {
+    let name: String
+    let company: String
+    let transcript: String
+    let variants: Int
+}
+
 /// Response von generate-email Edge Function
 struct GenerateEmailResponse: Codable {
     let success: Bool
     let email: String?
     let subject: String?
+    let variants: [EmailVariantResponse]?
     let error: String?
     let creditsRemaining: Int?
     
@@ -481,20 +505,46 @@ struct GenerateEmailResponse: Codable {
         case success
         case email
         case subject
+        case variants
         case error
         case creditsRemaining = "credits_remaining"
     }
 }
 
+/// Eine Variante aus der generate-email Response
+struct EmailVariantResponse: Codable {
+    let label: String
+    let subject: String
+    let email: String
+    let callToAction: String?
+    let followUpDate: String?
+    
+    enum CodingKeys: String, CodingKey {
+        case label
+        case subject
+        case email
+        case callToAction = "call_to_action"
+        case followUpDate = "follow_up_date"
+    }
+}
+
 /// Generierte E-Mail
-struct GeneratedEmail {
+struct GeneratedEmail: Identifiable {
+    let id = UUID()
     let subject: String
     let body: String
+    /// Kurzbeschreibung der Variante, z.B. "Kurz & direkt"
+    var label: String = ""
+    var callToAction: String?
+    /// Vorgeschlagenes Follow-up Datum (YYYY-MM-DD)
+    var followUpDate: String?
 }
 
 /// Ergebnis der E-Mail-Generierung inkl. Credits
 struct GeneratedEmailResult {
     let email: GeneratedEmail
+    /// Alle Varianten (mindestens eine)
+    let variants: [GeneratedEmail]
     let creditsRemaining: Int
 }
 
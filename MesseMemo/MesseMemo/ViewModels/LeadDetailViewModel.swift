@@ -35,6 +35,8 @@ final class LeadDetailViewModel: ObservableObject {
     @Published var isGeneratingEmail = false
     @Published var showAIMailComposer = false
     @Published var generatedAIEmail: GeneratedEmail?
+    @Published var aiEmailVariants: [GeneratedEmail] = []
+    @Published var showVariantPicker = false
     
     // Original Image
     @Published var originalImage: UIImage?
@@ -281,8 +283,11 @@ final class LeadDetailViewModel: ObservableObject {
     
     // MARK: - AI Email Generation
     
+    /// Anzahl der Varianten pro Generierung (kurz vs. ausführlich)
+    private let aiEmailVariantCount = 2
+    
     /// Generiert eine KI-basierte Follow-Up E-Mail
-    /// Verbraucht 1 Credit bei Erfolg
+    /// Verbraucht 1 Credit bei Erfolg – der User wählt danach eine der Varianten
     func generateAIEmail() async {
         isGeneratingEmail = true
         
@@ -295,11 +300,19 @@ final class LeadDetailViewModel: ObservableObject {
             let result = try await SupabaseManager.shared.generateEmail(
                 name: lead.name,
                 company: lead.company,
-                transcript: lead.transcript ?? lead.notes
+                transcript: lead.transcript ?? lead.notes,
+                variants: aiEmailVariantCount
             )
             
-            generatedAIEmail = result.email
-            showAIMailComposer = true
+            aiEmailVariants = result.variants
+            if result.variants.count > 1 {
+                // Auswahl anzeigen, Composer öffnet sich nach der Auswahl
+                generatedAIEmail = nil
+                showVariantPicker = true
+            } else {
+                generatedAIEmail = result.email
+                showAIMailComposer = true
+            }
             
             // Erfolgs-Feedback
             let successGenerator = UINotificationFeedbackGenerator()
@@ -338,6 +351,19 @@ final class LeadDetailViewModel: ObservableObject {
         isGeneratingEmail = false
     }
     
+    /// Übernimmt die gewählte Variante (Composer öffnet nach dem Schließen der Auswahl)
+    func selectEmailVariant(_ variant: GeneratedEmail) {
+        generatedAIEmail = variant
+        showVariantPicker = false
+    }
+    
+    /// Wird beim Schließen der Varianten-Auswahl aufgerufen
+    func variantPickerDismissed() {
+        if generatedAIEmail != nil {
+            showAIMailComposer = true
+        }
+    }
+    
     // MARK: - Original Image
     
     /// Lädt das Originalbild der Visitenkarte asynchron
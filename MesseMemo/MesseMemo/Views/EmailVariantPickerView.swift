@@ -0,0 +1,115 @@
+//
+//  EmailVariantPickerView.swift
+//  MesseMemo
+//
+//  Created by Jarno Kibies on 19.10.26.
+//
+
+import SwiftUI
+
+/// Auswahl zwischen mehreren KI-generierten E-Mail-Varianten
+/// Alle Varianten stammen aus einem Call – die Auswahl kostet keine weiteren Credits
+struct EmailVariantPickerView: View {
+
+    // MARK: - Properties
+
+    let variants: [GeneratedEmail]
+    let onSelect: (GeneratedEmail) -> Void
+
+    @Environment(\.dismiss) private var dismiss
+
+    // MARK: - Body
+
+    var body: some View {
+        NavigationStack {
+            List {
+                ForEach(variants) { variant in
+                    Section {
+                        Button {
+                            onSelect(variant)
+                        } label: {
+                            variantRow(variant)
+                        }
+                        .buttonStyle(.plain)
+                    } header: {
+                        Text(variant.label.isEmpty ? "Variante" : variant.label)
+                    }
+                }
+            }
+            .navigationTitle("Variante wählen")
+            .navigationBarTitleDisplayMode(.inline)
+            .toolbar {
+                ToolbarItem(placement: .cancellationAction) {
+                    Button("Abbrechen") {
+                        dismiss()
+                    }
+                }
+            }
+        }
+    }
+
+    // MARK: - Variant Row
+
+    private func variantRow(_ variant: GeneratedEmail) -> some View {
+        VStack(alignment: .leading, spacing: 8) {
+            Text(variant.subject)
+                .font(.headline)
+
+            Text(variant.body)
+                .font(.subheadline)
+                .foregroundStyle(.secondary)
+                .lineLimit(6)
+
+            if let callToAction = variant.callToAction, !callToAction.isEmpty {
+                Label(callToAction, systemImage: "hand.point.right")
+                    .font(.caption)
+                    .foregroundStyle(.purple)
+            }
+
+            if let followUp = formattedFollowUpDate(variant.followUpDate) {
+                Label("Nachfassen am \(followUp)", systemImage: "calendar")
+                    .font(.caption)
+                    .foregroundStyle(.secondary)
+            }
+        }
+        .padding(.vertical, 4)
+        .contentShape(Rectangle())
+    }
+
+    // MARK: - Helper
+
+    /// "2026-10-24" → "24.10.2026" (lokalisiert)
+    private func formattedFollowUpDate(_ value: String?) -> String? {
+        guard let value = value else { return nil }
+
+        let parser = DateFormatter()
+        parser.dateFormat = "yyyy-MM-dd"
+        parser.locale = Locale(identifier: "en_US_POSIX")
+        parser.timeZone = .current
+
+        guard let date = parser.date(from: value) else { return nil }
+        return date.formatted(date: .abbreviated, time: .omitted)
+    }
+}
+
+// MARK: - Preview
+
+#Preview {
+    EmailVariantPickerView(
+        variants: [
+            GeneratedEmail(
+                subject: "Schön, Sie kennengelernt zu haben",
+                body: "Sehr geehrter Herr Mustermann,\n\nvielen Dank für das nette Gespräch…",
+                label: "Kurz & direkt",
+                callToAction: "Termin für eine Demo vereinbaren",
+                followUpDate: "2026-10-24"
+            ),
+            GeneratedEmail(
+                subject: "Unser Gespräch auf der Messe – nächste Schritte",
+                body: "Sehr geehrter Herr Mustermann,\n\nwie besprochen sende ich Ihnen…",
+                label: "Ausführlich"
+            )
+        ],
+        onSelect: { _ in }
+    )
+}
@@ -103,6 +103,14 @@ struct LeadDetailView: View {
         .sheet(isPresented: $showPaywall) {
             PaywallView(triggerFeature: paywallTriggerFeature)
         }
+        .sheet(isPresented: $viewModel.showVariantPicker, onDismiss: {
+            viewModel.variantPickerDismissed()
+        }) {
+            EmailVariantPickerView(
+                variants: viewModel.aiEmailVariants,
+                onSelect: { viewModel.selectEmailVariant($0) }
+            )
+        }
         .sheet(isPresented: $viewModel.showAIMailComposer) {
             if viewModel.canSendMail, let aiMail = viewModel.generatedAIEmail {
                 MailComposerView(